@@ -1,7 +1,15 @@
 import { ipcMain, app } from 'electron';
+import { METRIC_PATHS } from '@openclaw/gateway-monitor';
+import type { OpenClawMonitor } from '@openclaw/gateway-monitor';
+
+/** Access to main-process state that is replaced while the app runs. */
+export interface IpcContext {
+  /** The running monitor (recreated after unpairing) */
+  getMonitor: () => OpenClawMonitor | null;
+}
 
 /** Register all IPC handlers for renderer → main communication. */
-export function registerIpcHandlers(): void {
+export function registerIpcHandlers(context: IpcContext): void {
   ipcMain.handle('app:quit', () => {
     app.quit();
   });
@@ -14,4 +22,18 @@ export function registerIpcHandlers(): void {
   ipcMain.handle('app:get-auto-launch', () => {
     return app.getLoginItemSettings().openAtLogin;
   });
+
+  // Alert rule editor: rules are saved to monitor.json and applied by the
+  // running monitor without a restart
+  ipcMain.handle('alert-rules:list', () => {
+    return context.getMonitor()?.getAlertRules() ?? [];
+  });
+
+  ipcMain.handle('alert-rules:save', (_e, rules: unknown) => {
+    const monitor = context.getMonitor();
+    if (!monitor) return { rules: [], errors: ['Gateway is not running'] };
+    return monitor.setAlertRules(rules);
+  });
+
+  ipcMain.handle('alert-rules:metrics', () => [...METRIC_PATHS]);
 }
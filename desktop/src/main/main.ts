@@ -5,9 +5,11 @@
 
 import { app, ipcMain } from 'electron';
 import { OpenClawMonitor } from '@openclaw/gateway-monitor';
+import type { UsageQuery, AlertNotification } from '@openclaw/gateway-monitor';
 import QRCode from 'qrcode';
 import { createTray, updateTrayTooltip, getDropdownWindow } from './tray.js';
 import { registerIpcHandlers } from './ipc-handlers.js';
+import { showAlertNotification, closeAlertNotification, SNOOZE_MINUTES } from './notifications.js';
 
 // Hide dock icon — menu bar only
 app.dock?.hide();
@@ -28,7 +30,9 @@ app.whenReady().then(async () => {
   const { window: dropdownWindow } = createTray();
 
   // 2. Register IPC handlers
-  registerIpcHandlers();
+  registerIpcHandlers({
+    getMonitor: () => monitor,
+  });
 
   // 3. Pull handler: renderer requests latest pair data after it loads
   ipcMain.handle('pair:get', () => latestPairData);
@@ -37,6 +41,7 @@ app.whenReady().then(async () => {
   ipcMain.handle('pair:unpair', async () => {
     console.log('[Desktop] Unpair requested by user.');
     if (monitor) {
+      monitor.forgetPairedApps();
       await monitor.stop();
       monitor = null;
     }
@@ -54,7 +59,17 @@ app.whenReady().then(async () => {
     }
   });
 
-  // 5. Create and start the gateway monitor
+  // 5. Usage time-series handler: renderer requests data for spend charts
+  ipcMain.handle('usage:query', (_e, query: UsageQuery) => {
+    return monitor?.getTracker()?.queryUsage(query) ?? null;
+  });
+
+  // 6. Alert handlers: history for the Alerts section, acknowledge and snooze
+  ipcMain.handle('alerts:list', () => monitor?.getAlertHistory() ?? []);
+  ipcMain.handle('alerts:acknowledge', (_e, alertId: string) => acknowledgeAlert(alertId));
+  ipcMain.handle('alerts:snooze', (_e, alertId: string, ruleId: string) => snoozeAlert(alertId, ruleId));
+
+  // 7. Create and start the gateway monitor
   try {
     monitor = new OpenClawMonitor();
     wireMonitorHooks(monitor);
@@ -92,8 +107,8 @@ function sendPairCode(code: string, expiresAt: number): void {
   }
 }
 
-function generateAndSendQR(code: string, expiresAt: number): void {
-  const qrPayload = JSON.stringify({ code, relay: 'wss://relay.clawface.app/gateway' });
+/** Render the pairing QR code (code, relay URL and encryption key) for the dropdown. */
+function generateAndSendQR(code: string, expiresAt: number, qrPayload: string): void {
   QRCode.toDataURL(qrPayload, {
     width: 160,
     margin: 1,
@@ -119,6 +134,18 @@ function wireMonitorHooks(m: OpenClawMonitor): void {
     updateTrayTooltip(status.system.cpu.usage, status.system.memory.usagePercent);
   });
 
+  // Native notification for every triggered alert rule
+  m.setAlertListener((alert) => {
+    const win = getDropdownWindow();
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('alert:new', alert);
+    }
+    showAlertNotification(alert, {
+      onAcknowledge: (a) => acknowledgeAlert(a.id),
+      onSnooze: (a) => snoozeAlert(a.id, a.ruleId),
+    });
+  });
+
   // Listen for paired state changes (fires when iOS device pairs/unpairs via relay)
   m.setPairedStateListener((paired) => {
     console.log(`[Desktop] Paired state changed: ${paired}`);
@@ -130,7 +157,7 @@ function wireMonitorHooks(m: OpenClawMonitor): void {
     console.log(`[Desktop] Pair code received: ${code}`);
     latestPairData = { code, expiresAt, qrDataUrl: '' };
     sendPairCode(code, expiresAt);
-    generateAndSendQR(code, expiresAt);
+    generateAndSendQR(code, expiresAt, m.getPairManager().getQrPayload(code));
   });
 
   m.setOnUnpair(() => {
@@ -146,6 +173,27 @@ function wireMonitorHooks(m: OpenClawMonitor): void {
   });
 }
 
+/** Acknowledge an alert in the monitor and refresh the renderer's history. */
+function acknowledgeAlert(alertId: string): AlertNotification | null {
+  const alert = monitor?.acknowledgeAlert(alertId) ?? null;
+  closeAlertNotification(alertId);
+  sendAlertHistory();
+  return alert;
+}
+
+/** Acknowledge an alert and silence its rule for SNOOZE_MINUTES. */
+function snoozeAlert(alertId: string, ruleId: string): AlertNotification | null {
+  monitor?.snoozeAlertRule(ruleId, SNOOZE_MINUTES);
+  return acknowledgeAlert(alertId);
+}
+
+function sendAlertHistory(): void {
+  const win = getDropdownWindow();
+  if (win && !win.isDestroyed()) {
+    win.webContents.send('alerts:history', monitor?.getAlertHistory() ?? []);
+  }
+}
+
 function sendGatewayState(running: boolean, relayConnected: boolean): void {
   const win = getDropdownWindow();
   if (win && !win.isDestroyed()) {
@@ -0,0 +1,73 @@
+import { Notification } from 'electron';
+import type { AlertNotification, AlertSeverity } from '@openclaw/gateway-monitor';
+
+/** How long the Snooze action silences a rule, in minutes */
+export const SNOOZE_MINUTES = 60;
+
+/** macOS system sound played for each severity (undefined = silent) */
+const SEVERITY_SOUNDS: Record<AlertSeverity, string | undefined> = {
+  info: undefined,
+  warning: 'Ping',
+  critical: 'Sosumi',
+};
+
+/** Title prefix for each severity */
+const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  info: 'Info',
+  warning: 'Warning',
+  critical: 'Critical',
+};
+
+/** Callbacks for the notification action buttons */
+export interface AlertNotificationActions {
+  onAcknowledge: (alert: AlertNotification) => void;
+  onSnooze: (alert: AlertNotification) => void;
+}
+
+/**
+ * Notifications still on screen. Electron drops the action handlers of
+ * notifications that get garbage-collected, so keep a reference until closed.
+ */
+const activeNotifications = new Map<string, Notification>();
+
+/** Show a native notification for a triggered alert. */
+export function showAlertNotification(alert: AlertNotification, actions: AlertNotificationActions): void {
+  if (!Notification.isSupported()) return;
+
+  const sound = SEVERITY_SOUNDS[alert.severity];
+  const notification = new Notification({
+    title: `${SEVERITY_LABELS[alert.severity]}: ${alert.ruleName}`,
+    body: `Value ${formatValue(alert.currentValue)} (threshold ${formatValue(alert.threshold)})`,
+    silent: sound === undefined,
+    sound,
+    urgency: alert.severity === 'critical' ? 'critical' : 'normal',
+    timeoutType: alert.severity === 'critical' ? 'never' : 'default',
+    // Action buttons are shown on macOS only; elsewhere use the Alerts section
+    actions: [
+      { type: 'button', text: 'Acknowledge' },
+      { type: 'button', text: `Snooze ${SNOOZE_MINUTES / 60}h` },
+    ],
+  });
+
+  notification.on('action', (_e, index) => {
+    if (index === 0) actions.onAcknowledge(alert);
+    else if (index === 1) actions.onSnooze(alert);
+  });
+  notification.on('close', () => {
+    activeNotifications.delete(alert.id);
+  });
+
+  activeNotifications.set(alert.id, notification);
+  notification.show();
+}
+
+/** Close the notification of an alert acknowledged elsewhere (e.g. in the dropdown). */
+export function closeAlertNotification(alertId: string): void {
+  activeNotifications.get(alertId)?.close();
+  activeNotifications.delete(alertId);
+}
+
+/** Format a metric value with at most two decimals. */
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
@@ -12,9 +12,22 @@ contextBridge.exposeInMainWorld('clawface', {
   onPairCode: (cb) => {
     ipcRenderer.on('pair:code', (_e, data) => cb(data));
   },
+  onAlert: (cb) => {
+    ipcRenderer.on('alert:new', (_e, alert) => cb(alert));
+  },
+  onAlertHistory: (cb) => {
+    ipcRenderer.on('alerts:history', (_e, history) => cb(history));
+  },
 
   // Request channels: renderer → main
   getPairData: () => ipcRenderer.invoke('pair:get'),
+  queryUsage: (query) => ipcRenderer.invoke('usage:query', query),
+  getAlerts: () => ipcRenderer.invoke('alerts:list'),
+  acknowledgeAlert: (alertId) => ipcRenderer.invoke('alerts:acknowledge', alertId),
+  snoozeAlert: (alertId, ruleId) => ipcRenderer.invoke('alerts:snooze', alertId, ruleId),
+  getAlertRules: () => ipcRenderer.invoke('alert-rules:list'),
+  saveAlertRules: (rules) => ipcRenderer.invoke('alert-rules:save', rules),
+  getAlertMetrics: () => ipcRenderer.invoke('alert-rules:metrics'),
   unpair: () => ipcRenderer.invoke('pair:unpair'),
   quitApp: () => ipcRenderer.invoke('app:quit'),
   toggleAutoLaunch: (enabled) => ipcRenderer.invoke('app:toggle-auto-launch', enabled),
@@ -38,6 +38,22 @@ const aiProvidersContainer = $('ai-providers-container');
 const aiMonth = $('ai-month');
 const aiRequests = $('ai-requests');
 
+// DOM refs — Alerts expandable
+const alertsSection = $('alerts-section');
+const alertsHeader = $('alerts-header');
+const alertsSummary = $('alerts-summary');
+const alertsContainer = $('alerts-container');
+
+// DOM refs — Alert Rules editor
+const rulesSection = $('rules-section');
+const rulesHeader = $('rules-header');
+const rulesSummary = $('rules-summary');
+const rulesContainer = $('rules-container');
+const rulesError = $('rules-error');
+const ruleAdd = $('rule-add');
+const ruleForm = $('rule-form');
+const metricOptions = $('metric-options');
+
 // DOM refs — pairing
 const pairingSection = $('pairing-section');
 const pairCodeEl = $('pair-code');
@@ -47,6 +63,18 @@ const unpairBtn = $('unpair-btn');
 
 let isPaired = false;
 
+/** Alert history from the monitor, newest first */
+let alertHistory = [];
+
+/** Rows shown in the Alerts section (the monitor keeps more) */
+const MAX_ALERT_ROWS = 20;
+
+/** Alert rules as saved in the gateway config */
+let alertRules = [];
+
+/** Id of the rule being edited in the form, or null when adding one */
+let editingRuleId = null;
+
 // --- Expand / collapse ---
 
 openclawHeader.addEventListener('click', () => {
@@ -57,6 +85,15 @@ aiHeader.addEventListener('click', () => {
   aiSection.classList.toggle('expanded');
 });
 
+alertsHeader.addEventListener('click', () => {
+  alertsSection.classList.toggle('expanded');
+});
+
+rulesHeader.addEventListener('click', () => {
+  rulesSection.classList.toggle('expanded');
+  if (rulesSection.classList.contains('expanded')) loadAlertRules();
+});
+
 // --- Helpers ---
 
 function setBar(barEl, valueEl, percent) {
@@ -270,9 +307,252 @@ function updateAiUsage(ai) {
   }
 }
 
+// --- Alerts ---
+
+function formatAlertTime(iso) {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return sameDay ? time : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}`;
+}
+
+function formatAlertValue(value) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function renderAlerts() {
+  const open = alertHistory.filter((a) => !a.acknowledged);
+  alertsSummary.textContent = open.length > 0 ? `${open.length} new` : alertHistory.length > 0 ? 'All clear' : 'None';
+  alertsSummary.classList.toggle('critical', open.some((a) => a.severity === 'critical'));
+
+  clearChildren(alertsContainer);
+  if (alertHistory.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'alerts-empty';
+    empty.textContent = 'No alerts triggered';
+    alertsContainer.appendChild(empty);
+    return;
+  }
+
+  for (const alert of alertHistory.slice(0, MAX_ALERT_ROWS)) {
+    const row = document.createElement('div');
+    row.className = `alert-row${alert.acknowledged ? ' acknowledged' : ''}`;
+
+    const header = document.createElement('div');
+    header.className = 'alert-header';
+
+    const dot = document.createElement('span');
+    dot.className = `severity-dot ${alert.severity}`;
+    header.appendChild(dot);
+
+    const name = document.createElement('span');
+    name.className = 'alert-name';
+    name.textContent = alert.ruleName;
+    header.appendChild(name);
+
+    const time = document.createElement('span');
+    time.className = 'alert-time';
+    time.textContent = formatAlertTime(alert.triggeredAt);
+    header.appendChild(time);
+
+    row.appendChild(header);
+
+    const detail = document.createElement('div');
+    detail.className = 'alert-detail';
+
+    const value = document.createElement('span');
+    value.className = 'alert-value';
+    value.textContent = `${formatAlertValue(alert.currentValue)} (threshold ${formatAlertValue(alert.threshold)})`;
+    detail.appendChild(value);
+
+    if (!alert.acknowledged) {
+      const ack = document.createElement('span');
+      ack.className = 'alert-action';
+      ack.textContent = 'Acknowledge';
+      ack.addEventListener('click', () => {
+        window.clawface.acknowledgeAlert(alert.id);
+      });
+      detail.appendChild(ack);
+
+      const snooze = document.createElement('span');
+      snooze.className = 'alert-action';
+      snooze.textContent = 'Snooze 1h';
+      snooze.addEventListener('click', () => {
+        window.clawface.snoozeAlert(alert.id, alert.ruleId);
+      });
+      detail.appendChild(snooze);
+    }
+
+    row.appendChild(detail);
+    alertsContainer.appendChild(row);
+  }
+}
+
+function handleAlertHistory(history) {
+  alertHistory = history || [];
+  renderAlerts();
+}
+
+window.clawface.onAlert((alert) => {
+  alertHistory = [alert, ...alertHistory.filter((a) => a.id !== alert.id)];
+  renderAlerts();
+});
+window.clawface.onAlertHistory(handleAlertHistory);
+window.clawface.getAlerts().then(handleAlertHistory).catch(() => {});
+
+// --- Alert rules editor ---
+
+const OPERATOR_SYMBOLS = { gt: '>', gte: '\u2265', lt: '<', lte: '\u2264', eq: '=', neq: '\u2260' };
+
+function describeRule(rule) {
+  let text = `${rule.metric} ${OPERATOR_SYMBOLS[rule.operator]} ${rule.threshold}`;
+  if (rule.durationSeconds > 0) text += ` for ${rule.durationSeconds}s`;
+  return text;
+}
+
+function loadAlertRules() {
+  window.clawface.getAlertRules().then((rules) => {
+    alertRules = rules || [];
+    renderAlertRules();
+  }).catch(() => {});
+}
+
+/** Save the full list of rules; the monitor applies it right away. */
+async function saveAlertRules(rules) {
+  rulesError.textContent = '';
+  const result = await window.clawface.saveAlertRules(rules);
+  if (result.errors.length > 0) {
+    rulesError.textContent = result.errors.join('\n');
+    return false;
+  }
+  alertRules = result.rules;
+  renderAlertRules();
+  return true;
+}
+
+function renderAlertRules() {
+  const enabled = alertRules.filter((r) => r.enabled).length;
+  rulesSummary.textContent = alertRules.length > 0 ? `${enabled} of ${alertRules.length} on` : 'None';
+
+  clearChildren(rulesContainer);
+  for (const rule of alertRules) {
+    const row = document.createElement('div');
+    row.className = `rule-row${rule.enabled ? '' : ' disabled'}`;
+
+    const header = document.createElement('div');
+    header.className = 'rule-header';
+
+    const toggle = document.createElement('input');
+    toggle.type = 'checkbox';
+    toggle.className = 'rule-toggle';
+    toggle.checked = rule.enabled;
+    toggle.title = rule.enabled ? 'Disable rule' : 'Enable rule';
+    toggle.addEventListener('change', () => {
+      saveAlertRules(alertRules.map((r) => (r.id === rule.id ? { ...r, enabled: toggle.checked } : r)));
+    });
+    header.appendChild(toggle);
+
+    const dot = document.createElement('span');
+    dot.className = `severity-dot ${rule.severity}`;
+    header.appendChild(dot);
+
+    const name = document.createElement('span');
+    name.className = 'alert-name';
+    name.textContent = rule.name;
+    header.appendChild(name);
+
+    const edit = document.createElement('span');
+    edit.className = 'alert-action';
+    edit.textContent = 'Edit';
+    edit.addEventListener('click', () => openRuleForm(rule));
+    header.appendChild(edit);
+
+    const del = document.createElement('span');
+    del.className = 'alert-action danger';
+    del.textContent = 'Delete';
+    del.addEventListener('click', () => {
+      saveAlertRules(alertRules.filter((r) => r.id !== rule.id));
+    });
+    header.appendChild(del);
+
+    row.appendChild(header);
+
+    const condition = document.createElement('div');
+    condition.className = 'rule-condition';
+    condition.textContent = describeRule(rule);
+    row.appendChild(condition);
+
+    rulesContainer.appendChild(row);
+  }
+}
+
+/** Show the rule form, filled in from a rule when editing one. */
+function openRuleForm(rule) {
+  editingRuleId = rule ? rule.id : null;
+  rulesError.textContent = '';
+  $('rule-name').value = rule ? rule.name : '';
+  $('rule-metric').value = rule ? rule.metric : '';
+  $('rule-operator').value = rule ? rule.operator : 'gt';
+  $('rule-threshold').value = rule ? String(rule.threshold) : '';
+  $('rule-duration').value = rule ? String(rule.durationSeconds) : '0';
+  $('rule-cooldown').value = rule && rule.cooldownSeconds != null ? String(rule.cooldownSeconds) : '';
+  $('rule-severity').value = rule ? rule.severity : 'warning';
+  ruleForm.classList.add('open');
+  ruleAdd.style.display = 'none';
+
+  // Autocomplete the metric paths of a status message
+  window.clawface.getAlertMetrics().then((paths) => {
+    clearChildren(metricOptions);
+    for (const path of paths || []) {
+      const option = document.createElement('option');
+      option.value = path;
+      metricOptions.appendChild(option);
+    }
+  }).catch(() => {});
+}
+
+function closeRuleForm() {
+  editingRuleId = null;
+  ruleForm.classList.remove('open');
+  ruleAdd.style.display = '';
+}
+
+ruleAdd.addEventListener('click', () => openRuleForm(null));
+$('rule-cancel').addEventListener('click', () => {
+  rulesError.textContent = '';
+  closeRuleForm();
+});
+
+ruleForm.addEventListener('submit', async (e) => {
+  e.preventDefault();
+  const existing = alertRules.find((r) => r.id === editingRuleId);
+  const rule = {
+    id: existing ? existing.id : `rule-${Date.now().toString(36)}`,
+    name: $('rule-name').value.trim(),
+    enabled: existing ? existing.enabled : true,
+    metric: $('rule-metric').value.trim(),
+    operator: $('rule-operator').value,
+    threshold: Number($('rule-threshold').value),
+    durationSeconds: Number($('rule-duration').value || 0),
+    severity: $('rule-severity').value,
+  };
+  const cooldown = $('rule-cooldown').value;
+  if (cooldown !== '') rule.cooldownSeconds = Number(cooldown);
+
+  const rules = existing
+    ? alertRules.map((r) => (r.id === existing.id ? rule : r))
+    : [...alertRules, rule];
+  if (await saveAlertRules(rules)) closeRuleForm();
+});
+
+loadAlertRules();
+
 // --- Gateway state changes ---
 
 window.clawface.onGatewayState((state) => {
+  // The monitor is (re)created with the rules from its config
+  if (state.running) loadAlertRules();
+
   if (state.running && state.relayConnected) {
     isPaired = true;
     pairingSection.style.display = 'none';
@@ -3,6 +3,8 @@
 // Logs AI API requests with token counts and costs into a local SQLite
 // database. Provides aggregated usage summaries by provider, model, and
 // time period. Uses better-sqlite3 for synchronous, concurrency-safe access.
+// Raw rows are pruned after the retention period; daily and monthly rollups
+// keep the long-term history.
 // ============================================================================
 
 import Database from 'better-sqlite3';
@@ -12,222 +14,179 @@ import fs from 'fs';
 import type {
   AiRequestLog,
   AiProvider,
+  UsageLogRecord,
   UsageSummary,
   ProviderSummary,
   ModelSummary,
+  UsageBucket,
+  UsageQuery,
+  UsageSeriesPoint,
+  UsageTimeSeries,
+  RepriceResult,
+  ModelPricing,
+  UnpricedModel,
+  ProjectUsage,
+  SessionUsage,
+  ReportedRateWindows,
+  AiRequestSource,
 } from './types.js';
-import { normalizeCodexModel, normalizeClaudeModel } from './modelNormalizer.js';
-import { ClaudeLogScanner } from './claudeLogScanner.js';
-import { CodexLogScanner } from './codexLogScanner.js';
+import { normalizeCodexModel, normalizeClaudeModel, normalizeGeminiModel } from './modelNormalizer.js';
+import { createUsageLogScanners } from './scannerRegistry.js';
+import type { UsageLogScanner } from './scannerRegistry.js';
+import { SqliteScanStateStore } from './scanStateStore.js';
+import { runMigrations } from './migrations.js';
+import { PricingTable } from './pricingTable.js';
 
 // ============================================================================
-// Model pricing table
+// Pricing versions
 // ============================================================================
-// Comprehensive pricing ported from CodexBar's CostUsagePricing.swift.
-// Costs are per 1M tokens in USD. Cache and tiered pricing included where
-// applicable.
+// Each estimated row stores the version of the pricing entry it was costed
+// with (see PricingTable.versionOf). When an entry changes, whether in the
+// built-in table or in the user's overrides, rows carrying the old version
+// are found and repriced. The version of the whole table is kept in
+// ai_usage_meta so unchanged pricing skips the scan.
 // ============================================================================
 
-/**
- * Pricing entry for a single model.
- * input/output are per-1M-token rates in USD.
- * Optional cacheRead/cacheCreation rates for prompt caching.
- * Optional aboveThreshold tier for models with tiered pricing.
- */
-interface PricingEntry {
-  input: number;
-  output: number;
-  cacheRead?: number;
-  cacheCreation?: number;
-  /** When present, tokens above this threshold use the higher rates */
-  aboveThreshold?: {
-    thresholdTokens: number;
-    input: number;
-    output: number;
-    cacheRead?: number;
-    cacheCreation?: number;
-  };
+/** The built-in prices without overrides, for migrations of rows older than overrides */
+const BUILTIN_PRICING = new PricingTable();
+
+/** Where a row's estimated_cost came from */
+type CostSource = 'estimated' | 'reported';
+
+// ============================================================================
+// Rollup tables
+// ============================================================================
+// Per-day and per-month aggregates of ai_requests, keyed by provider, model
+// and source. They are updated on every insert and never pruned, so history
+// survives cleanupOldData(). Period keys are local-time strings produced by
+// SQLite's strftime(..., 'localtime'), matching the local-midnight period
+// boundaries used by getUsageSummary().
+// ============================================================================
+
+/** A rollup table and the strftime format of its period key column. */
+interface RollupTable {
+  table: string;
+  keyColumn: string;
+  format: string;
 }
 
+const DAILY_ROLLUP: RollupTable = { table: 'ai_usage_daily', keyColumn: 'day', format: '%Y-%m-%d' };
+const MONTHLY_ROLLUP: RollupTable = { table: 'ai_usage_monthly', keyColumn: 'month', format: '%Y-%m' };
+
 /**
- * Comprehensive pricing table covering all known models.
- * Ported from CodexBar's CostUsagePricing.swift.
- * Models not in this table default to zero cost (still logged).
+ * Sources whose rows were once logged under another source: the Codex
+ * scanner logged as 'api' before it had a source of its own. Migration 10
+ * makes the scanner read its logs again, and each row it logs claims a
+ * matching old row (see claimLegacyRow), so API usage logged through
+ * logRequest() keeps its 'api' source.
  */
-const MODEL_PRICING: Record<string, PricingEntry> = {
-  // ---------------------------------------------------------------------------
-  // OpenAI / Codex models
-  // ---------------------------------------------------------------------------
-  'gpt-5': {
-    input: 1.25,
-    output: 10.0,
-    cacheRead: 0.125,
-  },
-  'gpt-5-codex': {
-    input: 1.25,
-    output: 10.0,
-    cacheRead: 0.125,
-  },
-  'gpt-5.1': {
-    input: 1.25,
-    output: 10.0,
-    cacheRead: 0.125,
-  },
-  'gpt-5.2': {
-    input: 1.75,
-    output: 14.0,
-    cacheRead: 0.175,
-  },
-  'gpt-5.2-codex': {
-    input: 1.75,
-    output: 14.0,
-    cacheRead: 0.175,
-  },
-  'gpt-4o': {
-    input: 2.50,
-    output: 10.0,
-  },
-  'gpt-4o-mini': {
-    input: 0.15,
-    output: 0.60,
-  },
-
-  // ---------------------------------------------------------------------------
-  // Anthropic / Claude models
-  // ---------------------------------------------------------------------------
-  'claude-haiku-4-5': {
-    input: 1.0,
-    output: 5.0,
-    cacheRead: 0.1,
-    cacheCreation: 1.25,
-  },
-  'claude-haiku-4-5-20251001': {
-    input: 1.0,
-    output: 5.0,
-    cacheRead: 0.1,
-    cacheCreation: 1.25,
-  },
-  'claude-opus-4-5': {
-    input: 5.0,
-    output: 25.0,
-    cacheRead: 0.5,
-    cacheCreation: 6.25,
-  },
-  'claude-opus-4-5-20251101': {
-    input: 5.0,
-    output: 25.0,
-    cacheRead: 0.5,
-    cacheCreation: 6.25,
-  },
-  'claude-sonnet-4-5': {
-    input: 3.0,
-    output: 15.0,
-    cacheRead: 0.3,
-    cacheCreation: 3.75,
-    aboveThreshold: {
-      thresholdTokens: 200_000,
-      input: 6.0,
-      output: 22.5,
-      cacheRead: 0.6,
-      cacheCreation: 7.5,
-    },
-  },
-  'claude-sonnet-4-5-20250929': {
-    input: 3.0,
-    output: 15.0,
-    cacheRead: 0.3,
-    cacheCreation: 3.75,
-    aboveThreshold: {
-      thresholdTokens: 200_000,
-      input: 6.0,
-      output: 22.5,
-      cacheRead: 0.6,
-      cacheCreation: 7.5,
-    },
-  },
-  'claude-opus-4-1': {
-    input: 15.0,
-    output: 75.0,
-    cacheRead: 1.5,
-    cacheCreation: 18.75,
-  },
-  'claude-opus-4-20250514': {
-    input: 15.0,
-    output: 75.0,
-    cacheRead: 1.5,
-    cacheCreation: 18.75,
-  },
-  'claude-opus-4-6': {
-    input: 5.0,
-    output: 25.0,
-    cacheRead: 0.5,
-    cacheCreation: 6.25,
-    aboveThreshold: {
-      thresholdTokens: 200_000,
-      input: 10.0,
-      output: 37.5,
-      cacheRead: 1.0,
-      cacheCreation: 12.5,
-    },
-  },
-  'claude-opus-4-6-20260205': {
-    input: 5.0,
-    output: 25.0,
-    cacheRead: 0.5,
-    cacheCreation: 6.25,
-    aboveThreshold: {
-      thresholdTokens: 200_000,
-      input: 10.0,
-      output: 37.5,
-      cacheRead: 1.0,
-      cacheCreation: 12.5,
-    },
-  },
-  'claude-sonnet-4-20250514': {
-    input: 3.0,
-    output: 15.0,
-    cacheRead: 0.3,
-    cacheCreation: 3.75,
-    aboveThreshold: {
-      thresholdTokens: 200_000,
-      input: 6.0,
-      output: 22.5,
-      cacheRead: 0.6,
-      cacheCreation: 7.5,
-    },
-  },
-
-  // ---------------------------------------------------------------------------
-  // Google Gemini models
-  // ---------------------------------------------------------------------------
-  'gemini-2.0-flash': {
-    input: 0.10,
-    output: 0.40,
-  },
-
-  // ---------------------------------------------------------------------------
-  // DeepSeek models
-  // ---------------------------------------------------------------------------
-  'deepseek-v3': {
-    input: 0.27,
-    output: 1.10,
-  },
-  'deepseek-r1': {
-    input: 0.55,
-    output: 2.19,
-  },
+const LEGACY_SOURCES: Partial<Record<AiRequestSource, AiRequestSource>> = { 'codex-cli': 'api' };
+
+/** Aggregated totals for one provider/model pair, from raw rows or rollups. */
+interface ModelTotalsRow {
+  provider: string;
+  model: string;
+  request_count: number;
+  total_input_tokens: number;
+  total_output_tokens: number;
+  total_cache_read: number;
+  total_cache_creation: number;
+  total_cost: number;
+}
+
+// ============================================================================
+// Time-series buckets
+// ============================================================================
+// SQL expressions mapping a row to its local-time bucket key. Keys are
+// 'YYYY-MM-DD HH' for hours and 'YYYY-MM-DD' (the first day) otherwise.
+// Weeks start on Monday: 'weekday 0' moves to the coming Sunday (or stays
+// on a Sunday), and '-6 days' steps back to that week's Monday.
+// ============================================================================
+
+const USAGE_BUCKETS: readonly UsageBucket[] = ['hour', 'day', 'week', 'month'];
+
+/** Bucket key expressions over raw ai_requests rows */
+const RAW_BUCKET_SQL: Record<UsageBucket, string> = {
+  hour: "strftime('%Y-%m-%d %H', timestamp / 1000, 'unixepoch', 'localtime')",
+  day: "strftime('%Y-%m-%d', timestamp / 1000, 'unixepoch', 'localtime')",
+  week: "date(timestamp / 1000, 'unixepoch', 'localtime', 'weekday 0', '-6 days')",
+  month: "strftime('%Y-%m-01', timestamp / 1000, 'unixepoch', 'localtime')",
 };
 
+/** Bucket key expressions over ai_usage_daily rows (no hourly resolution) */
+const DAILY_BUCKET_SQL: Record<Exclude<UsageBucket, 'hour'>, string> = {
+  day: 'day',
+  week: "date(day, 'weekday 0', '-6 days')",
+  month: "strftime('%Y-%m-01', day)",
+};
+
+/** Raw row shape of a time-series query */
+interface SeriesRow {
+  bucket_key: string;
+  provider: string;
+  model: string;
+  request_count: number;
+  total_input_tokens: number;
+  total_output_tokens: number;
+  total_cache_read: number;
+  total_cache_creation: number;
+  total_cost: number;
+}
+
+/** Totals shared by the project and session attribution queries */
+interface AttributionRow {
+  request_count: number;
+  total_input_tokens: number;
+  total_output_tokens: number;
+  total_cache_read: number;
+  total_cache_creation: number;
+  total_cost: number;
+  last_activity: number;
+}
+
+/** Per-model totals of requests logged without a price */
+interface UnpricedRow {
+  provider: string;
+  model: string;
+  request_count: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+  first_seen: number;
+  last_seen: number;
+}
+
+/** Options for constructing an AiUsageTracker. */
+export interface AiUsageTrackerOptions {
+  /** Per-scanner enable flags (MonitorConfig.aiUsage.scanners) */
+  scanners?: Record<string, boolean>;
+  /** Validated price overrides (MonitorConfig.pricing) */
+  pricing?: Record<string, ModelPricing>;
+}
+
 export class AiUsageTracker {
   private db: Database.Database;
-  private claudeScanner = new ClaudeLogScanner();
-  private codexScanner = new CodexLogScanner();
+  private scanners: UsageLogScanner[];
+  private pricing: PricingTable;
+  private insertStmt: Database.Statement;
+  private rollupUpsertStmts: Database.Statement[];
+  private unpricedUpsertStmt: Database.Statement;
+  private attributeStmt: Database.Statement;
+  private legacyRowStmt: Database.Statement;
+  private relabelStmt: Database.Statement;
+  private rollupRemoveStmts: Database.Statement[];
+  private rollupPruneStmts: Database.Statement[];
+  private insertWithRollups: (params: unknown[], unpriced: boolean) => boolean;
+  /** Cached raw_retained_since, checked on every insert */
+  private rawRetainedSince: number;
 
   /**
    * Create or open the AI usage database.
    * @param dbPath - Path to the SQLite file. Defaults to ~/.openclaw/ai-usage.db
+   * @param options - Scanner selection and other tracker options
    */
-  constructor(dbPath?: string) {
+  constructor(dbPath?: string, options: AiUsageTrackerOptions = {}) {
     const resolvedPath = dbPath ?? path.join(os.homedir(), '.openclaw', 'ai-usage.db');
 
     // Ensure the parent directory exists
@@ -241,112 +200,127 @@ export class AiUsageTracker {
     // Enable WAL mode for better concurrent read/write performance
     this.db.pragma('journal_mode = WAL');
 
-    this.initDb();
-  }
+    // Needed by migrations that recompute costs
+    this.pricing = new PricingTable(options.pricing);
 
-  // --------------------------------------------------------------------------
-  // Schema initialization
-  // --------------------------------------------------------------------------
+    this.initDb();
+    this.rawRetainedSince = this.getRawRetainedSince();
 
-  /**
-   * Create the usage log table and indexes if they don't already exist.
-   * The schema is designed for efficient time-range queries and per-provider
-   * aggregation. Includes cache token columns for prompt caching support.
-   */
-  private initDb(): void {
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS ai_requests (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        provider TEXT NOT NULL,
-        model TEXT NOT NULL,
-        input_tokens INTEGER NOT NULL,
-        output_tokens INTEGER NOT NULL,
-        cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
-        cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
-        estimated_cost REAL NOT NULL,
-        source TEXT NOT NULL,
-        session_id TEXT
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_ai_requests_timestamp
-        ON ai_requests(timestamp);
-
-      CREATE INDEX IF NOT EXISTS idx_ai_requests_provider
-        ON ai_requests(provider, timestamp);
+    // Prepared once and reused by every insert
+    this.insertStmt = this.db.prepare(`
+      INSERT OR IGNORE INTO ai_requests (timestamp, provider, model, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, estimated_cost, source, session_id, cost_source, pricing_version, project_path)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    this.attributeStmt = this.db.prepare(`
+      UPDATE ai_requests
+      SET session_id = COALESCE(session_id, ?), project_path = COALESCE(project_path, ?)
+      WHERE timestamp = ? AND provider = ? AND model = ? AND source = ? AND input_tokens = ? AND output_tokens = ?
+        AND (session_id IS NULL OR project_path IS NULL)
+    `);
+    this.legacyRowStmt = this.db.prepare(`
+      SELECT id, cache_read_input_tokens, cache_creation_input_tokens, estimated_cost FROM ai_requests
+      WHERE timestamp = ? AND provider = ? AND model = ? AND source = ? AND input_tokens = ? AND output_tokens = ?
+        AND session_id IS NULL
+    `);
+    this.relabelStmt = this.db.prepare('UPDATE ai_requests SET source = ? WHERE id = ?');
+    this.rollupRemoveStmts = [DAILY_ROLLUP, MONTHLY_ROLLUP].map((rollup) => this.db.prepare(`
+      UPDATE ${rollup.table} SET
+        request_count = request_count - 1,
+        input_tokens = input_tokens - ?,
+        output_tokens = output_tokens - ?,
+        cache_read_input_tokens = cache_read_input_tokens - ?,
+        cache_creation_input_tokens = cache_creation_input_tokens - ?,
+        estimated_cost = estimated_cost - ?
+      WHERE ${rollup.keyColumn} = strftime('${rollup.format}', ? / 1000, 'unixepoch', 'localtime')
+        AND provider = ? AND model = ? AND source = ?
+    `));
+    this.rollupPruneStmts = [DAILY_ROLLUP, MONTHLY_ROLLUP].map((rollup) => this.db.prepare(
+      `DELETE FROM ${rollup.table} WHERE request_count <= 0`,
+    ));
+    this.rollupUpsertStmts = [DAILY_ROLLUP, MONTHLY_ROLLUP].map((rollup) => this.db.prepare(`
+      INSERT INTO ${rollup.table} (${rollup.keyColumn}, provider, model, source, request_count, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, estimated_cost)
+      VALUES (strftime('${rollup.format}', ? / 1000, 'unixepoch', 'localtime'), ?, ?, ?, 1, ?, ?, ?, ?, ?)
+      ON CONFLICT (${rollup.keyColumn}, provider, model, source) DO UPDATE SET
+        request_count = request_count + 1,
+        input_tokens = input_tokens + excluded.input_tokens,
+        output_tokens = output_tokens + excluded.output_tokens,
+        cache_read_input_tokens = cache_read_input_tokens + excluded.cache_read_input_tokens,
+        cache_creation_input_tokens = cache_creation_input_tokens + excluded.cache_creation_input_tokens,
+        estimated_cost = estimated_cost + excluded.estimated_cost
+    `));
 
-    // Migration: add cache token columns to existing databases
-    this.migrateAddCacheColumns();
-
-    // Migration: deduplicate existing rows BEFORE creating the unique index
-    // (unique index creation would fail if duplicates exist)
-    this.migrateDeduplicateRows();
+    this.unpricedUpsertStmt = this.db.prepare(`
+      INSERT INTO ai_unpriced_models (provider, model, request_count, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, first_seen, last_seen)
+      VALUES (?, ?, 1, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (provider, model) DO UPDATE SET
+        request_count = request_count + 1,
+        input_tokens = input_tokens + excluded.input_tokens,
+        output_tokens = output_tokens + excluded.output_tokens,
+        cache_read_input_tokens = cache_read_input_tokens + excluded.cache_read_input_tokens,
+        cache_creation_input_tokens = cache_creation_input_tokens + excluded.cache_creation_input_tokens,
+        first_seen = MIN(first_seen, excluded.first_seen),
+        last_seen = MAX(last_seen, excluded.last_seen)
+    `);
 
-    // Migration: recalculate costs for opus-4-6 (was 3x overpriced at $15/$75 instead of $5/$25)
-    this.migrateRecalculateOpus46Costs();
+    // Insert a raw row and, only if it wasn't a duplicate, add it to the
+    // rollups (and to the unpriced models if it had no price). Runs as one
+    // transaction so they can never disagree. A duplicate may still carry
+    // the session and project an older stored copy lacks; those are filled in.
+    // Rows from before raw_retained_since are skipped: their raw copy may
+    // have been pruned, so the dedup index can't tell whether the rollups
+    // already count them, and a rescan would count them twice. A row that
+    // claims an old copy under a legacy source is a duplicate of it.
+    this.insertWithRollups = this.db.transaction((params: unknown[], unpriced: boolean): boolean => {
+      const [timestamp, provider, model, input, output, cacheRead, cacheCreation, cost, source, sessionId, , , projectPath] = params;
+      if ((timestamp as number) < this.rawRetainedSince) return false;
+      this.claimLegacyRow(params);
+      if (this.insertStmt.run(...params).changes === 0) {
+        if (sessionId !== null || projectPath !== null) {
+          this.attributeStmt.run(sessionId, projectPath, timestamp, provider, model, source, input, output);
+        }
+        return false;
+      }
+      for (const stmt of this.rollupUpsertStmts) {
+        stmt.run(timestamp, provider, model, source, input, output, cacheRead, cacheCreation, cost);
+      }
+      if (unpriced) {
+        this.unpricedUpsertStmt.run(provider, model, input, output, cacheRead, cacheCreation, timestamp, timestamp);
+      }
+      return true;
+    });
 
-    // Now safe to add the unique dedup index (duplicates have been removed)
-    this.db.exec(
-      'CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_requests_dedup' +
-      ' ON ai_requests(timestamp, provider, model, source, input_tokens, output_tokens)'
-    );
-  }
+    // Instantiate the registered local log scanners that are enabled. Their
+    // per-file offsets are persisted in this database so restarts only
+    // read bytes appended since the last scan.
+    this.scanners = createUsageLogScanners(options.scanners, {
+      stateStore: new SqliteScanStateStore(this.db),
+    });
 
-  /**
-   * Add cache token columns if they don't exist (safe migration for existing DBs).
-   */
-  private migrateAddCacheColumns(): void {
-    const columns = this.db.pragma('table_info(ai_requests)') as Array<{ name: string }>;
-    const columnNames = new Set(columns.map(c => c.name));
-    if (!columnNames.has('cache_read_input_tokens')) {
-      this.db.exec('ALTER TABLE ai_requests ADD COLUMN cache_read_input_tokens INTEGER NOT NULL DEFAULT 0');
-    }
-    if (!columnNames.has('cache_creation_input_tokens')) {
-      this.db.exec('ALTER TABLE ai_requests ADD COLUMN cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0');
+    // Bring estimated costs in line with the current pricing table
+    const repriced = this.reprice();
+    if (repriced.repricedRows > 0) {
+      console.log(`[AiUsageTracker] Repriced ${repriced.repricedRows} rows after pricing changes (${repriced.models.join(', ')})`);
     }
   }
 
-  /**
-   * Remove duplicate rows that accumulated before the unique index was added.
-   * Keeps only the row with the lowest id for each (timestamp, provider, model, source, input_tokens, output_tokens).
-   */
-  private migrateDeduplicateRows(): void {
-    const result = this.db.prepare(`
-      DELETE FROM ai_requests
-      WHERE id NOT IN (
-        SELECT MIN(id) FROM ai_requests
-        GROUP BY timestamp, provider, model, source, input_tokens, output_tokens
-      )
-    `).run();
-    if (result.changes > 0) {
-      console.log(`[AiUsageTracker] Deduplicated ${result.changes} duplicate rows`);
-    }
-  }
+  // --------------------------------------------------------------------------
+  // Schema initialization
+  // --------------------------------------------------------------------------
 
   /**
-   * Recalculate costs for claude-opus-4-6 rows that were stored with the
-   * incorrect $15/$75 pricing (should be $5/$25 with >200k tier).
+   * Bring the database schema up to date by applying any pending migrations
+   * from migrations.ts. Fresh databases run the full sequence; existing ones
+   * only run what they haven't recorded in schema_migrations yet.
    */
-  private migrateRecalculateOpus46Costs(): void {
-    const rows = this.db.prepare(
-      "SELECT id, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens FROM ai_requests WHERE model = 'claude-opus-4-6'"
-    ).all() as Array<{ id: number; input_tokens: number; output_tokens: number; cache_read_input_tokens: number; cache_creation_input_tokens: number }>;
-
-    if (rows.length === 0) return;
-
-    const update = this.db.prepare('UPDATE ai_requests SET estimated_cost = ? WHERE id = ?');
-    let fixed = 0;
-    const txn = this.db.transaction(() => {
-      for (const row of rows) {
-        const newCost = this.calculateCost('claude-opus-4-6', row.input_tokens, row.output_tokens, row.cache_read_input_tokens, row.cache_creation_input_tokens);
-        update.run(newCost, row.id);
-        fixed++;
-      }
+  private initDb(): void {
+    const applied = runMigrations(this.db, {
+      calculateCost: (model, inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens) =>
+        this.calculateCost(model, inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens, BUILTIN_PRICING),
+      rebuildRollups: () => this.rebuildRollups(),
+      isPriced: (model) => this.pricing.get(model) !== undefined,
     });
-    txn();
-    if (fixed > 0) {
-      console.log(`[AiUsageTracker] Recalculated costs for ${fixed} claude-opus-4-6 rows (was 3x overpriced)`);
+    if (applied.length > 0) {
+      console.log(`[AiUsageTracker] Applied schema migrations ${applied.join(', ')}`);
     }
   }
 
@@ -361,12 +335,16 @@ export class AiUsageTracker {
    *
    * @param entry - The request data (without estimatedCost, which is computed)
    * @param preCalculatedCost - Optional pre-calculated cost in USD from the source
+   * @returns true if a new row was inserted, false if it was a duplicate or
+   *          older than the retained raw rows (see cleanupOldData())
    */
-  logRequest(entry: Omit<AiRequestLog, 'estimatedCost'>, preCalculatedCost?: number): void {
+  logRequest(entry: Omit<AiRequestLog, 'estimatedCost'>, preCalculatedCost?: number): boolean {
     // Normalize the model name so pricing lookups match the canonical table keys
     const normalizedModel = this.normalizeModel(entry.model, entry.provider);
 
-    // Prefer pre-calculated cost from the source (e.g. Claude Code's costUSD)
+    // Prefer pre-calculated cost from the source (e.g. Claude Code's costUSD).
+    // Reported costs carry no pricing version and are never repriced.
+    const costSource: CostSource = preCalculatedCost !== undefined ? 'reported' : 'estimated';
     const estimatedCost = preCalculatedCost ?? this.calculateCost(
       normalizedModel,
       entry.inputTokens,
@@ -375,12 +353,7 @@ export class AiUsageTracker {
       entry.cacheCreationInputTokens ?? 0,
     );
 
-    const stmt = this.db.prepare(`
-      INSERT OR IGNORE INTO ai_requests (timestamp, provider, model, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, estimated_cost, source, session_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    stmt.run(
+    return this.insertWithRollups([
       entry.timestamp,
       entry.provider,
       normalizedModel,
@@ -391,12 +364,69 @@ export class AiUsageTracker {
       estimatedCost,
       entry.source,
       entry.sessionId ?? null,
-    );
+      costSource,
+      costSource === 'estimated' ? this.pricing.versionOf(normalizedModel) : null,
+      entry.projectPath ?? null,
+    ], costSource === 'estimated' && this.pricing.get(normalizedModel) === undefined);
+  }
+
+  /**
+   * Log a batch of usage records in a single transaction.
+   * Records that match an existing row on the dedup index are skipped.
+   *
+   * @param records - Usage records, each with an optional pre-calculated cost
+   * @returns The number of new rows actually inserted
+   */
+  logRequests(records: UsageLogRecord[]): number {
+    if (records.length === 0) return 0;
+
+    const insertAll = this.db.transaction((): number => {
+      let inserted = 0;
+      for (const { preCalculatedCost, ...entry } of records) {
+        if (this.logRequest(entry, preCalculatedCost)) inserted++;
+      }
+      return inserted;
+    });
+
+    return insertAll();
+  }
+
+  /**
+   * Move a stored row logged under the legacy source of this row's source
+   * (see LEGACY_SOURCES) over to its source, rollups included, so the
+   * insert that follows sees it as a duplicate. Only rows without a
+   * session are claimed; the insert then fills in session and project.
+   *
+   * @param params - Insert parameters, as for insertStmt
+   */
+  private claimLegacyRow(params: unknown[]): void {
+    const [timestamp, provider, model, input, output, , , , source] = params;
+    const legacySource = LEGACY_SOURCES[source as AiRequestSource];
+    if (!legacySource) return;
+
+    const row = this.legacyRowStmt.get(timestamp, provider, model, legacySource, input, output) as {
+      id: number;
+      cache_read_input_tokens: number;
+      cache_creation_input_tokens: number;
+      estimated_cost: number;
+    } | undefined;
+    if (!row) return;
+
+    this.relabelStmt.run(source, row.id);
+    const { cache_read_input_tokens: cacheRead, cache_creation_input_tokens: cacheCreation, estimated_cost: cost } = row;
+    for (const stmt of this.rollupRemoveStmts) {
+      stmt.run(input, output, cacheRead, cacheCreation, cost, timestamp, provider, model, legacySource);
+    }
+    for (const stmt of this.rollupPruneStmts) stmt.run();
+    for (const stmt of this.rollupUpsertStmts) {
+      stmt.run(timestamp, provider, model, source, input, output, cacheRead, cacheCreation, cost);
+    }
   }
 
   /**
    * Normalize a model name based on its provider.
-   * Delegates to the appropriate normalizer for OpenAI/Codex vs Anthropic/Claude.
+   * Delegates to the appropriate normalizer for OpenAI/Codex, Anthropic/Claude
+   * or Google/Gemini.
    */
   private normalizeModel(model: string, provider: AiProvider): string {
     switch (provider) {
@@ -404,6 +434,8 @@ export class AiUsageTracker {
         return normalizeCodexModel(model);
       case 'anthropic':
         return normalizeClaudeModel(model);
+      case 'google':
+        return normalizeGeminiModel(model);
       default:
         return model.trim();
     }
@@ -423,6 +455,7 @@ export class AiUsageTracker {
    * @param outputTokens - Number of output tokens
    * @param cacheReadTokens - Number of cache-read input tokens
    * @param cacheCreationTokens - Number of cache-creation input tokens
+   * @param table - Prices to use (default: the effective table with overrides)
    * @returns Estimated cost in USD
    */
   private calculateCost(
@@ -431,8 +464,9 @@ export class AiUsageTracker {
     outputTokens: number,
     cacheReadTokens: number = 0,
     cacheCreationTokens: number = 0,
+    table: PricingTable = this.pricing,
   ): number {
-    const pricing = MODEL_PRICING[model];
+    const pricing = table.get(model);
     if (!pricing) return 0;
 
     // Helper: compute tiered cost for a token count. If the model has an
@@ -504,31 +538,8 @@ export class AiUsageTracker {
     // Calculate the start timestamp for the requested period
     const periodStart = this.getPeriodStartTimestamp(period, now);
 
-    // Query: aggregate by provider and model within the requested period
-    const rows = this.db.prepare(`
-      SELECT
-        provider,
-        model,
-        COUNT(*) as request_count,
-        SUM(input_tokens) as total_input_tokens,
-        SUM(output_tokens) as total_output_tokens,
-        SUM(cache_read_input_tokens) as total_cache_read,
-        SUM(cache_creation_input_tokens) as total_cache_creation,
-        SUM(estimated_cost) as total_cost
-      FROM ai_requests
-      WHERE timestamp >= ?
-      GROUP BY provider, model
-      ORDER BY provider, total_cost DESC
-    `).all(periodStart) as Array<{
-      provider: string;
-      model: string;
-      request_count: number;
-      total_input_tokens: number;
-      total_output_tokens: number;
-      total_cache_read: number;
-      total_cache_creation: number;
-      total_cost: number;
-    }>;
+    // Aggregate by provider and model within the requested period
+    const rows = this.getModelTotalsSince(periodStart);
 
     // Build per-provider summaries with nested model breakdowns
     const providerMap = new Map<string, ProviderSummary>();
@@ -578,6 +589,284 @@ export class AiUsageTracker {
       providers: Array.from(providerMap.values()),
       totalCostToday: Math.round(totalCostToday * 100) / 100,
       totalCostThisMonth: Math.round(totalCostThisMonth * 100) / 100,
+      unpriced: this.getUnpricedModelsSince(periodStart),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Project and session attribution
+  // --------------------------------------------------------------------------
+
+  /**
+   * Usage grouped by project (the working directory a request was made
+   * from), most expensive first. Requests without a known project are
+   * grouped under a null projectPath. Read from raw rows, so periods
+   * reaching back past the retention window only cover what is retained.
+   *
+   * @param period - 'today', 'week' (last 7 days), or 'month' (current calendar month)
+   */
+  getUsageByProject(period: 'today' | 'week' | 'month'): ProjectUsage[] {
+    const periodStart = this.getPeriodStartTimestamp(period, new Date());
+
+    const rows = this.db.prepare(`
+      SELECT
+        project_path,
+        COUNT(DISTINCT session_id) as session_count,
+        COUNT(*) as request_count,
+        SUM(input_tokens) as total_input_tokens,
+        SUM(output_tokens) as total_output_tokens,
+        SUM(cache_read_input_tokens) as total_cache_read,
+        SUM(cache_creation_input_tokens) as total_cache_creation,
+        SUM(estimated_cost) as total_cost,
+        MAX(timestamp) as last_activity
+      FROM ai_requests
+      WHERE timestamp >= ?
+      GROUP BY project_path
+      ORDER BY total_cost DESC, last_activity DESC
+    `).all(periodStart) as Array<AttributionRow & { project_path: string | null; session_count: number }>;
+
+    return rows.map((row) => ({
+      projectPath: row.project_path,
+      sessionCount: row.session_count,
+      requestCount: row.request_count,
+      totalInputTokens: row.total_input_tokens,
+      totalOutputTokens: row.total_output_tokens,
+      totalCacheReadInputTokens: row.total_cache_read,
+      totalCacheCreationInputTokens: row.total_cache_creation,
+      totalCost: row.total_cost,
+      lastActivity: row.last_activity,
+    }));
+  }
+
+  /**
+   * Usage grouped by session, most recently active first. Requests without
+   * a session id are left out. Read from raw rows, like getUsageByProject().
+   *
+   * @param period - 'today', 'week' (last 7 days), or 'month' (current calendar month)
+   * @param options.projectPath - Only include sessions of this project
+   * @param options.limit - Maximum number of sessions to return
+   */
+  getUsageBySession(
+    period: 'today' | 'week' | 'month',
+    options: { projectPath?: string; limit?: number } = {},
+  ): SessionUsage[] {
+    const periodStart = this.getPeriodStartTimestamp(period, new Date());
+    const projectFilter = options.projectPath !== undefined ? 'AND project_path = @projectPath' : '';
+
+    const rows = this.db.prepare(`
+      SELECT
+        session_id,
+        MAX(project_path) as project_path,
+        COUNT(*) as request_count,
+        SUM(input_tokens) as total_input_tokens,
+        SUM(output_tokens) as total_output_tokens,
+        SUM(cache_read_input_tokens) as total_cache_read,
+        SUM(cache_creation_input_tokens) as total_cache_creation,
+        SUM(estimated_cost) as total_cost,
+        MIN(timestamp) as first_activity,
+        MAX(timestamp) as last_activity
+      FROM ai_requests
+      WHERE timestamp >= @since AND session_id IS NOT NULL ${projectFilter}
+      GROUP BY session_id
+      ORDER BY last_activity DESC
+      LIMIT @limit
+    `).all({
+      since: periodStart,
+      limit: options.limit ?? -1,
+      ...(options.projectPath !== undefined ? { projectPath: options.projectPath } : {}),
+    }) as Array<AttributionRow & {
+      session_id: string;
+      project_path: string | null;
+      first_activity: number;
+    }>;
+
+    if (rows.length === 0) return [];
+
+    // Models per session, most expensive first
+    const modelRows = this.db.prepare(`
+      SELECT session_id, model, SUM(estimated_cost) as cost
+      FROM ai_requests
+      WHERE timestamp >= ? AND session_id IS NOT NULL
+      GROUP BY session_id, model
+      ORDER BY session_id, cost DESC, model
+    `).all(periodStart) as Array<{ session_id: string; model: string }>;
+
+    const modelsBySession = new Map<string, string[]>();
+    for (const { session_id, model } of modelRows) {
+      const models = modelsBySession.get(session_id) ?? [];
+      models.push(model);
+      modelsBySession.set(session_id, models);
+    }
+
+    return rows.map((row) => ({
+      sessionId: row.session_id,
+      projectPath: row.project_path,
+      models: modelsBySession.get(row.session_id) ?? [],
+      requestCount: row.request_count,
+      totalInputTokens: row.total_input_tokens,
+      totalOutputTokens: row.total_output_tokens,
+      totalCacheReadInputTokens: row.total_cache_read,
+      totalCacheCreationInputTokens: row.total_cache_creation,
+      totalCost: row.total_cost,
+      firstActivity: row.first_activity,
+      lastActivity: row.last_activity,
+    }));
+  }
+
+  /**
+   * Timestamps and costs of the requests from one source since a time,
+   * oldest first. Read from raw rows, for estimates that depend on when
+   * individual requests were made (e.g. rate-window blocks).
+   *
+   * @param source - Request source (e.g. 'claude-code')
+   * @param since - Unix timestamp in ms (inclusive)
+   */
+  getRequestCosts(source: AiRequestSource, since: number): Array<{ timestamp: number; cost: number }> {
+    return this.db.prepare(`
+      SELECT timestamp, estimated_cost as cost
+      FROM ai_requests
+      WHERE timestamp >= ? AND source = ?
+      ORDER BY timestamp
+    `).all(since, source) as Array<{ timestamp: number; cost: number }>;
+  }
+
+  // --------------------------------------------------------------------------
+  // Unpriced models
+  // --------------------------------------------------------------------------
+
+  /**
+   * Every model that was ever logged without a price and still has none,
+   * most recently seen first. Requests from these models were costed at $0,
+   * so reported spend is too low. Kept in ai_unpriced_models, which is not
+   * pruned; a model drops off the list once the pricing table (or a user
+   * override) gives it a price.
+   */
+  getUnpricedModels(): UnpricedModel[] {
+    const rows = this.db.prepare(`
+      SELECT provider, model, request_count, input_tokens, output_tokens,
+        cache_read_input_tokens, cache_creation_input_tokens, first_seen, last_seen
+      FROM ai_unpriced_models
+      ORDER BY last_seen DESC
+    `).all() as UnpricedRow[];
+
+    return rows
+      .filter(row => this.pricing.get(row.model) === undefined)
+      .map(toUnpricedModel);
+  }
+
+  /**
+   * Models without a price among the estimated rows logged since a
+   * timestamp. Read from raw rows, so periods reaching back past the
+   * retention window only cover what is still retained.
+   */
+  private getUnpricedModelsSince(sinceTimestamp: number): UnpricedModel[] {
+    const rows = this.db.prepare(`
+      SELECT provider, model, COUNT(*) as request_count,
+        SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens,
+        SUM(cache_read_input_tokens) as cache_read_input_tokens,
+        SUM(cache_creation_input_tokens) as cache_creation_input_tokens,
+        MIN(timestamp) as first_seen, MAX(timestamp) as last_seen
+      FROM ai_requests
+      WHERE timestamp >= ? AND cost_source = 'estimated'
+      GROUP BY provider, model
+      ORDER BY last_seen DESC
+    `).all(sinceTimestamp) as UnpricedRow[];
+
+    return rows
+      .filter(row => this.pricing.get(row.model) === undefined)
+      .map(toUnpricedModel);
+  }
+
+  /**
+   * Query usage over an arbitrary date range, split into hour, day, week or
+   * month buckets per provider and model. Used for spend charts.
+   *
+   * Ranges within the raw retention period are answered exactly from raw
+   * rows. Ranges reaching back past what cleanup has pruned are answered
+   * from the daily rollups, which resolves the range to whole local days;
+   * hourly buckets are not available there.
+   *
+   * @param query - Range start (inclusive), end (exclusive) and bucket size
+   * @returns Non-empty buckets in chronological order, plus the range total
+   * @throws If the range or bucket is invalid, or hourly buckets are
+   *         requested for pruned history
+   */
+  queryUsage(query: UsageQuery): UsageTimeSeries {
+    const { start, end, bucket } = query;
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start >= end) {
+      throw new Error('Usage query needs a finite start before its end');
+    }
+    if (!USAGE_BUCKETS.includes(bucket)) {
+      throw new Error(`Unknown usage bucket: ${String(bucket)}`);
+    }
+
+    let rows: SeriesRow[];
+    const rawRetainedSince = this.getRawRetainedSince();
+
+    if (start >= rawRetainedSince) {
+      rows = this.db.prepare(`
+        SELECT
+          ${RAW_BUCKET_SQL[bucket]} as bucket_key,
+          provider,
+          model,
+          COUNT(*) as request_count,
+          SUM(input_tokens) as total_input_tokens,
+          SUM(output_tokens) as total_output_tokens,
+          SUM(cache_read_input_tokens) as total_cache_read,
+          SUM(cache_creation_input_tokens) as total_cache_creation,
+          SUM(estimated_cost) as total_cost
+        FROM ai_requests
+        WHERE timestamp >= ? AND timestamp < ?
+        GROUP BY bucket_key, provider, model
+        ORDER BY bucket_key, provider, model
+      `).all(start, end) as SeriesRow[];
+    } else {
+      if (bucket === 'hour') {
+        throw new Error(
+          `Hourly usage is only kept since ${new Date(rawRetainedSince).toISOString()}; use a day bucket or later start`,
+        );
+      }
+      rows = this.db.prepare(`
+        SELECT
+          ${DAILY_BUCKET_SQL[bucket]} as bucket_key,
+          provider,
+          model,
+          SUM(request_count) as request_count,
+          SUM(input_tokens) as total_input_tokens,
+          SUM(output_tokens) as total_output_tokens,
+          SUM(cache_read_input_tokens) as total_cache_read,
+          SUM(cache_creation_input_tokens) as total_cache_creation,
+          SUM(estimated_cost) as total_cost
+        FROM ai_usage_daily
+        WHERE day >= strftime('%Y-%m-%d', ? / 1000, 'unixepoch', 'localtime')
+          AND day <= strftime('%Y-%m-%d', (? - 1) / 1000, 'unixepoch', 'localtime')
+        GROUP BY bucket_key, provider, model
+        ORDER BY bucket_key, provider, model
+      `).all(start, end) as SeriesRow[];
+    }
+
+    let totalCost = 0;
+    const points: UsageSeriesPoint[] = rows.map((row) => {
+      totalCost += row.total_cost;
+      return {
+        bucketStart: parseLocalBucketKey(row.bucket_key),
+        provider: row.provider as AiProvider,
+        model: row.model,
+        requestCount: row.request_count,
+        totalInputTokens: row.total_input_tokens,
+        totalOutputTokens: row.total_output_tokens,
+        totalCacheReadInputTokens: row.total_cache_read,
+        totalCacheCreationInputTokens: row.total_cache_creation,
+        totalCost: row.total_cost,
+      };
+    });
+
+    return {
+      start,
+      end,
+      bucket,
+      points,
+      totalCost: Math.round(totalCost * 1_000_000) / 1_000_000,
     };
   }
 
@@ -605,14 +894,239 @@ export class AiUsageTracker {
    * Sum all estimated costs since a given timestamp.
    */
   private getTotalCostSince(sinceTimestamp: number): number {
+    const rollup = this.pickRollup(sinceTimestamp);
+    if (!rollup) {
+      const row = this.db.prepare(`
+        SELECT COALESCE(SUM(estimated_cost), 0) as total
+        FROM ai_requests
+        WHERE timestamp >= ?
+      `).get(sinceTimestamp) as { total: number };
+      return row.total;
+    }
+
     const row = this.db.prepare(`
       SELECT COALESCE(SUM(estimated_cost), 0) as total
-      FROM ai_requests
-      WHERE timestamp >= ?
+      FROM ${rollup.table}
+      WHERE ${rollup.keyColumn} >= strftime('${rollup.format}', ? / 1000, 'unixepoch', 'localtime')
     `).get(sinceTimestamp) as { total: number };
     return row.total;
   }
 
+  /**
+   * Aggregate usage per provider and model since a given timestamp,
+   * ordered by provider and descending cost.
+   */
+  private getModelTotalsSince(sinceTimestamp: number): ModelTotalsRow[] {
+    const rollup = this.pickRollup(sinceTimestamp);
+    if (!rollup) {
+      return this.db.prepare(`
+        SELECT
+          provider,
+          model,
+          COUNT(*) as request_count,
+          SUM(input_tokens) as total_input_tokens,
+          SUM(output_tokens) as total_output_tokens,
+          SUM(cache_read_input_tokens) as total_cache_read,
+          SUM(cache_creation_input_tokens) as total_cache_creation,
+          SUM(estimated_cost) as total_cost
+        FROM ai_requests
+        WHERE timestamp >= ?
+        GROUP BY provider, model
+        ORDER BY provider, total_cost DESC
+      `).all(sinceTimestamp) as ModelTotalsRow[];
+    }
+
+    return this.db.prepare(`
+      SELECT
+        provider,
+        model,
+        SUM(request_count) as request_count,
+        SUM(input_tokens) as total_input_tokens,
+        SUM(output_tokens) as total_output_tokens,
+        SUM(cache_read_input_tokens) as total_cache_read,
+        SUM(cache_creation_input_tokens) as total_cache_creation,
+        SUM(estimated_cost) as total_cost
+      FROM ${rollup.table}
+      WHERE ${rollup.keyColumn} >= strftime('${rollup.format}', ? / 1000, 'unixepoch', 'localtime')
+      GROUP BY provider, model
+      ORDER BY provider, total_cost DESC
+    `).all(sinceTimestamp) as ModelTotalsRow[];
+  }
+
+  /**
+   * Decide where a query starting at a timestamp must read from.
+   * Raw rows are used while they still cover the whole range; once the
+   * range reaches back past what cleanup has pruned, the rollups are used
+   * instead (monthly when the range starts on the 1st of a month, daily
+   * otherwise). Period starts are local midnights, so rollup keys line up
+   * with them exactly.
+   *
+   * @returns The rollup table to read, or null to read raw rows
+   */
+  private pickRollup(sinceTimestamp: number): RollupTable | null {
+    if (sinceTimestamp >= this.getRawRetainedSince()) return null;
+    return new Date(sinceTimestamp).getDate() === 1 ? MONTHLY_ROLLUP : DAILY_ROLLUP;
+  }
+
+  /**
+   * Timestamp (ms) from which raw rows are complete. Everything before it
+   * may have been pruned by cleanupOldData() and lives only in the rollups.
+   */
+  private getRawRetainedSince(): number {
+    const value = this.getMeta('raw_retained_since');
+    return value !== undefined ? Number(value) : 0;
+  }
+
+  /**
+   * Recompute the rollup tables from the retained raw rows.
+   * Daily rollups are rebuilt only from the first retained day onward, so
+   * history whose raw rows were pruned is kept. Monthly rollups are then
+   * re-derived from the daily ones.
+   */
+  rebuildRollups(): void {
+    const rebuild = this.db.transaction(() => {
+      const first = this.db.prepare(`
+        SELECT strftime('${DAILY_ROLLUP.format}', MIN(timestamp) / 1000, 'unixepoch', 'localtime') as day
+        FROM ai_requests
+      `).get() as { day: string | null };
+
+      if (first.day) {
+        this.db.prepare('DELETE FROM ai_usage_daily WHERE day >= ?').run(first.day);
+        this.db.exec(`
+          INSERT INTO ai_usage_daily (day, provider, model, source, request_count, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, estimated_cost)
+          SELECT
+            strftime('${DAILY_ROLLUP.format}', timestamp / 1000, 'unixepoch', 'localtime') as day,
+            provider, model, source,
+            COUNT(*), SUM(input_tokens), SUM(output_tokens),
+            SUM(cache_read_input_tokens), SUM(cache_creation_input_tokens), SUM(estimated_cost)
+          FROM ai_requests
+          GROUP BY day, provider, model, source
+        `);
+      }
+
+      this.db.exec('DELETE FROM ai_usage_monthly');
+      this.db.exec(`
+        INSERT INTO ai_usage_monthly (month, provider, model, source, request_count, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, estimated_cost)
+        SELECT
+          substr(day, 1, 7) as month,
+          provider, model, source,
+          SUM(request_count), SUM(input_tokens), SUM(output_tokens),
+          SUM(cache_read_input_tokens), SUM(cache_creation_input_tokens), SUM(estimated_cost)
+        FROM ai_usage_daily
+        GROUP BY month, provider, model, source
+      `);
+    });
+
+    rebuild();
+  }
+
+  // --------------------------------------------------------------------------
+  // Repricing
+  // --------------------------------------------------------------------------
+
+  /**
+   * Recompute the cost of estimated rows whose pricing version is stale.
+   * A row is stale when its model's pricing entry changed since it
+   * was costed (or it predates pricing versions). Rows whose cost was
+   * reported by the source are never touched. Rollups are rebuilt when any
+   * cost changed; history whose raw rows were already pruned keeps the
+   * costs it was rolled up with.
+   *
+   * Without arguments the pass is skipped when the pricing table hasn't
+   * changed since the last one. Passing models forces their estimated rows
+   * to be recomputed even if their versions look current.
+   *
+   * @param models - Normalized model identifiers to reprice unconditionally
+   * @returns The models that were repriced and how many row costs changed
+   */
+  reprice(models?: string[]): RepriceResult {
+    const forced = new Set(models ?? []);
+
+    const run = this.db.transaction((): RepriceResult => {
+      if (forced.size === 0 && this.getMeta('pricing_version') === this.pricing.version) {
+        return { models: [], repricedRows: 0 };
+      }
+
+      const versions = this.db.prepare(`
+        SELECT DISTINCT model, pricing_version FROM ai_requests WHERE cost_source = 'estimated'
+      `).all() as Array<{ model: string; pricing_version: string | null }>;
+
+      const affected = new Set(forced);
+      for (const { model, pricing_version } of versions) {
+        if (pricing_version !== this.pricing.versionOf(model)) affected.add(model);
+      }
+
+      const select = this.db.prepare(`
+        SELECT id, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, estimated_cost, pricing_version
+        FROM ai_requests WHERE model = ? AND cost_source = 'estimated'
+      `);
+      const update = this.db.prepare('UPDATE ai_requests SET estimated_cost = ?, pricing_version = ? WHERE id = ?');
+
+      let repricedRows = 0;
+      for (const model of affected) {
+        const version = this.pricing.versionOf(model);
+        const rows = select.all(model) as Array<{
+          id: number;
+          input_tokens: number;
+          output_tokens: number;
+          cache_read_input_tokens: number;
+          cache_creation_input_tokens: number;
+          estimated_cost: number;
+          pricing_version: string | null;
+        }>;
+
+        for (const row of rows) {
+          if (row.pricing_version === version && !forced.has(model)) continue;
+          const cost = this.calculateCost(
+            model,
+            row.input_tokens,
+            row.output_tokens,
+            row.cache_read_input_tokens,
+            row.cache_creation_input_tokens,
+          );
+          update.run(cost, version, row.id);
+          if (cost !== row.estimated_cost) repricedRows++;
+        }
+      }
+
+      if (repricedRows > 0) {
+        this.rebuildRollups();
+      }
+      this.setMeta('pricing_version', this.pricing.version);
+
+      return { models: Array.from(affected).sort(), repricedRows };
+    });
+
+    return run();
+  }
+
+  /**
+   * Replace the user's price overrides and reprice the rows they affect.
+   * Called when the pricing section of the config file changes.
+   *
+   * @param overrides - Validated overrides keyed by normalized model name
+   * @returns The models that were repriced and how many row costs changed
+   */
+  setPricingOverrides(overrides: Record<string, ModelPricing>): RepriceResult {
+    this.pricing.setOverrides(overrides);
+    return this.reprice();
+  }
+
+  /**
+   * Read a value from the ai_usage_meta key/value table. Also used by
+   * components that keep state alongside the usage data (e.g. BudgetMonitor).
+   */
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare('SELECT value FROM ai_usage_meta WHERE key = ?').get(key) as
+      { value: string } | undefined;
+    return row?.value;
+  }
+
+  /** Insert or replace a value in the ai_usage_meta key/value table */
+  setMeta(key: string, value: string): void {
+    this.db.prepare('INSERT OR REPLACE INTO ai_usage_meta (key, value) VALUES (?, ?)').run(key, value);
+  }
+
   // --------------------------------------------------------------------------
   // Cleanup
   // --------------------------------------------------------------------------
@@ -620,15 +1134,33 @@ export class AiUsageTracker {
   /**
    * Remove detailed request logs older than the retention period (default 30 days).
    * This helps keep the database file small on long-running gateways.
+   * The daily and monthly rollups are never pruned, so summaries reaching
+   * back past the cutoff still see the full history.
+   *
+   * The cutoff is aligned to local midnight so a day is never left half in
+   * raw rows and half pruned, which keeps rebuildRollups() exact.
+   * Requests from before the cutoff that are logged later (e.g. by a full
+   * rescan of the logs) are ignored, since the rollups already count them.
    *
    * @param retentionDays - Number of days of detailed data to keep
    */
   cleanupOldData(retentionDays: number = 30): void {
-    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const now = new Date();
+    const cutoff = new Date(now.getFullYear(), now.getMonth(), now.getDate() - retentionDays).getTime();
+
+    const result = this.db.transaction(() => {
+      const deleted = this.db.prepare(`
+        DELETE FROM ai_requests WHERE timestamp < ?
+      `).run(cutoff);
+
+      // Remember how far back raw rows are complete (never moves backwards)
+      if (cutoff > this.getRawRetainedSince()) {
+        this.setMeta('raw_retained_since', String(cutoff));
+        this.rawRetainedSince = cutoff;
+      }
 
-    const result = this.db.prepare(`
-      DELETE FROM ai_requests WHERE timestamp < ?
-    `).run(cutoff);
+      return deleted;
+    })();
 
     if (result.changes > 0) {
       // Reclaim disk space after a large deletion
@@ -641,53 +1173,79 @@ export class AiUsageTracker {
   // --------------------------------------------------------------------------
 
   /**
-   * Scan local Claude Code and Codex JSONL log files and feed the results
-   * into the usage database via logRequest().
+   * Run every enabled local log scanner (Claude Code, Codex, Gemini CLI and
+   * any registered third-party scanners) and feed the results into the
+   * usage database via logRequests().
    *
-   * This method uses the ClaudeLogScanner and CodexLogScanner to find and
-   * parse JSONL files, then logs each usage entry as an AI request. The
-   * scanners handle incremental scanning internally, so repeated calls are
-   * efficient (only new/changed data is re-parsed).
+   * The scanners handle incremental scanning internally and only return
+   * entries read since their previous call, so a pass over unchanged logs
+   * inserts nothing. Each scanner runs in its own transaction, so its
+   * persisted file offsets are committed together with the rows they
+   * produced. A scanner that throws is logged and rolled back so it can't
+   * block the others.
    *
-   * @returns The number of new entries logged
+   * @returns The number of new rows actually inserted
    */
   scanLocalLogs(): number {
     let count = 0;
 
-    // Scan Claude logs
-    const claudeEntries = this.claudeScanner.scan();
-    for (const entry of claudeEntries) {
-      this.logRequest({
-        timestamp: new Date(entry.timestamp).getTime(),
-        provider: 'anthropic',
-        model: entry.model,
-        inputTokens: entry.inputTokens,
-        outputTokens: entry.outputTokens,
-        cacheReadInputTokens: entry.cacheReadInputTokens,
-        cacheCreationInputTokens: entry.cacheCreationInputTokens,
-        source: 'claude-code',
-      }, entry.costUSD);
-      count++;
-    }
+    for (const scanner of this.scanners) {
+      const scanOne = this.db.transaction((): number => this.logRequests(scanner.scanUsage()));
 
-    // Scan Codex logs
-    const codexEntries = this.codexScanner.scan();
-    for (const entry of codexEntries) {
-      this.logRequest({
-        timestamp: new Date(entry.timestamp).getTime(),
-        provider: 'openai',
-        model: entry.model,
-        inputTokens: entry.inputTokens,
-        outputTokens: entry.outputTokens,
-        cacheReadInputTokens: entry.cachedInputTokens,
-        source: 'api',
-      });
-      count++;
+      try {
+        count += scanOne();
+      } catch (err) {
+        // The rollback leaves the stored offsets behind the in-memory ones,
+        // so drop the in-memory state and resume from the stored offsets
+        if (scanner.reloadState) {
+          scanner.reloadState();
+        } else {
+          scanner.clearCache();
+        }
+        console.error(`[AiUsageTracker] Scanner "${scanner.id}" failed:`, err);
+      }
     }
 
     return count;
   }
 
+  /**
+   * Directories the enabled scanners read from, for the log watcher.
+   * Scanners that don't expose watch roots contribute nothing and are
+   * picked up by the watcher's periodic rescan.
+   */
+  getWatchRoots(): string[] {
+    const roots = new Set<string>();
+    for (const scanner of this.scanners) {
+      for (const root of scanner.getWatchRoots?.() ?? []) {
+        roots.add(root);
+      }
+    }
+    return Array.from(roots);
+  }
+
+  /**
+   * Rate-limit windows reported by the enabled scanners, one entry per
+   * scanner that has seen a report. A scanner that throws is skipped.
+   */
+  getReportedRateWindows(): ReportedRateWindows[] {
+    const reports: ReportedRateWindows[] = [];
+    for (const scanner of this.scanners) {
+      try {
+        const reported = scanner.getRateWindows?.();
+        if (reported) reports.push(reported);
+      } catch (err) {
+        console.error(`[AiUsageTracker] Scanner "${scanner.id}" failed to report rate windows:`, err);
+      }
+    }
+    return reports;
+  }
+
+  /** The ids of the scanners this tracker runs, in scan order. */
+  getScannerIds(): string[] {
+    return this.scanners.map((scanner) => scanner.id);
+  }
+
   /**
    * Close the database connection gracefully.
    * Should be called when the monitor is shutting down.
@@ -696,3 +1254,32 @@ export class AiUsageTracker {
     this.db.close();
   }
 }
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/**
+ * Convert a local-time bucket key ('YYYY-MM-DD' or 'YYYY-MM-DD HH') to the
+ * Unix timestamp (ms) of the bucket's start.
+ */
+function parseLocalBucketKey(key: string): number {
+  const [datePart, hourPart] = key.split(' ');
+  const [year, month, day] = datePart.split('-').map(Number);
+  return new Date(year, month - 1, day, hourPart ? Number(hourPart) : 0).getTime();
+}
+
+/** Convert an unpriced-model row into its API shape */
+function toUnpricedModel(row: UnpricedRow): UnpricedModel {
+  return {
+    provider: row.provider as AiProvider,
+    model: row.model,
+    requestCount: row.request_count,
+    totalInputTokens: row.input_tokens,
+    totalOutputTokens: row.output_tokens,
+    totalCacheReadInputTokens: row.cache_read_input_tokens,
+    totalCacheCreationInputTokens: row.cache_creation_input_tokens,
+    firstSeen: row.first_seen,
+    lastSeen: row.last_seen,
+  };
+}
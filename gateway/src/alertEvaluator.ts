@@ -0,0 +1,367 @@
+// ============================================================================
+// OpenClaw Monitor - Alert Evaluator
+// Evaluates the alert rules from the "alerts" section of monitor.json against
+// every StatusMessage the gateway produces, so alerts fire even while no app
+// is connected.
+//
+// A rule's `metric` is a dot-notation path into the StatusMessage (e.g.
+// "system.cpu.usage" or "aiUsage.totalCostToday"); numeric array indices
+// work too ("system.cpu.perCore.0"). A rule fires once its condition
+// has held for `durationSeconds`. While the condition keeps holding it fires
+// again every `cooldownSeconds`, or, without a cooldown, not until the
+// condition has cleared and come back. The cooldown also spans episodes: a
+// metric flapping around the threshold doesn't fire again until
+// `cooldownSeconds` after the last notification. A snoozed rule doesn't
+// fire until the snooze ends; if its condition still holds then, it fires
+// at that point.
+//
+// The most recent notifications are kept, with their acknowledged flag, so
+// the desktop app can show an alert history.
+// ============================================================================
+
+import crypto from 'crypto';
+import type {
+  AlertNotification,
+  AlertOperator,
+  AlertRule,
+  AlertSeverity,
+  StatusMessage,
+} from './types.js';
+
+const OPERATORS: AlertOperator[] = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq'];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+/** Number of notifications kept in the history */
+const MAX_HISTORY = 100;
+
+/**
+ * Dot-notation paths to the numbers and booleans of a type, through nested
+ * objects but not arrays or records, whose keys vary from one status to
+ * the next.
+ */
+type MetricPath<T> = {
+  [K in keyof T & string]: NonNullable<T[K]> extends number | boolean
+    ? K
+    : NonNullable<T[K]> extends readonly unknown[]
+      ? never
+      : NonNullable<T[K]> extends object
+        ? string extends keyof NonNullable<T[K]> ? never : `${K}.${MetricPath<NonNullable<T[K]>>}`
+        : never;
+}[keyof T & string];
+
+/**
+ * The fixed metric paths of a StatusMessage, for metric autocomplete in
+ * rule editors. Sections that are only present with a budget or forecast
+ * are included; array indices and record keys work in rules but aren't
+ * listed. The protocol version is not a metric.
+ */
+export const METRIC_PATHS: readonly Exclude<MetricPath<StatusMessage>, 'version'>[] = [
+  'system.cpu.usage',
+  'system.cpu.cores',
+  'system.memory.usagePercent',
+  'system.memory.usedGB',
+  'system.memory.totalGB',
+  'system.disk.usagePercent',
+  'system.disk.usedGB',
+  'system.disk.totalGB',
+  'system.temperature.cpu',
+  'system.network.uploadMBps',
+  'system.network.downloadMBps',
+  'system.uptime',
+  'openclaw.isRunning',
+  'openclaw.uptime',
+  'openclaw.sessions.active',
+  'openclaw.sessions.total',
+  'openclaw.context.used',
+  'openclaw.context.limit',
+  'openclaw.tokens.input',
+  'openclaw.tokens.output',
+  'aiUsage.totalCostToday',
+  'aiUsage.totalCostThisMonth',
+  'aiUsage.budget.total.used',
+  'aiUsage.budget.total.limit',
+  'aiUsage.forecast.burnRatePerHour',
+  'aiUsage.forecast.burnRateWindowHours',
+  'aiUsage.forecast.monthToDate',
+  'aiUsage.forecast.projectedMonthEnd',
+  'aiUsage.forecast.projectedMonthEndLow',
+  'aiUsage.forecast.projectedMonthEndHigh',
+  'aiUsage.forecast.daysUntilBudgetExhausted',
+  'aiUsage.forecast.historyDays',
+];
+
+/** Evaluation state of one rule */
+interface RuleState {
+  /** Definition the state belongs to; a changed rule starts over */
+  rule: AlertRule;
+  /** When the condition started holding (ms), or null while it doesn't */
+  conditionSince: number | null;
+  /** Whether the rule fired since the condition started holding */
+  firedThisEpisode: boolean;
+  /** When the rule last fired (ms), in this or an earlier episode, or null */
+  lastFiredAt: number | null;
+}
+
+// ============================================================================
+// AlertEvaluator
+// ============================================================================
+
+/**
+ * Tracks how long each rule's condition has held and produces an
+ * AlertNotification whenever a rule fires.
+ */
+export class AlertEvaluator {
+  private states = new Map<string, RuleState>();
+
+  /** Snooze end (ms) per rule id; kept when the rule is edited */
+  private snoozes = new Map<string, number>();
+
+  /** Recent notifications, newest first */
+  private history: AlertNotification[] = [];
+
+  /**
+   * @param rules - Validated rules (see parseAlertRules)
+   */
+  constructor(rules: AlertRule[] = []) {
+    this.setRules(rules);
+  }
+
+  /**
+   * Replace the rules, e.g. after monitor.json changed. Rules whose
+   * definition is unchanged keep their state, so a reload neither restarts
+   * their duration nor lets them fire again.
+   */
+  setRules(rules: AlertRule[]): void {
+    const states = new Map<string, RuleState>();
+    for (const rule of rules) {
+      const previous = this.states.get(rule.id);
+      states.set(
+        rule.id,
+        previous && sameRule(previous.rule, rule)
+          ? previous
+          : { rule, conditionSince: null, firedThisEpisode: false, lastFiredAt: null },
+      );
+    }
+    this.states = states;
+  }
+
+  /** The current rules */
+  getRules(): AlertRule[] {
+    return [...this.states.values()].map((state) => state.rule);
+  }
+
+  /**
+   * Evaluate every enabled rule against a status snapshot.
+   *
+   * @param status - The status message just built
+   * @param now - Current time in ms (injectable for tests)
+   * @returns Notifications for the rules that fired
+   */
+  evaluate(status: StatusMessage, now: number = Date.now()): AlertNotification[] {
+    const notifications: AlertNotification[] = [];
+
+    for (const state of this.states.values()) {
+      const { rule } = state;
+      const value = rule.enabled ? resolveMetric(status, rule.metric) : undefined;
+
+      if (value === undefined || !compare(value, rule.operator, rule.threshold)) {
+        state.conditionSince = null;
+        state.firedThisEpisode = false;
+        continue;
+      }
+
+      state.conditionSince ??= now;
+      if (now - state.conditionSince < rule.durationSeconds * 1000) continue;
+
+      // Without a cooldown, once per episode; with one, not within it of
+      // the last notification, whichever episode that was in
+      if (rule.cooldownSeconds === undefined) {
+        if (state.firedThisEpisode) continue;
+      } else if (state.lastFiredAt !== null && now - state.lastFiredAt < rule.cooldownSeconds * 1000) {
+        continue;
+      }
+
+      const snoozedUntil = this.snoozes.get(rule.id);
+      if (snoozedUntil !== undefined) {
+        if (now < snoozedUntil) continue;
+        this.snoozes.delete(rule.id);
+      }
+
+      state.firedThisEpisode = true;
+      state.lastFiredAt = now;
+      notifications.push({
+        id: crypto.randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        currentValue: value,
+        threshold: rule.threshold,
+        triggeredAt: new Date(now).toISOString(),
+        acknowledged: false,
+      });
+    }
+
+    if (notifications.length > 0) {
+      this.history = [...notifications.map((n) => ({ ...n })).reverse(), ...this.history].slice(0, MAX_HISTORY);
+    }
+    return notifications;
+  }
+
+  /**
+   * Keep a rule from firing for a while. Its condition is still tracked,
+   * so it fires when the snooze ends if the condition still holds.
+   *
+   * @param ruleId - Rule to snooze
+   * @param until - End of the snooze (ms)
+   */
+  snooze(ruleId: string, until: number): void {
+    this.snoozes.set(ruleId, until);
+  }
+
+  /**
+   * Mark a notification in the history as acknowledged.
+   *
+   * @returns The updated notification, or null if it's no longer in the history
+   */
+  acknowledge(notificationId: string): AlertNotification | null {
+    const notification = this.history.find((n) => n.id === notificationId);
+    if (!notification) return null;
+    notification.acknowledged = true;
+    return { ...notification };
+  }
+
+  /** Recent notifications, newest first */
+  getHistory(): AlertNotification[] {
+    return this.history.map((n) => ({ ...n }));
+  }
+}
+
+// ============================================================================
+// Config validation
+// ============================================================================
+
+/**
+ * Validate the "alerts" section of monitor.json. Invalid rules are dropped
+ * and reported.
+ *
+ * @param raw - The parsed "alerts" value (may be undefined)
+ * @returns The usable rules and one message per problem found
+ */
+export function parseAlertRules(raw: unknown): { rules: AlertRule[]; errors: string[] } {
+  const rules: AlertRule[] = [];
+  const errors: string[] = [];
+
+  if (raw === undefined || raw === null) return { rules, errors };
+  if (!Array.isArray(raw)) {
+    errors.push('alerts must be an array of rules');
+    return { rules, errors };
+  }
+
+  const seen = new Set<string>();
+  raw.forEach((value: unknown, index) => {
+    const where = `alerts[${index}]`;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${where}: expected an object`);
+      return;
+    }
+    const entry = value as Record<string, unknown>;
+    const problems: string[] = [];
+
+    if (typeof entry.id !== 'string' || entry.id === '') {
+      problems.push(`${where}.id: expected a non-empty string`);
+    } else if (seen.has(entry.id)) {
+      problems.push(`${where}.id: duplicate rule id "${entry.id}"`);
+    }
+    if (typeof entry.name !== 'string') problems.push(`${where}.name: expected a string`);
+    if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+      problems.push(`${where}.enabled: expected a boolean`);
+    }
+    if (typeof entry.metric !== 'string' || entry.metric === '') {
+      problems.push(`${where}.metric: expected a dot-notation path`);
+    }
+    if (!OPERATORS.includes(entry.operator as AlertOperator)) {
+      problems.push(`${where}.operator: expected one of ${OPERATORS.join(', ')}`);
+    }
+    if (typeof entry.threshold !== 'number' || !Number.isFinite(entry.threshold)) {
+      problems.push(`${where}.threshold: expected a number`);
+    }
+    if (!isNonNegative(entry.durationSeconds ?? 0)) {
+      problems.push(`${where}.durationSeconds: expected a non-negative number`);
+    }
+    if (!SEVERITIES.includes(entry.severity as AlertSeverity)) {
+      problems.push(`${where}.severity: expected one of ${SEVERITIES.join(', ')}`);
+    }
+    if (entry.cooldownSeconds !== undefined && !isNonNegative(entry.cooldownSeconds)) {
+      problems.push(`${where}.cooldownSeconds: expected a non-negative number`);
+    }
+
+    if (problems.length > 0) {
+      errors.push(...problems);
+      return;
+    }
+
+    seen.add(entry.id as string);
+    const rule: AlertRule = {
+      id: entry.id as string,
+      name: entry.name as string,
+      enabled: (entry.enabled as boolean | undefined) ?? true,
+      metric: entry.metric as string,
+      operator: entry.operator as AlertOperator,
+      threshold: entry.threshold as number,
+      durationSeconds: (entry.durationSeconds as number | undefined) ?? 0,
+      severity: entry.severity as AlertSeverity,
+    };
+    if (entry.cooldownSeconds !== undefined) rule.cooldownSeconds = entry.cooldownSeconds as number;
+    rules.push(rule);
+  });
+
+  return { rules, errors };
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/**
+ * Resolve a dot-notation path against a status message. Booleans count as
+ * 1 and 0; anything else that isn't a finite number resolves to undefined.
+ */
+export function resolveMetric(status: StatusMessage, metric: string): number | undefined {
+  let current: unknown = status;
+  for (const key of metric.split('.')) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  if (typeof current === 'boolean') return current ? 1 : 0;
+  return typeof current === 'number' && Number.isFinite(current) ? current : undefined;
+}
+
+
+/** Apply a rule operator */
+function compare(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+    case 'eq': return value === threshold;
+    case 'neq': return value !== threshold;
+  }
+}
+
+/** Whether two rule definitions are identical */
+function sameRule(a: AlertRule, b: AlertRule): boolean {
+  return a.name === b.name
+    && a.enabled === b.enabled
+    && a.metric === b.metric
+    && a.operator === b.operator
+    && a.threshold === b.threshold
+    && a.durationSeconds === b.durationSeconds
+    && a.severity === b.severity
+    && a.cooldownSeconds === b.cooldownSeconds;
+}
+
+/** Whether a value is a finite number of at least zero */
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
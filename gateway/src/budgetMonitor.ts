@@ -0,0 +1,309 @@
+// ============================================================================
+// OpenClaw Monitor - Budget Monitor
+// Compares month-to-date AI spend with the limits in the "budgets" section
+// of ~/.openclaw/monitor.json: a monthly total, per-provider amounts and
+// per-project amounts.
+//
+// Every evaluation produces a ProviderCostSnapshot per provider (budgeted or
+// not) for the status payload. When spend crosses one of the warnAtPercent
+// thresholds of a budget, a BudgetWarning is raised once for that budget and
+// month, so warnings reach the gateway's log and the desktop app even when
+// no phone is paired. The thresholds already warned about are kept in the
+// tracker's ai_usage_meta table, so a restart doesn't raise them again.
+// ============================================================================
+
+import type { AiUsageTracker } from './aiUsageTracker.js';
+import type { BudgetConfig, BudgetStatus, BudgetWarning, ProviderCostSnapshot } from './types.js';
+
+/** Thresholds used when the config doesn't set warnAtPercent */
+export const DEFAULT_WARN_AT_PERCENT = [80, 100];
+
+/** ai_usage_meta key of the persisted warning state */
+const WARNED_META_KEY = 'budget_warnings';
+
+/** Warning state of one budget for the current month */
+interface WarnedState {
+  /** The limit the threshold was crossed against */
+  limit: number;
+  /** Highest threshold already warned about */
+  thresholdPercent: number;
+}
+
+/** Warning state as stored in ai_usage_meta */
+interface StoredWarnings {
+  /** Month the state belongs to (YYYY-MM, local time) */
+  month: string;
+  /** Warning state keyed by budget */
+  warned: Record<string, WarnedState>;
+}
+
+/** Result of one budget evaluation */
+export interface BudgetEvaluation {
+  /** Spend against every budget, for StatusMessage.aiUsage.budget */
+  status: BudgetStatus;
+  /** Thresholds crossed since the previous evaluation */
+  warnings: BudgetWarning[];
+}
+
+// ============================================================================
+// BudgetMonitor
+// ============================================================================
+
+/**
+ * Tracks month-to-date spend against the configured budgets and raises
+ * a warning the first time each threshold of a budget is crossed.
+ */
+export class BudgetMonitor {
+  private budgets: BudgetConfig;
+  private thresholds: number[];
+
+  /** Thresholds already warned about this month, keyed by budget */
+  private warned = new Map<string, WarnedState>();
+  /** Month the warned map belongs to (YYYY-MM, local time) */
+  private warnedMonth: string | null = null;
+
+  /**
+   * @param tracker - Source of month-to-date spend
+   * @param budgets - Validated budget config (see parseBudgetConfig)
+   */
+  constructor(private tracker: AiUsageTracker, budgets: BudgetConfig = {}) {
+    this.budgets = budgets;
+    this.thresholds = normalizeThresholds(budgets.warnAtPercent);
+  }
+
+  /**
+   * Replace the budget config, e.g. after monitor.json changed. Budgets
+   * whose limit changed may warn again for thresholds already crossed.
+   */
+  setBudgets(budgets: BudgetConfig): void {
+    this.budgets = budgets;
+    this.thresholds = normalizeThresholds(budgets.warnAtPercent);
+  }
+
+  /** The monthly budget across all providers, if one is set */
+  get monthlyLimit(): number | undefined {
+    return this.budgets.monthly;
+  }
+
+  /**
+   * Compute month-to-date spend for the total, each provider and each
+   * budgeted project, and collect warnings for newly crossed thresholds.
+   *
+   * @param now - Current time (injectable for tests)
+   */
+  evaluate(now: Date = new Date()): BudgetEvaluation {
+    const month = monthKey(now);
+    if (month !== this.warnedMonth) {
+      this.loadWarned(month);
+    }
+
+    const resetsAt = new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
+    const snapshot = (used: number, limit: number | undefined): ProviderCostSnapshot => ({
+      used: Math.round(used * 100) / 100,
+      limit,
+      currencyCode: 'USD',
+      period: 'Monthly',
+      resetsAt,
+    });
+
+    const summary = this.tracker.getUsageSummary('month');
+    const warnings: BudgetWarning[] = [];
+
+    // Total across all providers
+    const totalUsed = summary.providers.reduce((sum, p) => sum + p.totalCost, 0);
+    const total = snapshot(totalUsed, this.budgets.monthly);
+    this.check('total', undefined, total, warnings);
+
+    // Every provider with spend, plus budgeted providers without any yet
+    const providers: Record<string, ProviderCostSnapshot> = {};
+    const providerLimits = this.budgets.providers ?? {};
+    for (const p of summary.providers) {
+      providers[p.provider] = snapshot(p.totalCost, providerLimits[p.provider]);
+    }
+    for (const [provider, limit] of Object.entries(providerLimits)) {
+      providers[provider] ??= snapshot(0, limit);
+    }
+    for (const [provider, providerSnapshot] of Object.entries(providers)) {
+      this.check('provider', provider, providerSnapshot, warnings);
+    }
+
+    // Only budgeted projects; skip the per-project query when there are none
+    const projects: Record<string, ProviderCostSnapshot> = {};
+    const projectLimits = this.budgets.projects ?? {};
+    if (Object.keys(projectLimits).length > 0) {
+      const spend = new Map(
+        this.tracker.getUsageByProject('month').map((p) => [p.projectPath, p.totalCost]),
+      );
+      for (const [project, limit] of Object.entries(projectLimits)) {
+        projects[project] = snapshot(spend.get(project) ?? 0, limit);
+        this.check('project', project, projects[project], warnings);
+      }
+    }
+
+    return { status: { total, providers, projects }, warnings };
+  }
+
+  /**
+   * Restore the thresholds already warned about in a month from the
+   * tracker, starting empty if the stored state is from another month or
+   * unreadable.
+   */
+  private loadWarned(month: string): void {
+    this.warned.clear();
+    this.warnedMonth = month;
+
+    const raw = this.tracker.getMeta(WARNED_META_KEY);
+    if (raw === undefined) return;
+    try {
+      const stored = JSON.parse(raw) as Partial<StoredWarnings>;
+      if (stored.month !== month || !isObject(stored.warned)) return;
+      for (const [budgetKey, state] of Object.entries(stored.warned)) {
+        if (isObject(state) && isPositiveNumber(state.limit) && isPositiveNumber(state.thresholdPercent)) {
+          this.warned.set(budgetKey, { limit: state.limit, thresholdPercent: state.thresholdPercent });
+        }
+      }
+    } catch (err) {
+      console.warn('[BudgetMonitor] Ignoring unreadable warning state:', err);
+    }
+  }
+
+  /** Store the thresholds warned about this month in the tracker */
+  private saveWarned(): void {
+    if (this.warnedMonth === null) return;
+    const stored: StoredWarnings = { month: this.warnedMonth, warned: Object.fromEntries(this.warned) };
+    try {
+      this.tracker.setMeta(WARNED_META_KEY, JSON.stringify(stored));
+    } catch (err) {
+      console.error('[BudgetMonitor] Failed to save warning state:', err);
+    }
+  }
+
+  /**
+   * Add a warning if the snapshot crossed a threshold above the highest
+   * one already warned about for this budget.
+   */
+  private check(
+    scope: BudgetWarning['scope'],
+    key: string | undefined,
+    snapshot: ProviderCostSnapshot,
+    warnings: BudgetWarning[],
+  ): void {
+    const limit = snapshot.limit;
+    if (limit === undefined) return;
+
+    const budgetKey = `${scope}:${key ?? ''}`;
+    const previous = this.warned.get(budgetKey);
+    const alreadyWarned = previous && previous.limit === limit ? previous.thresholdPercent : 0;
+
+    const percent = (snapshot.used / limit) * 100;
+    const crossed = this.thresholds.filter((t) => percent >= t && t > alreadyWarned);
+    if (crossed.length === 0) {
+      // Forget warnings made against a different limit
+      if (previous && previous.limit !== limit) {
+        this.warned.delete(budgetKey);
+        this.saveWarned();
+      }
+      return;
+    }
+
+    // Report only the highest threshold crossed since the last evaluation
+    const thresholdPercent = crossed[crossed.length - 1];
+    this.warned.set(budgetKey, { limit, thresholdPercent });
+    this.saveWarned();
+
+    const subject = scope === 'total' ? 'Total AI spend' : `AI spend for ${key}`;
+    warnings.push({
+      scope,
+      key,
+      thresholdPercent,
+      snapshot,
+      message:
+        `${subject} reached ${Math.floor(percent)}% of the $${limit.toFixed(2)} monthly budget ` +
+        `($${snapshot.used.toFixed(2)} spent)`,
+    });
+  }
+}
+
+// ============================================================================
+// Config validation
+// ============================================================================
+
+/**
+ * Validate the "budgets" section of monitor.json. Invalid amounts are
+ * dropped and reported; the rest of the section is kept.
+ *
+ * @param raw - The parsed "budgets" value (may be undefined)
+ * @returns The usable budgets and one message per problem found
+ */
+export function parseBudgetConfig(raw: unknown): { budgets: BudgetConfig; errors: string[] } {
+  const budgets: BudgetConfig = {};
+  const errors: string[] = [];
+
+  if (raw === undefined || raw === null) return { budgets, errors };
+  if (!isObject(raw)) {
+    errors.push('budgets must be an object');
+    return { budgets, errors };
+  }
+
+  if (raw.monthly !== undefined) {
+    if (isPositiveNumber(raw.monthly)) {
+      budgets.monthly = raw.monthly;
+    } else {
+      errors.push('budgets.monthly: expected a positive number');
+    }
+  }
+
+  for (const field of ['providers', 'projects'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (!isObject(value)) {
+      errors.push(`budgets.${field}: expected an object`);
+      continue;
+    }
+    const limits: Record<string, number> = {};
+    for (const [key, limit] of Object.entries(value)) {
+      if (isPositiveNumber(limit)) {
+        limits[key] = limit;
+      } else {
+        errors.push(`budgets.${field}["${key}"]: expected a positive number`);
+      }
+    }
+    budgets[field] = limits;
+  }
+
+  if (raw.warnAtPercent !== undefined) {
+    const thresholds = raw.warnAtPercent;
+    if (Array.isArray(thresholds) && thresholds.length > 0 && thresholds.every(isPositiveNumber)) {
+      budgets.warnAtPercent = thresholds;
+    } else {
+      errors.push('budgets.warnAtPercent: expected a non-empty array of positive numbers');
+    }
+  }
+
+  return { budgets, errors };
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/** Sorted, de-duplicated thresholds, falling back to the defaults */
+function normalizeThresholds(thresholds: number[] | undefined): number[] {
+  const values = thresholds && thresholds.length > 0 ? thresholds : DEFAULT_WARN_AT_PERCENT;
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/** YYYY-MM key of the local calendar month */
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Whether a value is a plain (non-array) object */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Whether a value is a finite number above zero */
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -17,6 +17,10 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { normalizeClaudeModel } from './modelNormalizer.js';
+import { readLines } from './jsonlLineReader.js';
+import type { UsageLogRecord } from './types.js';
+import type { UsageLogScanner } from './scannerRegistry.js';
+import type { ScanStateStore } from './scanStateStore.js';
 
 // ============================================================================
 // Types
@@ -40,12 +44,17 @@ export interface ClaudeUsageEntry {
   timestamp: string;
   /** Pre-calculated cost in USD from Claude Code (if available) */
   costUSD?: number;
+  /** Claude Code session id (the conversation the message belongs to) */
+  sessionId?: string;
+  /** Working directory of the session, from the project folder the log lives in */
+  projectPath?: string;
 }
 
 /**
  * Per-file scan state for incremental scanning.
  * Stored so that on subsequent scans, unchanged files can be skipped entirely
- * and grown files can be scanned from where we left off.
+ * and grown files can be scanned from where we left off. Parsed entries are
+ * not kept: each is handed out exactly once, by the scan that read it.
  */
 interface FileScanState {
   /** Absolute file path */
@@ -56,8 +65,6 @@ interface FileScanState {
   lastMtimeMs: number;
   /** Byte offset where we stopped reading */
   lastOffset: number;
-  /** Usage entries extracted from this file */
-  entries: ClaudeUsageEntry[];
 }
 
 // ============================================================================
@@ -72,19 +79,35 @@ interface FileScanState {
  * 2. Skips files whose size and mtime haven't changed since last scan.
  * 3. For files that grew, reads only the new bytes from lastOffset.
  * 4. Deduplicates streaming chunks by message.id + requestId (keeps last).
- * 5. Returns all usage entries found.
+ * 5. Returns the usage entries read during this pass.
  */
-export class ClaudeLogScanner {
+export class ClaudeLogScanner implements UsageLogScanner {
+  /** Scanner id used in MonitorConfig.aiUsage.scanners */
+  readonly id = 'claude-code';
+
   // Cache of per-file scan state keyed by absolute file path
   private fileStates = new Map<string, FileScanState>();
 
+  // Whether fileStates has been hydrated from the state store yet
+  private persistedStatesLoaded = false;
+
+  /**
+   * @param stateStore - Optional persistent store for per-file scan state.
+   *                     When provided, offsets survive gateway restarts.
+   */
+  constructor(private stateStore?: ScanStateStore) {}
+
   /**
-   * Scan all Claude JSONL log files and return usage entries.
-   * Uses incremental scanning to avoid re-parsing unchanged files.
+   * Scan all Claude JSONL log files and return usage entries that are new
+   * since the previous call. Unchanged files contribute nothing; a file that
+   * has to be rescanned from the start (truncated or rewritten) contributes
+   * all of its entries again, which the tracker's dedup index absorbs.
    *
-   * @returns Array of usage entries across all scanned files
+   * @returns Array of newly read usage entries across all scanned files
    */
   scan(): ClaudeUsageEntry[] {
+    this.loadPersistedStates();
+
     const roots = this.getProjectRoots();
     const allEntries: ClaudeUsageEntry[] = [];
     const touchedPaths = new Set<string>();
@@ -97,7 +120,9 @@ export class ClaudeLogScanner {
 
       for (const filePath of jsonlFiles) {
         touchedPaths.add(filePath);
-        const entries = this.scanFile(filePath);
+        // Logs live under <root>/<encoded project path>/...
+        const projectDir = path.relative(root, filePath).split(path.sep)[0];
+        const entries = this.scanFile(filePath, projectDir);
         allEntries.push(...entries);
       }
     }
@@ -106,17 +131,88 @@ export class ClaudeLogScanner {
     for (const cachedPath of this.fileStates.keys()) {
       if (!touchedPaths.has(cachedPath)) {
         this.fileStates.delete(cachedPath);
+        this.stateStore?.remove(this.id, cachedPath);
       }
     }
 
     return allEntries;
   }
 
+  /**
+   * Scan the logs and map each entry to a usage record for the tracker.
+   * Claude Code's pre-calculated costUSD is passed through when present.
+   */
+  scanUsage(): UsageLogRecord[] {
+    return this.scan().map((entry) => ({
+      timestamp: new Date(entry.timestamp).getTime(),
+      provider: 'anthropic',
+      model: entry.model,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      cacheReadInputTokens: entry.cacheReadInputTokens,
+      cacheCreationInputTokens: entry.cacheCreationInputTokens,
+      source: 'claude-code',
+      sessionId: entry.sessionId,
+      projectPath: entry.projectPath,
+      preCalculatedCost: entry.costUSD,
+    }));
+  }
+
+  /** The Claude projects directories, watched to trigger scans. */
+  getWatchRoots(): string[] {
+    return this.getProjectRoots();
+  }
+
   /**
    * Clear the internal scan cache, forcing a full rescan on next call.
    */
   clearCache(): void {
     this.fileStates.clear();
+    this.persistedStatesLoaded = true;
+    this.stateStore?.clear(this.id);
+  }
+
+  /**
+   * Drop the in-memory scan state and reload the stored offsets on the
+   * next call, e.g. after the scan's rows were rolled back.
+   */
+  reloadState(): void {
+    this.fileStates.clear();
+    this.persistedStatesLoaded = false;
+  }
+
+  // --------------------------------------------------------------------------
+  // State persistence
+  // --------------------------------------------------------------------------
+
+  /**
+   * Hydrate the in-memory file states from the state store (once).
+   * Entries before the stored offset are already in the database, so only
+   * bytes written after it are parsed.
+   */
+  private loadPersistedStates(): void {
+    if (this.persistedStatesLoaded || !this.stateStore) return;
+    this.persistedStatesLoaded = true;
+
+    for (const [filePath, persisted] of this.stateStore.load(this.id)) {
+      this.fileStates.set(filePath, {
+        filePath,
+        lastSize: persisted.size,
+        lastMtimeMs: persisted.mtimeMs,
+        lastOffset: persisted.offset,
+      });
+    }
+  }
+
+  /** Record a file's scan state in memory and in the state store. */
+  private setFileState(state: FileScanState): void {
+    this.fileStates.set(state.filePath, state);
+    this.stateStore?.save(this.id, {
+      filePath: state.filePath,
+      size: state.lastSize,
+      mtimeMs: state.lastMtimeMs,
+      offset: state.lastOffset,
+    });
   }
 
   // --------------------------------------------------------------------------
@@ -193,12 +289,14 @@ export class ClaudeLogScanner {
    * Scan a single JSONL file, using incremental scanning when possible.
    *
    * Incremental scanning logic:
-   * - If the file's size and mtime match the cached state, return cached entries.
+   * - If the file's size and mtime match the cached state, there is nothing new.
    * - If the file grew (size > lastSize), read only from lastOffset onward
-   *   and merge the new entries with cached ones.
+   *   and return just those entries. lastOffset sits just past the last
+   *   complete line, so a line that was mid-write is re-read whole.
    * - If the file shrunk or mtime changed without size growth, do a full rescan.
+   * - If the file can't be read, keep the cached state so the next scan retries.
    */
-  private scanFile(filePath: string): ClaudeUsageEntry[] {
+  private scanFile(filePath: string, projectDir: string): ClaudeUsageEntry[] {
     let stat: fs.Stats;
     try {
       stat = fs.statSync(filePath);
@@ -213,39 +311,38 @@ export class ClaudeLogScanner {
 
     const cached = this.fileStates.get(filePath);
 
-    // File unchanged: return cached entries
+    // File unchanged: nothing new to report
     if (cached && cached.lastSize === size && cached.lastMtimeMs === mtimeMs) {
-      return cached.entries;
+      return [];
     }
 
     // File grew: read only the new portion (incremental scan)
     if (cached && size > cached.lastSize && cached.lastOffset > 0 && cached.lastOffset <= size) {
-      const newEntries = this.parseFile(filePath, cached.lastOffset);
-      const mergedEntries = [...cached.entries, ...newEntries];
+      const result = this.parseFile(filePath, cached.lastOffset, projectDir);
+      if (!result) return [];
 
-      this.fileStates.set(filePath, {
+      this.setFileState({
         filePath,
         lastSize: size,
         lastMtimeMs: mtimeMs,
-        lastOffset: size,
-        entries: mergedEntries,
+        lastOffset: result.endOffset,
       });
 
-      return mergedEntries;
+      return result.entries;
     }
 
     // Full rescan: file is new, shrunk, or offset is invalid
-    const entries = this.parseFile(filePath, 0);
+    const result = this.parseFile(filePath, 0, projectDir);
+    if (!result) return [];
 
-    this.fileStates.set(filePath, {
+    this.setFileState({
       filePath,
       lastSize: size,
       lastMtimeMs: mtimeMs,
-      lastOffset: size,
-      entries,
+      lastOffset: result.endOffset,
     });
 
-    return entries;
+    return result.entries;
   }
 
   /**
@@ -259,31 +356,26 @@ export class ClaudeLogScanner {
    * per message with cumulative usage counts. We keep only the first
    * occurrence of each message+request pair (which has the full counts).
    *
+   * Lines are streamed in fixed-size chunks, so memory stays bounded no
+   * matter how large the file is.
+   *
+   * Each entry is attributed to its session (the line's sessionId, or the
+   * file name, which Claude Code sets to the session id) and to the project
+   * path encoded in the folder name.
+   *
    * @param filePath - Absolute path to the JSONL file
    * @param startOffset - Byte offset to start reading from
-   * @returns Parsed usage entries
+   * @param projectDir - Name of the project folder the file lives in
+   * @returns Parsed usage entries and the offset just past the last complete
+   *   line, or null if the file couldn't be read
    */
-  private parseFile(filePath: string, startOffset: number): ClaudeUsageEntry[] {
-    let content: string;
-    try {
-      const buffer = Buffer.alloc(0);
-      const fd = fs.openSync(filePath, 'r');
-      try {
-        const fileSize = fs.fstatSync(fd).size;
-        const readSize = fileSize - startOffset;
-        if (readSize <= 0) {
-          fs.closeSync(fd);
-          return [];
-        }
-        const readBuffer = Buffer.alloc(readSize);
-        fs.readSync(fd, readBuffer, 0, readSize, startOffset);
-        content = readBuffer.toString('utf-8');
-      } finally {
-        fs.closeSync(fd);
-      }
-    } catch {
-      return [];
-    }
+  private parseFile(
+    filePath: string,
+    startOffset: number,
+    projectDir: string,
+  ): { entries: ClaudeUsageEntry[]; endOffset: number } | null {
+    const fileSessionId = path.basename(filePath, '.jsonl');
+    let projectPath: string | undefined;
 
     // Track seen message+request IDs to deduplicate streaming chunks.
     // Claude emits multiple lines per message with cumulative usage. We keep
@@ -291,40 +383,38 @@ export class ClaudeLogScanner {
     const entryByKey = new Map<string, ClaudeUsageEntry>();
     const keylessEntries: ClaudeUsageEntry[] = [];
 
-    const lines = content.split('\n');
-
-    for (const line of lines) {
-      if (!line) continue;
+    const handleLine = (line: string): void => {
+      if (!line) return;
 
       // Fast pre-filter: skip lines that clearly don't match.
       // This avoids the cost of JSON.parse on non-matching lines.
-      if (!line.includes('"type":"assistant"') && !line.includes('"type": "assistant"')) continue;
-      if (!line.includes('"usage"')) continue;
+      if (!line.includes('"type":"assistant"') && !line.includes('"type": "assistant"')) return;
+      if (!line.includes('"usage"')) return;
 
       let obj: Record<string, unknown>;
       try {
         obj = JSON.parse(line);
       } catch {
-        continue;
+        return;
       }
 
       // Must be an assistant message with usage data
-      if (obj.type !== 'assistant') continue;
+      if (obj.type !== 'assistant') return;
 
       const tsText = obj.timestamp as string | undefined;
-      if (!tsText) continue;
+      if (!tsText) return;
 
       const dayKey = dayKeyFromISO(tsText);
-      if (!dayKey) continue;
+      if (!dayKey) return;
 
       const message = obj.message as Record<string, unknown> | undefined;
-      if (!message) continue;
+      if (!message) return;
 
       const model = message.model as string | undefined;
-      if (!model || model === '<synthetic>') continue;
+      if (!model || model === '<synthetic>') return;
 
       const usage = message.usage as Record<string, unknown> | undefined;
-      if (!usage) continue;
+      if (!usage) return;
 
       const inputTokens = Math.max(0, toInt(usage.input_tokens));
       const outputTokens = Math.max(0, toInt(usage.output_tokens));
@@ -334,12 +424,18 @@ export class ClaudeLogScanner {
       // Skip entries with zero tokens across all fields
       if (inputTokens === 0 && outputTokens === 0 &&
           cacheReadInputTokens === 0 && cacheCreationInputTokens === 0) {
-        continue;
+        return;
       }
 
       // Use pre-calculated cost from Claude Code if available
       const costUSD = typeof obj.costUSD === 'number' ? obj.costUSD : undefined;
 
+      // The folder name is a lossy encoding of the path; prefer the exact
+      // cwd from the log once one is seen that encodes to the same name
+      if (projectPath === undefined || projectPath === decodeProjectDir(projectDir)) {
+        projectPath = resolveProjectPath(projectDir, obj.cwd);
+      }
+
       const entry: ClaudeUsageEntry = {
         dayKey,
         model: normalizeClaudeModel(model),
@@ -349,6 +445,8 @@ export class ClaudeLogScanner {
         cacheCreationInputTokens,
         timestamp: tsText,
         costUSD,
+        sessionId: typeof obj.sessionId === 'string' && obj.sessionId ? obj.sessionId : fileSessionId,
+        projectPath,
       };
 
       // Deduplicate by message.id + requestId — keep last (final cumulative totals)
@@ -359,9 +457,16 @@ export class ClaudeLogScanner {
       } else {
         keylessEntries.push(entry);
       }
+    };
+
+    let endOffset: number;
+    try {
+      endOffset = readLines(filePath, startOffset, handleLine);
+    } catch {
+      return null;
     }
 
-    return [...entryByKey.values(), ...keylessEntries];
+    return { entries: [...entryByKey.values(), ...keylessEntries], endOffset };
   }
 }
 
@@ -397,3 +502,34 @@ function dayKeyFromISO(isoText: string): string | null {
   const day = String(date.getDate()).padStart(2, '0');
   return `${year}-${month}-${day}`;
 }
+
+/**
+ * Encode a path the way Claude Code names its project folders: every
+ * character other than a letter or digit becomes '-'.
+ */
+function encodeProjectPath(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+/**
+ * Best-effort decoding of a Claude Code project folder name back into a
+ * path ("-Users-me-repo" -> "/Users/me/repo"). The encoding is lossy:
+ * dashes, dots and underscores in the original path also come back as '/'.
+ *
+ * @returns The decoded path, or undefined for an empty name
+ */
+function decodeProjectDir(projectDir: string): string | undefined {
+  if (!projectDir || projectDir.endsWith('.jsonl')) return undefined;
+  return projectDir.startsWith('-') ? projectDir.replace(/-/g, '/') : projectDir;
+}
+
+/**
+ * Resolve the project path of a log file: the line's cwd when it matches
+ * the project folder name exactly, otherwise the decoded folder name.
+ */
+function resolveProjectPath(projectDir: string, cwd: unknown): string | undefined {
+  if (typeof cwd === 'string' && cwd && encodeProjectPath(cwd) === projectDir) {
+    return cwd;
+  }
+  return decodeProjectDir(projectDir);
+}
@@ -15,6 +15,10 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { normalizeCodexModel } from './modelNormalizer.js';
+import { readLines } from './jsonlLineReader.js';
+import type { RateWindow, ReportedRateWindows, UsageLogRecord } from './types.js';
+import type { UsageLogScanner } from './scannerRegistry.js';
+import type { ScanStateStore } from './scanStateStore.js';
 
 // ============================================================================
 // Types
@@ -34,11 +38,16 @@ export interface CodexUsageEntry {
   outputTokens: number;
   /** ISO 8601 timestamp from the log line */
   timestamp: string;
+  /** Codex session id, from session_meta (or the rollout file name) */
+  sessionId?: string;
+  /** Working directory of the session, from session_meta / turn_context */
+  cwd?: string;
 }
 
 /**
  * Per-file scan state for incremental scanning.
- * Stores byte offsets and cumulative totals for delta computation.
+ * Stores byte offsets and cumulative totals for delta computation. Parsed
+ * entries are not kept: each is handed out once, by the scan that read it.
  */
 interface FileScanState {
   /** Absolute file path */
@@ -53,8 +62,18 @@ interface FileScanState {
   lastTotals: CumulativeTotals | null;
   /** Last known model name from turn_context events */
   lastModel: string | null;
-  /** Usage entries extracted from this file */
-  entries: CodexUsageEntry[];
+  /** Session identity carried forward from earlier in the file */
+  session: SessionMeta;
+  /** Most recent rate-limit windows reported in the file */
+  lastRateWindows: ReportedRateWindows | null;
+}
+
+/** Identity of the session a log file records. */
+interface SessionMeta {
+  /** Session id (null until known) */
+  id: string | null;
+  /** Most recent working directory (null until known) */
+  cwd: string | null;
 }
 
 /** Cumulative token totals from the most recent event_msg in a session. */
@@ -77,17 +96,33 @@ interface CumulativeTotals {
  * - We compute deltas from consecutive total_token_usage events
  * - turn_context events tell us which model is being used
  */
-export class CodexLogScanner {
+export class CodexLogScanner implements UsageLogScanner {
+  /** Scanner id used in MonitorConfig.aiUsage.scanners */
+  readonly id = 'codex';
+
   // Cache of per-file scan state keyed by absolute file path
   private fileStates = new Map<string, FileScanState>();
 
+  // Whether fileStates has been hydrated from the state store yet
+  private persistedStatesLoaded = false;
+
+  /**
+   * @param stateStore - Optional persistent store for per-file scan state.
+   *                     When provided, offsets survive gateway restarts.
+   */
+  constructor(private stateStore?: ScanStateStore) {}
+
   /**
-   * Scan all Codex JSONL log files and return usage entries.
-   * Uses incremental scanning to avoid re-parsing unchanged files.
+   * Scan all Codex JSONL log files and return usage entries that are new
+   * since the previous call. Unchanged files contribute nothing; a file that
+   * has to be rescanned from the start contributes all of its entries again,
+   * which the tracker's dedup index absorbs.
    *
-   * @returns Array of usage entries across all scanned files
+   * @returns Array of newly read usage entries across all scanned files
    */
   scan(): CodexUsageEntry[] {
+    this.loadPersistedStates();
+
     const roots = this.getSessionRoots();
     const allEntries: CodexUsageEntry[] = [];
     const touchedPaths = new Set<string>();
@@ -108,17 +143,119 @@ export class CodexLogScanner {
     for (const cachedPath of this.fileStates.keys()) {
       if (!touchedPaths.has(cachedPath)) {
         this.fileStates.delete(cachedPath);
+        this.stateStore?.remove(this.id, cachedPath);
       }
     }
 
     return allEntries;
   }
 
+  /**
+   * Scan the logs and map each entry to a usage record for the tracker.
+   */
+  scanUsage(): UsageLogRecord[] {
+    return this.scan().map((entry) => ({
+      timestamp: new Date(entry.timestamp).getTime(),
+      provider: 'openai',
+      model: entry.model,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      cacheReadInputTokens: entry.cachedInputTokens,
+      source: 'codex-cli',
+      sessionId: entry.sessionId,
+      projectPath: entry.cwd,
+    }));
+  }
+
+  /**
+   * The most recent rate-limit windows Codex reported, across all session
+   * files. Codex attaches them to its token_count events.
+   *
+   * @returns The newest report, or null if no log has one
+   */
+  getRateWindows(): ReportedRateWindows | null {
+    this.loadPersistedStates();
+
+    let latest: ReportedRateWindows | null = null;
+    for (const state of this.fileStates.values()) {
+      const reported = state.lastRateWindows;
+      if (reported && (!latest || reported.observedAt > latest.observedAt)) {
+        latest = reported;
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * The Codex sessions directories, watched to trigger scans. Includes
+   * archived_sessions even before it exists so it is watched once created.
+   */
+  getWatchRoots(): string[] {
+    const codexHome = this.getCodexHome();
+    return [path.join(codexHome, 'sessions'), path.join(codexHome, 'archived_sessions')];
+  }
+
   /**
    * Clear the internal scan cache, forcing a full rescan on next call.
    */
   clearCache(): void {
     this.fileStates.clear();
+    this.persistedStatesLoaded = true;
+    this.stateStore?.clear(this.id);
+  }
+
+  /**
+   * Drop the in-memory scan state and reload the stored offsets on the
+   * next call, e.g. after the scan's rows were rolled back.
+   */
+  reloadState(): void {
+    this.fileStates.clear();
+    this.persistedStatesLoaded = false;
+  }
+
+  // --------------------------------------------------------------------------
+  // State persistence
+  // --------------------------------------------------------------------------
+
+  /**
+   * Hydrate the in-memory file states from the state store (once).
+   * Entries before the stored offset are already in the database, so only
+   * bytes written after it are parsed.
+   */
+  private loadPersistedStates(): void {
+    if (this.persistedStatesLoaded || !this.stateStore) return;
+    this.persistedStatesLoaded = true;
+
+    for (const [filePath, persisted] of this.stateStore.load(this.id)) {
+      const extra = persisted.extra ?? {};
+      this.fileStates.set(filePath, {
+        filePath,
+        lastSize: persisted.size,
+        lastMtimeMs: persisted.mtimeMs,
+        lastOffset: persisted.offset,
+        lastTotals: (extra.lastTotals as CumulativeTotals | null | undefined) ?? null,
+        lastModel: (extra.lastModel as string | null | undefined) ?? null,
+        session: (extra.session as SessionMeta | undefined) ?? { id: sessionIdFromFileName(filePath), cwd: null },
+        lastRateWindows: (extra.lastRateWindows as ReportedRateWindows | null | undefined) ?? null,
+      });
+    }
+  }
+
+  /** Record a file's scan state in memory and in the state store. */
+  private setFileState(state: FileScanState): void {
+    this.fileStates.set(state.filePath, state);
+    this.stateStore?.save(this.id, {
+      filePath: state.filePath,
+      size: state.lastSize,
+      mtimeMs: state.lastMtimeMs,
+      offset: state.lastOffset,
+      extra: {
+        lastTotals: state.lastTotals,
+        lastModel: state.lastModel,
+        session: state.session,
+        lastRateWindows: state.lastRateWindows,
+      },
+    });
   }
 
   // --------------------------------------------------------------------------
@@ -132,8 +269,7 @@ export class CodexLogScanner {
    * Also checks for an archived_sessions sibling directory.
    */
   private getSessionRoots(): string[] {
-    const envHome = process.env.CODEX_HOME?.trim();
-    const codexHome = envHome || path.join(os.homedir(), '.codex');
+    const codexHome = this.getCodexHome();
     const sessionsDir = path.join(codexHome, 'sessions');
     const archivedDir = path.join(codexHome, 'archived_sessions');
 
@@ -145,6 +281,12 @@ export class CodexLogScanner {
     return roots;
   }
 
+  /** The Codex home directory: CODEX_HOME if set, otherwise ~/.codex. */
+  private getCodexHome(): string {
+    const envHome = process.env.CODEX_HOME?.trim();
+    return envHome || path.join(os.homedir(), '.codex');
+  }
+
   /**
    * Recursively find all .jsonl files under a directory.
    * Skips hidden files and directories.
@@ -199,40 +341,41 @@ export class CodexLogScanner {
 
     const cached = this.fileStates.get(filePath);
 
-    // File unchanged: return cached entries
+    // File unchanged: nothing new to report
     if (cached && cached.lastSize === size && cached.lastMtimeMs === mtimeMs) {
-      return cached.entries;
+      return [];
     }
 
     // File grew: read only the new portion (incremental scan)
     if (cached && size > cached.lastSize && cached.lastOffset > 0 && cached.lastOffset <= size) {
-      const result = this.parseFile(filePath, cached.lastOffset, cached.lastModel, cached.lastTotals);
-      const mergedEntries = [...cached.entries, ...result.entries];
+      const result = this.parseFile(filePath, cached.lastOffset, cached.lastModel, cached.lastTotals, cached.session);
 
-      this.fileStates.set(filePath, {
+      this.setFileState({
         filePath,
         lastSize: size,
         lastMtimeMs: mtimeMs,
-        lastOffset: size,
+        lastOffset: result.endOffset,
         lastTotals: result.lastTotals,
         lastModel: result.lastModel,
-        entries: mergedEntries,
+        session: result.session,
+        lastRateWindows: result.rateWindows ?? cached.lastRateWindows,
       });
 
-      return mergedEntries;
+      return result.entries;
     }
 
     // Full rescan
-    const result = this.parseFile(filePath, 0, null, null);
+    const result = this.parseFile(filePath, 0, null, null, { id: sessionIdFromFileName(filePath), cwd: null });
 
-    this.fileStates.set(filePath, {
+    this.setFileState({
       filePath,
       lastSize: size,
       lastMtimeMs: mtimeMs,
-      lastOffset: size,
+      lastOffset: result.endOffset,
       lastTotals: result.lastTotals,
       lastModel: result.lastModel,
-      entries: result.entries,
+      session: result.session,
+      lastRateWindows: result.rateWindows,
     });
 
     return result.entries;
@@ -241,76 +384,81 @@ export class CodexLogScanner {
   /**
    * Parse a Codex JSONL file from a given byte offset.
    *
-   * Codex log entries have two relevant types:
-   * - "turn_context": Contains the model name for subsequent events.
+   * Codex log entries have three relevant types:
+   * - "session_meta": The first line of a session, with its id and cwd.
+   *   Payload structure: { id: "<uuid>", cwd: "/path/to/repo", ... }
+   * - "turn_context": Contains the model name (and cwd) for subsequent events.
    *   Payload structure: { model: "gpt-5" } or { info: { model: "gpt-5" } }
    * - "event_msg" with payload.type == "token_count": Contains cumulative
-   *   token usage in payload.info.total_token_usage.
+   *   token usage in payload.info.total_token_usage, and the account's
+   *   rate-limit windows in payload.rate_limits.
    *
    * Since token counts are cumulative per session, we compute deltas by
    * subtracting the previous totals from the current ones.
    *
+   * The file is streamed in fixed-size chunks and a trailing line that is
+   * still being written is left for the next scan.
+   *
    * @param filePath - Absolute path to the JSONL file
    * @param startOffset - Byte offset to start reading from
    * @param initialModel - Carried-forward model name from previous scan
    * @param initialTotals - Carried-forward cumulative totals from previous scan
-   * @returns Parsed entries and final state for incremental scanning
+   * @param initialSession - Carried-forward session identity from previous scan
+   * @returns Parsed entries, final state, the last rate-limit report (null
+   *          if the bytes read had none) and end offset for incremental scanning
    */
   private parseFile(
     filePath: string,
     startOffset: number,
     initialModel: string | null,
     initialTotals: CumulativeTotals | null,
-  ): { entries: CodexUsageEntry[]; lastModel: string | null; lastTotals: CumulativeTotals | null } {
-    let content: string;
-    try {
-      const fd = fs.openSync(filePath, 'r');
-      try {
-        const fileSize = fs.fstatSync(fd).size;
-        const readSize = fileSize - startOffset;
-        if (readSize <= 0) {
-          fs.closeSync(fd);
-          return { entries: [], lastModel: initialModel, lastTotals: initialTotals };
-        }
-        const readBuffer = Buffer.alloc(readSize);
-        fs.readSync(fd, readBuffer, 0, readSize, startOffset);
-        content = readBuffer.toString('utf-8');
-      } finally {
-        fs.closeSync(fd);
-      }
-    } catch {
-      return { entries: [], lastModel: initialModel, lastTotals: initialTotals };
-    }
-
+    initialSession: SessionMeta,
+  ): {
+    entries: CodexUsageEntry[];
+    lastModel: string | null;
+    lastTotals: CumulativeTotals | null;
+    session: SessionMeta;
+    rateWindows: ReportedRateWindows | null;
+    endOffset: number;
+  } {
     const entries: CodexUsageEntry[] = [];
+    let rateWindows: ReportedRateWindows | null = null;
     let currentModel = initialModel;
     let previousTotals = initialTotals;
+    const session = { ...initialSession };
 
-    const lines = content.split('\n');
-
-    for (const line of lines) {
-      if (!line) continue;
+    const handleLine = (line: string): void => {
+      if (!line) return;
 
       // Fast pre-filter: skip lines that don't contain relevant event types
       const isEventMsg = line.includes('"type":"event_msg"') || line.includes('"type": "event_msg"');
       const isTurnContext = line.includes('"type":"turn_context"') || line.includes('"type": "turn_context"');
+      const isSessionMeta = line.includes('"type":"session_meta"') || line.includes('"type": "session_meta"');
 
-      if (!isEventMsg && !isTurnContext) continue;
+      if (!isEventMsg && !isTurnContext && !isSessionMeta) return;
 
       // For event_msg, also require token_count payload
-      if (isEventMsg && !line.includes('"token_count"')) continue;
+      if (isEventMsg && !line.includes('"token_count"')) return;
 
       let obj: Record<string, unknown>;
       try {
         obj = JSON.parse(line);
       } catch {
-        continue;
+        return;
       }
 
       const type = obj.type as string;
       const tsText = obj.timestamp as string | undefined;
 
-      // Handle turn_context: update the current model
+      // Handle session_meta: record the session id and working directory
+      if (type === 'session_meta') {
+        const payload = obj.payload as Record<string, unknown> | undefined;
+        if (typeof payload?.id === 'string' && payload.id) session.id = payload.id;
+        if (typeof payload?.cwd === 'string' && payload.cwd) session.cwd = payload.cwd;
+        return;
+      }
+
+      // Handle turn_context: update the current model and cwd
       if (type === 'turn_context') {
         const payload = obj.payload as Record<string, unknown> | undefined;
         if (payload) {
@@ -318,20 +466,25 @@ export class CodexLogScanner {
           const info = payload.info as Record<string, unknown> | undefined;
           const modelFromInfo = info?.model as string | undefined;
           currentModel = modelFromPayload ?? modelFromInfo ?? currentModel;
+          if (typeof payload.cwd === 'string' && payload.cwd) session.cwd = payload.cwd;
         }
-        continue;
+        return;
       }
 
       // Handle event_msg with token_count payload
-      if (type !== 'event_msg') continue;
-      if (!tsText) continue;
+      if (type !== 'event_msg') return;
+      if (!tsText) return;
 
       const dayKey = dayKeyFromISO(tsText);
-      if (!dayKey) continue;
+      if (!dayKey) return;
 
       const payload = obj.payload as Record<string, unknown> | undefined;
-      if (!payload) continue;
-      if (payload.type !== 'token_count') continue;
+      if (!payload) return;
+      if (payload.type !== 'token_count') return;
+
+      // Rate limits come with every token_count event, even ones without usage
+      const reported = parseRateLimits(payload.rate_limits, tsText);
+      if (reported) rateWindows = reported;
 
       const info = payload.info as Record<string, unknown> | undefined;
 
@@ -368,11 +521,11 @@ export class CodexLogScanner {
         deltaCached = Math.max(0, toInt(last.cached_input_tokens ?? last.cache_read_input_tokens));
         deltaOutput = Math.max(0, toInt(last.output_tokens));
       } else {
-        continue;
+        return;
       }
 
       // Skip zero-delta entries
-      if (deltaInput === 0 && deltaCached === 0 && deltaOutput === 0) continue;
+      if (deltaInput === 0 && deltaCached === 0 && deltaOutput === 0) return;
 
       // Clamp cached tokens to not exceed input tokens
       const cachedClamped = Math.min(deltaCached, deltaInput);
@@ -384,10 +537,26 @@ export class CodexLogScanner {
         cachedInputTokens: cachedClamped,
         outputTokens: deltaOutput,
         timestamp: tsText,
+        sessionId: session.id ?? undefined,
+        cwd: session.cwd ?? undefined,
       });
+    };
+
+    let endOffset: number;
+    try {
+      endOffset = readLines(filePath, startOffset, handleLine);
+    } catch {
+      return {
+        entries: [],
+        lastModel: initialModel,
+        lastTotals: initialTotals,
+        session: initialSession,
+        rateWindows: null,
+        endOffset: startOffset,
+      };
     }
 
-    return { entries, lastModel: currentModel, lastTotals: previousTotals };
+    return { entries, lastModel: currentModel, lastTotals: previousTotals, session, rateWindows, endOffset };
   }
 }
 
@@ -404,6 +573,59 @@ function toInt(value: unknown): number {
   return 0;
 }
 
+/**
+ * Convert the rate_limits of a token_count event into rate windows.
+ * Codex reports a primary (5-hour) and a secondary (weekly) window, each
+ * with used_percent, window_minutes and either resets_in_seconds (relative
+ * to the event) or resets_at (Unix seconds), depending on its version.
+ *
+ * @returns The windows, or null if the event has none
+ */
+function parseRateLimits(value: unknown, tsText: string): ReportedRateWindows | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const observedAt = new Date(tsText).getTime();
+  if (isNaN(observedAt)) return null;
+
+  const limits = value as Record<string, unknown>;
+  const result: ReportedRateWindows = { provider: 'openai', observedAt };
+
+  for (const raw of [limits.primary, limits.secondary]) {
+    if (typeof raw !== 'object' || raw === null) continue;
+    const entry = raw as Record<string, unknown>;
+    if (typeof entry.used_percent !== 'number' || typeof entry.window_minutes !== 'number') continue;
+
+    let resetsAtMs: number | undefined;
+    if (typeof entry.resets_at === 'number') {
+      resetsAtMs = entry.resets_at * 1000;
+    } else if (typeof entry.resets_in_seconds === 'number') {
+      resetsAtMs = observedAt + entry.resets_in_seconds * 1000;
+    }
+
+    const window: RateWindow = {
+      usedPercent: entry.used_percent,
+      windowMinutes: entry.window_minutes,
+      resetsAt: resetsAtMs !== undefined ? new Date(resetsAtMs).toISOString() : undefined,
+    };
+    // Anything shorter than a day is the short window
+    if (entry.window_minutes < 24 * 60) {
+      result.fiveHour = window;
+    } else {
+      result.weekly = window;
+    }
+  }
+
+  return result.fiveHour || result.weekly ? result : null;
+}
+
+/**
+ * Session id from a rollout file name, used until a session_meta line is
+ * read. Codex names files rollout-<timestamp>-<uuid>.jsonl.
+ */
+function sessionIdFromFileName(filePath: string): string | null {
+  const match = /([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i.exec(filePath);
+  return match ? match[1] : null;
+}
+
 /**
  * Extract a YYYY-MM-DD day key from an ISO 8601 timestamp string.
  * Converts from UTC to the local timezone.
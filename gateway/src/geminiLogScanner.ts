@@ -0,0 +1,455 @@
+// ============================================================================
+// OpenClaw Monitor - Gemini CLI Session Log Scanner
+// ============================================================================
+// Scans the Gemini CLI's local chat session files to extract token usage
+// data. Supports incremental scanning (unchanged files are skipped, changed
+// files only yield messages recorded since the last scan).
+//
+// Unlike Claude and Codex, the Gemini CLI does not append JSONL lines: each
+// session is a single JSON document that is rewritten on every turn. A byte
+// offset cannot be resumed mid-document, so instead of lastOffset we keep a
+// message cursor (the index of the first message not yet consumed).
+//
+// Log location:
+//   ~/.gemini/tmp/<project-hash>/chats/session-*.json
+//   Or the directory specified by GEMINI_CLI_HOME env var (replaces ~/.gemini)
+// ============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { normalizeGeminiModel } from './modelNormalizer.js';
+import type { UsageLogRecord } from './types.js';
+import type { UsageLogScanner } from './scannerRegistry.js';
+import type { ScanStateStore } from './scanStateStore.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A single usage entry extracted from a Gemini CLI session message. */
+export interface GeminiUsageEntry {
+  /** ISO date string (YYYY-MM-DD) in local timezone */
+  dayKey: string;
+  /** The model that produced this response */
+  model: string;
+  /** Number of non-cached input tokens */
+  inputTokens: number;
+  /** Number of cached input tokens (prompt cache hits) */
+  cachedInputTokens: number;
+  /** Number of output tokens, including thinking tokens (billed as output) */
+  outputTokens: number;
+  /** ISO 8601 timestamp of the message */
+  timestamp: string;
+}
+
+/**
+ * Per-file scan state for incremental scanning.
+ * Gemini session files are rewritten in place, so we track how many messages
+ * have already been consumed rather than a byte offset. Parsed entries are
+ * not kept: each is handed out once, by the scan that read it.
+ */
+interface FileScanState {
+  /** Absolute file path */
+  filePath: string;
+  /** File size in bytes at last scan */
+  lastSize: number;
+  /** File modification time (ms since epoch) at last scan */
+  lastMtimeMs: number;
+  /** Session id from the file, used to detect a file being reused for a new session */
+  sessionId: string | null;
+  /** Index of the first message not yet consumed */
+  messageCursor: number;
+}
+
+/** Result of parsing one session file from a message cursor. */
+interface ParseResult {
+  entries: GeminiUsageEntry[];
+  sessionId: string | null;
+  messageCursor: number;
+}
+
+// ============================================================================
+// GeminiLogScanner
+// ============================================================================
+
+/**
+ * Scans Gemini CLI chat session files for usage data.
+ *
+ * Each scan pass:
+ * 1. Discovers all session-*.json files under ~/.gemini/tmp/<hash>/chats.
+ * 2. Skips files whose size and mtime haven't changed since last scan.
+ * 3. For changed files of the same session, only consumes messages after
+ *    the stored cursor.
+ * 4. Returns the usage entries read during this pass.
+ */
+export class GeminiLogScanner implements UsageLogScanner {
+  /** Scanner id used in MonitorConfig.aiUsage.scanners */
+  readonly id = 'gemini-cli';
+
+  // Cache of per-file scan state keyed by absolute file path
+  private fileStates = new Map<string, FileScanState>();
+
+  // Whether fileStates has been hydrated from the state store yet
+  private persistedStatesLoaded = false;
+
+  /**
+   * @param stateStore - Optional persistent store for per-file scan state.
+   *                     When provided, offsets survive gateway restarts.
+   */
+  constructor(private stateStore?: ScanStateStore) {}
+
+  /**
+   * Scan all Gemini CLI session files and return usage entries that are new
+   * since the previous call. Unchanged files contribute nothing; a file that
+   * now holds a different session contributes all of its entries.
+   *
+   * @returns Array of newly read usage entries across all scanned files
+   */
+  scan(): GeminiUsageEntry[] {
+    this.loadPersistedStates();
+
+    const root = this.getTmpRoot();
+    const allEntries: GeminiUsageEntry[] = [];
+    const touchedPaths = new Set<string>();
+
+    if (fs.existsSync(root)) {
+      for (const filePath of this.findSessionFiles(root)) {
+        touchedPaths.add(filePath);
+        const entries = this.scanFile(filePath);
+        allEntries.push(...entries);
+      }
+    }
+
+    // Remove cached states for files that no longer exist
+    for (const cachedPath of this.fileStates.keys()) {
+      if (!touchedPaths.has(cachedPath)) {
+        this.fileStates.delete(cachedPath);
+        this.stateStore?.remove(this.id, cachedPath);
+      }
+    }
+
+    return allEntries;
+  }
+
+  /**
+   * Scan the sessions and map each entry to a usage record for the tracker.
+   */
+  scanUsage(): UsageLogRecord[] {
+    return this.scan().map((entry) => ({
+      timestamp: new Date(entry.timestamp).getTime(),
+      provider: 'google',
+      model: entry.model,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      cacheReadInputTokens: entry.cachedInputTokens,
+      source: 'gemini-cli',
+    }));
+  }
+
+  /** The Gemini CLI tmp directory (holding every project's chats), watched to trigger scans. */
+  getWatchRoots(): string[] {
+    return [this.getTmpRoot()];
+  }
+
+  /**
+   * Clear the internal scan cache, forcing a full rescan on next call.
+   */
+  clearCache(): void {
+    this.fileStates.clear();
+    this.persistedStatesLoaded = true;
+    this.stateStore?.clear(this.id);
+  }
+
+  /**
+   * Drop the in-memory scan state and reload the stored offsets on the
+   * next call, e.g. after the scan's rows were rolled back.
+   */
+  reloadState(): void {
+    this.fileStates.clear();
+    this.persistedStatesLoaded = false;
+  }
+
+  // --------------------------------------------------------------------------
+  // State persistence
+  // --------------------------------------------------------------------------
+
+  /**
+   * Hydrate the in-memory file states from the state store (once).
+   * Messages before the stored cursor are already in the database, so only
+   * messages appended after it are consumed.
+   */
+  private loadPersistedStates(): void {
+    if (this.persistedStatesLoaded || !this.stateStore) return;
+    this.persistedStatesLoaded = true;
+
+    for (const [filePath, persisted] of this.stateStore.load(this.id)) {
+      const extra = persisted.extra ?? {};
+      this.fileStates.set(filePath, {
+        filePath,
+        lastSize: persisted.size,
+        lastMtimeMs: persisted.mtimeMs,
+        sessionId: (extra.sessionId as string | null | undefined) ?? null,
+        messageCursor: typeof extra.messageCursor === 'number' ? extra.messageCursor : 0,
+      });
+    }
+  }
+
+  /** Record a file's scan state in memory and in the state store. */
+  private setFileState(state: FileScanState): void {
+    this.fileStates.set(state.filePath, state);
+    this.stateStore?.save(this.id, {
+      filePath: state.filePath,
+      size: state.lastSize,
+      mtimeMs: state.lastMtimeMs,
+      offset: 0,
+      extra: { sessionId: state.sessionId, messageCursor: state.messageCursor },
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Directory discovery
+  // --------------------------------------------------------------------------
+
+  /**
+   * Determine the Gemini CLI temp directory that holds per-project sessions.
+   * If GEMINI_CLI_HOME is set, it replaces ~/.gemini.
+   */
+  private getTmpRoot(): string {
+    const envHome = process.env.GEMINI_CLI_HOME?.trim();
+    const geminiHome = envHome || path.join(os.homedir(), '.gemini');
+    return path.join(geminiHome, 'tmp');
+  }
+
+  /**
+   * Find all session files under <tmp>/<project-hash>/chats/.
+   * Skips hidden files and directories.
+   */
+  private findSessionFiles(root: string): string[] {
+    const results: string[] = [];
+
+    let projectDirs: fs.Dirent[];
+    try {
+      projectDirs = fs.readdirSync(root, { withFileTypes: true });
+    } catch {
+      return results;
+    }
+
+    for (const projectDir of projectDirs) {
+      if (projectDir.name.startsWith('.') || !projectDir.isDirectory()) continue;
+
+      const chatsDir = path.join(root, projectDir.name, 'chats');
+      let files: fs.Dirent[];
+      try {
+        files = fs.readdirSync(chatsDir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      for (const file of files) {
+        if (!file.isFile()) continue;
+        if (file.name.startsWith('session-') && file.name.endsWith('.json')) {
+          results.push(path.join(chatsDir, file.name));
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // --------------------------------------------------------------------------
+  // File scanning
+  // --------------------------------------------------------------------------
+
+  /**
+   * Scan a single session file, using incremental scanning when possible.
+   *
+   * Incremental scanning logic:
+   * - If the file's size and mtime match the cached state, there is nothing new.
+   * - If the file changed but still holds the same session, only consume
+   *   messages from the stored cursor onward.
+   * - If the session id changed or the message list shrank, do a full rescan.
+   */
+  private scanFile(filePath: string): GeminiUsageEntry[] {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(filePath);
+    } catch {
+      return [];
+    }
+
+    const size = stat.size;
+    const mtimeMs = stat.mtimeMs;
+
+    if (size <= 0) return [];
+
+    const cached = this.fileStates.get(filePath);
+
+    // File unchanged: nothing new to report
+    if (cached && cached.lastSize === size && cached.lastMtimeMs === mtimeMs) {
+      return [];
+    }
+
+    const session = readSession(filePath);
+    if (!session) {
+      // Mid-write or corrupt: keep the previous state and retry next scan
+      return [];
+    }
+
+    // Same session grew: consume only messages past the cursor
+    if (
+      cached &&
+      cached.sessionId === session.sessionId &&
+      cached.messageCursor <= session.messages.length
+    ) {
+      const result = this.parseMessages(session, cached.messageCursor);
+
+      this.setFileState({
+        filePath,
+        lastSize: size,
+        lastMtimeMs: mtimeMs,
+        sessionId: result.sessionId,
+        messageCursor: result.messageCursor,
+      });
+
+      return result.entries;
+    }
+
+    // Full rescan: file is new, or was replaced by another session
+    const result = this.parseMessages(session, 0);
+
+    this.setFileState({
+      filePath,
+      lastSize: size,
+      lastMtimeMs: mtimeMs,
+      sessionId: result.sessionId,
+      messageCursor: result.messageCursor,
+    });
+
+    return result.entries;
+  }
+
+  /**
+   * Extract usage entries from a parsed session, starting at a message index.
+   *
+   * Only "gemini" (model response) messages carry a tokens object:
+   *   { input, output, cached, thoughts, tool, total }
+   * where input includes the cached portion. Thinking tokens are billed at
+   * the output rate, so they are folded into outputTokens.
+   *
+   * The Gemini CLI records a response first and attaches its token counts
+   * afterwards. If the final message is a response without tokens yet, the
+   * cursor stops before it so it is picked up on the next scan.
+   *
+   * @param session - Parsed session document
+   * @param startIndex - Index of the first message to consume
+   * @returns Parsed entries and the cursor for the next incremental scan
+   */
+  private parseMessages(session: GeminiSession, startIndex: number): ParseResult {
+    const entries: GeminiUsageEntry[] = [];
+    const messages = session.messages;
+    let cursor = startIndex;
+
+    for (let i = startIndex; i < messages.length; i++) {
+      const message = messages[i];
+      const isLast = i === messages.length - 1;
+
+      if (!message || typeof message !== 'object' || message.type !== 'gemini') {
+        cursor = i + 1;
+        continue;
+      }
+
+      const tokens = message.tokens as Record<string, unknown> | undefined;
+      if (!tokens) {
+        // Tokens not attached yet: revisit this message next scan
+        if (isLast) break;
+        cursor = i + 1;
+        continue;
+      }
+
+      cursor = i + 1;
+
+      const tsText = message.timestamp as string | undefined;
+      if (!tsText) continue;
+
+      const dayKey = dayKeyFromISO(tsText);
+      if (!dayKey) continue;
+
+      const model = message.model as string | undefined;
+      if (!model) continue;
+
+      const promptTokens = Math.max(0, toInt(tokens.input));
+      const cachedInputTokens = Math.min(Math.max(0, toInt(tokens.cached)), promptTokens);
+      const inputTokens = promptTokens - cachedInputTokens;
+      const outputTokens = Math.max(0, toInt(tokens.output)) + Math.max(0, toInt(tokens.thoughts));
+
+      // Skip entries with zero tokens across all fields
+      if (inputTokens === 0 && cachedInputTokens === 0 && outputTokens === 0) continue;
+
+      entries.push({
+        dayKey,
+        model: normalizeGeminiModel(model),
+        inputTokens,
+        cachedInputTokens,
+        outputTokens,
+        timestamp: tsText,
+      });
+    }
+
+    return { entries, sessionId: session.sessionId, messageCursor: cursor };
+  }
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/** Minimal shape of a Gemini CLI chat session file. */
+interface GeminiSession {
+  sessionId: string | null;
+  messages: Array<Record<string, unknown>>;
+}
+
+/**
+ * Read and parse a Gemini CLI session file.
+ * Returns null if the file can't be read or isn't a session document
+ * (e.g. it is being rewritten while we read it).
+ */
+function readSession(filePath: string): GeminiSession | null {
+  let obj: Record<string, unknown>;
+  try {
+    obj = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+
+  if (!obj || typeof obj !== 'object' || !Array.isArray(obj.messages)) return null;
+
+  return {
+    sessionId: typeof obj.sessionId === 'string' ? obj.sessionId : null,
+    messages: obj.messages as Array<Record<string, unknown>>,
+  };
+}
+
+/**
+ * Safely convert a value to an integer.
+ */
+function toInt(value: unknown): number {
+  if (typeof value === 'number') return Math.floor(value);
+  if (typeof value === 'string') return parseInt(value, 10) || 0;
+  return 0;
+}
+
+/**
+ * Extract a YYYY-MM-DD day key from an ISO 8601 timestamp string.
+ * Converts from UTC to the local timezone.
+ */
+function dayKeyFromISO(isoText: string): string | null {
+  const date = new Date(isoText);
+  if (isNaN(date.getTime())) return null;
+
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
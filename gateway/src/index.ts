@@ -13,18 +13,89 @@ import os from 'os';
 import { SystemCollector } from './systemCollector.js';
 import { AiUsageTracker } from './aiUsageTracker.js';
 import { RelayClient } from './relayClient.js';
+import { LanServer } from './lanServer.js';
+import { Outbox } from './outbox.js';
+import { DEFAULT_PROTOCOL, statusForProtocol } from './protocol.js';
 import { PairManager } from './pairManager.js';
 import { OpenClawCollector } from './openclawCollector.js';
-import type { MonitorConfig, StatusMessage, AiUsageSummary, CommandMessage, CommandResponse } from './types.js';
+import { LogWatcher } from './logWatcher.js';
+import { parsePricingOverrides } from './pricingTable.js';
+import { BudgetMonitor, parseBudgetConfig } from './budgetMonitor.js';
+import { SpendForecaster } from './spendForecaster.js';
+import { RateWindowEstimator, parseRateWindowLimits } from './rateWindowEstimator.js';
+import { AlertEvaluator, parseAlertRules } from './alertEvaluator.js';
+import { SecureChannel, SecureChannelError } from './secureChannel.js';
+import type {
+  MonitorConfig,
+  LanConfig,
+  StatusMessage,
+  AiUsageSummary,
+  CommandMessage,
+  CommandResponse,
+  UsageBucket,
+  UsageQuery,
+  UsageGroupBy,
+  ModelPricing,
+  BudgetConfig,
+  BudgetWarning,
+  RateWindowLimits,
+  AlertRule,
+  AlertNotification,
+  KeyExchangeMessage,
+} from './types.js';
 
 // Re-export all modules and types for consumers of this package
 export { SystemCollector } from './systemCollector.js';
 export { AiUsageTracker } from './aiUsageTracker.js';
 export { RelayClient } from './relayClient.js';
+export { LanServer, lanAuthProof } from './lanServer.js';
+export type { LanServerOptions } from './lanServer.js';
+export { Outbox } from './outbox.js';
+export type { OutboxEntry, OutboxOptions, OutboxPriority } from './outbox.js';
+export {
+  MIN_PROTOCOL_VERSION,
+  MAX_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  DEFAULT_PROTOCOL,
+  parseProtocolAgreement,
+  statusForProtocol,
+} from './protocol.js';
 export { PairManager } from './pairManager.js';
 export { OpenClawCollector } from './openclawCollector.js';
+export { LogWatcher } from './logWatcher.js';
+export type { LogWatcherOptions } from './logWatcher.js';
+export { PricingTable, parsePricingOverrides } from './pricingTable.js';
+export { BudgetMonitor, parseBudgetConfig } from './budgetMonitor.js';
+export type { BudgetEvaluation } from './budgetMonitor.js';
+export { SpendForecaster } from './spendForecaster.js';
+export type { SpendForecasterOptions } from './spendForecaster.js';
+export { RateWindowEstimator, parseRateWindowLimits } from './rateWindowEstimator.js';
+export { AlertEvaluator, parseAlertRules, resolveMetric, METRIC_PATHS } from './alertEvaluator.js';
+export {
+  SecureChannel,
+  SecureSession,
+  SecureChannelError,
+  keyExchangeProof,
+  generateKeyPair,
+} from './secureChannel.js';
+export type { SecureSessionRole } from './secureChannel.js';
+export {
+  registerUsageLogScanner,
+  unregisterUsageLogScanner,
+  getRegisteredUsageLogScanners,
+} from './scannerRegistry.js';
+export type { UsageLogScanner, UsageLogScannerFactory, UsageLogScannerContext } from './scannerRegistry.js';
+export type { ScanStateStore, PersistedFileState } from './scanStateStore.js';
+export type { AiUsageTrackerOptions } from './aiUsageTracker.js';
 export * from './types.js';
 
+/** Default LAN server settings: off unless enabled in the config file */
+const DEFAULT_LAN_CONFIG: LanConfig = {
+  enabled: false,
+  port: 18790,
+  advertise: true,
+};
+
 /** Default config values used when fields are missing from the config file */
 const DEFAULT_CONFIG: MonitorConfig = {
   relay: {
@@ -33,6 +104,7 @@ const DEFAULT_CONFIG: MonitorConfig = {
     autoConnect: true,
     statusInterval: 2000,
   },
+  lan: DEFAULT_LAN_CONFIG,
   aiUsage: {
     enabled: true,
     retentionDays: 30,
@@ -54,6 +126,30 @@ function displayProvider(provider: string): string {
   return PROVIDER_DISPLAY_NAMES[provider] || provider.charAt(0).toUpperCase() + provider.slice(1);
 }
 
+/**
+ * Convert a command payload time value (Unix ms or an ISO 8601 string) to
+ * a Unix timestamp in ms.
+ */
+function parseTimestamp(value: unknown, field: string): number {
+  const ms = typeof value === 'string' ? Date.parse(value) : value;
+  if (typeof ms !== 'number' || !Number.isFinite(ms)) {
+    throw new Error(`Invalid ${field}: expected Unix ms or an ISO 8601 date`);
+  }
+  return ms;
+}
+
+/**
+ * Build a usage time-series query from a get-usage payload.
+ * `start` is required; `end` defaults to now and `bucket` to 'day'.
+ */
+function parseUsageQuery(payload: Record<string, unknown>): UsageQuery {
+  return {
+    start: parseTimestamp(payload.start, 'start'),
+    end: payload.end === undefined ? Date.now() : parseTimestamp(payload.end, 'end'),
+    bucket: (payload.bucket as UsageBucket | undefined) ?? 'day',
+  };
+}
+
 /**
  * Close the terminal window/tab that launched this process (macOS only).
  * Tries Terminal.app first, then iTerm2. No-op on non-macOS or if the
@@ -96,18 +192,49 @@ const CONFIG_DIR = path.join(os.homedir(), '.openclaw');
 /** Path to the config file */
 const CONFIG_FILE = path.join(CONFIG_DIR, 'monitor.json');
 
+/** How often monitor.json is checked for changes (pricing hot-reload) */
+const CONFIG_POLL_INTERVAL_MS = 2000;
+
 /** Path to the device token file (persisted across restarts) */
 const TOKEN_FILE = path.join(CONFIG_DIR, 'device-token');
 
+/**
+ * Path to the secret the gateway authenticates to the relay with. Unlike
+ * the device token, which paired apps learn, it never leaves the gateway
+ * except to the relay.
+ */
+const RELAY_SECRET_FILE = path.join(CONFIG_DIR, 'relay-secret');
+
+/** Path to the gateway's end-to-end encryption private key */
+const E2E_KEY_FILE = path.join(CONFIG_DIR, 'e2e-key.pem');
+
+/** Path to the public keys of apps paired with end-to-end encryption */
+const E2E_PEERS_FILE = path.join(CONFIG_DIR, 'e2e-peers.json');
+
+/** Path to command responses and alerts waiting for the relay connection */
+const OUTBOX_FILE = path.join(CONFIG_DIR, 'outbox.json');
+
 export class OpenClawMonitor {
   private collector: SystemCollector;
   private tracker: AiUsageTracker | null = null;
+  private budgetMonitor: BudgetMonitor | null = null;
+  private forecaster: SpendForecaster | null = null;
+  private rateWindowEstimator: RateWindowEstimator | null = null;
+  private alertEvaluator: AlertEvaluator;
   private relay: RelayClient | null = null;
+  private lan: LanServer | null = null;
+  private secureChannel: SecureChannel | null = null;
   private pairManager: PairManager;
   private openclawCollector: OpenClawCollector;
   private config: MonitorConfig;
   private statusInterval: NodeJS.Timeout | null = null;
-  private logScanInterval: NodeJS.Timeout | null = null;
+  private logWatcher: LogWatcher | null = null;
+  /** Config passed to the constructor, re-applied when the file is reloaded */
+  private configOverrides?: Partial<MonitorConfig>;
+  /** monitor.json the config is read from and alert rules are saved to */
+  private configFile: string;
+  /** Whether monitor.json is being watched for pricing, budget, limit and alert changes */
+  private watchingConfig: boolean = false;
   private running: boolean = false;
   private _isPaired: boolean = false;
 
@@ -119,11 +246,21 @@ export class OpenClawMonitor {
   private onUnpairCallback: (() => void) | null = null;
   /** Optional listener called when paired state changes. */
   private pairedStateListener: ((paired: boolean) => void) | null = null;
+  /** Optional listener called when spend crosses a budget threshold. */
+  private budgetWarningListener: ((warning: BudgetWarning) => void) | null = null;
+  /** Optional listener called when an alert rule fires. */
+  private alertListener: ((alert: AlertNotification) => void) | null = null;
 
-  constructor(config?: Partial<MonitorConfig>) {
+  /**
+   * @param config - Settings that take precedence over monitor.json
+   * @param configFile - Path to monitor.json (default: ~/.openclaw/monitor.json)
+   */
+  constructor(config?: Partial<MonitorConfig>, configFile: string = CONFIG_FILE) {
     // Merge provided config with defaults loaded from file
-    const fileConfig = loadConfig();
+    this.configFile = configFile;
+    const fileConfig = loadConfig(configFile);
     this.config = mergeConfig(fileConfig, config);
+    this.configOverrides = config;
 
     // Initialize system collector (always active)
     this.collector = new SystemCollector();
@@ -133,23 +270,57 @@ export class OpenClawMonitor {
 
     // Initialize AI usage tracker if enabled
     if (this.config.aiUsage.enabled) {
-      this.tracker = new AiUsageTracker();
+      this.tracker = new AiUsageTracker(undefined, {
+        scanners: this.config.aiUsage.scanners,
+        pricing: loadPricingOverrides(this.config),
+      });
+      this.budgetMonitor = new BudgetMonitor(this.tracker, loadBudgets(this.config));
+      this.forecaster = new SpendForecaster(this.tracker);
+      this.rateWindowEstimator = new RateWindowEstimator(this.tracker, loadRateWindowLimits(this.config));
     }
 
+    // Alert rules are evaluated against every status tick
+    this.alertEvaluator = new AlertEvaluator(loadAlertRules(this.config));
+
     // Initialize pair manager with the configured relay URL for QR code generation
     this.pairManager = new PairManager();
     this.pairManager.setRelayUrl(this.config.relay.server);
 
+    // End-to-end encryption with paired apps; the QR code carries our key
+    const lanConfig = this.config.lan ?? DEFAULT_LAN_CONFIG;
+    if (this.config.relay.enabled || lanConfig.enabled) {
+      this.secureChannel = new SecureChannel(E2E_KEY_FILE, E2E_PEERS_FILE);
+      this.pairManager.setPublicKey(this.secureChannel.publicKey);
+    }
+
     // Initialize relay client if enabled
-    if (this.config.relay.enabled) {
-      const deviceToken = loadOrCreateDeviceToken();
+    if (this.config.relay.enabled && this.secureChannel) {
       this.relay = new RelayClient(
         this.config.relay.server,
-        deviceToken,
+        loadOrCreateDeviceToken(),
         this.getVersion(),
-        (cmd) => this.handleCommand(cmd),
+        (cmd) => this.handleCommand(cmd, (response) => this.relay?.sendCommandResponse(response)),
         (code) => this.pairManager.setRelayCode(code),
       );
+      this.relay.setSecureChannel(this.secureChannel, (msg) => {
+        this.handleKeyExchange(msg);
+      });
+      this.relay.setOutbox(new Outbox(OUTBOX_FILE));
+      this.relay.setGatewaySecret(loadOrCreateRelaySecret());
+    }
+
+    // Initialize the LAN server if enabled; apps on the same network
+    // connect directly, with or without the relay
+    if (lanConfig.enabled && this.secureChannel) {
+      this.lan = new LanServer({
+        port: lanConfig.port,
+        advertise: lanConfig.advertise,
+        deviceToken: loadOrCreateDeviceToken(),
+        secureChannel: this.secureChannel,
+        getPairingSecrets: () => this.pairManager.getPairingSecrets(),
+        onCommand: (cmd, respond) => this.handleCommand(cmd, respond),
+        onKeyExchange: (msg) => this.handleKeyExchange(msg),
+      });
     }
   }
 
@@ -189,6 +360,84 @@ export class OpenClawMonitor {
     this.pairedStateListener = listener;
   }
 
+  /** Register a listener called when spend crosses a budget threshold. */
+  setBudgetWarningListener(listener: (warning: BudgetWarning) => void): void {
+    this.budgetWarningListener = listener;
+  }
+
+  /** Register a listener called when an alert rule fires. */
+  setAlertListener(listener: (alert: AlertNotification) => void): void {
+    this.alertListener = listener;
+  }
+
+  /**
+   * Forget the encryption keys of all paired apps, so only apps that pair
+   * again can read status updates, and drop messages still queued for them.
+   * The relay is told to revoke the apps' sessions, since it can't see an
+   * encrypted unpair command. Call when unpairing, before stop().
+   */
+  forgetPairedApps(): void {
+    this.relay?.sendDisconnect(loadOrCreateDeviceToken(), 'unpair');
+    this.secureChannel?.removeAllPeers();
+    this.relay?.clearOutbox();
+  }
+
+  /** The alert rules currently evaluated. */
+  getAlertRules(): AlertRule[] {
+    return this.alertEvaluator.getRules();
+  }
+
+  /**
+   * Replace the alert rules, save them to the "alerts" section of
+   * monitor.json and apply them right away. Nothing is saved if any rule
+   * is invalid or the file can't be updated.
+   *
+   * @param raw - The new list of rules (validated with parseAlertRules)
+   * @returns The saved rules, or one message per problem found
+   */
+  setAlertRules(raw: unknown): { rules: AlertRule[]; errors: string[] } {
+    const { rules, errors } = parseAlertRules(raw);
+    if (errors.length > 0) return { rules: [], errors };
+
+    try {
+      let fileConfig: Record<string, unknown> = {};
+      if (fs.existsSync(this.configFile)) {
+        fileConfig = JSON.parse(fs.readFileSync(this.configFile, 'utf-8')) as Record<string, unknown>;
+      } else {
+        fs.mkdirSync(path.dirname(this.configFile), { recursive: true });
+      }
+      fileConfig.alerts = rules;
+      fs.writeFileSync(this.configFile, JSON.stringify(fileConfig, null, 2) + '\n', 'utf-8');
+    } catch (err) {
+      return { rules: [], errors: [`Failed to save ${this.configFile}: ${(err as Error).message}`] };
+    }
+
+    this.config.alerts = rules;
+    this.alertEvaluator.setRules(rules);
+    console.log(`[OpenClawMonitor] Saved ${rules.length} alert rules to ${this.configFile}`);
+    return { rules, errors: [] };
+  }
+
+  /** Recent alert notifications, newest first. */
+  getAlertHistory(): AlertNotification[] {
+    return this.alertEvaluator.getHistory();
+  }
+
+  /**
+   * Mark an alert notification as acknowledged.
+   *
+   * @returns The updated notification, or null if it's no longer in the history
+   */
+  acknowledgeAlert(notificationId: string): AlertNotification | null {
+    return this.alertEvaluator.acknowledge(notificationId);
+  }
+
+  /** Keep an alert rule from firing for the given number of minutes. */
+  snoozeAlertRule(ruleId: string, minutes: number): void {
+    this.alertEvaluator.snooze(ruleId, Date.now() + minutes * 60 * 1000);
+    console.log(`[OpenClawMonitor] Snoozed alert rule "${ruleId}" for ${minutes} minutes`);
+  }
+
   // --------------------------------------------------------------------------
   // Lifecycle
   // --------------------------------------------------------------------------
@@ -199,7 +448,8 @@ export class OpenClawMonitor {
    * 2. Connect to relay if enabled and autoConnect is true
    * 3. Start the periodic status update loop
    * 4. Start pairing code rotation
-   * 5. Schedule periodic old-data cleanup
+   * 5. Scan local AI logs and watch them for changes
+   * 6. Schedule periodic old-data cleanup
    */
   async start(): Promise<void> {
     if (this.running) return;
@@ -218,6 +468,15 @@ export class OpenClawMonitor {
       this.relay.connect();
     }
 
+    // Accept direct connections on the local network
+    if (this.lan) {
+      try {
+        await this.lan.start();
+      } catch (err) {
+        console.error('[OpenClawMonitor] Failed to start LAN server:', err);
+      }
+    }
+
     // Start periodic status updates
     this.statusInterval = setInterval(
       () => this.tick(),
@@ -227,12 +486,17 @@ export class OpenClawMonitor {
     // Start pairing code rotation
     this.pairManager.startRotation();
 
-    // Scan local AI logs on startup and periodically (every 60 seconds)
+    // Scan local AI logs on startup, then again whenever the log
+    // directories change so new usage shows up on the next status tick.
+    // The watcher also rescans every 60 seconds as a safety net.
     if (this.tracker) {
       this.tracker.scanLocalLogs();
-      this.logScanInterval = setInterval(() => {
-        this.tracker?.scanLocalLogs();
-      }, 60_000);
+      this.logWatcher = new LogWatcher(
+        this.tracker.getWatchRoots(),
+        () => this.tracker?.scanLocalLogs(),
+        { watch: this.config.aiUsage.watch ?? true },
+      );
+      this.logWatcher.start();
     }
 
     // Schedule daily cleanup of old AI usage data
@@ -240,6 +504,11 @@ export class OpenClawMonitor {
       this.scheduleCleanup();
     }
 
+    // Pick up alert rules, prices, budgets and rate-window limits edited
+    // in monitor.json without a restart
+    fs.watchFile(this.configFile, { interval: CONFIG_POLL_INTERVAL_MS, persistent: false }, this.onConfigFileChange);
+    this.watchingConfig = true;
+
     console.log('[OpenClawMonitor] Started successfully');
   }
 
@@ -260,10 +529,16 @@ export class OpenClawMonitor {
       this.statusInterval = null;
     }
 
-    // Stop the log scan interval
-    if (this.logScanInterval) {
-      clearInterval(this.logScanInterval);
-      this.logScanInterval = null;
+    // Stop watching local AI logs
+    if (this.logWatcher) {
+      this.logWatcher.stop();
+      this.logWatcher = null;
+    }
+
+    // Stop watching the config file
+    if (this.watchingConfig) {
+      fs.unwatchFile(this.configFile, this.onConfigFileChange);
+      this.watchingConfig = false;
     }
 
     // Stop pairing code rotation
@@ -284,6 +559,11 @@ export class OpenClawMonitor {
       this.relay.disconnect();
     }
 
+    // Close direct connections
+    if (this.lan) {
+      await this.lan.stop();
+    }
+
     // Close AI usage database
     if (this.tracker) {
       this.tracker.close();
@@ -329,6 +609,25 @@ export class OpenClawMonitor {
           totalCostToday: summary.totalCostToday,
           totalCostThisMonth: summary.totalCostThisMonth,
         };
+
+        // Month-to-date spend against budgets; warnings go out whether
+        // or not a phone is paired
+        if (this.budgetMonitor) {
+          const { status: budget, warnings } = this.budgetMonitor.evaluate();
+          aiUsage.budget = budget;
+          for (const warning of warnings) {
+            console.warn(`[OpenClawMonitor] Budget warning: ${warning.message}`);
+            this.budgetWarningListener?.(warning);
+          }
+        }
+
+        if (this.forecaster) {
+          aiUsage.forecast = this.forecaster.forecast(this.budgetMonitor?.monthlyLimit);
+        }
+
+        if (this.rateWindowEstimator) {
+          aiUsage.rateWindows = this.rateWindowEstimator.getRateWindows();
+        }
       } else {
         aiUsage = {
           period: 'today',
@@ -343,7 +642,7 @@ export class OpenClawMonitor {
         type: 'status',
         deviceToken: loadOrCreateDeviceToken(),
         timestamp: new Date().toISOString(),
-        version: 1,
+        version: DEFAULT_PROTOCOL.version,
         hostname: os.hostname(),
         system,
         openclaw: this.openclawCollector.getSnapshot(),
@@ -353,9 +652,26 @@ export class OpenClawMonitor {
       // Notify local listener (Electron UI)
       this.statusListener?.(status);
 
-      // Send to relay (no-op if not connected)
+      // Send to relay (no-op if not connected) and to LAN clients, each
+      // shaped to the protocol agreed there
       if (this.relay) {
-        this.relay.sendStatus(status);
+        this.relay.sendStatus(statusForProtocol(status, this.relay.protocol));
+      }
+      this.lan?.sendStatus(status);
+
+      // Gateway-side alert rules; like budget warnings they reach the
+      // desktop app whether or not a phone is paired
+      for (const alert of this.alertEvaluator.evaluate(status)) {
+        console.warn(
+          `[OpenClawMonitor] Alert (${alert.severity}): ${alert.ruleName} ` +
+          `(value ${alert.currentValue}, threshold ${alert.threshold})`,
+        );
+        this.alertListener?.(alert);
+        if (this.relay?.protocol.features.includes('alerts')) {
+          this.relay.sendAlert(alert);
+        }
+        // The LAN server checks each client's agreement itself
+        this.lan?.sendAlert(alert);
       }
     } catch (err) {
       console.error('[OpenClawMonitor] Tick error:', err);
@@ -367,10 +683,11 @@ export class OpenClawMonitor {
   // --------------------------------------------------------------------------
 
   /**
-   * Handle a command received from the relay server (triggered by the mobile app).
-   * Sends back a CommandResponse with the result or error.
+   * Handle a command received from the relay server or a LAN client
+   * (triggered by the mobile app). Sends back a CommandResponse with the
+   * result or error through `respond`.
    */
-  private handleCommand(cmd: CommandMessage): void {
+  private handleCommand(cmd: CommandMessage, respond: (response: CommandResponse) => void): void {
     console.log(`[OpenClawMonitor] Received command: ${cmd.action} (id=${cmd.id})`);
 
     // Receiving any command from relay means an iOS device is paired
@@ -400,9 +717,38 @@ export class OpenClawMonitor {
               success: false,
               error: 'AI usage tracking is not enabled',
             };
+          } else if (cmd.payload?.start !== undefined) {
+            // Date range with buckets: return a time series for charts
+            const series = this.tracker.queryUsage(parseUsageQuery(cmd.payload));
+            response = {
+              type: 'command-response',
+              commandId: cmd.id,
+              success: true,
+              data: series,
+            };
+          } else if (cmd.payload?.groupBy !== undefined) {
+            // Per-project or per-session cost attribution
+            const period = (cmd.payload.period as 'today' | 'week' | 'month') || 'today';
+            const groupBy = cmd.payload.groupBy as UsageGroupBy;
+            if (groupBy !== 'project' && groupBy !== 'session') {
+              throw new Error("Invalid groupBy: expected 'project' or 'session'");
+            }
+            const data = groupBy === 'project'
+              ? this.tracker.getUsageByProject(period)
+              : this.tracker.getUsageBySession(period, {
+                projectPath: typeof cmd.payload.project === 'string' ? cmd.payload.project : undefined,
+                limit: typeof cmd.payload.limit === 'number' ? cmd.payload.limit : undefined,
+              });
+            response = {
+              type: 'command-response',
+              commandId: cmd.id,
+              success: true,
+              data,
+            };
           } else {
             const period = (cmd.payload?.period as 'today' | 'week' | 'month') || 'today';
             const summary = this.tracker.getUsageSummary(period);
+            summary.forecast = this.forecaster?.forecast(this.budgetMonitor?.monthlyLimit);
             response = {
               type: 'command-response',
               commandId: cmd.id,
@@ -412,6 +758,47 @@ export class OpenClawMonitor {
           }
           break;
 
+        case 'get-unpriced-models':
+          if (!this.tracker) {
+            response = {
+              type: 'command-response',
+              commandId: cmd.id,
+              success: false,
+              error: 'AI usage tracking is not enabled',
+            };
+          } else {
+            response = {
+              type: 'command-response',
+              commandId: cmd.id,
+              success: true,
+              data: this.tracker.getUnpricedModels(),
+            };
+          }
+          break;
+
+        case 'reprice':
+          if (!this.tracker) {
+            response = {
+              type: 'command-response',
+              commandId: cmd.id,
+              success: false,
+              error: 'AI usage tracking is not enabled',
+            };
+          } else {
+            // Optional model list forces those models to be recomputed
+            const models = cmd.payload?.models;
+            if (models !== undefined && (!Array.isArray(models) || !models.every(m => typeof m === 'string'))) {
+              throw new Error('Invalid models: expected an array of model names');
+            }
+            response = {
+              type: 'command-response',
+              commandId: cmd.id,
+              success: true,
+              data: this.tracker.reprice(models as string[] | undefined),
+            };
+          }
+          break;
+
         case 'pair':
           const code = this.pairManager.getCurrentCode();
           response = {
@@ -432,6 +819,7 @@ export class OpenClawMonitor {
           // Schedule shutdown after sending the response
           setTimeout(async () => {
             console.log('[OpenClawMonitor] Unpaired by remote app — shutting down...');
+            this.forgetPairedApps();
             this._isPaired = false;
             this.pairedStateListener?.(false);
             await this.stop();
@@ -491,9 +879,7 @@ export class OpenClawMonitor {
       };
     }
 
-    if (this.relay) {
-      this.relay.sendCommandResponse(response);
-    }
+    respond(response);
   }
 
   // --------------------------------------------------------------------------
@@ -519,6 +905,83 @@ export class OpenClawMonitor {
     }, DAY_MS);
   }
 
+  // --------------------------------------------------------------------------
+  // Key exchange
+  // --------------------------------------------------------------------------
+
+  /**
+   * Accept the public key an app sent after scanning the pairing QR code.
+   * From then on, status updates and commands with that app are encrypted.
+   *
+   * @returns The app's peer id, or null if the key was rejected
+   */
+  private handleKeyExchange(msg: KeyExchangeMessage): string | null {
+    if (!this.secureChannel) return null;
+    let peerId: string;
+    try {
+      peerId = this.secureChannel.addPeer(msg.publicKey, msg.proof, this.pairManager.getPairingSecrets());
+      console.log(`[OpenClawMonitor] End-to-end encryption established with app ${peerId}`);
+    } catch (err) {
+      if (!(err instanceof SecureChannelError)) throw err;
+      console.warn(`[OpenClawMonitor] Rejected key exchange: ${err.message}`);
+      return null;
+    }
+
+    if (!this._isPaired) {
+      this._isPaired = true;
+      this.pairedStateListener?.(true);
+    }
+    return peerId;
+  }
+
+  // --------------------------------------------------------------------------
+  // Config reload
+  // --------------------------------------------------------------------------
+
+  /**
+   * Re-read monitor.json after it changed and apply its alerts, pricing,
+   * budgets and rateWindows sections. Only those are hot-reloaded; other
+   * settings still need a restart. Rows costed with a price that changed are
+   * repriced right away. A file that doesn't parse (e.g. saved mid-edit)
+   * keeps the current settings.
+   */
+  private onConfigFileChange = (curr: fs.Stats, prev: fs.Stats): void => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+
+    let fileConfig: Partial<MonitorConfig> = {};
+    try {
+      if (fs.existsSync(this.configFile)) {
+        fileConfig = JSON.parse(fs.readFileSync(this.configFile, 'utf-8')) as Partial<MonitorConfig>;
+      }
+    } catch (err) {
+      console.warn('[OpenClawMonitor] Config file is not valid JSON, keeping current settings:', err);
+      return;
+    }
+
+    const merged = mergeConfig(fileConfig, this.configOverrides);
+
+    this.config.alerts = merged.alerts;
+    this.alertEvaluator.setRules(loadAlertRules(this.config));
+
+    if (!this.tracker) return;
+
+    this.config.budgets = merged.budgets;
+    this.budgetMonitor?.setBudgets(loadBudgets(this.config));
+    this.config.rateWindows = merged.rateWindows;
+    this.rateWindowEstimator?.setLimits(loadRateWindowLimits(this.config));
+
+    try {
+      this.config.pricing = merged.pricing;
+      const result = this.tracker.setPricingOverrides(loadPricingOverrides(this.config));
+      console.log(
+        `[OpenClawMonitor] Reloaded pricing from ${this.configFile}` +
+        (result.repricedRows > 0 ? ` (repriced ${result.repricedRows} rows)` : ''),
+      );
+    } catch (err) {
+      console.error('[OpenClawMonitor] Failed to reload pricing:', err);
+    }
+  };
+
   // --------------------------------------------------------------------------
   // Helpers
   // --------------------------------------------------------------------------
@@ -550,13 +1013,14 @@ export class OpenClawMonitor {
 // ============================================================================
 
 /**
- * Load the monitor config from ~/.openclaw/monitor.json.
+ * Load the monitor config from monitor.json (~/.openclaw/monitor.json
+ * unless the monitor was given another path).
  * Returns an empty partial config if the file doesn't exist or is invalid.
  */
-function loadConfig(): Partial<MonitorConfig> {
+function loadConfig(configFile: string): Partial<MonitorConfig> {
   try {
-    if (fs.existsSync(CONFIG_FILE)) {
-      const raw = fs.readFileSync(CONFIG_FILE, 'utf-8');
+    if (fs.existsSync(configFile)) {
+      const raw = fs.readFileSync(configFile, 'utf-8');
       return JSON.parse(raw) as Partial<MonitorConfig>;
     }
   } catch (err) {
@@ -579,14 +1043,81 @@ function mergeConfig(
       ...(fileConfig.relay || {}),
       ...(overrides?.relay || {}),
     },
+    lan: {
+      ...DEFAULT_LAN_CONFIG,
+      ...(fileConfig.lan || {}),
+      ...(overrides?.lan || {}),
+    },
     aiUsage: {
       ...DEFAULT_CONFIG.aiUsage,
       ...(fileConfig.aiUsage || {}),
       ...(overrides?.aiUsage || {}),
     },
+    pricing: {
+      ...(fileConfig.pricing || {}),
+      ...(overrides?.pricing || {}),
+    },
+    budgets: {
+      ...(fileConfig.budgets || {}),
+      ...(overrides?.budgets || {}),
+    },
+    rateWindows: {
+      ...(fileConfig.rateWindows || {}),
+      ...(overrides?.rateWindows || {}),
+    },
+    // A list of rules can't be merged entry by entry: overrides replace the file's
+    alerts: overrides?.alerts ?? fileConfig.alerts ?? [],
   };
 }
 
+/**
+ * Validate the pricing section of a merged config, logging and dropping
+ * invalid entries.
+ */
+function loadPricingOverrides(config: MonitorConfig): Record<string, ModelPricing> {
+  const { overrides, errors } = parsePricingOverrides(config.pricing);
+  for (const error of errors) {
+    console.warn(`[OpenClawMonitor] Ignoring invalid price override: ${error}`);
+  }
+  return overrides;
+}
+
+/**
+ * Validate the budgets section of a merged config, logging and dropping
+ * invalid amounts.
+ */
+function loadBudgets(config: MonitorConfig): BudgetConfig {
+  const { budgets, errors } = parseBudgetConfig(config.budgets);
+  for (const error of errors) {
+    console.warn(`[OpenClawMonitor] Ignoring invalid budget: ${error}`);
+  }
+  return budgets;
+}
+
+/**
+ * Validate the rateWindows section of a merged config, logging and
+ * dropping invalid limits.
+ */
+function loadRateWindowLimits(config: MonitorConfig): Record<string, RateWindowLimits> {
+  const { limits, errors } = parseRateWindowLimits(config.rateWindows);
+  for (const error of errors) {
+    console.warn(`[OpenClawMonitor] Ignoring invalid rate-window limit: ${error}`);
+  }
+  return limits;
+}
+
+/**
+ * Validate the alerts section of a merged config, logging and dropping
+ * invalid rules.
+ */
+function loadAlertRules(config: MonitorConfig): AlertRule[] {
+  const { rules, errors } = parseAlertRules(config.alerts);
+  for (const error of errors) {
+    console.warn(`[OpenClawMonitor] Ignoring invalid alert rule: ${error}`);
+  }
+  return rules;
+}
+
 /**
  * Load an existing device token from disk, or generate a new one.
  * The token is a random UUID stored at ~/.openclaw/device-token.
@@ -614,3 +1145,24 @@ function loadOrCreateDeviceToken(): string {
   return token;
 }
 
+/**
+ * Load the relay secret from disk, or generate a new one. A relay that
+ * checks it registers the first secret it sees for the device token, so
+ * it must stay the same across restarts.
+ */
+function loadOrCreateRelaySecret(): string {
+  try {
+    if (fs.existsSync(RELAY_SECRET_FILE)) {
+      const secret = fs.readFileSync(RELAY_SECRET_FILE, 'utf-8').trim();
+      if (secret.length > 0) return secret;
+    }
+  } catch {
+    // Fall through to generate a new secret
+  }
+
+  fs.mkdirSync(CONFIG_DIR, { recursive: true });
+  const secret = crypto.randomBytes(32).toString('base64url');
+  fs.writeFileSync(RELAY_SECRET_FILE, secret, { encoding: 'utf-8', mode: 0o600 });
+  return secret;
+}
+
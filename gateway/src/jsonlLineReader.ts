@@ -0,0 +1,128 @@
+// ============================================================================
+// OpenClaw Monitor - Streaming JSONL Line Reader
+// Reads newline-delimited log files in fixed-size chunks starting at a byte
+// offset, handing each complete line to a callback. Shared by the Claude and
+// Codex log scanners so a first scan of a multi-hundred-MB session file
+// never loads the whole file into memory.
+//
+// Memory use is bounded by the chunk size plus the longest line; lines over
+// maxLineBytes are skipped rather than buffered.
+// ============================================================================
+
+import fs from 'fs';
+
+/** Default number of bytes read per chunk (64 KiB) */
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/** Default cap on a single line's size; longer lines are skipped (32 MiB) */
+const DEFAULT_MAX_LINE_BYTES = 32 * 1024 * 1024;
+
+/** Byte value of '\n' */
+const NEWLINE = 0x0a;
+
+/** Byte value of '\r' (stripped from CRLF line endings) */
+const CARRIAGE_RETURN = 0x0d;
+
+/** Tuning options for readLines(). */
+export interface LineReaderOptions {
+  /** Bytes read per chunk (default 64 KiB) */
+  chunkSize?: number;
+  /** Lines longer than this are skipped instead of buffered (default 32 MiB) */
+  maxLineBytes?: number;
+}
+
+/**
+ * Read every complete line of a file from a byte offset onward.
+ *
+ * Only newline-terminated lines are delivered. A trailing line without a
+ * newline is assumed to still be mid-write and is left unread, so the
+ * returned offset stops just past the last '\n'. Passing that offset back
+ * on the next call resumes exactly where this one left off.
+ *
+ * Lines are decoded as UTF-8 after being reassembled from chunks, so
+ * multi-byte characters split across a chunk boundary decode correctly.
+ *
+ * @param filePath - Absolute path to the file
+ * @param startOffset - Byte offset to start reading from
+ * @param onLine - Called with each complete line (without the line ending)
+ * @param options - Chunk size and maximum line length
+ * @returns Byte offset just past the last complete line (startOffset if none)
+ * @throws If the file can't be opened or read
+ */
+export function readLines(
+  filePath: string,
+  startOffset: number,
+  onLine: (line: string) => void,
+  options: LineReaderOptions = {},
+): number {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const maxLineBytes = options.maxLineBytes ?? DEFAULT_MAX_LINE_BYTES;
+
+  const chunk = Buffer.alloc(chunkSize);
+
+  // Pieces of the current (not yet terminated) line carried across chunks
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  // Set once the current line exceeds maxLineBytes; drop it at the next '\n'
+  let skippingLine = false;
+
+  let position = startOffset;
+  let consumedOffset = startOffset;
+
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    for (;;) {
+      const bytesRead = fs.readSync(fd, chunk, 0, chunkSize, position);
+      if (bytesRead <= 0) break;
+
+      let lineStart = 0;
+      let newlineIdx = chunk.indexOf(NEWLINE, 0);
+
+      while (newlineIdx !== -1 && newlineIdx < bytesRead) {
+        if (!skippingLine) {
+          const tail = chunk.subarray(lineStart, newlineIdx);
+          const lineBuffer = pendingBytes > 0 ? Buffer.concat([...pending, tail]) : tail;
+          deliver(lineBuffer, onLine);
+        }
+
+        pending = [];
+        pendingBytes = 0;
+        skippingLine = false;
+        consumedOffset = position + newlineIdx + 1;
+
+        lineStart = newlineIdx + 1;
+        newlineIdx = chunk.indexOf(NEWLINE, lineStart);
+      }
+
+      // Carry the unterminated remainder of this chunk into the next one.
+      // The chunk buffer is reused, so the remainder must be copied.
+      if (lineStart < bytesRead && !skippingLine) {
+        pendingBytes += bytesRead - lineStart;
+        if (pendingBytes > maxLineBytes) {
+          pending = [];
+          pendingBytes = 0;
+          skippingLine = true;
+        } else {
+          pending.push(Buffer.from(chunk.subarray(lineStart, bytesRead)));
+        }
+      }
+
+      position += bytesRead;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return consumedOffset;
+}
+
+/**
+ * Decode a line buffer and pass it on, stripping a trailing '\r' and
+ * skipping empty lines.
+ */
+function deliver(lineBuffer: Buffer, onLine: (line: string) => void): void {
+  let end = lineBuffer.length;
+  if (end > 0 && lineBuffer[end - 1] === CARRIAGE_RETURN) end--;
+  if (end === 0) return;
+  onLine(lineBuffer.toString('utf-8', 0, end));
+}
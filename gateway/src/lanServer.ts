@@ -0,0 +1,522 @@
+// ============================================================================
+// OpenClaw Monitor - LAN Server
+// Optional WebSocket server that lets apps on the same network connect to
+// the gateway directly, next to the relay connection or instead of it. It
+// speaks the same StatusMessage / CommandMessage protocol as the relay and
+// is announced with mDNS (service type "_clawface._tcp").
+//
+// Authentication: every new client gets a lan-challenge with a random nonce
+// and must answer within AUTH_TIMEOUT_MS, either with an HMAC of the nonce
+// keyed with the pairing secret from the QR code, or, once it has exchanged
+// keys, with the nonce inside an EncryptedEnvelope. Clients that fail are
+// closed with code 4401 and never see a status update.
+//
+// Encryption: connections authenticated with an envelope are end-to-end
+// encrypted like the relay connection, and must send commands encrypted.
+// Connections authenticated with the pairing secret (an app that just
+// scanned the QR code) stay plaintext until they send a key-exchange.
+//
+// Protocol: the challenge carries the gateway's protocol range, and each
+// client may answer with a ProtocolAgreement once authenticated (sealed on
+// an encrypted connection). Status and alerts are shaped per client to its
+// agreement, which starts out as DEFAULT_PROTOCOL.
+// ============================================================================
+
+import crypto from 'crypto';
+import os from 'os';
+import WebSocket, { WebSocketServer } from 'ws';
+import { Bonjour } from 'bonjour-service';
+import type { AddressInfo } from 'net';
+import {
+  DEFAULT_PROTOCOL,
+  MAX_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  parseProtocolAgreement,
+  statusForProtocol,
+} from './protocol.js';
+import { SecureChannelError } from './secureChannel.js';
+import type { SecureChannel } from './secureChannel.js';
+import type {
+  AlertMessage,
+  AlertNotification,
+  CommandMessage,
+  CommandResponse,
+  EncryptedEnvelope,
+  KeyExchangeMessage,
+  LanChallengeMessage,
+  LanOutboundMessage,
+  LanReadyMessage,
+  ProtocolAgreement,
+  StatusMessage,
+} from './types.js';
+
+/** mDNS service type (advertised as "_clawface._tcp") */
+const SERVICE_TYPE = 'clawface';
+
+/** Time a new client has to authenticate */
+const AUTH_TIMEOUT_MS = 10000;
+
+/** Interval between pings to detect clients that went away without closing */
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/** Close code for clients that fail to authenticate */
+const CLOSE_UNAUTHORIZED = 4401;
+
+/** Close code for authenticated clients whose message couldn't be handled */
+const CLOSE_MALFORMED = 4400;
+
+/**
+ * Callback invoked with a command from a LAN client. Call `respond` with the
+ * result; it goes back to that client only.
+ */
+type LanCommandHandler = (cmd: CommandMessage, respond: (response: CommandResponse) => void) => void;
+
+/**
+ * Callback invoked when a LAN client sends its key-exchange message.
+ * Returns the app's peer id if the key was accepted, or null.
+ */
+type LanKeyExchangeHandler = (message: KeyExchangeMessage) => string | null;
+
+export interface LanServerOptions {
+  /** TCP port to listen on (0 picks a free port) */
+  port: number;
+  /** Announce the server with mDNS (default: true) */
+  advertise?: boolean;
+  /** This gateway's device token */
+  deviceToken: string;
+  /** Hostname shown to apps (default: os.hostname()) */
+  hostname?: string;
+  /** The gateway's secure channel, shared with the relay client */
+  secureChannel: SecureChannel;
+  /** Secrets from recent pairing QR codes a client may authenticate with */
+  getPairingSecrets: () => string[];
+  onCommand: LanCommandHandler;
+  onKeyExchange: LanKeyExchangeHandler;
+}
+
+/** State of one connected client */
+interface LanClient {
+  ws: WebSocket;
+  /** Nonce of the challenge sent on connect */
+  nonce: string;
+  authenticated: boolean;
+  /** Peer id once the connection is encrypted, null while plaintext */
+  peerId: string | null;
+  /** Whether the client answered the last ping */
+  alive: boolean;
+  authTimer: NodeJS.Timeout | null;
+  /** Protocol version and features the client agreed to */
+  protocol: ProtocolAgreement;
+}
+
+// ============================================================================
+// LanServer
+// ============================================================================
+
+export class LanServer {
+  private wss: WebSocketServer | null = null;
+  private bonjour: Bonjour | null = null;
+  private clients = new Set<LanClient>();
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private hostname: string;
+
+  constructor(private options: LanServerOptions) {
+    this.hostname = options.hostname ?? os.hostname();
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  /**
+   * Start listening and, if enabled, announce the server with mDNS.
+   *
+   * @throws If the port can't be bound (e.g. EADDRINUSE)
+   */
+  async start(): Promise<void> {
+    if (this.wss) return;
+
+    const wss = new WebSocketServer({ port: this.options.port });
+    await new Promise<void>((resolve, reject) => {
+      wss.once('listening', resolve);
+      wss.once('error', reject);
+    });
+    this.wss = wss;
+
+    wss.on('connection', (ws) => this.handleConnection(ws));
+    wss.on('error', (err) => {
+      console.error(`[LanServer] Server error: ${err.message}`);
+    });
+    this.heartbeatInterval = setInterval(() => this.checkHeartbeats(), HEARTBEAT_INTERVAL_MS);
+    console.log(`[LanServer] Listening on port ${this.port}`);
+
+    if (this.options.advertise ?? true) {
+      this.advertise();
+    }
+  }
+
+  /** Close all client connections, stop listening and withdraw the mDNS announcement. */
+  async stop(): Promise<void> {
+    if (!this.wss) return;
+    const wss = this.wss;
+    this.wss = null;
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    if (this.bonjour) {
+      const bonjour = this.bonjour;
+      this.bonjour = null;
+      await new Promise<void>((resolve) => bonjour.unpublishAll(() => resolve()));
+      bonjour.destroy();
+    }
+
+    for (const client of this.clients) {
+      this.clearAuthTimer(client);
+      client.ws.close(1001, 'Gateway shutting down');
+    }
+    this.clients.clear();
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+    console.log('[LanServer] Stopped');
+  }
+
+  /** The port the server listens on, or null while stopped */
+  get port(): number | null {
+    const address = this.wss?.address() as AddressInfo | undefined;
+    return address?.port ?? null;
+  }
+
+  /** Number of authenticated clients */
+  get clientCount(): number {
+    return this.authenticatedClients().length;
+  }
+
+  /** Send a status update to every authenticated client, shaped to its agreement. */
+  sendStatus(status: StatusMessage): void {
+    for (const client of this.authenticatedClients()) {
+      this.send(client, statusForProtocol(status, client.protocol));
+    }
+  }
+
+  /**
+   * Send an alert raised by a gateway-side rule to every authenticated
+   * client that agreed to the 'alerts' feature.
+   */
+  sendAlert(alert: AlertNotification): void {
+    const msg: AlertMessage = { type: 'alert', deviceToken: this.options.deviceToken, alert };
+    for (const client of this.authenticatedClients()) {
+      if (client.protocol.features.includes('alerts')) this.send(client, msg);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Connection handling
+  // --------------------------------------------------------------------------
+
+  /** Challenge a new client and wait for it to authenticate */
+  private handleConnection(ws: WebSocket): void {
+    const client: LanClient = {
+      ws,
+      nonce: crypto.randomBytes(16).toString('base64url'),
+      authenticated: false,
+      peerId: null,
+      alive: true,
+      authTimer: null,
+      protocol: DEFAULT_PROTOCOL,
+    };
+    this.clients.add(client);
+
+    client.authTimer = setTimeout(() => {
+      console.warn('[LanServer] Client did not authenticate in time');
+      ws.close(CLOSE_UNAUTHORIZED, 'Authentication timeout');
+    }, AUTH_TIMEOUT_MS);
+
+    ws.on('message', (data: WebSocket.Data) => this.handleMessage(client, data));
+    ws.on('pong', () => {
+      client.alive = true;
+    });
+    ws.on('close', () => {
+      this.clearAuthTimer(client);
+      this.clients.delete(client);
+    });
+    ws.on('error', (err: Error) => {
+      console.error(`[LanServer] Client error: ${err.message}`);
+    });
+
+    const challenge: LanChallengeMessage = {
+      type: 'lan-challenge',
+      nonce: client.nonce,
+      hostname: this.hostname,
+      minProtocol: MIN_PROTOCOL_VERSION,
+      maxProtocol: MAX_PROTOCOL_VERSION,
+      features: [...PROTOCOL_FEATURES],
+    };
+    this.send(client, challenge);
+  }
+
+  /**
+   * Parse an incoming message and route it by the client's state. A message
+   * that can't be handled closes the client instead of reaching the
+   * process, since clients needn't be authenticated to send one.
+   */
+  private handleMessage(client: LanClient, data: WebSocket.Data): void {
+    try {
+      this.routeMessage(client, JSON.parse(data.toString()));
+    } catch (err) {
+      console.error('[LanServer] Failed to handle incoming message:', err);
+      if (!client.authenticated) {
+        this.reject(client, 'Malformed message');
+      } else {
+        client.ws.close(CLOSE_MALFORMED, 'Malformed message');
+      }
+    }
+  }
+
+  /** Route a parsed message by the client's state */
+  private routeMessage(client: LanClient, message: { type?: unknown; [key: string]: unknown }): void {
+
+    if (!client.authenticated) {
+      this.authenticate(client, message);
+      return;
+    }
+
+    if (message.type === 'encrypted') {
+      this.handleEnvelope(client, message as unknown as EncryptedEnvelope);
+    } else if (
+      message.type === 'key-exchange' && typeof message.publicKey === 'string' && typeof message.proof === 'string'
+    ) {
+      const peerId = this.options.onKeyExchange(message as unknown as KeyExchangeMessage);
+      // The app sealed nothing yet; switch the connection over from here on
+      if (peerId) client.peerId = peerId;
+    } else if (message.type === 'command' && message.action && message.id) {
+      if (client.peerId) {
+        console.warn(`[LanServer] Dropped unencrypted command "${message.action}" on an encrypted connection`);
+        return;
+      }
+      this.dispatchCommand(client, message as unknown as CommandMessage);
+    } else if (message.type === 'protocol') {
+      if (client.peerId) {
+        console.warn('[LanServer] Dropped unencrypted protocol agreement on an encrypted connection');
+        return;
+      }
+      this.applyProtocol(client, message as { version?: unknown; features?: unknown });
+    } else {
+      console.log('[LanServer] Received unknown message type:', message.type);
+    }
+  }
+
+  /**
+   * Check a client's answer to the challenge: a pairing secret proof
+   * (plaintext connection) or the nonce sealed by a paired app (encrypted
+   * connection). Anything else closes the connection.
+   */
+  private authenticate(client: LanClient, message: { type?: unknown; [key: string]: unknown }): void {
+    let peerId: string | null = null;
+
+    if (message.type === 'lan-auth' && typeof message.proof === 'string') {
+      if (!this.verifyProof(client.nonce, message.proof)) {
+        this.reject(client, 'Pairing secret proof does not match');
+        return;
+      }
+    } else if (message.type === 'encrypted') {
+      const envelope = message as unknown as EncryptedEnvelope;
+      let inner: { type?: unknown; nonce?: unknown };
+      try {
+        inner = this.options.secureChannel.open(envelope) as typeof inner;
+      } catch (err) {
+        if (!(err instanceof SecureChannelError)) throw err;
+        this.reject(client, err.message);
+        return;
+      }
+      if (inner?.type !== 'lan-auth' || inner.nonce !== client.nonce) {
+        this.reject(client, 'Encrypted answer does not match the challenge');
+        return;
+      }
+      peerId = envelope.peerId;
+    } else {
+      this.reject(client, `Expected lan-auth, got ${String(message.type)}`);
+      return;
+    }
+
+    this.clearAuthTimer(client);
+    client.authenticated = true;
+    client.peerId = peerId;
+    console.log(`[LanServer] Client authenticated (${peerId ? `encrypted, app ${peerId}` : 'pairing secret'})`);
+
+    // Sent in plaintext so the app learns whether to expect envelopes
+    const ready: LanReadyMessage = { type: 'lan-ready', deviceToken: this.options.deviceToken, encrypted: peerId !== null };
+    this.sendRaw(client, ready);
+  }
+
+  /**
+   * Decrypt an envelope from an encrypted connection and route the command
+   * or protocol agreement inside. Envelopes from another peer or that fail
+   * to open are dropped.
+   */
+  private handleEnvelope(client: LanClient, envelope: EncryptedEnvelope): void {
+    if (envelope.peerId !== client.peerId) {
+      console.warn('[LanServer] Dropped encrypted message from another app');
+      return;
+    }
+
+    let message: { type?: unknown; action?: unknown; id?: unknown; version?: unknown; features?: unknown };
+    try {
+      message = this.options.secureChannel.open(envelope) as typeof message;
+    } catch (err) {
+      if (!(err instanceof SecureChannelError)) throw err;
+      console.warn(`[LanServer] Dropped encrypted message: ${err.message}`);
+      return;
+    }
+
+    if (message?.type === 'command' && typeof message.action === 'string' && typeof message.id === 'string') {
+      this.dispatchCommand(client, message as CommandMessage);
+    } else if (message?.type === 'protocol') {
+      this.applyProtocol(client, message);
+    } else {
+      console.log('[LanServer] Received unknown encrypted message type:', message?.type);
+    }
+  }
+
+  /**
+   * Use the protocol version and features a client chose. An agreement
+   * outside the gateway's range is ignored, keeping the current one.
+   */
+  private applyProtocol(client: LanClient, message: { version?: unknown; features?: unknown }): void {
+    const agreement = parseProtocolAgreement(message);
+    if (!agreement) {
+      console.warn(`[LanServer] Ignoring unsupported protocol version ${String(message.version)}`);
+      return;
+    }
+    client.protocol = agreement;
+    console.log(
+      `[LanServer] Client uses protocol version ${agreement.version}` +
+      ` (features: ${agreement.features.join(', ') || 'none'})`,
+    );
+  }
+
+  /** Hand a command to the monitor, answering on the same connection */
+  private dispatchCommand(client: LanClient, cmd: CommandMessage): void {
+    this.options.onCommand(cmd, (response) => this.send(client, response));
+  }
+
+  // --------------------------------------------------------------------------
+  // Internal helpers
+  // --------------------------------------------------------------------------
+
+  /** Whether a proof is the HMAC of the nonce with a current pairing secret */
+  private verifyProof(nonce: string, proof: string): boolean {
+    const expected = Buffer.from(proof, 'base64url');
+    return this.options.getPairingSecrets().some((secret) => {
+      const actual = Buffer.from(lanAuthProof(nonce, secret), 'base64url');
+      return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+    });
+  }
+
+  /** Close a client that failed to authenticate */
+  private reject(client: LanClient, reason: string): void {
+    console.warn(`[LanServer] Rejected client: ${reason}`);
+    this.clearAuthTimer(client);
+    client.ws.close(CLOSE_UNAUTHORIZED, 'Authentication failed');
+  }
+
+  /** Clients that answered the challenge */
+  private authenticatedClients(): LanClient[] {
+    return [...this.clients].filter((client) => client.authenticated);
+  }
+
+  /**
+   * Send a message to a client, sealed for its app on an encrypted
+   * connection. If the app is no longer paired the client is closed.
+   */
+  private send(client: LanClient, message: LanOutboundMessage): void {
+    if (!client.peerId) {
+      this.sendRaw(client, message);
+      return;
+    }
+    try {
+      this.sendRaw(client, this.options.secureChannel.seal(client.peerId, this.options.deviceToken, message));
+    } catch (err) {
+      if (!(err instanceof SecureChannelError)) throw err;
+      console.warn(`[LanServer] Closing connection: ${err.message}`);
+      client.ws.close(CLOSE_UNAUTHORIZED, 'App no longer paired');
+    }
+  }
+
+  /** Send a JSON message as is, logging send errors */
+  private sendRaw(client: LanClient, message: LanOutboundMessage): void {
+    if (client.ws.readyState !== WebSocket.OPEN) return;
+    try {
+      client.ws.send(JSON.stringify(message));
+    } catch (err) {
+      console.error('[LanServer] Failed to send message:', err);
+    }
+  }
+
+  /** Ping every client, terminating those that didn't answer the last ping */
+  private checkHeartbeats(): void {
+    for (const client of this.clients) {
+      if (!client.alive) {
+        client.ws.terminate();
+        continue;
+      }
+      client.alive = false;
+      try {
+        client.ws.ping();
+      } catch {
+        // The close handler removes the client
+      }
+    }
+  }
+
+  /** Cancel a client's authentication timeout */
+  private clearAuthTimer(client: LanClient): void {
+    if (client.authTimer) {
+      clearTimeout(client.authTimer);
+      client.authTimer = null;
+    }
+  }
+
+  /**
+   * Announce the server with mDNS. The TXT record carries the protocol
+   * version and a digest of the gateway public key, so an app can tell its
+   * own gateway apart without the device token being broadcast.
+   */
+  private advertise(): void {
+    const port = this.port;
+    if (port === null) return;
+
+    this.bonjour = new Bonjour(undefined, (err: Error) => {
+      console.error(`[LanServer] mDNS error: ${err.message}`);
+    });
+    this.bonjour.publish({
+      name: `ClawFace on ${this.hostname}`,
+      type: SERVICE_TYPE,
+      port,
+      txt: {
+        v: '1',
+        pk: crypto.createHash('sha256')
+          .update(Buffer.from(this.options.secureChannel.publicKey, 'base64url'))
+          .digest('hex')
+          .slice(0, 16),
+      },
+    });
+    console.log(`[LanServer] Advertising _${SERVICE_TYPE}._tcp on the local network`);
+  }
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/**
+ * The proof a LAN client answers the challenge with: HMAC-SHA256 of the
+ * decoded nonce, keyed with the decoded pairing secret (base64url).
+ */
+export function lanAuthProof(nonce: string, pairingSecret: string): string {
+  return crypto.createHmac('sha256', Buffer.from(pairingSecret, 'base64url'))
+    .update(Buffer.from(nonce, 'base64url'))
+    .digest('base64url');
+}
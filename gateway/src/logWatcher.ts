@@ -0,0 +1,227 @@
+// ============================================================================
+// OpenClaw Monitor - Local Log Watcher
+// Triggers AI usage log scans when the scanners' log directories change, so
+// new usage reaches the database within a second instead of waiting for the
+// next fixed-interval poll. Uses recursive fs.watch on each root; bursts of
+// events (Claude Code appends many streaming lines per message) are
+// coalesced into a single scan.
+//
+// A periodic rescan always runs as a safety net: it catches events a watcher
+// missed, covers scanners that don't expose watch roots, and attaches
+// watchers to roots created after start. While an existing root can't be
+// watched (unsupported platform or filesystem), the rescan runs faster.
+// ============================================================================
+
+import fs from 'fs';
+
+/** Tuning options for LogWatcher. */
+export interface LogWatcherOptions {
+  /** Set to false to rely on periodic rescans only (default: true) */
+  watch?: boolean;
+  /** Delay between the first change event and the scan it triggers (default: 500 ms) */
+  debounceMs?: number;
+  /** Safety rescan interval while all existing roots are watched (default: 60 s) */
+  rescanIntervalMs?: number;
+  /** Rescan interval used while some existing root can't be watched (default: 5 s) */
+  fallbackIntervalMs?: number;
+}
+
+/** Default delay between a change event and the triggered scan */
+const DEFAULT_DEBOUNCE_MS = 500;
+
+/** Default safety rescan interval while watching */
+const DEFAULT_RESCAN_INTERVAL_MS = 60_000;
+
+/** Default rescan interval when watching isn't available */
+const DEFAULT_FALLBACK_INTERVAL_MS = 5_000;
+
+export class LogWatcher {
+  /** Active fs.watch handles keyed by root directory */
+  private watchers = new Map<string, fs.FSWatcher>();
+
+  /** Pending debounced scan, or null if none is scheduled */
+  private debounceTimer: NodeJS.Timeout | null = null;
+
+  /** Timer for the periodic rescan */
+  private rescanTimer: NodeJS.Timeout | null = null;
+
+  /** Interval the rescan timer is currently running at */
+  private rescanIntervalMs: number = 0;
+
+  /**
+   * Roots the platform can't watch recursively. Retrying them can't succeed,
+   * so they are polled without another attempt (or warning) per rescan.
+   */
+  private unsupportedRoots = new Set<string>();
+
+  /** Whether some existing root couldn't be watched on the last attempt */
+  private fallback: boolean = false;
+
+  /** Whether start() has been called without a matching stop() */
+  private running: boolean = false;
+
+  private readonly watchEnabled: boolean;
+  private readonly debounceMs: number;
+  private readonly normalIntervalMs: number;
+  private readonly fallbackIntervalMs: number;
+
+  /**
+   * @param roots - Directories to watch recursively (missing ones are retried on each rescan)
+   * @param onChange - Called to run a scan; exceptions are logged, not rethrown
+   * @param options - Debounce and polling intervals
+   */
+  constructor(
+    private roots: string[],
+    private onChange: () => void,
+    options: LogWatcherOptions = {},
+  ) {
+    this.watchEnabled = options.watch ?? true;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.normalIntervalMs = options.rescanIntervalMs ?? DEFAULT_RESCAN_INTERVAL_MS;
+    this.fallbackIntervalMs = options.fallbackIntervalMs ?? DEFAULT_FALLBACK_INTERVAL_MS;
+  }
+
+  // --------------------------------------------------------------------------
+  // Lifecycle
+  // --------------------------------------------------------------------------
+
+  /** Attach watchers to the roots that exist and start the periodic rescan. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.attachWatchers();
+  }
+
+  /** Close all watchers and cancel pending scans. Safe to call repeatedly. */
+  stop(): void {
+    this.running = false;
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.rescanTimer) {
+      clearInterval(this.rescanTimer);
+      this.rescanTimer = null;
+    }
+    this.rescanIntervalMs = 0;
+    this.fallback = false;
+  }
+
+  /** Roots that currently have an active watcher. */
+  getWatchedRoots(): string[] {
+    return Array.from(this.watchers.keys());
+  }
+
+  /** Whether some existing root couldn't be watched, so polling runs at the fallback rate. */
+  get isPollingFallback(): boolean {
+    return this.fallback;
+  }
+
+  // --------------------------------------------------------------------------
+  // Watching
+  // --------------------------------------------------------------------------
+
+  /**
+   * Try to watch every root that exists and isn't watched yet, then set the
+   * rescan interval according to whether anything had to fall back.
+   */
+  private attachWatchers(): void {
+    this.fallback = false;
+
+    if (this.watchEnabled) {
+      for (const root of this.roots) {
+        if (this.watchers.has(root) || !fs.existsSync(root)) continue;
+        if (this.unsupportedRoots.has(root)) {
+          this.fallback = true;
+          continue;
+        }
+        if (!this.watchRoot(root)) this.fallback = true;
+      }
+    }
+
+    this.setRescanInterval(this.fallback ? this.fallbackIntervalMs : this.normalIntervalMs);
+  }
+
+  /**
+   * Start a recursive watcher on one root.
+   *
+   * @returns false if the platform or filesystem doesn't support watching it
+   */
+  private watchRoot(root: string): boolean {
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(root, { recursive: true, persistent: false }, () => this.scheduleScan());
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        console.warn(`[LogWatcher] Recursive watching isn't supported here, polling ${root} instead`);
+        this.unsupportedRoots.add(root);
+      } else {
+        console.warn(`[LogWatcher] Cannot watch ${root}, falling back to polling:`, err);
+      }
+      return false;
+    }
+
+    // A watcher errors out when its root is deleted or the handle breaks.
+    // Drop it and poll faster; the next rescan re-attaches if the root is back.
+    watcher.on('error', (err) => {
+      console.warn(`[LogWatcher] Watcher for ${root} failed:`, err);
+      watcher.close();
+      this.watchers.delete(root);
+      if (this.running) {
+        this.fallback = true;
+        this.setRescanInterval(this.fallbackIntervalMs);
+        this.scheduleScan();
+      }
+    });
+
+    this.watchers.set(root, watcher);
+    return true;
+  }
+
+  // --------------------------------------------------------------------------
+  // Scheduling
+  // --------------------------------------------------------------------------
+
+  /**
+   * Schedule a scan debounceMs from now, unless one is already pending.
+   * Events arriving while a scan is pending are folded into it, so a
+   * steady stream of writes still yields a scan every debounceMs.
+   */
+  private scheduleScan(): void {
+    if (!this.running || this.debounceTimer) return;
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.runScan();
+    }, this.debounceMs);
+  }
+
+  /** (Re)start the periodic rescan timer if its interval changed. */
+  private setRescanInterval(intervalMs: number): void {
+    if (!this.running || (this.rescanTimer && this.rescanIntervalMs === intervalMs)) return;
+
+    if (this.rescanTimer) clearInterval(this.rescanTimer);
+    this.rescanIntervalMs = intervalMs;
+    this.rescanTimer = setInterval(() => {
+      this.attachWatchers();
+      this.runScan();
+    }, intervalMs);
+  }
+
+  /** Invoke the scan callback, logging rather than propagating errors. */
+  private runScan(): void {
+    if (!this.running) return;
+    try {
+      this.onChange();
+    } catch (err) {
+      console.error('[LogWatcher] Scan failed:', err);
+    }
+  }
+}
@@ -0,0 +1,428 @@
+// ============================================================================
+// OpenClaw Monitor - AI Usage Database Migrations
+// Ordered, numbered schema migrations for ai-usage.db. Applied versions are
+// recorded in the schema_migrations table, so each migration runs exactly
+// once per database. Every migration runs inside its own transaction: if it
+// throws, its changes are rolled back, it is not recorded, and the tracker
+// fails to open instead of running against a half-migrated schema.
+//
+// Databases created before this table existed have no record of what ran.
+// The early migrations are written to be idempotent (they check the schema
+// before changing it), so such databases simply replay them all once.
+//
+// New migrations are appended to USAGE_MIGRATIONS with the next version
+// number; existing entries must never be edited or reordered.
+// ============================================================================
+
+import type Database from 'better-sqlite3';
+
+/**
+ * Tracker operations a migration may need. Passed in rather than imported
+ * so migrations run against the same pricing and rollup logic the tracker
+ * uses at runtime.
+ */
+export interface MigrationContext {
+  /**
+   * Estimate a request's cost in USD from the built-in pricing table,
+   * without the user's overrides. Migrations deal with rows logged before
+   * overrides existed; the tracker reprices estimated rows with the
+   * overrides once migrations are done.
+   */
+  calculateCost(
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    cacheReadTokens: number,
+    cacheCreationTokens: number,
+  ): number;
+  /** Recompute the daily/monthly rollups from the retained raw rows */
+  rebuildRollups(): void;
+  /** Whether the pricing table has an entry for a model */
+  isPriced(model: string): boolean;
+}
+
+/** A single schema migration. */
+export interface Migration {
+  /** Position in the sequence; versions start at 1 and increase by 1 */
+  version: number;
+  /** Short snake_case description, recorded alongside the version */
+  name: string;
+  /** Apply the migration. Called inside a transaction. */
+  up(db: Database.Database, context: MigrationContext): void;
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/** Row shape used when recalculating stored costs */
+interface CostRow {
+  id: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+}
+
+/**
+ * Build a migration step that recalculates the stored cost of every row of
+ * the given models with the current pricing table. Used when a model was
+ * logged with wrong prices. Rollups that already exist are rebuilt so they
+ * stay consistent with the corrected rows.
+ *
+ * @param models - Normalized model identifiers to reprice
+ * @param reason - Why the stored costs were wrong, for the log line
+ */
+function recalculateModelCosts(models: string[], reason: string): Migration['up'] {
+  return (db, context) => {
+    const select = db.prepare(
+      'SELECT id, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens FROM ai_requests WHERE model = ?'
+    );
+    const update = db.prepare('UPDATE ai_requests SET estimated_cost = ? WHERE id = ? AND estimated_cost != ?');
+
+    let fixed = 0;
+    for (const model of models) {
+      for (const row of select.all(model) as CostRow[]) {
+        const cost = context.calculateCost(
+          model,
+          row.input_tokens,
+          row.output_tokens,
+          row.cache_read_input_tokens,
+          row.cache_creation_input_tokens,
+        );
+        fixed += update.run(cost, row.id, cost).changes;
+      }
+    }
+
+    if (fixed === 0) return;
+    console.log(`[Migrations] Recalculated costs for ${fixed} ${models.join(', ')} rows (${reason})`);
+
+    if (tableExists(db, 'ai_usage_daily')) {
+      context.rebuildRollups();
+    }
+  };
+}
+
+/** Columns and primary key shared by the daily and monthly rollup tables */
+function rollupTableSql(table: string, keyColumn: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${table} (
+      ${keyColumn} TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      source TEXT NOT NULL,
+      request_count INTEGER NOT NULL,
+      input_tokens INTEGER NOT NULL,
+      output_tokens INTEGER NOT NULL,
+      cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+      estimated_cost REAL NOT NULL,
+      PRIMARY KEY (${keyColumn}, provider, model, source)
+    );
+  `;
+}
+
+/** All migrations of the AI usage database, in order. */
+export const USAGE_MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    name: 'create_ai_requests',
+    up(db) {
+      // Original schema, before prompt caching was tracked
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ai_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp INTEGER NOT NULL,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          estimated_cost REAL NOT NULL,
+          source TEXT NOT NULL,
+          session_id TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_ai_requests_timestamp
+          ON ai_requests(timestamp);
+
+        CREATE INDEX IF NOT EXISTS idx_ai_requests_provider
+          ON ai_requests(provider, timestamp);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'add_cache_token_columns',
+    up(db) {
+      const columns = db.pragma('table_info(ai_requests)') as Array<{ name: string }>;
+      const columnNames = new Set(columns.map(c => c.name));
+      if (!columnNames.has('cache_read_input_tokens')) {
+        db.exec('ALTER TABLE ai_requests ADD COLUMN cache_read_input_tokens INTEGER NOT NULL DEFAULT 0');
+      }
+      if (!columnNames.has('cache_creation_input_tokens')) {
+        db.exec('ALTER TABLE ai_requests ADD COLUMN cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0');
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'deduplicate_requests',
+    up(db) {
+      // Duplicates must go first or the unique index can't be created.
+      // Keeps the row with the lowest id of each group.
+      const result = db.prepare(`
+        DELETE FROM ai_requests
+        WHERE id NOT IN (
+          SELECT MIN(id) FROM ai_requests
+          GROUP BY timestamp, provider, model, source, input_tokens, output_tokens
+        )
+      `).run();
+      if (result.changes > 0) {
+        console.log(`[Migrations] Deduplicated ${result.changes} duplicate rows`);
+      }
+
+      db.exec(
+        'CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_requests_dedup' +
+        ' ON ai_requests(timestamp, provider, model, source, input_tokens, output_tokens)'
+      );
+    },
+  },
+  {
+    version: 4,
+    name: 'reprice_claude_opus_4_6',
+    // Logged at $15/$75 before the pricing table was corrected to $5/$25
+    up: recalculateModelCosts(['claude-opus-4-6'], 'was 3x overpriced'),
+  },
+  {
+    version: 5,
+    name: 'create_usage_rollups',
+    up(db, context) {
+      db.exec(rollupTableSql('ai_usage_daily', 'day'));
+      db.exec(rollupTableSql('ai_usage_monthly', 'month'));
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ai_usage_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+
+      // Backfill from whatever raw rows are still retained
+      const hasRollups = db.prepare('SELECT 1 FROM ai_usage_daily LIMIT 1').get() !== undefined;
+      const hasRequests = db.prepare('SELECT 1 FROM ai_requests LIMIT 1').get() !== undefined;
+      if (!hasRollups && hasRequests) {
+        context.rebuildRollups();
+        console.log('[Migrations] Backfilled usage rollups from retained requests');
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'create_scanner_file_states',
+    up(db) {
+      // Per-file offsets of the local log scanners (see scanStateStore.ts).
+      // Databases from before this migration may already have the table.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS scanner_file_states (
+          scanner TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          mtime_ms REAL NOT NULL,
+          byte_offset INTEGER NOT NULL,
+          extra TEXT,
+          PRIMARY KEY (scanner, file_path)
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'add_cost_source_and_pricing_version',
+    up(db, context) {
+      db.exec(`
+        ALTER TABLE ai_requests ADD COLUMN cost_source TEXT NOT NULL DEFAULT 'estimated';
+        ALTER TABLE ai_requests ADD COLUMN pricing_version TEXT;
+      `);
+
+      // Older rows didn't record where their cost came from. Only Claude Code
+      // reports its own cost (costUSD), so a claude-code row whose cost
+      // differs from the built-in estimate is taken to be a reported cost.
+      // Estimated rows keep a NULL pricing_version, so the tracker's first
+      // repricing pass stamps (and if needed corrects) them.
+      const rows = db.prepare(`
+        SELECT id, model, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, estimated_cost
+        FROM ai_requests WHERE source = 'claude-code'
+      `).all() as Array<CostRow & { model: string; estimated_cost: number }>;
+      const markReported = db.prepare("UPDATE ai_requests SET cost_source = 'reported' WHERE id = ?");
+
+      for (const row of rows) {
+        const estimate = context.calculateCost(
+          row.model,
+          row.input_tokens,
+          row.output_tokens,
+          row.cache_read_input_tokens,
+          row.cache_creation_input_tokens,
+        );
+        if (Math.abs(estimate - row.estimated_cost) > 1e-9) {
+          markReported.run(row.id);
+        }
+      }
+    },
+  },
+  {
+    version: 8,
+    name: 'create_unpriced_models',
+    up(db, context) {
+      db.exec(`
+        CREATE TABLE ai_unpriced_models (
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          request_count INTEGER NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+          first_seen INTEGER NOT NULL,
+          last_seen INTEGER NOT NULL,
+          PRIMARY KEY (provider, model)
+        );
+      `);
+
+      // Seed from the retained estimated rows of models without a price
+      const totals = db.prepare(`
+        SELECT provider, model, COUNT(*) as request_count,
+          SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens,
+          SUM(cache_read_input_tokens) as cache_read_input_tokens,
+          SUM(cache_creation_input_tokens) as cache_creation_input_tokens,
+          MIN(timestamp) as first_seen, MAX(timestamp) as last_seen
+        FROM ai_requests
+        WHERE cost_source = 'estimated'
+        GROUP BY provider, model
+      `).all() as Array<{ model: string }>;
+      const insert = db.prepare(`
+        INSERT INTO ai_unpriced_models (provider, model, request_count, input_tokens, output_tokens, cache_read_input_tokens, cache_creation_input_tokens, first_seen, last_seen)
+        VALUES (@provider, @model, @request_count, @input_tokens, @output_tokens, @cache_read_input_tokens, @cache_creation_input_tokens, @first_seen, @last_seen)
+      `);
+
+      for (const row of totals) {
+        if (!context.isPriced(row.model)) insert.run(row);
+      }
+    },
+  },
+  {
+    version: 9,
+    name: 'add_project_path',
+    up(db) {
+      db.exec(`
+        ALTER TABLE ai_requests ADD COLUMN project_path TEXT;
+
+        CREATE INDEX idx_ai_requests_project
+          ON ai_requests(project_path, timestamp);
+
+        CREATE INDEX idx_ai_requests_session
+          ON ai_requests(session_id);
+      `);
+
+      // Claude Code rows were logged without their session and project.
+      // Forgetting the scanner's offsets makes the next scan re-read every
+      // log; the rows already stored are then filled in instead of
+      // inserted again.
+      db.prepare("DELETE FROM scanner_file_states WHERE scanner = 'claude-code'").run();
+    },
+  },
+  {
+    version: 10,
+    name: 'relabel_codex_source',
+    up(db) {
+      // The Codex scanner logged its rows as source 'api', like usage
+      // logged through logRequest(), so the rows can't be told apart here.
+      // Rescan the session logs instead: each row the scanner logs again
+      // claims its old copy, relabelling it as 'codex-cli' and filling in
+      // its session id and working directory (see LEGACY_SOURCES in
+      // aiUsageTracker.ts). Rows whose raw copy was already pruned stay
+      // 'api' in the rollups.
+      db.prepare("DELETE FROM scanner_file_states WHERE scanner = 'codex'").run();
+    },
+  },
+];
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Apply every migration the database hasn't recorded yet, in version order.
+ * Each migration and its schema_migrations row commit in one transaction.
+ *
+ * @param db - Open database connection
+ * @param context - Tracker operations available to migrations
+ * @param migrations - Migration list (defaults to USAGE_MIGRATIONS)
+ * @returns Versions applied by this call, in order
+ * @throws If the list is misnumbered or a migration fails
+ */
+export function runMigrations(
+  db: Database.Database,
+  context: MigrationContext,
+  migrations: readonly Migration[] = USAGE_MIGRATIONS,
+): number[] {
+  migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migration "${migration.name}" has version ${migration.version}, expected ${i + 1}`);
+    }
+  });
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  const current = getSchemaVersion(db);
+  if (current > migrations.length) {
+    console.warn(
+      `[Migrations] Database schema version ${current} is newer than this build (${migrations.length}); ` +
+      'continuing without migrating',
+    );
+  }
+
+  const applied = new Set(
+    (db.prepare('SELECT version FROM schema_migrations').all() as Array<{ version: number }>)
+      .map(row => row.version),
+  );
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+  const ran: number[] = [];
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+
+    try {
+      db.transaction(() => {
+        migration.up(db, context);
+        record.run(migration.version, migration.name, Date.now());
+      })();
+    } catch (err) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+    ran.push(migration.version);
+  }
+
+  return ran;
+}
+
+/**
+ * Highest migration version recorded in the database, or 0 if none.
+ * Returns 0 as well when the schema_migrations table doesn't exist yet.
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  if (!tableExists(db, 'schema_migrations')) return 0;
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/** Whether a table of the given name exists in the database */
+function tableExists(db: Database.Database, table: string): boolean {
+  return db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== undefined;
+}
@@ -3,7 +3,9 @@
 // Strips vendor prefixes, date suffixes, and platform-specific formatting
 // from model names so they match the canonical pricing table keys.
 // Ported from CodexBar's CostUsagePricing.swift normalizeCodexModel() and
-// normalizeClaudeModel() functions.
+// normalizeClaudeModel() functions. normalizeGeminiModel() covers the
+// Gemini CLI's model identifiers, and normalizeModelName() picks one of the
+// three for names that come without a provider, such as pricing overrides.
 // ============================================================================
 
 // Set of canonical Claude model keys that we allow date-suffix stripping for.
@@ -114,3 +116,53 @@ export function normalizeClaudeModel(raw: string): string {
 
   return trimmed;
 }
+
+/**
+ * Normalize a Gemini/Google model name for pricing lookup.
+ *
+ * Strips:
+ * - "models/" API resource prefix (e.g. "models/gemini-2.5-pro" -> "gemini-2.5-pro")
+ * - "google/" vendor prefix (e.g. "google/gemini-2.5-flash" -> "gemini-2.5-flash")
+ *
+ * @param raw - Raw model name from the API response or log entry
+ * @returns Normalized model name suitable for pricing table lookup
+ */
+export function normalizeGeminiModel(raw: string): string {
+  let trimmed = raw.trim();
+
+  // Strip "google/" vendor prefix
+  if (trimmed.startsWith('google/')) {
+    trimmed = trimmed.slice('google/'.length);
+  }
+
+  // Strip "models/" resource prefix
+  if (trimmed.startsWith('models/')) {
+    trimmed = trimmed.slice('models/'.length);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Normalize a model name whose provider isn't known, e.g. a key of the
+ * pricing overrides, the way it would be normalized when logged. The
+ * provider is inferred from the vendor prefix or the model family.
+ *
+ * @param raw - Model name as written by the user
+ * @returns Normalized model name suitable for pricing table lookup
+ */
+export function normalizeModelName(raw: string): string {
+  const trimmed = raw.trim();
+
+  if (trimmed.includes('claude-')) {
+    return normalizeClaudeModel(trimmed);
+  }
+  if (trimmed.startsWith('openai/') || /^(gpt-|o\d)/.test(trimmed)) {
+    return normalizeCodexModel(trimmed);
+  }
+  if (trimmed.startsWith('google/') || trimmed.startsWith('models/') || trimmed.includes('gemini')) {
+    return normalizeGeminiModel(trimmed);
+  }
+
+  return trimmed;
+}
@@ -0,0 +1,160 @@
+// ============================================================================
+// OpenClaw Monitor - Outbox
+// Holds app-facing messages the relay client couldn't send while it was
+// disconnected, so they can be replayed in order after it reconnects.
+//
+// Messages have one of three priority classes:
+//   best-effort  Status updates; never queued, the next tick replaces them
+//   reliable     Alerts; queued, evicted first when the outbox is full
+//   critical     Command responses an app is waiting for; queued, evicted
+//                only when no reliable message is left to evict
+//
+// The outbox is bounded by entry count and age, and kept in a JSON file
+// (mode 0600) so queued messages survive a gateway restart. Each message
+// carries a messageId that is kept when it's replayed, so an app can ignore
+// a message it has already received.
+// ============================================================================
+
+import fs from 'fs';
+import path from 'path';
+import type { AlertMessage, CommandResponse } from './types.js';
+
+/** How much a message matters when it can't be sent right away */
+export type OutboxPriority = 'best-effort' | 'reliable' | 'critical';
+
+/** A message waiting to be sent */
+export interface OutboxEntry {
+  /** The message's messageId */
+  id: string;
+  priority: Exclude<OutboxPriority, 'best-effort'>;
+  message: CommandResponse | AlertMessage;
+  /** App the message must be encrypted for; all paired apps if omitted */
+  peerId?: string;
+  /** When the message was queued (ms) */
+  queuedAt: number;
+}
+
+export interface OutboxOptions {
+  /** Most messages kept (default: 200) */
+  maxEntries?: number;
+  /** Messages older than this are dropped instead of replayed (default: 24 hours) */
+  maxAgeMs?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+export class Outbox {
+  /** Queued messages, oldest first */
+  private entries: OutboxEntry[] = [];
+  private maxEntries: number;
+  private maxAgeMs: number;
+
+  /**
+   * @param file - JSON file to keep queued messages in; memory only if omitted
+   */
+  constructor(private file?: string, options: OutboxOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.load();
+  }
+
+  /** Number of queued messages */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Queue a message that couldn't be sent. Best-effort messages are
+   * dropped. When the outbox is full, the oldest reliable message makes
+   * room, or the oldest critical one if there is no reliable message.
+   *
+   * @returns Whether the message was queued
+   */
+  enqueue(
+    priority: OutboxPriority,
+    message: CommandResponse | AlertMessage,
+    peerId?: string,
+    now: number = Date.now(),
+  ): boolean {
+    if (priority === 'best-effort' || !message.messageId) return false;
+
+    this.entries.push({ id: message.messageId, priority, message, peerId, queuedAt: now });
+    while (this.entries.length > this.maxEntries) {
+      const reliable = this.entries.findIndex((entry) => entry.priority === 'reliable');
+      const [evicted] = this.entries.splice(reliable >= 0 ? reliable : 0, 1);
+      console.warn(`[Outbox] Full, dropped queued ${evicted.message.type} ${evicted.id}`);
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * The queued messages in the order they were queued, without those past
+   * their maximum age (which are removed).
+   */
+  pending(now: number = Date.now()): OutboxEntry[] {
+    const fresh = this.entries.filter((entry) => now - entry.queuedAt < this.maxAgeMs);
+    if (fresh.length !== this.entries.length) {
+      console.warn(`[Outbox] Dropped ${this.entries.length - fresh.length} expired message(s)`);
+      this.entries = fresh;
+      this.save();
+    }
+    return [...this.entries];
+  }
+
+  /** Drop every queued message, e.g. after unpairing. */
+  clear(): void {
+    if (this.entries.length === 0) return;
+    this.entries = [];
+    this.save();
+  }
+
+  /** Remove a message once it has been sent (or can't ever be). */
+  remove(id: string): void {
+    const index = this.entries.findIndex((entry) => entry.id === id);
+    if (index < 0) return;
+    this.entries.splice(index, 1);
+    this.save();
+  }
+
+  // --------------------------------------------------------------------------
+  // Persistence
+  // --------------------------------------------------------------------------
+
+  /** Read queued messages left by a previous run */
+  private load(): void {
+    if (!this.file || !fs.existsSync(this.file)) return;
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      if (!Array.isArray(stored)) throw new Error('expected an array');
+      this.entries = stored.filter(isEntry).slice(-this.maxEntries);
+    } catch (err) {
+      console.warn('[Outbox] Ignoring unreadable outbox file:', err);
+    }
+  }
+
+  /** Write the queued messages to the file, if any */
+  private save(): void {
+    if (!this.file) return;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(this.entries), { encoding: 'utf-8', mode: 0o600 });
+    } catch (err) {
+      console.error('[Outbox] Failed to save outbox:', err);
+    }
+  }
+}
+
+/** Whether a stored value looks like an OutboxEntry */
+function isEntry(value: unknown): value is OutboxEntry {
+  const entry = value as Partial<OutboxEntry> | null;
+  return typeof entry?.id === 'string'
+    && (entry.priority === 'reliable' || entry.priority === 'critical')
+    && typeof entry.message === 'object' && entry.message !== null
+    && typeof entry.queuedAt === 'number';
+}
@@ -7,6 +7,7 @@
 // ============================================================================
 
 import crypto from 'crypto';
+import type { PairQrPayload } from './types.js';
 
 /** Duration in milliseconds before a pairing code expires (5 minutes) */
 const CODE_TTL_MS = 5 * 60 * 1000;
@@ -30,6 +31,12 @@ export class PairManager {
   /** Optional callback invoked whenever a new code is generated */
   private onNewCode: ((code: string) => void) | null = null;
 
+  /**
+   * Secret shown in the QR code of the current code, and of the previous
+   * one, so an app that scanned just before a rotation can still prove it.
+   */
+  private pairingSecrets: string[] = [];
+
   /** Optional listener for code changes (used by Electron desktop app). */
   private codeChangeListener: ((code: string, expiresAt: number) => void) | null = null;
 
@@ -62,6 +69,7 @@ export class PairManager {
 
     this.currentCode = code;
     this.codeExpiry = Date.now() + CODE_TTL_MS;
+    this.rotateSecret();
 
     if (this.onNewCode) {
       this.onNewCode(code);
@@ -92,9 +100,24 @@ export class PairManager {
   setRelayCode(code: string): void {
     this.currentCode = code;
     this.codeExpiry = Date.now() + CODE_TTL_MS;
+    this.rotateSecret();
     this.displayCode(code);
   }
 
+  /** Generate the pairing secret for a new code, keeping the previous one */
+  private rotateSecret(): void {
+    const secret = crypto.randomBytes(16).toString('base64url');
+    this.pairingSecrets = [secret, ...this.pairingSecrets].slice(0, 2);
+  }
+
+  /**
+   * Secrets an app may prove its key exchange with: the one in the current
+   * QR code and the one in the previous QR code.
+   */
+  getPairingSecrets(): string[] {
+    return [...this.pairingSecrets];
+  }
+
   // --------------------------------------------------------------------------
   // Display
   // --------------------------------------------------------------------------
@@ -110,10 +133,36 @@ export class PairManager {
     this.relayUrl = url;
   }
 
+  /** The gateway's key-exchange public key embedded in QR codes, if any */
+  private publicKey: string | null = null;
+
+  /**
+   * Set the gateway's X25519 public key (base64url) that will be encoded
+   * into QR codes, so the app can encrypt end to end without trusting the
+   * relay for the key.
+   */
+  setPublicKey(publicKey: string): void {
+    this.publicKey = publicKey;
+  }
+
+  /**
+   * Build the JSON payload encoded in the pairing QR code: the code, the
+   * relay URL and, if a public key is set, the key and the code's pairing
+   * secret. The relay never sees this payload.
+   */
+  getQrPayload(code: string): string {
+    const payload: PairQrPayload = { code, relay: this.relayUrl };
+    if (this.publicKey && this.pairingSecrets.length > 0) {
+      payload.publicKey = this.publicKey;
+      payload.pairingSecret = this.pairingSecrets[0];
+    }
+    return JSON.stringify(payload);
+  }
+
   /**
    * Print the pairing code and a scannable QR code to the terminal.
-   * The QR code encodes a JSON payload with the pairing code and relay URL,
-   * so the iPhone app can auto-pair by scanning it.
+   * The QR code encodes a JSON payload with the pairing code, relay URL and
+   * public key, so the iPhone app can auto-pair by scanning it.
    */
   async displayCode(code: string): Promise<void> {
     // Notify desktop app listener if registered
@@ -146,7 +195,7 @@ export class PairManager {
     // the package is excluded from the bundle (it's terminal-only).
     try {
       const qrcode = await import('qrcode-terminal');
-      const qrPayload = JSON.stringify({ code, relay: this.relayUrl });
+      const qrPayload = this.getQrPayload(code);
       qrcode.default.generate(qrPayload, { small: true }, (qr: string) => {
         console.log(qr);
       });
@@ -0,0 +1,429 @@
+// ============================================================================
+// OpenClaw Monitor - Model Pricing Table
+// The per-model prices used to estimate request costs: a built-in table
+// plus user overrides from the "pricing" section of ~/.openclaw/monitor.json.
+// Overrides use the shared ModelPricing shape, are validated before use and
+// replace the built-in entry of the same model; models the built-in table
+// doesn't know can be added the same way.
+//
+// Every effective entry has a version (a short hash of its rates). Stored
+// rows remember the version they were costed with, so changing a price,
+// built-in or overridden, lets the tracker find and reprice stale rows.
+// ============================================================================
+
+import crypto from 'crypto';
+import { normalizeModelName } from './modelNormalizer.js';
+import type { ModelPricing, PricingTier } from './types.js';
+
+// ============================================================================
+// Model pricing table
+// ============================================================================
+// Comprehensive pricing ported from CodexBar's CostUsagePricing.swift.
+// Costs are per 1M tokens in USD. Cache and tiered pricing included where
+// applicable.
+// ============================================================================
+
+/**
+ * Pricing entry for a single model.
+ * input/output are per-1M-token rates in USD.
+ * Optional cacheRead/cacheCreation rates for prompt caching.
+ * Optional aboveThreshold tier for models with tiered pricing.
+ */
+export interface PricingEntry {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheCreation?: number;
+  /** When present, tokens above this threshold use the higher rates */
+  aboveThreshold?: {
+    thresholdTokens: number;
+    input: number;
+    output: number;
+    cacheRead?: number;
+    cacheCreation?: number;
+  };
+}
+
+/**
+ * Comprehensive pricing table covering all known models.
+ * Ported from CodexBar's CostUsagePricing.swift.
+ * Models not in this table (or the user's overrides) default to zero cost
+ * (still logged).
+ */
+const MODEL_PRICING: Record<string, PricingEntry> = {
+  // ---------------------------------------------------------------------------
+  // OpenAI / Codex models
+  // ---------------------------------------------------------------------------
+  'gpt-5': {
+    input: 1.25,
+    output: 10.0,
+    cacheRead: 0.125,
+  },
+  'gpt-5-codex': {
+    input: 1.25,
+    output: 10.0,
+    cacheRead: 0.125,
+  },
+  'gpt-5.1': {
+    input: 1.25,
+    output: 10.0,
+    cacheRead: 0.125,
+  },
+  'gpt-5.2': {
+    input: 1.75,
+    output: 14.0,
+    cacheRead: 0.175,
+  },
+  'gpt-5.2-codex': {
+    input: 1.75,
+    output: 14.0,
+    cacheRead: 0.175,
+  },
+  'gpt-4o': {
+    input: 2.50,
+    output: 10.0,
+  },
+  'gpt-4o-mini': {
+    input: 0.15,
+    output: 0.60,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Anthropic / Claude models
+  // ---------------------------------------------------------------------------
+  'claude-haiku-4-5': {
+    input: 1.0,
+    output: 5.0,
+    cacheRead: 0.1,
+    cacheCreation: 1.25,
+  },
+  'claude-haiku-4-5-20251001': {
+    input: 1.0,
+    output: 5.0,
+    cacheRead: 0.1,
+    cacheCreation: 1.25,
+  },
+  'claude-opus-4-5': {
+    input: 5.0,
+    output: 25.0,
+    cacheRead: 0.5,
+    cacheCreation: 6.25,
+  },
+  'claude-opus-4-5-20251101': {
+    input: 5.0,
+    output: 25.0,
+    cacheRead: 0.5,
+    cacheCreation: 6.25,
+  },
+  'claude-sonnet-4-5': {
+    input: 3.0,
+    output: 15.0,
+    cacheRead: 0.3,
+    cacheCreation: 3.75,
+    aboveThreshold: {
+      thresholdTokens: 200_000,
+      input: 6.0,
+      output: 22.5,
+      cacheRead: 0.6,
+      cacheCreation: 7.5,
+    },
+  },
+  'claude-sonnet-4-5-20250929': {
+    input: 3.0,
+    output: 15.0,
+    cacheRead: 0.3,
+    cacheCreation: 3.75,
+    aboveThreshold: {
+      thresholdTokens: 200_000,
+      input: 6.0,
+      output: 22.5,
+      cacheRead: 0.6,
+      cacheCreation: 7.5,
+    },
+  },
+  'claude-opus-4-1': {
+    input: 15.0,
+    output: 75.0,
+    cacheRead: 1.5,
+    cacheCreation: 18.75,
+  },
+  'claude-opus-4-20250514': {
+    input: 15.0,
+    output: 75.0,
+    cacheRead: 1.5,
+    cacheCreation: 18.75,
+  },
+  'claude-opus-4-6': {
+    input: 5.0,
+    output: 25.0,
+    cacheRead: 0.5,
+    cacheCreation: 6.25,
+    aboveThreshold: {
+      thresholdTokens: 200_000,
+      input: 10.0,
+      output: 37.5,
+      cacheRead: 1.0,
+      cacheCreation: 12.5,
+    },
+  },
+  'claude-opus-4-6-20260205': {
+    input: 5.0,
+    output: 25.0,
+    cacheRead: 0.5,
+    cacheCreation: 6.25,
+    aboveThreshold: {
+      thresholdTokens: 200_000,
+      input: 10.0,
+      output: 37.5,
+      cacheRead: 1.0,
+      cacheCreation: 12.5,
+    },
+  },
+  'claude-sonnet-4-20250514': {
+    input: 3.0,
+    output: 15.0,
+    cacheRead: 0.3,
+    cacheCreation: 3.75,
+    aboveThreshold: {
+      thresholdTokens: 200_000,
+      input: 6.0,
+      output: 22.5,
+      cacheRead: 0.6,
+      cacheCreation: 7.5,
+    },
+  },
+
+  // ---------------------------------------------------------------------------
+  // Google Gemini models
+  // ---------------------------------------------------------------------------
+  'gemini-2.0-flash': {
+    input: 0.10,
+    output: 0.40,
+  },
+  'gemini-2.5-pro': {
+    input: 1.25,
+    output: 10.0,
+    cacheRead: 0.125,
+    aboveThreshold: {
+      thresholdTokens: 200_000,
+      input: 2.50,
+      output: 15.0,
+      cacheRead: 0.25,
+    },
+  },
+  'gemini-2.5-flash': {
+    input: 0.30,
+    output: 2.50,
+    cacheRead: 0.03,
+  },
+  'gemini-2.5-flash-lite': {
+    input: 0.10,
+    output: 0.40,
+    cacheRead: 0.01,
+  },
+
+  // ---------------------------------------------------------------------------
+  // DeepSeek models
+  // ---------------------------------------------------------------------------
+  'deepseek-v3': {
+    input: 0.27,
+    output: 1.10,
+  },
+  'deepseek-r1': {
+    input: 0.55,
+    output: 2.19,
+  },
+};
+
+// ============================================================================
+// Effective pricing
+// ============================================================================
+
+/** Built-in prices merged with the user's validated overrides. */
+export class PricingTable {
+  /** Effective entries: built-in first, overrides replacing or appended */
+  private entries: Record<string, PricingEntry> = MODEL_PRICING;
+
+  /** Models priced by an override rather than the built-in table */
+  private overridden: string[] = [];
+
+  /** Version of the whole effective table */
+  private tableVersion: string = shortHash(MODEL_PRICING);
+
+  /** Cached per-model versions, cleared whenever overrides change */
+  private versions = new Map<string, string>();
+
+  /**
+   * @param overrides - Validated overrides keyed by normalized model name
+   */
+  constructor(overrides: Record<string, ModelPricing> = {}) {
+    this.setOverrides(overrides);
+  }
+
+  /**
+   * Replace the current overrides. Models no longer overridden fall back
+   * to their built-in price (or to none).
+   *
+   * @param overrides - Validated overrides keyed by normalized model name
+   */
+  setOverrides(overrides: Record<string, ModelPricing>): void {
+    const entries: Record<string, PricingEntry> = { ...MODEL_PRICING };
+    for (const [model, pricing] of Object.entries(overrides)) {
+      entries[model] = toPricingEntry(pricing);
+    }
+
+    this.entries = entries;
+    this.overridden = Object.keys(overrides).sort();
+    this.tableVersion = shortHash(entries);
+    this.versions.clear();
+  }
+
+  /** The effective pricing entry of a model, or undefined if it has none */
+  get(model: string): PricingEntry | undefined {
+    return this.entries[model];
+  }
+
+  /** Models currently priced by an override */
+  getOverriddenModels(): string[] {
+    return [...this.overridden];
+  }
+
+  /**
+   * Version of the entry used for a model: a short hash of its rates (or
+   * of "no entry" for unpriced models). Stable across restarts.
+   */
+  versionOf(model: string): string {
+    let version = this.versions.get(model);
+    if (version === undefined) {
+      version = shortHash(this.entries[model]);
+      this.versions.set(model, version);
+    }
+    return version;
+  }
+
+  /** Version of the whole effective table; changes when any entry does */
+  get version(): string {
+    return this.tableVersion;
+  }
+}
+
+// ============================================================================
+// Override validation
+// ============================================================================
+
+/**
+ * Validate the "pricing" section of the config file. Invalid entries are
+ * dropped (and reported) so one typo doesn't discard every override. Model
+ * names are normalized like logged models (see normalizeModelName), so an
+ * override for "openai/gpt-5" or a dated Claude name applies to the model
+ * it names; a later entry for an already-named model is reported and dropped.
+ *
+ * @param raw - The parsed value of the pricing section (may be anything)
+ * @returns The valid overrides and a message for each rejected entry
+ */
+export function parsePricingOverrides(raw: unknown): {
+  overrides: Record<string, ModelPricing>;
+  errors: string[];
+} {
+  const overrides: Record<string, ModelPricing> = {};
+  const errors: string[] = [];
+
+  if (raw === undefined || raw === null) return { overrides, errors };
+  if (!isObject(raw)) {
+    errors.push('pricing must be an object keyed by model name');
+    return { overrides, errors };
+  }
+
+  const keys = new Map<string, string>();
+  for (const [model, value] of Object.entries(raw)) {
+    const problem = validateModelPricing(value);
+    if (problem) {
+      errors.push(`pricing["${model}"]: ${problem}`);
+      continue;
+    }
+
+    const normalized = normalizeModelName(model);
+    const previous = keys.get(normalized);
+    if (previous !== undefined) {
+      errors.push(`pricing["${model}"]: same model as pricing["${previous}"]`);
+      continue;
+    }
+    keys.set(normalized, model);
+    overrides[normalized] = value as ModelPricing;
+  }
+
+  return { overrides, errors };
+}
+
+/**
+ * Check a value against the ModelPricing shape.
+ *
+ * @returns A description of the first problem, or null if it is valid
+ */
+function validateModelPricing(value: unknown): string | null {
+  if (!isObject(value)) return 'expected an object';
+
+  const rates = checkRates(value, ['inputCostPer1M', 'outputCostPer1M'], ['cacheReadCostPer1M', 'cacheCreationCostPer1M']);
+  if (rates) return rates;
+
+  if (value.aboveThreshold !== undefined) {
+    const tier = value.aboveThreshold;
+    if (!isObject(tier)) return 'aboveThreshold: expected an object';
+    if (typeof tier.thresholdTokens !== 'number' || !Number.isInteger(tier.thresholdTokens) || tier.thresholdTokens <= 0) {
+      return 'aboveThreshold.thresholdTokens: expected a positive integer';
+    }
+    const tierRates = checkRates(tier, ['inputCostPer1M', 'outputCostPer1M'], ['cacheReadCostPer1M', 'cacheCreationCostPer1M']);
+    if (tierRates) return `aboveThreshold.${tierRates}`;
+  }
+
+  return null;
+}
+
+/**
+ * Check that required rate fields are present and all rate fields are
+ * finite, non-negative numbers.
+ */
+function checkRates(value: Record<string, unknown>, required: string[], optional: string[]): string | null {
+  for (const field of [...required, ...optional]) {
+    const rate = value[field];
+    if (rate === undefined && optional.includes(field)) continue;
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+      return `${field}: expected a non-negative number`;
+    }
+  }
+  return null;
+}
+
+/** Convert a validated ModelPricing into the internal entry shape */
+function toPricingEntry(pricing: ModelPricing): PricingEntry {
+  const entry: PricingEntry = {
+    input: pricing.inputCostPer1M,
+    output: pricing.outputCostPer1M,
+  };
+  if (pricing.cacheReadCostPer1M !== undefined) entry.cacheRead = pricing.cacheReadCostPer1M;
+  if (pricing.cacheCreationCostPer1M !== undefined) entry.cacheCreation = pricing.cacheCreationCostPer1M;
+  if (pricing.aboveThreshold) entry.aboveThreshold = toTier(pricing.aboveThreshold);
+  return entry;
+}
+
+/** Convert a validated PricingTier into the internal tier shape */
+function toTier(tier: PricingTier): NonNullable<PricingEntry['aboveThreshold']> {
+  const converted: NonNullable<PricingEntry['aboveThreshold']> = {
+    thresholdTokens: tier.thresholdTokens,
+    input: tier.inputCostPer1M,
+    output: tier.outputCostPer1M,
+  };
+  if (tier.cacheReadCostPer1M !== undefined) converted.cacheRead = tier.cacheReadCostPer1M;
+  if (tier.cacheCreationCostPer1M !== undefined) converted.cacheCreation = tier.cacheCreationCostPer1M;
+  return converted;
+}
+
+/** Whether a value is a plain (non-array) object */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Short, stable hash of a JSON-serializable value */
+function shortHash(value: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(value ?? null)).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,71 @@
+// ============================================================================
+// OpenClaw Monitor - Protocol Negotiation
+// The gateway's hello advertises the protocol versions it can speak and the
+// optional features it supports. The relay, or an app through the relay,
+// answers with a ProtocolAgreement naming the version and features to use,
+// and status payloads are shaped to match it before they're sent.
+//
+// Until an agreement arrives (e.g. from a relay that predates negotiation),
+// the gateway keeps sending what it always has: version 1 with every
+// feature, so older peers see no change.
+// ============================================================================
+
+import type {
+  MIN_PROTOCOL_VERSION as SHARED_MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+} from '@openclaw-monitor/shared';
+import type { ProtocolAgreement, ProtocolFeature, StatusMessage } from './types.js';
+
+// The bounds are typed as the shared constants, which the relay imports, so
+// a version bump in shared/types.ts fails the type-check until it's mirrored
+// here. Only the types are imported: the gateway's build can't load the
+// shared package at runtime.
+
+/** Oldest protocol version the gateway can speak (MIN_PROTOCOL_VERSION in shared) */
+export const MIN_PROTOCOL_VERSION: typeof SHARED_MIN_PROTOCOL_VERSION = 1;
+
+/** Newest protocol version the gateway can speak (PROTOCOL_VERSION in shared) */
+export const MAX_PROTOCOL_VERSION: typeof PROTOCOL_VERSION = 1;
+
+/** Optional features the gateway supports, advertised in its hello */
+export const PROTOCOL_FEATURES: readonly ProtocolFeature[] = ['alerts', 'budgets', 'forecast', 'rate-windows'];
+
+/** What the gateway sends before (or without) an agreement */
+export const DEFAULT_PROTOCOL: ProtocolAgreement = {
+  type: 'protocol',
+  version: MIN_PROTOCOL_VERSION,
+  features: [...PROTOCOL_FEATURES],
+};
+
+/**
+ * Check an agreement received from the relay or an app.
+ *
+ * @returns The agreement with only features the gateway knows, or null if
+ *          its version is outside the gateway's range or it is malformed
+ */
+export function parseProtocolAgreement(message: { version?: unknown; features?: unknown }): ProtocolAgreement | null {
+  const { version, features } = message;
+  if (typeof version !== 'number' || !Number.isInteger(version)) return null;
+  if (version < MIN_PROTOCOL_VERSION || version > MAX_PROTOCOL_VERSION) return null;
+  if (!Array.isArray(features)) return null;
+
+  return {
+    type: 'protocol',
+    version,
+    features: PROTOCOL_FEATURES.filter((feature) => features.includes(feature)),
+  };
+}
+
+/**
+ * Shape a full status message for an agreement: stamp the agreed version
+ * and leave out the aiUsage sections of features the peer doesn't support.
+ * The full message is not modified.
+ */
+export function statusForProtocol(status: StatusMessage, agreement: ProtocolAgreement): StatusMessage {
+  const aiUsage = { ...status.aiUsage };
+  if (!agreement.features.includes('budgets')) delete aiUsage.budget;
+  if (!agreement.features.includes('forecast')) delete aiUsage.forecast;
+  if (!agreement.features.includes('rate-windows')) delete aiUsage.rateWindows;
+
+  return { ...status, version: agreement.version, aiUsage };
+}
@@ -0,0 +1,272 @@
+// ============================================================================
+// OpenClaw Monitor - Rate Window Estimator
+// Fills in the 5-hour and weekly subscription rate-limit windows of each
+// provider, so users can see how close they are to being throttled.
+//
+// Codex reports its windows in its session logs; those are passed through
+// as 'reported'. Claude Code doesn't, so its windows are 'estimated' from
+// logged usage: requests are grouped into 5-hour blocks that start with the
+// first request after the previous block ended (the way Claude's session
+// windows work), and the weekly window is the rolling last 7 days. Usage is
+// measured as spend at API prices and compared with the limit configured
+// under "rateWindows" in monitor.json, or, without one, with the busiest
+// past block or week in the last 4 weeks.
+// ============================================================================
+
+import type { AiUsageTracker } from './aiUsageTracker.js';
+import type {
+  AiProvider,
+  AiRequestSource,
+  ProviderRateWindows,
+  RateWindow,
+  RateWindowLimits,
+  ReportedRateWindows,
+} from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const FIVE_HOURS_MS = 5 * HOUR_MS;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+/** Weeks of history searched for the busiest block and week */
+const HISTORY_WEEKS = 4;
+
+/** How long estimates are reused before the usage history is read again */
+const ESTIMATE_TTL_MS = 60_000;
+
+/**
+ * Request source whose logged usage stands in for each provider's
+ * subscription usage, when the provider's own logs don't report windows.
+ */
+const ESTIMATED_SOURCES: Array<[AiProvider, AiRequestSource]> = [
+  ['anthropic', 'claude-code'],
+  ['openai', 'codex-cli'],
+];
+
+/** A 5-hour block of requests */
+interface Block {
+  start: number;
+  end: number;
+  cost: number;
+}
+
+// ============================================================================
+// RateWindowEstimator
+// ============================================================================
+
+/**
+ * Produces the rate-limit windows of every provider with reported windows
+ * or logged subscription usage.
+ */
+export class RateWindowEstimator {
+  private limits: Record<string, RateWindowLimits>;
+
+  /** Estimates for every provider in ESTIMATED_SOURCES, and when they were made */
+  private cache: { at: number; windows: ProviderRateWindows[] } | null = null;
+
+  /**
+   * @param tracker - Source of reported windows and usage history
+   * @param limits - Validated limits keyed by provider id (see parseRateWindowLimits)
+   */
+  constructor(private tracker: AiUsageTracker, limits: Record<string, RateWindowLimits> = {}) {
+    this.limits = limits;
+  }
+
+  /** Replace the configured limits, e.g. after monitor.json changed. */
+  setLimits(limits: Record<string, RateWindowLimits>): void {
+    this.limits = limits;
+    this.cache = null;
+  }
+
+  /**
+   * Current windows per provider: reported ones where the provider's logs
+   * have them, estimated ones otherwise.
+   *
+   * @param now - Current time (injectable for tests)
+   */
+  getRateWindows(now: Date = new Date()): ProviderRateWindows[] {
+    const nowMs = now.getTime();
+    const reported = this.tracker.getReportedRateWindows().map((report) => fromReport(report, nowMs));
+    const reportedProviders = new Set(reported.map((windows) => windows.provider));
+
+    if (!this.cache || nowMs < this.cache.at || nowMs - this.cache.at >= ESTIMATE_TTL_MS) {
+      const windows: ProviderRateWindows[] = [];
+      for (const [provider, source] of ESTIMATED_SOURCES) {
+        const estimate = this.estimate(provider, source, nowMs);
+        if (estimate) windows.push(estimate);
+      }
+      this.cache = { at: nowMs, windows };
+    }
+
+    const estimated = this.cache.windows.filter((windows) => !reportedProviders.has(windows.provider));
+    return [...reported, ...estimated];
+  }
+
+  /**
+   * Estimate a provider's windows from the usage logged by a source.
+   *
+   * @returns The windows, or null without usage or any limit to compare with
+   */
+  private estimate(provider: AiProvider, source: AiRequestSource, nowMs: number): ProviderRateWindows | null {
+    const rows = this.tracker.getRequestCosts(source, nowMs - HISTORY_WEEKS * WEEK_MS);
+    if (rows.length === 0) return null;
+    const limits = this.limits[provider] ?? {};
+
+    // 5-hour window: the block still open at `now`, if any
+    const blocks = toBlocks(rows.filter((row) => row.timestamp <= nowMs));
+    const last = blocks[blocks.length - 1];
+    const current = last && last.end > nowMs ? last : undefined;
+    const completed = current ? blocks.slice(0, -1) : blocks;
+    const fiveHourLimit = limits.fiveHour ?? maxPositive(completed.map((block) => block.cost));
+
+    // Weekly window: the last 7 days, against the busiest earlier week
+    const weekCost = (weeksAgo: number): number => {
+      const end = nowMs - weeksAgo * WEEK_MS;
+      return rows
+        .filter((row) => row.timestamp > end - WEEK_MS && row.timestamp <= end)
+        .reduce((sum, row) => sum + row.cost, 0);
+    };
+    const pastWeeks = Array.from({ length: HISTORY_WEEKS - 1 }, (_, i) => weekCost(i + 1));
+    const weeklyLimit = limits.weekly ?? maxPositive(pastWeeks);
+
+    const result: ProviderRateWindows = { provider, source: 'estimated' };
+    if (fiveHourLimit !== undefined) {
+      result.fiveHour = {
+        usedPercent: toPercent(current?.cost ?? 0, fiveHourLimit),
+        windowMinutes: FIVE_HOURS_MS / 60_000,
+        ...(current ? resetFields(current.end, nowMs) : {}),
+      };
+    }
+    if (weeklyLimit !== undefined) {
+      result.weekly = {
+        usedPercent: toPercent(weekCost(0), weeklyLimit),
+        windowMinutes: WEEK_MS / 60_000,
+        resetDescription: 'Rolling 7-day window',
+      };
+    }
+
+    return result.fiveHour || result.weekly ? result : null;
+  }
+}
+
+// ============================================================================
+// Config validation
+// ============================================================================
+
+/**
+ * Validate the "rateWindows" section of monitor.json. Invalid limits are
+ * dropped and reported.
+ *
+ * @param raw - The parsed "rateWindows" value (may be undefined)
+ * @returns The usable limits and one message per problem found
+ */
+export function parseRateWindowLimits(raw: unknown): {
+  limits: Record<string, RateWindowLimits>;
+  errors: string[];
+} {
+  const limits: Record<string, RateWindowLimits> = {};
+  const errors: string[] = [];
+
+  if (raw === undefined || raw === null) return { limits, errors };
+  if (!isObject(raw)) {
+    errors.push('rateWindows must be an object keyed by provider id');
+    return { limits, errors };
+  }
+
+  for (const [provider, value] of Object.entries(raw)) {
+    if (!isObject(value)) {
+      errors.push(`rateWindows["${provider}"]: expected an object`);
+      continue;
+    }
+    const entry: RateWindowLimits = {};
+    for (const field of ['fiveHour', 'weekly'] as const) {
+      const limit = value[field];
+      if (limit === undefined) continue;
+      if (typeof limit === 'number' && Number.isFinite(limit) && limit > 0) {
+        entry[field] = limit;
+      } else {
+        errors.push(`rateWindows["${provider}"].${field}: expected a positive number`);
+      }
+    }
+    limits[provider] = entry;
+  }
+
+  return { limits, errors };
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/**
+ * Group requests (oldest first) into 5-hour blocks. A block starts at the
+ * hour of the first request after the previous block ended.
+ */
+function toBlocks(rows: Array<{ timestamp: number; cost: number }>): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | undefined;
+  for (const row of rows) {
+    if (!current || row.timestamp >= current.end) {
+      const start = Math.floor(row.timestamp / HOUR_MS) * HOUR_MS;
+      current = { start, end: start + FIVE_HOURS_MS, cost: 0 };
+      blocks.push(current);
+    }
+    current.cost += row.cost;
+  }
+  return blocks;
+}
+
+/**
+ * Bring a reported window up to date: a window whose reset time has passed
+ * has been emptied since the report.
+ */
+function fromReport(report: ReportedRateWindows, nowMs: number): ProviderRateWindows {
+  const refresh = (window: RateWindow | undefined): RateWindow | undefined => {
+    if (!window) return undefined;
+    const resetsAtMs = window.resetsAt ? Date.parse(window.resetsAt) : NaN;
+    if (isNaN(resetsAtMs)) return { ...window };
+    if (resetsAtMs <= nowMs) return { usedPercent: 0, windowMinutes: window.windowMinutes };
+    return { ...window, ...resetFields(resetsAtMs, nowMs) };
+  };
+
+  const result: ProviderRateWindows = { provider: report.provider, source: 'reported' };
+  const fiveHour = refresh(report.fiveHour);
+  const weekly = refresh(report.weekly);
+  if (fiveHour) result.fiveHour = fiveHour;
+  if (weekly) result.weekly = weekly;
+  return result;
+}
+
+/** resetsAt and a "Resets in 2h 30m" description for a reset time */
+function resetFields(resetsAtMs: number, nowMs: number): Pick<RateWindow, 'resetsAt' | 'resetDescription'> {
+  const minutes = Math.max(0, Math.ceil((resetsAtMs - nowMs) / 60_000));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+
+  let remaining: string;
+  if (days > 0) {
+    remaining = `${days}d ${hours}h`;
+  } else if (hours > 0) {
+    remaining = `${hours}h ${mins}m`;
+  } else {
+    remaining = `${mins}m`;
+  }
+
+  return { resetsAt: new Date(resetsAtMs).toISOString(), resetDescription: `Resets in ${remaining}` };
+}
+
+/** Usage as a percentage of a limit, rounded to 0.1 and capped at 100 */
+function toPercent(used: number, limit: number): number {
+  return Math.min(100, Math.round((used / limit) * 1000) / 10);
+}
+
+/** The largest value, or undefined if none is above zero */
+function maxPositive(values: number[]): number | undefined {
+  const max = Math.max(0, ...values);
+  return max > 0 ? max : undefined;
+}
+
+/** Whether a value is a plain (non-array) object */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -3,18 +3,40 @@
 // Maintains a persistent WebSocket connection to the OpenClaw Relay server.
 // Sends periodic status updates and receives commands from paired mobile apps.
 // Features automatic reconnection with exponential backoff and heartbeat
-// ping/pong to detect stale connections.
+// ping/pong to detect stale connections. Once an app has exchanged keys,
+// app-facing messages are end-to-end encrypted through the SecureChannel.
+// Command responses and alerts that can't be sent while disconnected wait
+// in an Outbox and are replayed in order after reconnecting. The hello
+// advertises the gateway's protocol range and features; the agreement the
+// relay or an app answers with is kept for shaping status payloads.
 // ============================================================================
 
 import WebSocket from 'ws';
+import crypto from 'crypto';
 import os from 'os';
+import { Outbox } from './outbox.js';
+import type { OutboxPriority } from './outbox.js';
+import {
+  DEFAULT_PROTOCOL,
+  MAX_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  parseProtocolAgreement,
+} from './protocol.js';
+import { SecureChannelError } from './secureChannel.js';
+import type { SecureChannel } from './secureChannel.js';
 import type {
   HelloMessage,
   DisconnectMessage,
+  AlertMessage,
+  AlertNotification,
   StatusMessage,
   CommandMessage,
   CommandResponse,
+  EncryptedEnvelope,
+  KeyExchangeMessage,
   GatewayOutboundMessage,
+  ProtocolAgreement,
 } from './types.js';
 
 /** Callback invoked when a command is received from the relay */
@@ -23,6 +45,16 @@ type CommandHandler = (cmd: CommandMessage) => void;
 /** Callback invoked when the relay sends a pairing code for this gateway to display */
 type PairCodeHandler = (code: string) => void;
 
+/** Callback invoked when an app sends its key-exchange message */
+type KeyExchangeHandler = (message: KeyExchangeMessage) => void;
+
+/**
+ * Commands the relay itself may send in plaintext after apps switched to
+ * encryption: only 'pair', which announces a new app. All others, unpair
+ * included, must arrive encrypted from an app.
+ */
+const RELAY_COMMANDS = new Set(['pair']);
+
 /** Internal connection states for logging clarity */
 type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
@@ -36,6 +68,16 @@ export class RelayClient {
   private pongReceived: boolean = true;
   private state: ConnectionState = 'disconnected';
   private shouldReconnect: boolean = true;
+  private secureChannel: SecureChannel | null = null;
+  private onKeyExchange: KeyExchangeHandler | null = null;
+  /** Peer that sent each encrypted command still awaiting a response */
+  private commandPeers = new Map<string, string>();
+  /** Command responses and alerts waiting for a connection */
+  private outbox = new Outbox();
+  /** Secret sent in the Authorization header, for relays that check it */
+  private gatewaySecret: string | null = null;
+  /** Protocol agreed for the current connection */
+  private agreement: ProtocolAgreement = DEFAULT_PROTOCOL;
 
   constructor(
     private relayUrl: string,
@@ -49,6 +91,49 @@ export class RelayClient {
   // Public API
   // --------------------------------------------------------------------------
 
+  /**
+   * Encrypt app-facing messages through a secure channel. Until an app has
+   * exchanged keys, messages are still sent in plaintext.
+   *
+   * @param channel - The gateway's secure channel
+   * @param onKeyExchange - Called with every key-exchange message received
+   */
+  setSecureChannel(channel: SecureChannel, onKeyExchange: KeyExchangeHandler): void {
+    this.secureChannel = channel;
+    this.onKeyExchange = onKeyExchange;
+  }
+
+  /**
+   * Keep undelivered messages in the given outbox (e.g. a persistent one)
+   * instead of the default in-memory outbox.
+   */
+  setOutbox(outbox: Outbox): void {
+    this.outbox = outbox;
+  }
+
+  /**
+   * Authenticate to the relay with a secret only this gateway knows, sent
+   * as a bearer token when connecting. Optional: once the self-hosted
+   * relay has seen it, it refuses connections for this device token
+   * without it, since apps know the device token.
+   */
+  setGatewaySecret(secret: string): void {
+    this.gatewaySecret = secret;
+  }
+
+  /** Drop undelivered messages, e.g. after unpairing. */
+  clearOutbox(): void {
+    this.outbox.clear();
+  }
+
+  /**
+   * The protocol version and features agreed with the relay or an app for
+   * the current connection; the gateway's defaults until one answers.
+   */
+  get protocol(): ProtocolAgreement {
+    return this.agreement;
+  }
+
   /**
    * Establish a WebSocket connection to the relay server.
    * Sends a hello message upon connection and starts the heartbeat loop.
@@ -68,14 +153,18 @@ export class RelayClient {
     wsUrl.searchParams.set('deviceToken', this.deviceToken);
     console.log(`[RelayClient] Connecting to ${wsUrl.toString()}...`);
 
-    this.ws = new WebSocket(wsUrl.toString());
+    this.ws = new WebSocket(wsUrl.toString(), {
+      headers: this.gatewaySecret ? { Authorization: `Bearer ${this.gatewaySecret}` } : undefined,
+    });
 
     this.ws.on('open', () => {
       this.state = 'connected';
       this.reconnectAttempts = 0;
       console.log('[RelayClient] Connected to relay server');
 
-      // Send hello message to identify this gateway
+      // Send hello message to identify this gateway; a new relay may not
+      // negotiate, so start from the defaults again
+      this.agreement = DEFAULT_PROTOCOL;
       const hello: HelloMessage = {
         type: 'hello',
         deviceToken: this.deviceToken,
@@ -83,9 +172,15 @@ export class RelayClient {
         hostname: os.hostname(),
         platform: os.platform(),
         arch: os.arch(),
+        minProtocol: MIN_PROTOCOL_VERSION,
+        maxProtocol: MAX_PROTOCOL_VERSION,
+        features: [...PROTOCOL_FEATURES],
       };
       this.send(hello);
 
+      // Replay what couldn't be sent while disconnected, before anything new
+      this.flushOutbox();
+
       // Start heartbeat pings to detect stale connections
       this.startHeartbeat();
     });
@@ -119,15 +214,27 @@ export class RelayClient {
    */
   sendStatus(status: StatusMessage): void {
     if (this.state !== 'connected') return;
-    this.send(status);
+    this.sendToApps(status);
   }
 
   /**
-   * Send a command response back to the relay.
+   * Send a command response back to the relay. If not connected, it is
+   * queued and sent after reconnecting.
    */
   sendCommandResponse(response: CommandResponse): void {
-    if (this.state !== 'connected') return;
-    this.send(response);
+    const peerId = this.commandPeers.get(response.commandId);
+    this.commandPeers.delete(response.commandId);
+    this.deliver('critical', { ...response, messageId: crypto.randomUUID() }, peerId);
+  }
+
+  /**
+   * Send an alert raised by a gateway-side rule, for the relay to forward
+   * to paired apps. If not connected, it is queued and sent after
+   * reconnecting.
+   */
+  sendAlert(alert: AlertNotification): void {
+    const msg: AlertMessage = { type: 'alert', deviceToken: this.deviceToken, alert, messageId: crypto.randomUUID() };
+    this.deliver('reliable', msg);
   }
 
   /**
@@ -167,26 +274,111 @@ export class RelayClient {
   /**
    * Send a JSON message over the WebSocket. Catches and logs send errors
    * (e.g. if the connection drops between the readyState check and send).
+   *
+   * @returns Whether the message was handed to the socket
    */
-  private send(message: GatewayOutboundMessage): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+  private send(message: GatewayOutboundMessage): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
     try {
       this.ws.send(JSON.stringify(message));
+      return true;
     } catch (err) {
       console.error('[RelayClient] Failed to send message:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Send a message meant for the paired apps: one envelope per app once
+   * any app exchanged keys, plaintext before that.
+   *
+   * @returns Whether every copy was handed to the socket
+   */
+  private sendToApps(message: StatusMessage | AlertMessage | CommandResponse): boolean {
+    if (!this.secureChannel?.hasPeers) {
+      return this.send(message);
+    }
+    let sent = true;
+    for (const envelope of this.secureChannel.sealForAll(this.deviceToken, message)) {
+      sent = this.send(envelope) && sent;
+    }
+    return sent;
+  }
+
+  /**
+   * Send a message that must reach the apps. It goes straight out when
+   * connected and nothing is queued before it; otherwise it joins the
+   * outbox, which is flushed right away if connected.
+   */
+  private deliver(priority: OutboxPriority, message: CommandResponse | AlertMessage, peerId?: string): void {
+    if (this.outbox.size === 0 && this.trySend(message, peerId)) return;
+    this.outbox.enqueue(priority, message, peerId);
+    if (this.isConnected) this.flushOutbox();
+  }
+
+  /**
+   * Send queued messages in the order they were queued, stopping at the
+   * first one that can't be sent.
+   */
+  private flushOutbox(): void {
+    const entries = this.outbox.pending();
+    if (entries.length === 0) return;
+
+    console.log(`[RelayClient] Sending ${entries.length} queued message(s)`);
+    for (const entry of entries) {
+      if (!this.trySend(entry.message, entry.peerId)) return;
+      this.outbox.remove(entry.id);
+    }
+  }
+
+  /**
+   * Try to send an app-facing message, encrypted for one app if a peer is
+   * given (responses to encrypted commands go only to the app that sent
+   * them).
+   *
+   * @returns False if it should be retried after reconnecting; true once
+   *          sent, or if it never can be because the app is no longer paired
+   */
+  private trySend(message: CommandResponse | AlertMessage, peerId?: string): boolean {
+    if (!this.isConnected) return false;
+    if (!peerId || !this.secureChannel) return this.sendToApps(message);
+
+    let envelope: EncryptedEnvelope;
+    try {
+      envelope = this.secureChannel.seal(peerId, this.deviceToken, message);
+    } catch (err) {
+      console.error('[RelayClient] Failed to encrypt command response:', err);
+      return true;
     }
+    return this.send(envelope);
   }
 
   /**
-   * Parse and route incoming messages from the relay.
-   * Currently only 'command' messages are expected from the server.
+   * Parse and route incoming messages from the relay: commands and protocol
+   * agreements (encrypted or, before any key exchange, plaintext), key
+   * exchanges and pairing codes.
    */
   private handleMessage(data: WebSocket.Data): void {
     try {
       const message = JSON.parse(data.toString());
 
-      if (message.type === 'command' && message.action && message.id) {
+      if (message.type === 'encrypted') {
+        this.handleEnvelope(message as EncryptedEnvelope);
+      } else if (message.type === 'key-exchange' && message.publicKey && message.proof) {
+        this.onKeyExchange?.(message as KeyExchangeMessage);
+      } else if (message.type === 'command' && message.action && message.id) {
+        if (this.secureChannel?.hasPeers && !RELAY_COMMANDS.has(message.action)) {
+          console.warn(`[RelayClient] Dropped unencrypted command "${message.action}" (apps use encryption)`);
+          return;
+        }
         this.onCommand(message as CommandMessage);
+      } else if (message.type === 'protocol') {
+        // Anyone on the relay could strip features from every app's status
+        if (this.secureChannel?.hasPeers) {
+          console.warn('[RelayClient] Dropped unencrypted protocol agreement (apps use encryption)');
+          return;
+        }
+        this.applyProtocol(message);
       } else if (message.type === 'pair_code' && message.code) {
         // The relay generated a pairing code for this gateway to display
         console.log(`[RelayClient] Received pairing code from relay: ${message.code}`);
@@ -201,6 +393,53 @@ export class RelayClient {
     }
   }
 
+  /**
+   * Decrypt an envelope from a paired app and route the command or
+   * protocol agreement inside. Envelopes that fail to open are dropped.
+   */
+  private handleEnvelope(envelope: EncryptedEnvelope): void {
+    if (!this.secureChannel) {
+      console.warn('[RelayClient] Received an encrypted message without a secure channel');
+      return;
+    }
+
+    let message: { type?: unknown; action?: unknown; id?: unknown; version?: unknown; features?: unknown };
+    try {
+      message = this.secureChannel.open(envelope) as typeof message;
+    } catch (err) {
+      if (!(err instanceof SecureChannelError)) throw err;
+      console.warn(`[RelayClient] Dropped encrypted message: ${err.message}`);
+      return;
+    }
+
+    if (message?.type === 'command' && typeof message.action === 'string' && typeof message.id === 'string') {
+      this.commandPeers.set(message.id, envelope.peerId);
+      this.onCommand(message as CommandMessage);
+    } else if (message?.type === 'protocol') {
+      this.applyProtocol(message);
+    } else {
+      console.log('[RelayClient] Received unknown encrypted message type:', message?.type);
+    }
+  }
+
+  /**
+   * Use the protocol version and features the relay or an app chose.
+   * An agreement outside the gateway's range is ignored, keeping the
+   * current one.
+   */
+  private applyProtocol(message: { version?: unknown; features?: unknown }): void {
+    const agreement = parseProtocolAgreement(message);
+    if (!agreement) {
+      console.warn(`[RelayClient] Ignoring unsupported protocol version ${String(message.version)}`);
+      return;
+    }
+    this.agreement = agreement;
+    console.log(
+      `[RelayClient] Using protocol version ${agreement.version}` +
+      ` (features: ${agreement.features.join(', ') || 'none'})`,
+    );
+  }
+
   /**
    * Start a heartbeat loop that sends WebSocket pings at regular intervals.
    * If the relay doesn't respond with a pong in time, the connection is
@@ -0,0 +1,118 @@
+// ============================================================================
+// OpenClaw Monitor - Scanner File State Store
+// Persists each log scanner's per-file incremental scan state (size, mtime,
+// byte offset and scanner-specific extras such as Codex's cumulative totals)
+// in the AI usage SQLite database. On restart the scanners resume from the
+// stored offsets instead of re-parsing every log file from the beginning.
+// ============================================================================
+
+import type Database from 'better-sqlite3';
+
+/** Incremental scan state of a single log file, as stored on disk. */
+export interface PersistedFileState {
+  /** Absolute file path */
+  filePath: string;
+  /** File size in bytes at last scan */
+  size: number;
+  /** File modification time (ms since epoch) at last scan */
+  mtimeMs: number;
+  /** Byte offset where the scanner stopped reading */
+  offset: number;
+  /** Scanner-specific state (e.g. Codex's lastTotals/lastModel), JSON-serializable */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * Storage for scanner file states, keyed by scanner id and file path.
+ * Scanners receive one through their factory and fall back to in-memory
+ * state only when none is provided.
+ */
+export interface ScanStateStore {
+  /** Load all stored file states for a scanner, keyed by file path */
+  load(scannerId: string): Map<string, PersistedFileState>;
+  /** Insert or replace the state of one file */
+  save(scannerId: string, state: PersistedFileState): void;
+  /** Forget the state of one file (e.g. it was deleted) */
+  remove(scannerId: string, filePath: string): void;
+  /** Forget every file state of a scanner */
+  clear(scannerId: string): void;
+}
+
+/** Raw row shape of the scanner_file_states table. */
+interface FileStateRow {
+  file_path: string;
+  size: number;
+  mtime_ms: number;
+  byte_offset: number;
+  extra: string | null;
+}
+
+/**
+ * ScanStateStore backed by the scanner_file_states table of the AI usage
+ * database, which the schema migrations create. Writes are plain
+ * statements, so when the tracker wraps a scan in a transaction, offsets
+ * are committed together with the rows they produced.
+ */
+export class SqliteScanStateStore implements ScanStateStore {
+  private loadStmt: Database.Statement;
+  private saveStmt: Database.Statement;
+  private removeStmt: Database.Statement;
+  private clearStmt: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.loadStmt = db.prepare(
+      'SELECT file_path, size, mtime_ms, byte_offset, extra FROM scanner_file_states WHERE scanner = ?',
+    );
+    this.saveStmt = db.prepare(`
+      INSERT OR REPLACE INTO scanner_file_states (scanner, file_path, size, mtime_ms, byte_offset, extra)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    this.removeStmt = db.prepare('DELETE FROM scanner_file_states WHERE scanner = ? AND file_path = ?');
+    this.clearStmt = db.prepare('DELETE FROM scanner_file_states WHERE scanner = ?');
+  }
+
+  load(scannerId: string): Map<string, PersistedFileState> {
+    const rows = this.loadStmt.all(scannerId) as FileStateRow[];
+    const states = new Map<string, PersistedFileState>();
+
+    for (const row of rows) {
+      let extra: Record<string, unknown> | undefined;
+      if (row.extra) {
+        try {
+          extra = JSON.parse(row.extra);
+        } catch {
+          // Corrupt extras: drop the row so the file gets a full rescan
+          continue;
+        }
+      }
+      states.set(row.file_path, {
+        filePath: row.file_path,
+        size: row.size,
+        mtimeMs: row.mtime_ms,
+        offset: row.byte_offset,
+        extra,
+      });
+    }
+
+    return states;
+  }
+
+  save(scannerId: string, state: PersistedFileState): void {
+    this.saveStmt.run(
+      scannerId,
+      state.filePath,
+      state.size,
+      state.mtimeMs,
+      state.offset,
+      state.extra ? JSON.stringify(state.extra) : null,
+    );
+  }
+
+  remove(scannerId: string, filePath: string): void {
+    this.removeStmt.run(scannerId, filePath);
+  }
+
+  clear(scannerId: string): void {
+    this.clearStmt.run(scannerId);
+  }
+}
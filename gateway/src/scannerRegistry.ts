@@ -0,0 +1,111 @@
+// ============================================================================
+// OpenClaw Monitor - Usage Log Scanner Registry
+// Defines the UsageLogScanner interface implemented by every local log
+// scanner, and a registry of scanner factories keyed by scanner id.
+// AiUsageTracker instantiates the registered scanners that are enabled in
+// MonitorConfig.aiUsage.scanners. Third-party packages can add their own
+// scanners (Aider, Cursor, in-house tools) by calling
+// registerUsageLogScanner() before the tracker is created.
+// ============================================================================
+
+import type { ReportedRateWindows, UsageLogRecord } from './types.js';
+import type { ScanStateStore } from './scanStateStore.js';
+import { ClaudeLogScanner } from './claudeLogScanner.js';
+import { CodexLogScanner } from './codexLogScanner.js';
+import { GeminiLogScanner } from './geminiLogScanner.js';
+
+/**
+ * A source of AI usage records read from local logs.
+ * Implementations handle their own file discovery and incremental scanning;
+ * the tracker only calls scanUsage() and logs whatever comes back.
+ */
+export interface UsageLogScanner {
+  /** Unique scanner id, matching its key in MonitorConfig.aiUsage.scanners */
+  readonly id: string;
+  /** Scan the logs and return usage records ready for AiUsageTracker.logRequest() */
+  scanUsage(): UsageLogRecord[];
+  /** Clear any internal scan cache, forcing a full rescan on next call */
+  clearCache(): void;
+  /**
+   * Drop in-memory scan state and resume from the stored offsets on the
+   * next call. Used after a failed scan was rolled back; scanners without
+   * it are cleared with clearCache() instead.
+   */
+  reloadState?(): void;
+  /**
+   * Directories whose changes may mean new usage, watched recursively by
+   * the monitor to trigger scans. Scanners without it are only polled.
+   */
+  getWatchRoots?(): string[];
+  /**
+   * The latest rate-limit windows the tool reported in its logs, for
+   * tools that log them (Codex). Null when none have been seen.
+   */
+  getRateWindows?(): ReportedRateWindows | null;
+}
+
+/** Shared services handed to every scanner factory by the tracker. */
+export interface UsageLogScannerContext {
+  /** Persistent per-file scan state, so offsets survive restarts */
+  stateStore?: ScanStateStore;
+}
+
+/** Creates a fresh scanner instance. Called once per tracker. */
+export type UsageLogScannerFactory = (context: UsageLogScannerContext) => UsageLogScanner;
+
+// Registered factories keyed by scanner id, in registration order
+const factories = new Map<string, UsageLogScannerFactory>();
+
+/**
+ * Register a scanner factory under an id.
+ * Registering an id that already exists replaces the previous factory,
+ * which lets a package swap out a built-in scanner.
+ *
+ * @param id - Unique scanner id (used as the config key)
+ * @param factory - Function returning a new scanner instance
+ */
+export function registerUsageLogScanner(id: string, factory: UsageLogScannerFactory): void {
+  factories.set(id, factory);
+}
+
+/**
+ * Remove a scanner factory from the registry.
+ *
+ * @returns true if a factory was registered under the id
+ */
+export function unregisterUsageLogScanner(id: string): boolean {
+  return factories.delete(id);
+}
+
+/** List the ids of all registered scanners, in registration order. */
+export function getRegisteredUsageLogScanners(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * Instantiate every registered scanner that is enabled.
+ * Scanners are enabled by default; set `{ "<id>": false }` to disable one.
+ *
+ * @param toggles - Per-scanner enable flags (MonitorConfig.aiUsage.scanners)
+ * @param context - Services passed to each factory
+ * @returns New scanner instances, in registration order
+ */
+export function createUsageLogScanners(
+  toggles: Record<string, boolean> = {},
+  context: UsageLogScannerContext = {},
+): UsageLogScanner[] {
+  const scanners: UsageLogScanner[] = [];
+  for (const [id, factory] of factories) {
+    if (toggles[id] === false) continue;
+    scanners.push(factory(context));
+  }
+  return scanners;
+}
+
+// ============================================================================
+// Built-in scanners
+// ============================================================================
+
+registerUsageLogScanner('claude-code', ({ stateStore }) => new ClaudeLogScanner(stateStore));
+registerUsageLogScanner('codex', ({ stateStore }) => new CodexLogScanner(stateStore));
+registerUsageLogScanner('gemini-cli', ({ stateStore }) => new GeminiLogScanner(stateStore));
@@ -0,0 +1,422 @@
+// ============================================================================
+// OpenClaw Monitor - Secure Channel
+// End-to-end encryption between the gateway and its paired apps, so the
+// relay only sees routing headers.
+//
+// Key exchange: the gateway has a long-lived X25519 key pair; its public key
+// is part of the pairing QR code, so the app learns it without the relay.
+// After pairing, the app sends its own X25519 public key in a key-exchange
+// message. Both sides compute the X25519 shared secret and derive one
+// AES-256-GCM key per direction with HKDF-SHA256.
+//
+// Envelope: every message after pairing travels as an EncryptedEnvelope.
+// Only its header (type, deviceToken, peerId, seq) is readable by the relay,
+// and the header is authenticated as additional data, so it can't be moved
+// to another gateway or peer. `seq` must increase in each direction, which
+// rejects replayed envelopes. The gateway keeps the last seq it received
+// from each app with the app's key, so they stay rejected after a restart.
+//
+// Trust: the QR code, which the relay never sees, carries the gateway key
+// and a one-time pairing secret. The app proves its key with an HMAC keyed
+// with that secret, so the relay can neither swap the gateway key nor slip
+// in a key of its own. Accepted app keys are remembered under ~/.openclaw so
+// paired apps survive restarts.
+// ============================================================================
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { EncryptedEnvelope } from './types.js';
+
+/** HKDF info strings, one per direction, so the two keys never collide */
+const INFO_GATEWAY_TO_APP = 'clawface-e2e-v1 gateway->app';
+const INFO_APP_TO_GATEWAY = 'clawface-e2e-v1 app->gateway';
+
+/** AES-GCM nonce and tag lengths (bytes) */
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** Which end of a session this process is */
+export type SecureSessionRole = 'gateway' | 'app';
+
+/** Thrown when an envelope can't be opened */
+export class SecureChannelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecureChannelError';
+  }
+}
+
+// ============================================================================
+// SecureSession
+// ============================================================================
+
+/**
+ * One gateway-app pairing: seals outgoing and opens incoming envelopes.
+ * The app side is included so both ends can be tested together (and as a
+ * reference for the app implementation).
+ */
+export class SecureSession {
+  /** Id of the app key, used to route envelopes on the relay */
+  readonly peerId: string;
+
+  private sendKey: Buffer;
+  private receiveKey: Buffer;
+  private lastSentSeq = 0;
+  private lastReceivedSeq = 0;
+
+  /**
+   * @param role - Which end this session is
+   * @param privateKey - This end's X25519 private key
+   * @param remotePublicKey - The other end's X25519 public key (base64url)
+   * @param lastReceivedSeq - Seq of the last envelope opened before, e.g.
+   *        by a previous run; envelopes up to it are rejected
+   */
+  constructor(
+    role: SecureSessionRole,
+    privateKey: crypto.KeyObject,
+    remotePublicKey: string,
+    lastReceivedSeq: number = 0,
+  ) {
+    const ownPublic = rawPublicKey(crypto.createPublicKey(privateKey));
+    const remote = importPublicKey(remotePublicKey);
+    const shared = crypto.diffieHellman({ privateKey, publicKey: remote });
+
+    const gatewayPublic = role === 'gateway' ? ownPublic : remotePublicKey;
+    const appPublic = role === 'gateway' ? remotePublicKey : ownPublic;
+    const salt = Buffer.concat([fromBase64Url(gatewayPublic), fromBase64Url(appPublic)]);
+    const toApp = Buffer.from(crypto.hkdfSync('sha256', shared, salt, INFO_GATEWAY_TO_APP, 32));
+    const toGateway = Buffer.from(crypto.hkdfSync('sha256', shared, salt, INFO_APP_TO_GATEWAY, 32));
+
+    this.peerId = peerIdFor(appPublic);
+    this.sendKey = role === 'gateway' ? toApp : toGateway;
+    this.receiveKey = role === 'gateway' ? toGateway : toApp;
+    this.lastReceivedSeq = lastReceivedSeq;
+  }
+
+  /** Seq of the last envelope opened, to persist across restarts */
+  get receivedSeq(): number {
+    return this.lastReceivedSeq;
+  }
+
+  /**
+   * Encrypt a message into an envelope.
+   *
+   * @param deviceToken - Gateway device token, kept readable for routing
+   * @param message - Any JSON-serializable message
+   */
+  seal(deviceToken: string, message: unknown): EncryptedEnvelope {
+    // Time-based so the sequence keeps increasing across restarts
+    const seq = Math.max(this.lastSentSeq + 1, Date.now());
+    this.lastSentSeq = seq;
+
+    const header = { type: 'encrypted' as const, deviceToken, peerId: this.peerId, seq };
+    const nonce = crypto.randomBytes(NONCE_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.sendKey, nonce, { authTagLength: TAG_LENGTH });
+    cipher.setAAD(additionalData(header));
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(message), 'utf-8'),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+
+    return { ...header, nonce: nonce.toString('base64'), ciphertext: ciphertext.toString('base64') };
+  }
+
+  /**
+   * Decrypt and parse an envelope.
+   *
+   * @throws SecureChannelError if the envelope is malformed, for another
+   *         peer, replayed, tampered with or not valid JSON
+   */
+  open(envelope: EncryptedEnvelope): unknown {
+    // Envelopes arrive straight off the network; check what JSON can't
+    if (!isEnvelopeShaped(envelope)) {
+      throw new SecureChannelError('Malformed envelope');
+    }
+    if (envelope.peerId !== this.peerId) {
+      throw new SecureChannelError(`Envelope is for peer ${envelope.peerId}, not ${this.peerId}`);
+    }
+    if (!Number.isSafeInteger(envelope.seq) || envelope.seq <= this.lastReceivedSeq) {
+      throw new SecureChannelError(`Rejected replayed or out-of-order envelope (seq ${envelope.seq})`);
+    }
+
+    const nonce = Buffer.from(envelope.nonce, 'base64');
+    const data = Buffer.from(envelope.ciphertext, 'base64');
+    if (nonce.length !== NONCE_LENGTH || data.length < TAG_LENGTH) {
+      throw new SecureChannelError('Malformed envelope');
+    }
+
+    let plaintext: string;
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.receiveKey, nonce, { authTagLength: TAG_LENGTH });
+      decipher.setAAD(additionalData(envelope));
+      decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+      plaintext = Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_LENGTH)), decipher.final()])
+        .toString('utf-8');
+    } catch {
+      throw new SecureChannelError('Envelope failed authentication');
+    }
+
+    this.lastReceivedSeq = envelope.seq;
+    try {
+      return JSON.parse(plaintext);
+    } catch {
+      throw new SecureChannelError('Envelope payload is not valid JSON');
+    }
+  }
+}
+
+// ============================================================================
+// SecureChannel
+// ============================================================================
+
+/** A paired app as kept in the peers file */
+interface StoredPeer {
+  /** The app's X25519 public key (base64url) */
+  publicKey: string;
+  /** Seq of the last envelope received from the app */
+  lastReceivedSeq: number;
+}
+
+/**
+ * The gateway's identity key and the sessions of all paired apps, persisted
+ * under the config directory.
+ */
+export class SecureChannel {
+  private privateKey: crypto.KeyObject;
+  private sessions = new Map<string, SecureSession>();
+  /** App keys and last received seqs by peer id, as persisted */
+  private peers: Record<string, StoredPeer> = {};
+
+  /** The gateway's X25519 public key (base64url), for the pairing QR code */
+  readonly publicKey: string;
+
+  /**
+   * @param keyFile - PEM file holding the gateway's private key (created if missing)
+   * @param peersFile - JSON file holding the public keys of paired apps
+   *        and the last seq received from each
+   */
+  constructor(private keyFile: string, private peersFile: string) {
+    this.privateKey = loadOrCreatePrivateKey(keyFile);
+    this.publicKey = rawPublicKey(crypto.createPublicKey(this.privateKey));
+
+    for (const peer of Object.values(loadPeers(peersFile))) {
+      try {
+        this.addSession(peer.publicKey, peer.lastReceivedSeq);
+      } catch (err) {
+        console.warn('[SecureChannel] Ignoring invalid stored app key:', err);
+      }
+    }
+  }
+
+  /** Whether any app has exchanged keys with this gateway */
+  get hasPeers(): boolean {
+    return this.sessions.size > 0;
+  }
+
+  /**
+   * Accept an app's public key and remember it.
+   *
+   * @param appPublicKey - The app's X25519 public key (base64url)
+   * @param proof - keyExchangeProof() of the key with a pairing secret
+   * @param pairingSecrets - Secrets from recent QR codes the proof may use
+   * @returns The peer id of the app
+   * @throws SecureChannelError if the proof doesn't match or the key is invalid
+   */
+  addPeer(appPublicKey: string, proof: string, pairingSecrets: string[]): string {
+    if (typeof appPublicKey !== 'string' || typeof proof !== 'string') {
+      throw new SecureChannelError('Malformed key exchange');
+    }
+    const expected = fromBase64Url(proof);
+    const proven = pairingSecrets.some((secret) => {
+      const actual = fromBase64Url(keyExchangeProof(appPublicKey, secret));
+      return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+    });
+    if (!proven) throw new SecureChannelError('Key exchange proof does not match a current pairing code');
+
+    const session = this.addSession(appPublicKey);
+    this.savePeers();
+    return session.peerId;
+  }
+
+  /** Forget all paired apps, e.g. after unpairing. */
+  removeAllPeers(): void {
+    this.sessions.clear();
+    this.peers = {};
+    this.savePeers();
+  }
+
+  /**
+   * Encrypt a message for one paired app.
+   *
+   * @throws SecureChannelError for an unknown peer
+   */
+  seal(peerId: string, deviceToken: string, message: unknown): EncryptedEnvelope {
+    const session = this.sessions.get(peerId);
+    if (!session) throw new SecureChannelError(`Unknown peer ${peerId}`);
+    return session.seal(deviceToken, message);
+  }
+
+  /**
+   * Encrypt a message for every paired app.
+   *
+   * @returns One envelope per paired app
+   */
+  sealForAll(deviceToken: string, message: unknown): EncryptedEnvelope[] {
+    return [...this.sessions.values()].map((session) => session.seal(deviceToken, message));
+  }
+
+  /**
+   * Decrypt an envelope from a paired app.
+   *
+   * @throws SecureChannelError for an unknown peer or an invalid envelope
+   */
+  open(envelope: EncryptedEnvelope): unknown {
+    const session = this.sessions.get(envelope.peerId);
+    if (!session) throw new SecureChannelError(`Unknown peer ${envelope.peerId}`);
+    const message = session.open(envelope);
+    this.peers[session.peerId].lastReceivedSeq = session.receivedSeq;
+    this.savePeers();
+    return message;
+  }
+
+  /**
+   * Create the session for an app key (replacing one for the same key).
+   * Without a seq, the one stored for the key is kept, so pairing the same
+   * key again doesn't reopen old envelopes.
+   */
+  private addSession(appPublicKey: string, lastReceivedSeq?: number): SecureSession {
+    const seq = lastReceivedSeq ?? this.peers[peerIdFor(appPublicKey)]?.lastReceivedSeq ?? 0;
+    let session: SecureSession;
+    try {
+      session = new SecureSession('gateway', this.privateKey, appPublicKey, seq);
+    } catch {
+      throw new SecureChannelError('Invalid X25519 public key');
+    }
+    this.sessions.set(session.peerId, session);
+    this.peers[session.peerId] = { publicKey: appPublicKey, lastReceivedSeq: seq };
+    return session;
+  }
+
+  /** Write the app keys and seqs to the peers file */
+  private savePeers(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.peersFile), { recursive: true });
+      fs.writeFileSync(this.peersFile, JSON.stringify(this.peers, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (err) {
+      console.error('[SecureChannel] Failed to save paired app keys:', err);
+    }
+  }
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/** Whether a peers file entry has the StoredPeer fields */
+function isStoredPeer(value: unknown): value is StoredPeer {
+  const fields = value as Partial<Record<keyof StoredPeer, unknown>> | null;
+  return typeof fields === 'object' && fields !== null
+    && typeof fields.publicKey === 'string'
+    && typeof fields.lastReceivedSeq === 'number' && Number.isSafeInteger(fields.lastReceivedSeq);
+}
+
+/** Whether an envelope's fields have the types open() relies on */
+function isEnvelopeShaped(envelope: EncryptedEnvelope): boolean {
+  const fields = envelope as Partial<Record<keyof EncryptedEnvelope, unknown>> | null;
+  return typeof fields === 'object' && fields !== null
+    && typeof fields.deviceToken === 'string'
+    && typeof fields.peerId === 'string'
+    && typeof fields.seq === 'number'
+    && typeof fields.nonce === 'string'
+    && typeof fields.ciphertext === 'string';
+}
+
+/** Generate an X25519 key pair, returning the private key and base64url public key */
+export function generateKeyPair(): { privateKey: crypto.KeyObject; publicKey: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('x25519');
+  return { privateKey, publicKey: rawPublicKey(publicKey) };
+}
+
+/**
+ * The proof an app sends with its key: HMAC-SHA256 of the raw public key,
+ * keyed with the decoded pairing secret from the QR code (base64url).
+ */
+export function keyExchangeProof(appPublicKey: string, pairingSecret: string): string {
+  return crypto.createHmac('sha256', fromBase64Url(pairingSecret))
+    .update(fromBase64Url(appPublicKey))
+    .digest('base64url');
+}
+
+/** Peer id of an app key: the first 16 hex digits of its SHA-256 */
+function peerIdFor(appPublicKey: string): string {
+  return crypto.createHash('sha256').update(fromBase64Url(appPublicKey)).digest('hex').slice(0, 16);
+}
+
+/** The authenticated envelope header */
+function additionalData(header: Pick<EncryptedEnvelope, 'type' | 'deviceToken' | 'peerId' | 'seq'>): Buffer {
+  return Buffer.from(JSON.stringify([header.type, header.deviceToken, header.peerId, header.seq]), 'utf-8');
+}
+
+/** The raw 32-byte public key, base64url-encoded */
+function rawPublicKey(key: crypto.KeyObject): string {
+  const jwk = key.export({ format: 'jwk' });
+  if (!jwk.x) throw new SecureChannelError('Not an X25519 key');
+  return jwk.x;
+}
+
+/** Import a raw base64url X25519 public key */
+function importPublicKey(key: string): crypto.KeyObject {
+  if (fromBase64Url(key).length !== 32) throw new SecureChannelError('Invalid X25519 public key');
+  return crypto.createPublicKey({ key: { kty: 'OKP', crv: 'X25519', x: key }, format: 'jwk' });
+}
+
+/** Decode base64url */
+function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/** Load the gateway's private key, generating and saving one on first use */
+function loadOrCreatePrivateKey(keyFile: string): crypto.KeyObject {
+  try {
+    if (fs.existsSync(keyFile)) {
+      const key = crypto.createPrivateKey(fs.readFileSync(keyFile, 'utf-8'));
+      if (key.asymmetricKeyType === 'x25519') return key;
+      console.warn(`[SecureChannel] ${keyFile} is not an X25519 key, generating a new one`);
+    }
+  } catch (err) {
+    console.warn(`[SecureChannel] Failed to load ${keyFile}, generating a new key:`, err);
+  }
+
+  const { privateKey } = crypto.generateKeyPairSync('x25519');
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+  fs.writeFileSync(keyFile, privateKey.export({ format: 'pem', type: 'pkcs8' }), { encoding: 'utf-8', mode: 0o600 });
+  return privateKey;
+}
+
+/**
+ * Load the persisted app keys and seqs by peer id. Files written before
+ * seqs were kept map peer ids to bare keys.
+ */
+function loadPeers(peersFile: string): Record<string, StoredPeer> {
+  try {
+    if (fs.existsSync(peersFile)) {
+      const parsed = JSON.parse(fs.readFileSync(peersFile, 'utf-8'));
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+        const peers: Record<string, StoredPeer> = {};
+        for (const [peerId, value] of Object.entries(parsed as Record<string, unknown>)) {
+          if (typeof value === 'string') {
+            peers[peerId] = { publicKey: value, lastReceivedSeq: 0 };
+          } else if (isStoredPeer(value)) {
+            peers[peerId] = { publicKey: value.publicKey, lastReceivedSeq: value.lastReceivedSeq };
+          }
+        }
+        return peers;
+      }
+    }
+  } catch (err) {
+    console.warn(`[SecureChannel] Failed to load ${peersFile}:`, err);
+  }
+  return {};
+}
@@ -0,0 +1,179 @@
+// ============================================================================
+// OpenClaw Monitor - Spend Forecaster
+// Projects AI spend forward from the usage history in AiUsageTracker:
+//
+// - Burn rate: average spend per hour over a trailing window (24h default).
+// - Month-end projection: spend so far plus the typical spend of each
+//   remaining day, learned per day of week from the last few weeks of daily
+//   totals. Weekday and weekend usage often differ a lot, so a flat daily
+//   average would over- or undershoot depending on what is left of the month.
+//   The day-to-day variance of the same history gives the confidence band.
+// - Budget runway: days until the monthly budget is used up at the burn rate.
+// ============================================================================
+
+import type { AiUsageTracker } from './aiUsageTracker.js';
+import type { SpendForecast } from './types.js';
+
+/** z-score of the 90th percentile, for an 80% two-sided band */
+const Z_80 = 1.2816;
+
+/** Options for SpendForecaster */
+export interface SpendForecasterOptions {
+  /** Trailing window for the burn rate, in hours (default: 24) */
+  burnRateWindowHours?: number;
+  /** Weeks of daily history used for the day-of-week pattern (default: 8) */
+  historyWeeks?: number;
+}
+
+/** Expected spend of one day of the week */
+interface DayStats {
+  mean: number;
+  variance: number;
+}
+
+// ============================================================================
+// SpendForecaster
+// ============================================================================
+
+/**
+ * Computes the burn rate and month-end projection from tracked usage.
+ */
+export class SpendForecaster {
+  private burnRateWindowHours: number;
+  private historyWeeks: number;
+
+  /**
+   * @param tracker - Source of usage history
+   * @param options - Burn rate window and history length
+   */
+  constructor(private tracker: AiUsageTracker, options: SpendForecasterOptions = {}) {
+    this.burnRateWindowHours = options.burnRateWindowHours ?? 24;
+    this.historyWeeks = options.historyWeeks ?? 8;
+  }
+
+  /**
+   * Forecast spend for the current calendar month.
+   *
+   * @param monthlyBudget - Monthly budget in USD, for the runway estimate
+   * @param now - Current time (injectable for tests)
+   */
+  forecast(monthlyBudget?: number, now: Date = new Date()): SpendForecast {
+    const nowMs = now.getTime();
+    const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const tomorrowStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    const windowMs = this.burnRateWindowHours * 60 * 60 * 1000;
+    const burnRatePerHour = this.costBetween(nowMs - windowMs, nowMs + 1) / this.burnRateWindowHours;
+    const monthToDate = this.costBetween(monthStart.getTime(), nowMs + 1);
+
+    const { byWeekday, historyDays } = this.learnWeekdays(todayStart);
+    const dayStats = (date: Date): DayStats =>
+      byWeekday[date.getDay()] ?? { mean: burnRatePerHour * 24, variance: 0 };
+
+    // The rest of today, in proportion to how much of it is left
+    const todayFraction = (tomorrowStart.getTime() - nowMs) / (tomorrowStart.getTime() - todayStart.getTime());
+    const today = dayStats(now);
+    let expected = today.mean * todayFraction;
+    let variance = today.variance * todayFraction;
+
+    // Every remaining whole day of the month
+    for (let day = now.getDate() + 1; ; day++) {
+      const date = new Date(now.getFullYear(), now.getMonth(), day);
+      if (date.getMonth() !== now.getMonth()) break;
+      const stats = dayStats(date);
+      expected += stats.mean;
+      variance += stats.variance;
+    }
+
+    const projected = monthToDate + expected;
+    const margin = Z_80 * Math.sqrt(variance);
+
+    let daysUntilBudgetExhausted: number | null = null;
+    if (monthlyBudget !== undefined) {
+      const remaining = monthlyBudget - monthToDate;
+      if (remaining <= 0) {
+        daysUntilBudgetExhausted = 0;
+      } else if (burnRatePerHour > 0) {
+        daysUntilBudgetExhausted = Math.round((remaining / (burnRatePerHour * 24)) * 10) / 10;
+      }
+    }
+
+    return {
+      burnRatePerHour: roundCents(burnRatePerHour),
+      burnRateWindowHours: this.burnRateWindowHours,
+      monthToDate: roundCents(monthToDate),
+      projectedMonthEnd: roundCents(projected),
+      projectedMonthEndLow: roundCents(Math.max(monthToDate, projected - margin)),
+      projectedMonthEndHigh: roundCents(projected + margin),
+      daysUntilBudgetExhausted,
+      historyDays,
+    };
+  }
+
+  /** Total cost of requests in [start, end) */
+  private costBetween(start: number, end: number): number {
+    return this.tracker.queryUsage({ start, end, bucket: 'day' }).totalCost;
+  }
+
+  /**
+   * Mean and variance of daily spend per day of week (0 = Sunday), over the
+   * complete days of the history window. Days before the first recorded
+   * usage are not counted, so a fresh install isn't averaged down by days
+   * it wasn't running. A weekday without samples falls back to the stats
+   * of all days; with no history at all every entry is undefined.
+   */
+  private learnWeekdays(todayStart: Date): { byWeekday: Array<DayStats | undefined>; historyDays: number } {
+    const historyStart = new Date(
+      todayStart.getFullYear(), todayStart.getMonth(), todayStart.getDate() - this.historyWeeks * 7,
+    );
+    const series = this.tracker.queryUsage({
+      start: historyStart.getTime(),
+      end: todayStart.getTime(),
+      bucket: 'day',
+    });
+
+    const dailyCost = new Map<number, number>();
+    for (const point of series.points) {
+      dailyCost.set(point.bucketStart, (dailyCost.get(point.bucketStart) ?? 0) + point.totalCost);
+    }
+    if (dailyCost.size === 0) return { byWeekday: new Array(7).fill(undefined), historyDays: 0 };
+
+    const samples: number[][] = [[], [], [], [], [], [], []];
+    const all: number[] = [];
+    const firstDay = new Date(Math.min(...dailyCost.keys()));
+    for (let offset = 0; ; offset++) {
+      const date = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() + offset);
+      if (date.getTime() >= todayStart.getTime()) break;
+      const cost = dailyCost.get(date.getTime()) ?? 0;
+      samples[date.getDay()].push(cost);
+      all.push(cost);
+    }
+
+    const overall = stats(all);
+    return {
+      byWeekday: samples.map((values) => (values.length > 0 ? stats(values, overall.variance) : overall)),
+      historyDays: all.length,
+    };
+  }
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/**
+ * Mean and sample variance of a list of values. With a single value the
+ * variance is unknown, so the fallback is used.
+ */
+function stats(values: number[], fallbackVariance: number = 0): DayStats {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (values.length < 2) return { mean, variance: fallbackVariance };
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, variance };
+}
+
+/** Round a USD amount to whole cents */
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
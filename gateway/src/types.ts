@@ -64,7 +64,7 @@ export interface SystemStats {
 export type AiProvider = 'anthropic' | 'openai' | 'google' | 'deepseek' | 'other';
 
 /** Source of the AI request (which service triggered it) */
-export type AiRequestSource = 'telegram' | 'discord' | 'api' | 'claude-code' | 'other';
+export type AiRequestSource = 'telegram' | 'discord' | 'api' | 'claude-code' | 'codex-cli' | 'gemini-cli' | 'other';
 
 /** A single logged AI API request with token counts and cost */
 export interface AiRequestLog {
@@ -88,6 +88,18 @@ export interface AiRequestLog {
   source: AiRequestSource;
   /** Optional session identifier for grouping related requests */
   sessionId?: string;
+  /** Project (working directory) the request was made from, when known */
+  projectPath?: string;
+}
+
+/**
+ * A usage record produced by a local log scanner, ready to be passed to
+ * AiUsageTracker.logRequest(). Cost is computed by the tracker unless the
+ * source reported its own.
+ */
+export interface UsageLogRecord extends Omit<AiRequestLog, 'estimatedCost'> {
+  /** Pre-calculated cost in USD reported by the source (e.g. Claude Code's costUSD) */
+  preCalculatedCost?: number;
 }
 
 /** Aggregated usage data for a single AI provider */
@@ -133,6 +145,298 @@ export interface UsageSummary {
   totalCostToday: number;
   /** Total cost for the current calendar month in USD */
   totalCostThisMonth: number;
+  /**
+   * Models used in this period that have no price, so their requests add
+   * nothing to the costs above. Empty when every model was priced.
+   */
+  unpriced: UnpricedModel[];
+  /** Burn rate and projected month-end spend (set in get-usage responses) */
+  forecast?: SpendForecast;
+}
+
+/** Time bucket size for usage time-series queries */
+export type UsageBucket = 'hour' | 'day' | 'week' | 'month';
+
+/** A date range and bucket size for AiUsageTracker.queryUsage() and the get-usage command */
+export interface UsageQuery {
+  /** Range start, Unix timestamp in ms (inclusive) */
+  start: number;
+  /** Range end, Unix timestamp in ms (exclusive) */
+  end: number;
+  /** Bucket size. Buckets follow local time; weeks start on Monday. */
+  bucket: UsageBucket;
+}
+
+/** Usage of one model within one time bucket */
+export interface UsageSeriesPoint {
+  /** Start of the bucket, Unix timestamp in ms */
+  bucketStart: number;
+  provider: AiProvider;
+  model: string;
+  requestCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  /** Total cache-read input tokens (prompt cache hits) */
+  totalCacheReadInputTokens: number;
+  /** Total cache-creation input tokens (prompt cache writes) */
+  totalCacheCreationInputTokens: number;
+  totalCost: number;
+}
+
+/** Usage over a date range, split into buckets per provider and model */
+export interface UsageTimeSeries {
+  /** Range start, Unix timestamp in ms */
+  start: number;
+  /** Range end, Unix timestamp in ms */
+  end: number;
+  bucket: UsageBucket;
+  /** Points ordered by bucket, provider and model. Buckets without usage are omitted. */
+  points: UsageSeriesPoint[];
+  /** Total cost over the whole range in USD */
+  totalCost: number;
+}
+
+/**
+ * A model that was used without a known price. Its requests were logged
+ * at $0, so reported spend is too low by whatever they really cost.
+ */
+export interface UnpricedModel {
+  provider: AiProvider;
+  model: string;
+  requestCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCacheReadInputTokens: number;
+  totalCacheCreationInputTokens: number;
+  /** First unpriced request, Unix timestamp in ms */
+  firstSeen: number;
+  /** Most recent unpriced request, Unix timestamp in ms */
+  lastSeen: number;
+}
+
+/**
+ * Grouping for the get-usage command: per project or per session instead
+ * of the per-model summary. Sent as `groupBy` with `period` and, for
+ * sessions, an optional `project` filter.
+ */
+export type UsageGroupBy = 'project' | 'session';
+
+/** Usage attributed to one project (working directory) */
+export interface ProjectUsage {
+  /** Absolute project path, or null for usage with no known project */
+  projectPath: string | null;
+  /** Number of distinct sessions in the period */
+  sessionCount: number;
+  requestCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCacheReadInputTokens: number;
+  totalCacheCreationInputTokens: number;
+  /** Total cost in USD */
+  totalCost: number;
+  /** Most recent request, Unix timestamp in ms */
+  lastActivity: number;
+}
+
+/** Usage attributed to one session (e.g. a Claude Code conversation) */
+export interface SessionUsage {
+  sessionId: string;
+  /** Project the session ran in, or null if unknown */
+  projectPath: string | null;
+  /** Models used during the session, most expensive first */
+  models: string[];
+  requestCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCacheReadInputTokens: number;
+  totalCacheCreationInputTokens: number;
+  /** Total cost in USD */
+  totalCost: number;
+  /** First request, Unix timestamp in ms */
+  firstActivity: number;
+  /** Most recent request, Unix timestamp in ms */
+  lastActivity: number;
+}
+
+/** Outcome of a repricing pass over stored usage rows */
+export interface RepriceResult {
+  /** Models whose estimated rows were recomputed */
+  models: string[];
+  /** Number of rows whose cost actually changed */
+  repricedRows: number;
+}
+
+// --- Pricing ---
+
+/**
+ * A pricing tier that activates above a token threshold.
+ * Some models (e.g. Claude Sonnet 4.5) charge higher rates for inputs
+ * exceeding a threshold (e.g. 200k tokens).
+ */
+export interface PricingTier {
+  /** Input token count above which this tier's rates apply */
+  thresholdTokens: number;
+  /** Input cost per 1M tokens in this tier (USD) */
+  inputCostPer1M: number;
+  /** Output cost per 1M tokens in this tier (USD) */
+  outputCostPer1M: number;
+  /** Cache-read input cost per 1M tokens in this tier (USD) */
+  cacheReadCostPer1M?: number;
+  /** Cache-creation input cost per 1M tokens in this tier (USD) */
+  cacheCreationCostPer1M?: number;
+}
+
+/**
+ * Pricing entry for a single model.
+ * Contains base rates and optional above-threshold tier for tiered pricing.
+ */
+export interface ModelPricing {
+  /** Base input cost per 1M tokens (USD) */
+  inputCostPer1M: number;
+  /** Base output cost per 1M tokens (USD) */
+  outputCostPer1M: number;
+  /** Cache-read input cost per 1M tokens (USD) */
+  cacheReadCostPer1M?: number;
+  /** Cache-creation input cost per 1M tokens (USD) */
+  cacheCreationCostPer1M?: number;
+  /** Optional tiered pricing that applies above a token threshold */
+  aboveThreshold?: PricingTier;
+}
+
+// --- Budgets ---
+
+/**
+ * Provider-level spend/budget snapshot (e.g. Claude monthly spend vs limit).
+ * Mirrors CodexBar's ProviderCostSnapshot struct.
+ */
+export interface ProviderCostSnapshot {
+  /** Amount spent in the current period */
+  used: number;
+  /** Budget limit for the period (undefined if unlimited) */
+  limit?: number;
+  /** ISO 4217 currency code (e.g. "USD") */
+  currencyCode: string;
+  /** Human-readable period label (e.g. "Monthly") */
+  period: string;
+  /** ISO 8601 timestamp when the billing period resets */
+  resetsAt?: string;
+}
+
+/**
+ * Projected spend for the current month (see SpendForecaster). The
+ * projection adds the typical spend of each remaining day of the month,
+ * by day of week, to the spend so far.
+ */
+export interface SpendForecast {
+  /** Average spend per hour over the trailing window, in USD */
+  burnRatePerHour: number;
+  /** Length of the trailing window the burn rate covers, in hours */
+  burnRateWindowHours: number;
+  /** Spend so far this calendar month, in USD */
+  monthToDate: number;
+  /** Projected total for the calendar month, in USD */
+  projectedMonthEnd: number;
+  /** Lower end of the 80% confidence band around projectedMonthEnd */
+  projectedMonthEndLow: number;
+  /** Upper end of the 80% confidence band around projectedMonthEnd */
+  projectedMonthEndHigh: number;
+  /**
+   * Days until the monthly budget is used up at the current burn rate;
+   * 0 when it already is, null without a monthly budget or any recent spend
+   */
+  daysUntilBudgetExhausted: number | null;
+  /** Number of past days the day-of-week pattern was learned from */
+  historyDays: number;
+}
+
+/** Monthly spend limits in USD, read from the `budgets` section of monitor.json */
+export interface BudgetConfig {
+  /** Limit on the total across all providers */
+  monthly?: number;
+  /** Limits per provider, keyed by provider id (e.g. "anthropic") */
+  providers?: Record<string, number>;
+  /** Limits per project, keyed by project path (e.g. "/Users/me/repo") */
+  projects?: Record<string, number>;
+  /** Percentages of a limit at which to warn (default: [80, 100]) */
+  warnAtPercent?: number[];
+}
+
+/** Month-to-date spend against the configured budgets */
+export interface BudgetStatus {
+  /** Total across all providers */
+  total: ProviderCostSnapshot;
+  /** Per provider id; every provider with spend this month or a budget */
+  providers: Record<string, ProviderCostSnapshot>;
+  /** Per project path; only projects with a budget */
+  projects: Record<string, ProviderCostSnapshot>;
+}
+
+/** Emitted once when spend crosses one of the warnAtPercent thresholds of a budget */
+export interface BudgetWarning {
+  /** Which budget was crossed */
+  scope: 'total' | 'provider' | 'project';
+  /** Provider id or project path (undefined for the total budget) */
+  key?: string;
+  /** The threshold percentage that was crossed */
+  thresholdPercent: number;
+  /** Spend against the budget when the threshold was crossed */
+  snapshot: ProviderCostSnapshot;
+  /** Human-readable description, e.g. for logs and notifications */
+  message: string;
+}
+
+// --- Rate Windows ---
+
+/**
+ * Snapshot of a rate-limit window (e.g. 5-hour or weekly usage budget).
+ * Mirrors CodexBar's RateWindow struct.
+ */
+export interface RateWindow {
+  /** Percentage of the window budget already used (0-100) */
+  usedPercent: number;
+  /** Duration of the rate-limit window in minutes (e.g. 300 for 5 hours) */
+  windowMinutes: number;
+  /** ISO 8601 timestamp when the window resets */
+  resetsAt?: string;
+  /** Human-readable reset description (e.g. "Resets in 2h 30m") */
+  resetDescription?: string;
+}
+
+/** Rate-limit windows a tool reported about itself in its own logs */
+export interface ReportedRateWindows {
+  provider: AiProvider;
+  /** When the tool reported them, Unix timestamp in ms */
+  observedAt: number;
+  /** The short window (5 hours for Codex), if reported */
+  fiveHour?: RateWindow;
+  /** The weekly window, if reported */
+  weekly?: RateWindow;
+}
+
+/** Subscription rate-limit windows of one provider, for the status payload */
+export interface ProviderRateWindows {
+  provider: AiProvider;
+  /**
+   * 'reported' when read from the tool's logs (Codex); 'estimated' when
+   * derived from logged usage against configured or historical limits
+   */
+  source: 'reported' | 'estimated';
+  /** The 5-hour window (omitted if unknown) */
+  fiveHour?: RateWindow;
+  /** The weekly window (omitted if unknown) */
+  weekly?: RateWindow;
+}
+
+/**
+ * Spend (in USD at API prices) that uses up a provider's rate windows,
+ * used to estimate them when the provider's logs don't report usage.
+ * Without a limit, the busiest past window counts as 100%.
+ */
+export interface RateWindowLimits {
+  /** Spend that uses up one 5-hour window */
+  fiveHour?: number;
+  /** Spend that uses up one week */
+  weekly?: number;
 }
 
 // --- OpenClaw Snapshot ---
@@ -215,10 +519,77 @@ export interface AiUsageSummary {
   totalCostToday: number;
   /** Total estimated AI cost for the current month in USD */
   totalCostThisMonth: number;
+  /** Month-to-date spend per provider against the configured budgets */
+  budget?: BudgetStatus;
+  /** Burn rate and projected month-end spend */
+  forecast?: SpendForecast;
+  /** Subscription rate-limit windows per provider */
+  rateWindows?: ProviderRateWindows[];
+}
+
+// --- Alerts ---
+
+/** Comparison operator for alert rule conditions */
+export type AlertOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
+
+/** Severity level for alert notifications */
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * A user-defined alert rule, read from the `alerts` section of monitor.json
+ * and evaluated by AlertEvaluator against every StatusMessage.
+ *
+ * Example: Alert when CPU usage > 90% for more than 30 seconds.
+ */
+export interface AlertRule {
+  /** Unique rule identifier */
+  id: string;
+  /** Human-readable rule name (e.g., "High CPU Usage") */
+  name: string;
+  /** Whether this rule is currently active */
+  enabled: boolean;
+  /** Dot-notation path to the metric in StatusMessage (e.g., "system.cpu.usage") */
+  metric: string;
+  /** Comparison operator */
+  operator: AlertOperator;
+  /** Threshold value to compare against */
+  threshold: number;
+  /** How long the condition must persist before triggering (in seconds) */
+  durationSeconds: number;
+  /** Alert severity level */
+  severity: AlertSeverity;
+  /** Optional cooldown period between repeated alerts (in seconds) */
+  cooldownSeconds?: number;
+}
+
+/** A triggered alert, created when an AlertRule condition is met */
+export interface AlertNotification {
+  /** Unique notification identifier */
+  id: string;
+  /** The rule that triggered this notification */
+  ruleId: string;
+  /** Rule name (copied for display without needing to look up the rule) */
+  ruleName: string;
+  /** Severity level */
+  severity: AlertSeverity;
+  /** The actual metric value that triggered the alert */
+  currentValue: number;
+  /** The threshold that was exceeded */
+  threshold: number;
+  /** ISO 8601 timestamp when the alert was triggered */
+  triggeredAt: string;
+  /** Whether the user has acknowledged/dismissed this notification */
+  acknowledged: boolean;
 }
 
 // --- Relay Communication ---
 
+/**
+ * Optional parts of the protocol; the gateway leaves out the matching
+ * aiUsage sections, and alerts, for a peer without them
+ */
+export type ProtocolFeature = 'alerts' | 'budgets' | 'forecast' | 'rate-windows';
+
 /** Hello message sent to the relay on initial connection */
 export interface HelloMessage {
   type: 'hello';
@@ -227,6 +598,24 @@ export interface HelloMessage {
   hostname: string;
   platform: string;
   arch: string;
+  /** Oldest protocol version the gateway can speak */
+  minProtocol: number;
+  /** Newest protocol version the gateway can speak */
+  maxProtocol: number;
+  /** Optional features the gateway supports */
+  features: ProtocolFeature[];
+}
+
+/**
+ * Answer to the hello from the relay or an app: the protocol version and
+ * features to use from now on. Status payloads are built to match it.
+ */
+export interface ProtocolAgreement {
+  type: 'protocol';
+  /** Chosen version, within the hello's range */
+  version: number;
+  /** Features both sides support */
+  features: ProtocolFeature[];
 }
 
 /** Periodic status update sent to the relay */
@@ -237,7 +626,7 @@ export interface StatusMessage {
   timestamp: string;
   /** Hostname of the gateway machine */
   hostname: string;
-  /** Protocol version for the iOS app */
+  /** Protocol version the payload follows (see ProtocolAgreement) */
   version: number;
   system: SystemStats;
   /** OpenClaw service snapshot (always included; iOS requires this field) */
@@ -252,7 +641,7 @@ export interface CommandMessage {
   /** Unique identifier for this command */
   id: string;
   /** The action to perform */
-  action: 'pair' | 'unpair' | 'restart' | 'get-usage' | 'get-logs' | 'ping';
+  action: 'pair' | 'unpair' | 'restart' | 'get-usage' | 'get-unpriced-models' | 'get-logs' | 'reprice' | 'ping';
   /** Optional payload with command-specific data */
   payload?: Record<string, unknown>;
 }
@@ -267,6 +656,18 @@ export interface CommandResponse {
   /** Result data or error message */
   data?: unknown;
   error?: string;
+  /** Unique per message and kept when replayed from the outbox, so apps can drop duplicates */
+  messageId?: string;
+}
+
+/** JSON payload of the pairing QR code */
+export interface PairQrPayload {
+  code: string;
+  relay: string;
+  /** Gateway X25519 public key (base64url) for end-to-end encryption */
+  publicKey?: string;
+  /** One-time secret (base64url) the app proves its key exchange with */
+  pairingSecret?: string;
 }
 
 /** Pairing confirmation message */
@@ -276,6 +677,75 @@ export interface PairConfirmMessage {
   pairingCode: string;
 }
 
+/** Alert triggered on the gateway, forwarded by the relay to paired apps */
+export interface AlertMessage {
+  type: 'alert';
+  deviceToken: string;
+  alert: AlertNotification;
+  /** Unique per message and kept when replayed from the outbox, so apps can drop duplicates */
+  messageId?: string;
+}
+
+/**
+ * An end-to-end encrypted message between the gateway and one paired app
+ * (see SecureChannel). The relay can read only these header fields.
+ */
+export interface EncryptedEnvelope {
+  type: 'encrypted';
+  /** Gateway device token, for routing */
+  deviceToken: string;
+  /** Id of the paired app's key, for routing to the right app */
+  peerId: string;
+  /** Increasing sequence number, per direction */
+  seq: number;
+  /** AES-GCM nonce (base64) */
+  nonce: string;
+  /** Encrypted JSON message followed by the 16-byte auth tag (base64) */
+  ciphertext: string;
+}
+
+/** Sent by an app after pairing to start end-to-end encryption */
+export interface KeyExchangeMessage {
+  type: 'key-exchange';
+  /** The app's X25519 public key (raw, base64url) */
+  publicKey: string;
+  /** HMAC-SHA256 of the raw public key, keyed with the QR pairing secret (base64url) */
+  proof: string;
+}
+
+/** Sent by the LAN server to each new client, which must authenticate; carries the protocol range like HelloMessage */
+export interface LanChallengeMessage {
+  type: 'lan-challenge';
+  /** Random nonce to prove a pairing secret or app key with (base64url) */
+  nonce: string;
+  /** Mac hostname for display */
+  hostname: string;
+  /** Oldest protocol version the gateway can speak */
+  minProtocol: number;
+  /** Newest protocol version the gateway can speak */
+  maxProtocol: number;
+  /** Optional features the gateway supports */
+  features: ProtocolFeature[];
+}
+
+/**
+ * A LAN client's answer to the challenge: HMAC-SHA256 of the decoded nonce,
+ * keyed with the decoded pairing secret from the QR code. Apps that already
+ * exchanged keys send an EncryptedEnvelope of {type: 'lan-auth', nonce} instead.
+ */
+export interface LanAuthMessage {
+  type: 'lan-auth';
+  proof: string;
+}
+
+/** Sent by the LAN server once a client is authenticated */
+export interface LanReadyMessage {
+  type: 'lan-ready';
+  deviceToken: string;
+  /** Whether messages on this connection are end-to-end encrypted */
+  encrypted: boolean;
+}
+
 /** Disconnect notification sent to relay when gateway shuts down */
 export interface DisconnectMessage {
   type: 'disconnect';
@@ -289,10 +759,29 @@ export type GatewayOutboundMessage =
   | StatusMessage
   | CommandResponse
   | PairConfirmMessage
-  | DisconnectMessage;
+  | DisconnectMessage
+  | AlertMessage
+  | EncryptedEnvelope;
 
 /** Union of all messages the gateway can receive from the relay */
-export type GatewayInboundMessage = CommandMessage;
+export type GatewayInboundMessage = CommandMessage | KeyExchangeMessage | EncryptedEnvelope | ProtocolAgreement;
+
+/** Union of all messages the LAN server can send to a client */
+export type LanOutboundMessage =
+  | LanChallengeMessage
+  | LanReadyMessage
+  | StatusMessage
+  | CommandResponse
+  | AlertMessage
+  | EncryptedEnvelope;
+
+/** Union of all messages the LAN server can receive from a client */
+export type LanInboundMessage =
+  | LanAuthMessage
+  | CommandMessage
+  | KeyExchangeMessage
+  | EncryptedEnvelope
+  | ProtocolAgreement;
 
 // --- Configuration ---
 
@@ -307,15 +796,48 @@ export interface RelayConfig {
   statusInterval: number;
 }
 
+export interface LanConfig {
+  /** Whether to run the local WebSocket server (default: false) */
+  enabled: boolean;
+  /** TCP port to listen on (default: 18790) */
+  port: number;
+  /** Whether to announce the server on the local network with mDNS (default: true) */
+  advertise: boolean;
+}
+
 export interface AiUsageConfig {
   /** Whether AI usage tracking is enabled */
   enabled: boolean;
   /** Number of days to retain detailed usage data (default: 30) */
   retentionDays: number;
+  /**
+   * Per-scanner enable flags keyed by scanner id (e.g. "claude-code",
+   * "codex", "gemini-cli"). Registered scanners are enabled unless set to false.
+   */
+  scanners?: Record<string, boolean>;
+  /**
+   * Scan as soon as the scanners' log directories change (default: true).
+   * When false, or where watching isn't supported, logs are polled instead.
+   */
+  watch?: boolean;
 }
 
 /** Top-level monitor configuration */
 export interface MonitorConfig {
   relay: RelayConfig;
+  /** Direct connections from apps on the local network; with or instead of the relay */
+  lan?: LanConfig;
   aiUsage: AiUsageConfig;
+  /**
+   * Price overrides and additions keyed by normalized model name.
+   * Entries replace the built-in price of the same model; reloaded when
+   * monitor.json changes.
+   */
+  pricing?: Record<string, ModelPricing>;
+  /** Monthly spend limits; reloaded when monitor.json changes */
+  budgets?: BudgetConfig;
+  /** Rate-window limits keyed by provider id (e.g. "anthropic") */
+  rateWindows?: Record<string, RateWindowLimits>;
+  /** Alert rules evaluated on every status tick; reloaded when monitor.json changes */
+  alerts?: AlertRule[];
 }
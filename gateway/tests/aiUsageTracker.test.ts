@@ -9,13 +9,31 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import Database from 'better-sqlite3';
 import { AiUsageTracker } from '../src/aiUsageTracker.js';
+import {
+  registerUsageLogScanner,
+  unregisterUsageLogScanner,
+  getRegisteredUsageLogScanners,
+} from '../src/scannerRegistry.js';
+import type { UsageLogScanner } from '../src/scannerRegistry.js';
+import type { UsageLogRecord } from '../src/types.js';
 
 /** Generate a unique temp DB path for each test */
 function tempDbPath(): string {
   return path.join(os.tmpdir(), `openclaw-test-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
 }
 
+/** Count the rows of a table by opening a second connection to the DB file */
+function countRows(dbPath: string, table: string): number {
+  const db = new Database(dbPath, { readonly: true });
+  try {
+    return (db.prepare(`SELECT COUNT(*) as n FROM ${table}`).get() as { n: number }).n;
+  } finally {
+    db.close();
+  }
+}
+
 describe('AiUsageTracker', () => {
   let tracker: AiUsageTracker;
   let dbPath: string;
@@ -120,6 +138,76 @@ describe('AiUsageTracker', () => {
       const summary = tracker.getUsageSummary('today');
       expect(summary.providers[0].requestCount).toBe(1);
     });
+
+    it('should report whether a row was inserted', () => {
+      const entry = {
+        timestamp: Date.now(),
+        provider: 'anthropic' as const,
+        model: 'claude-sonnet-4-5',
+        inputTokens: 100,
+        outputTokens: 50,
+        source: 'api' as const,
+      };
+
+      expect(tracker.logRequest(entry)).toBe(true);
+      expect(tracker.logRequest(entry)).toBe(false);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // logRequests
+  // --------------------------------------------------------------------------
+
+  describe('logRequests()', () => {
+    it('should insert a batch and return the number of new rows', () => {
+      const now = Date.now();
+      const records: UsageLogRecord[] = [1, 2, 3].map((i) => ({
+        timestamp: now - i,
+        provider: 'anthropic',
+        model: 'claude-haiku-4-5',
+        inputTokens: 100 * i,
+        outputTokens: 10,
+        source: 'claude-code',
+      }));
+
+      expect(tracker.logRequests(records)).toBe(3);
+      expect(tracker.getUsageSummary('today').providers[0].requestCount).toBe(3);
+    });
+
+    it('should not count records that were already logged', () => {
+      const now = Date.now();
+      const first: UsageLogRecord = {
+        timestamp: now - 1,
+        provider: 'openai',
+        model: 'gpt-5',
+        inputTokens: 100,
+        outputTokens: 10,
+        source: 'api',
+      };
+      const second: UsageLogRecord = { ...first, timestamp: now - 2 };
+
+      tracker.logRequests([first]);
+      expect(tracker.logRequests([first, second])).toBe(1);
+      expect(tracker.getUsageSummary('today').providers[0].requestCount).toBe(2);
+    });
+
+    it('should use a pre-calculated cost when present', () => {
+      tracker.logRequests([{
+        timestamp: Date.now(),
+        provider: 'other',
+        model: 'in-house-model',
+        inputTokens: 1,
+        outputTokens: 1,
+        source: 'other',
+        preCalculatedCost: 1.5,
+      }]);
+
+      expect(tracker.getUsageSummary('today').totalCostToday).toBe(1.5);
+    });
+
+    it('should return 0 for an empty batch', () => {
+      expect(tracker.logRequests([])).toBe(0);
+    });
   });
 
   // --------------------------------------------------------------------------
@@ -379,7 +467,7 @@ describe('AiUsageTracker', () => {
   // --------------------------------------------------------------------------
 
   describe('cleanupOldData()', () => {
-    it('should delete records older than the retention period', () => {
+    it('should delete raw records older than the retention period', () => {
       const now = Date.now();
 
       // Record from 60 days ago (should be deleted with 30-day retention)
@@ -408,8 +496,8 @@ describe('AiUsageTracker', () => {
 
       tracker.cleanupOldData(30);
 
-      // After cleanup: only today's record should remain
-      // Use a very wide period to check total count
+      // After cleanup: only today's raw record should remain
+      expect(countRows(dbPath, 'ai_requests')).toBe(1);
       const summary = tracker.getUsageSummary('month');
       expect(summary.providers).toHaveLength(1);
       expect(summary.providers[0].provider).toBe('openai');
@@ -448,11 +536,36 @@ describe('AiUsageTracker', () => {
         source: 'api',
       });
 
-      // Cleanup with 3-day retention should delete it
+      // Cleanup with 3-day retention should delete the raw row
       tracker.cleanupOldData(3);
+      expect(countRows(dbPath, 'ai_requests')).toBe(0);
 
-      const summary = tracker.getUsageSummary('month');
-      expect(summary.providers).toHaveLength(0);
+      // ...but the week view still sees it through the daily rollup
+      const summary = tracker.getUsageSummary('week');
+      expect(summary.providers).toHaveLength(1);
+      expect(summary.providers[0].totalInputTokens).toBe(1000);
+    });
+
+    it('should not count pruned requests again when they are logged after cleanup', () => {
+      const request = {
+        timestamp: Date.now() - 5 * 24 * 60 * 60 * 1000,
+        provider: 'anthropic' as const,
+        model: 'claude-sonnet-4-5',
+        inputTokens: 1000,
+        outputTokens: 500,
+        source: 'api' as const,
+      };
+      tracker.logRequest(request);
+      const before = tracker.getUsageSummary('week').providers[0];
+
+      tracker.cleanupOldData(3);
+      // A full rescan logs the same request again
+      expect(tracker.logRequest(request)).toBe(false);
+
+      expect(countRows(dbPath, 'ai_requests')).toBe(0);
+      const after = tracker.getUsageSummary('week').providers[0];
+      expect(after.requestCount).toBe(1);
+      expect(after.totalCost).toBeCloseTo(before.totalCost);
     });
 
     it('should be a no-op when there is nothing to clean', () => {
@@ -462,5 +575,752 @@ describe('AiUsageTracker', () => {
       const summary = tracker.getUsageSummary('today');
       expect(summary.providers).toHaveLength(0);
     });
+
+    it('should cut off at local midnight so whole days are pruned', () => {
+      const now = new Date();
+      const cutoff = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 3).getTime();
+
+      tracker.logRequest({
+        timestamp: cutoff - 1,
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        inputTokens: 100,
+        outputTokens: 50,
+        source: 'api',
+      });
+      tracker.logRequest({
+        timestamp: cutoff,
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        inputTokens: 200,
+        outputTokens: 50,
+        source: 'api',
+      });
+
+      tracker.cleanupOldData(3);
+      expect(countRows(dbPath, 'ai_requests')).toBe(1);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // queryUsage
+  // --------------------------------------------------------------------------
+
+  describe('queryUsage()', () => {
+    /** Log a small request at a local date/time */
+    function logAt(date: Date, model: string = 'gpt-4o', inputTokens: number = 100): void {
+      tracker.logRequest({
+        timestamp: date.getTime(),
+        provider: 'openai',
+        model,
+        inputTokens,
+        outputTokens: 10,
+        source: 'api',
+      });
+    }
+
+    it('should split a range into day buckets at local midnight', () => {
+      logAt(new Date(2026, 0, 5, 10));
+      logAt(new Date(2026, 0, 5, 15));
+      logAt(new Date(2026, 0, 6, 9));
+
+      const series = tracker.queryUsage({
+        start: new Date(2026, 0, 1).getTime(),
+        end: new Date(2026, 1, 1).getTime(),
+        bucket: 'day',
+      });
+
+      expect(series.points.map(p => [p.bucketStart, p.requestCount])).toEqual([
+        [new Date(2026, 0, 5).getTime(), 2],
+        [new Date(2026, 0, 6).getTime(), 1],
+      ]);
+      expect(series.totalCost).toBeGreaterThan(0);
+    });
+
+    it('should split a range into hour buckets', () => {
+      logAt(new Date(2026, 0, 5, 10, 15));
+      logAt(new Date(2026, 0, 5, 10, 45));
+      logAt(new Date(2026, 0, 5, 11, 5));
+
+      const series = tracker.queryUsage({
+        start: new Date(2026, 0, 5).getTime(),
+        end: new Date(2026, 0, 6).getTime(),
+        bucket: 'hour',
+      });
+
+      expect(series.points.map(p => [p.bucketStart, p.requestCount])).toEqual([
+        [new Date(2026, 0, 5, 10).getTime(), 2],
+        [new Date(2026, 0, 5, 11).getTime(), 1],
+      ]);
+    });
+
+    it('should start week buckets on Monday', () => {
+      logAt(new Date(2026, 0, 4, 12));   // Sunday
+      logAt(new Date(2026, 0, 5, 12));   // Monday
+      logAt(new Date(2026, 0, 11, 12));  // Sunday of the same week
+
+      const series = tracker.queryUsage({
+        start: new Date(2026, 0, 1).getTime(),
+        end: new Date(2026, 1, 1).getTime(),
+        bucket: 'week',
+      });
+
+      expect(series.points.map(p => [p.bucketStart, p.requestCount])).toEqual([
+        [new Date(2025, 11, 29).getTime(), 1],
+        [new Date(2026, 0, 5).getTime(), 2],
+      ]);
+    });
+
+    it('should split month buckets per provider and model', () => {
+      logAt(new Date(2026, 0, 20), 'gpt-4o', 100);
+      logAt(new Date(2026, 0, 21), 'gpt-4o-mini', 200);
+      logAt(new Date(2026, 1, 3), 'gpt-4o', 300);
+
+      const series = tracker.queryUsage({
+        start: new Date(2026, 0, 1).getTime(),
+        end: new Date(2026, 2, 1).getTime(),
+        bucket: 'month',
+      });
+
+      expect(series.points.map(p => [p.bucketStart, p.model, p.totalInputTokens])).toEqual([
+        [new Date(2026, 0, 1).getTime(), 'gpt-4o', 100],
+        [new Date(2026, 0, 1).getTime(), 'gpt-4o-mini', 200],
+        [new Date(2026, 1, 1).getTime(), 'gpt-4o', 300],
+      ]);
+    });
+
+    it('should treat the end of the range as exclusive', () => {
+      logAt(new Date(2026, 0, 5, 10));
+      logAt(new Date(2026, 0, 6, 0));
+
+      const series = tracker.queryUsage({
+        start: new Date(2026, 0, 5).getTime(),
+        end: new Date(2026, 0, 6).getTime(),
+        bucket: 'day',
+      });
+
+      expect(series.points).toHaveLength(1);
+    });
+
+    it('should answer from the rollups once raw rows are pruned', () => {
+      const day = 24 * 60 * 60 * 1000;
+      tracker.logRequest({
+        timestamp: Date.now() - 10 * day,
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        inputTokens: 1000,
+        outputTokens: 100,
+        source: 'api',
+      });
+      tracker.cleanupOldData(2);
+
+      const range = { start: Date.now() - 14 * day, end: Date.now() };
+      const series = tracker.queryUsage({ ...range, bucket: 'day' });
+      expect(series.points).toHaveLength(1);
+      expect(series.points[0].totalInputTokens).toBe(1000);
+
+      expect(() => tracker.queryUsage({ ...range, bucket: 'hour' })).toThrow(/Hourly usage/);
+    });
+
+    it('should reject an empty range or an unknown bucket', () => {
+      const now = Date.now();
+      expect(() => tracker.queryUsage({ start: now, end: now, bucket: 'day' })).toThrow();
+      expect(() => tracker.queryUsage({ start: now - 1000, end: now, bucket: 'year' as 'day' })).toThrow(/bucket/);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Rollups
+  // --------------------------------------------------------------------------
+
+  describe('rollups', () => {
+    it('should aggregate inserts into daily and monthly rollups', () => {
+      const now = Date.now();
+      for (let i = 0; i < 3; i++) {
+        tracker.logRequest({
+          timestamp: now - i,
+          provider: 'openai',
+          model: 'gpt-4o',
+          inputTokens: 100,
+          outputTokens: 10,
+          source: 'api',
+        });
+      }
+      tracker.logRequest({
+        timestamp: now - 10,
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 100,
+        outputTokens: 10,
+        source: 'discord',
+      });
+
+      const db = new Database(dbPath, { readonly: true });
+      try {
+        const daily = db.prepare('SELECT source, request_count, input_tokens FROM ai_usage_daily ORDER BY source').all();
+        expect(daily).toEqual([
+          { source: 'api', request_count: 3, input_tokens: 300 },
+          { source: 'discord', request_count: 1, input_tokens: 100 },
+        ]);
+        const monthly = db.prepare('SELECT SUM(request_count) as n FROM ai_usage_monthly').get() as { n: number };
+        expect(monthly.n).toBe(4);
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should not count duplicate inserts in the rollups', () => {
+      const entry = {
+        timestamp: Date.now(),
+        provider: 'anthropic' as const,
+        model: 'claude-sonnet-4-5',
+        inputTokens: 100,
+        outputTokens: 50,
+        source: 'api' as const,
+      };
+      tracker.logRequest(entry);
+      tracker.logRequest(entry);
+
+      expect(countRows(dbPath, 'ai_usage_daily')).toBe(1);
+      tracker.cleanupOldData(0);
+      expect(tracker.getUsageSummary('week').providers[0].requestCount).toBe(1);
+    });
+
+    it('should keep totals identical after raw rows are pruned', () => {
+      const now = Date.now();
+      const day = 24 * 60 * 60 * 1000;
+      for (let i = 1; i <= 5; i++) {
+        tracker.logRequest({
+          timestamp: now - i * day,
+          provider: 'anthropic',
+          model: 'claude-haiku-4-5',
+          inputTokens: 1000 * i,
+          outputTokens: 100,
+          source: 'claude-code',
+        });
+      }
+
+      const before = tracker.getUsageSummary('week');
+      tracker.cleanupOldData(1);
+      const after = tracker.getUsageSummary('week');
+
+      expect(after.providers).toEqual(before.providers);
+    });
+
+    it('should backfill rollups for a database created before them', () => {
+      tracker.logRequest({
+        timestamp: Date.now(),
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 500,
+        outputTokens: 50,
+        source: 'api',
+      });
+      tracker.close();
+
+      // Simulate a pre-rollup database
+      const db = new Database(dbPath);
+      db.exec('DROP TABLE ai_usage_daily; DROP TABLE ai_usage_monthly; DELETE FROM schema_migrations WHERE version = 5;');
+      db.close();
+
+      tracker = new AiUsageTracker(dbPath);
+      expect(countRows(dbPath, 'ai_usage_daily')).toBe(1);
+      expect(countRows(dbPath, 'ai_usage_monthly')).toBe(1);
+    });
+
+    it('should keep pruned history when rebuilding rollups', () => {
+      const day = 24 * 60 * 60 * 1000;
+      tracker.logRequest({
+        timestamp: Date.now() - 5 * day,
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 700,
+        outputTokens: 70,
+        source: 'api',
+      });
+      tracker.logRequest({
+        timestamp: Date.now(),
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 300,
+        outputTokens: 30,
+        source: 'api',
+      });
+      tracker.cleanupOldData(2);
+
+      tracker.rebuildRollups();
+
+      const summary = tracker.getUsageSummary('week');
+      expect(summary.providers[0].totalInputTokens).toBe(1000);
+      expect(summary.providers[0].requestCount).toBe(2);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Repricing
+  // --------------------------------------------------------------------------
+
+  describe('reprice()', () => {
+    /** Log one estimated gpt-4o request ($2.50 at current pricing) and one reported Claude request */
+    function logMixedRequests(): void {
+      tracker.logRequest({
+        timestamp: Date.now(),
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 1_000_000,
+        outputTokens: 0,
+        source: 'api',
+      });
+      tracker.logRequest({
+        timestamp: Date.now(),
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        inputTokens: 1000,
+        outputTokens: 100,
+        source: 'claude-code',
+      }, 0.42);
+    }
+
+    /** Simulate rows costed with an older gpt-4o price ($10 instead of $2.50) */
+    function makeGpt4oStale(): void {
+      tracker.close();
+      const db = new Database(dbPath);
+      db.exec(`
+        UPDATE ai_requests SET estimated_cost = 10, pricing_version = 'old' WHERE model = 'gpt-4o';
+        UPDATE ai_usage_daily SET estimated_cost = 10 WHERE model = 'gpt-4o';
+        UPDATE ai_usage_monthly SET estimated_cost = 10 WHERE model = 'gpt-4o';
+        DELETE FROM ai_usage_meta WHERE key = 'pricing_version';
+      `);
+      db.close();
+    }
+
+    it('should record the cost source and pricing version of each row', () => {
+      logMixedRequests();
+
+      const db = new Database(dbPath, { readonly: true });
+      try {
+        const rows = db.prepare('SELECT model, cost_source, pricing_version FROM ai_requests ORDER BY model').all() as
+          Array<{ model: string; cost_source: string; pricing_version: string | null }>;
+        expect(rows[0]).toEqual({ model: 'claude-sonnet-4-5', cost_source: 'reported', pricing_version: null });
+        expect(rows[1].cost_source).toBe('estimated');
+        expect(rows[1].pricing_version).toMatch(/^[0-9a-f]{12}$/);
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should do nothing when pricing has not changed', () => {
+      logMixedRequests();
+      expect(tracker.reprice()).toEqual({ models: [], repricedRows: 0 });
+    });
+
+    it('should reprice rows with a stale pricing version on startup', () => {
+      logMixedRequests();
+      makeGpt4oStale();
+
+      tracker = new AiUsageTracker(dbPath);
+      const openai = tracker.getUsageSummary('today').providers.find(p => p.provider === 'openai')!;
+      expect(openai.totalCost).toBeCloseTo(2.5, 10);
+
+      // Rollups were rebuilt from the corrected rows
+      const db = new Database(dbPath, { readonly: true });
+      try {
+        const daily = db.prepare("SELECT estimated_cost FROM ai_usage_daily WHERE model = 'gpt-4o'").get();
+        expect(daily).toEqual({ estimated_cost: 2.5 });
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should never reprice costs reported by the source', () => {
+      logMixedRequests();
+
+      const result = tracker.reprice(['claude-sonnet-4-5', 'gpt-4o']);
+
+      expect(result.repricedRows).toBe(0);
+      const anthropic = tracker.getUsageSummary('today').providers.find(p => p.provider === 'anthropic')!;
+      expect(anthropic.totalCost).toBe(0.42);
+    });
+
+    it('should recompute forced models even when their version is current', () => {
+      logMixedRequests();
+      tracker.close();
+      const db = new Database(dbPath);
+      db.exec("UPDATE ai_requests SET estimated_cost = 7 WHERE model = 'gpt-4o'");
+      db.close();
+      tracker = new AiUsageTracker(dbPath);
+
+      expect(tracker.reprice()).toEqual({ models: [], repricedRows: 0 });
+      expect(tracker.reprice(['gpt-4o'])).toEqual({ models: ['gpt-4o'], repricedRows: 1 });
+      const openai = tracker.getUsageSummary('today').providers.find(p => p.provider === 'openai')!;
+      expect(openai.totalCost).toBeCloseTo(2.5, 10);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Unpriced models
+  // --------------------------------------------------------------------------
+
+  describe('unpriced models', () => {
+    /** Log a request for a model the pricing table doesn't know */
+    function logMystery(timestamp: number, inputTokens: number): void {
+      tracker.logRequest({
+        timestamp,
+        provider: 'openai',
+        model: 'mystery-model',
+        inputTokens,
+        outputTokens: 10,
+        source: 'api',
+      });
+    }
+
+    it('should list models without a price with their token totals', () => {
+      const now = Date.now();
+      logMystery(now - 2, 100);
+      logMystery(now - 1, 200);
+      tracker.logRequest({
+        timestamp: now,
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 100,
+        outputTokens: 10,
+        source: 'api',
+      });
+
+      const expected = {
+        provider: 'openai',
+        model: 'mystery-model',
+        requestCount: 2,
+        totalInputTokens: 300,
+        totalOutputTokens: 20,
+        totalCacheReadInputTokens: 0,
+        totalCacheCreationInputTokens: 0,
+        firstSeen: now - 2,
+        lastSeen: now - 1,
+      };
+      expect(tracker.getUsageSummary('today').unpriced).toEqual([expected]);
+      expect(tracker.getUnpricedModels()).toEqual([expected]);
+    });
+
+    it('should not list unknown models whose cost was reported by the source', () => {
+      tracker.logRequest({
+        timestamp: Date.now(),
+        provider: 'anthropic',
+        model: 'claude-future-9',
+        inputTokens: 100,
+        outputTokens: 10,
+        source: 'claude-code',
+      }, 0.05);
+
+      expect(tracker.getUsageSummary('today').unpriced).toEqual([]);
+      expect(tracker.getUnpricedModels()).toEqual([]);
+    });
+
+    it('should drop a model from the lists once it has a price', () => {
+      logMystery(Date.now(), 1_000_000);
+
+      tracker.setPricingOverrides({ 'mystery-model': { inputCostPer1M: 1, outputCostPer1M: 1 } });
+
+      expect(tracker.getUsageSummary('today').unpriced).toEqual([]);
+      expect(tracker.getUnpricedModels()).toEqual([]);
+      expect(tracker.getUsageSummary('today').totalCostToday).toBeCloseTo(1, 2);
+    });
+
+    it('should remember unpriced models after their raw rows are pruned', () => {
+      const day = 24 * 60 * 60 * 1000;
+      logMystery(Date.now() - 3 * day, 100);
+      tracker.cleanupOldData(1);
+
+      expect(countRows(dbPath, 'ai_requests')).toBe(0);
+      expect(tracker.getUnpricedModels().map(m => m.model)).toEqual(['mystery-model']);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Price overrides
+  // --------------------------------------------------------------------------
+
+  describe('price overrides', () => {
+    it('should cost models that only exist in the overrides', () => {
+      tracker.close();
+      tracker = new AiUsageTracker(dbPath, {
+        pricing: { 'acme-large': { inputCostPer1M: 4, outputCostPer1M: 20 } },
+      });
+
+      tracker.logRequest({
+        timestamp: Date.now(),
+        provider: 'openai',
+        model: 'acme-large',
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+        source: 'api',
+      });
+
+      expect(tracker.getUsageSummary('today').totalCostToday).toBeCloseTo(6, 10);
+    });
+
+    it('should reprice existing rows when overrides change', () => {
+      tracker.logRequest({
+        timestamp: Date.now(),
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 1_000_000,
+        outputTokens: 0,
+        source: 'api',
+      });
+
+      const result = tracker.setPricingOverrides({ 'gpt-4o': { inputCostPer1M: 2, outputCostPer1M: 8 } });
+      expect(result).toEqual({ models: ['gpt-4o'], repricedRows: 1 });
+      expect(tracker.getUsageSummary('today').totalCostToday).toBeCloseTo(2, 10);
+
+      // Removing the override goes back to the built-in price
+      tracker.setPricingOverrides({});
+      expect(tracker.getUsageSummary('today').totalCostToday).toBeCloseTo(2.5, 10);
+    });
+
+    it('should reprice rows when an override is added before a restart', () => {
+      tracker.logRequest({
+        timestamp: Date.now(),
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputTokens: 1_000_000,
+        outputTokens: 0,
+        source: 'api',
+      });
+      tracker.close();
+
+      tracker = new AiUsageTracker(dbPath, {
+        pricing: { 'gpt-4o': { inputCostPer1M: 1, outputCostPer1M: 4 } },
+      });
+
+      expect(tracker.getUsageSummary('today').totalCostToday).toBeCloseTo(1, 10);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Project and session attribution
+  // --------------------------------------------------------------------------
+
+  describe('project and session attribution', () => {
+    /** Log a Claude Code request with a reported cost */
+    function logClaude(timestamp: number, sessionId: string | undefined, projectPath: string | undefined, cost: number, model = 'claude-sonnet-4-5'): void {
+      tracker.logRequest({
+        timestamp,
+        provider: 'anthropic',
+        model,
+        inputTokens: 100,
+        outputTokens: 10,
+        source: 'claude-code',
+        sessionId,
+        projectPath,
+      }, cost);
+    }
+
+    it('should group usage by project, most expensive first', () => {
+      const now = Date.now();
+      logClaude(now - 3, 's1', '/repo/a', 0.1);
+      logClaude(now - 2, 's2', '/repo/a', 0.2);
+      logClaude(now - 1, 's3', '/repo/b', 0.5);
+      logClaude(now, undefined, undefined, 0.01);
+
+      const projects = tracker.getUsageByProject('today');
+
+      expect(projects.map(p => [p.projectPath, p.sessionCount, p.requestCount])).toEqual([
+        ['/repo/b', 1, 1],
+        ['/repo/a', 2, 2],
+        [null, 0, 1],
+      ]);
+      expect(projects[1].totalCost).toBeCloseTo(0.3, 10);
+      expect(projects[1].totalInputTokens).toBe(200);
+      expect(projects[1].lastActivity).toBe(now - 2);
+    });
+
+    it('should group usage by session with the models used', () => {
+      const now = Date.now();
+      logClaude(now - 5, 's1', '/repo/a', 0.1, 'claude-haiku-4-5');
+      logClaude(now - 4, 's1', '/repo/a', 0.4, 'claude-opus-4-6');
+      logClaude(now - 3, 's2', '/repo/b', 0.2);
+      logClaude(now - 2, undefined, '/repo/b', 0.2);
+
+      const sessions = tracker.getUsageBySession('today');
+
+      expect(sessions.map(s => s.sessionId)).toEqual(['s2', 's1']);
+      expect(sessions[1]).toMatchObject({
+        projectPath: '/repo/a',
+        models: ['claude-opus-4-6', 'claude-haiku-4-5'],
+        requestCount: 2,
+        firstActivity: now - 5,
+        lastActivity: now - 4,
+      });
+      expect(sessions[1].totalCost).toBeCloseTo(0.5, 10);
+
+      expect(tracker.getUsageBySession('today', { projectPath: '/repo/a' }).map(s => s.sessionId)).toEqual(['s1']);
+      expect(tracker.getUsageBySession('today', { limit: 1 }).map(s => s.sessionId)).toEqual(['s2']);
+    });
+
+    it('should fill in attribution when a known request is logged again', () => {
+      const now = Date.now();
+      logClaude(now, undefined, undefined, 0.1);
+      logClaude(now, 's1', '/repo/a', 0.1);
+
+      expect(countRows(dbPath, 'ai_requests')).toBe(1);
+      expect(tracker.getUsageByProject('today').map(p => p.projectPath)).toEqual(['/repo/a']);
+      expect(tracker.getUsageBySession('today').map(s => s.sessionId)).toEqual(['s1']);
+      // The rollups must not count the duplicate
+      expect(tracker.getUsageSummary('today').totalCostToday).toBeCloseTo(0.1, 10);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Scanner registry
+  // --------------------------------------------------------------------------
+
+  describe('scanner registry', () => {
+    /** Disable every built-in scanner so tests never read the real home dir */
+    const builtinsOff = { 'claude-code': false, codex: false, 'gemini-cli': false };
+
+    /** A third-party scanner that returns a fixed set of records once */
+    class FakeScanner implements UsageLogScanner {
+      readonly id = 'fake-tool';
+      constructor(private records: UsageLogRecord[]) {}
+      scanUsage(): UsageLogRecord[] {
+        const out = this.records;
+        this.records = [];
+        return out;
+      }
+      clearCache(): void { /* nothing cached */ }
+    }
+
+    afterEach(() => {
+      unregisterUsageLogScanner('fake-tool');
+    });
+
+    it('should register the built-in scanners', () => {
+      expect(getRegisteredUsageLogScanners()).toEqual(
+        expect.arrayContaining(['claude-code', 'codex', 'gemini-cli']),
+      );
+    });
+
+    it('should run registered third-party scanners in scanLocalLogs()', () => {
+      registerUsageLogScanner('fake-tool', () => new FakeScanner([{
+        timestamp: Date.now(),
+        provider: 'other',
+        model: 'in-house-model',
+        inputTokens: 10,
+        outputTokens: 5,
+        source: 'other',
+        preCalculatedCost: 0.42,
+      }]));
+
+      const scanTracker = new AiUsageTracker(tempDbPath(), { scanners: builtinsOff });
+      try {
+        expect(scanTracker.getScannerIds()).toEqual(['fake-tool']);
+        expect(scanTracker.scanLocalLogs()).toBe(1);
+
+        const summary = scanTracker.getUsageSummary('today');
+        expect(summary.providers[0].models[0].model).toBe('in-house-model');
+        expect(summary.totalCostToday).toBe(0.42);
+      } finally {
+        scanTracker.close();
+      }
+    });
+
+    it('should count only rows actually inserted', () => {
+      const record: UsageLogRecord = {
+        timestamp: Date.now(),
+        provider: 'other',
+        model: 'in-house-model',
+        inputTokens: 10,
+        outputTokens: 5,
+        source: 'other',
+      };
+      // A scanner that re-reports the same record on every pass
+      registerUsageLogScanner('fake-tool', () => ({
+        id: 'fake-tool',
+        scanUsage: () => [record],
+        clearCache: () => {},
+      }));
+
+      const scanTracker = new AiUsageTracker(tempDbPath(), { scanners: builtinsOff });
+      try {
+        expect(scanTracker.scanLocalLogs()).toBe(1);
+        expect(scanTracker.scanLocalLogs()).toBe(0);
+      } finally {
+        scanTracker.close();
+      }
+    });
+
+    it('should collect the watch roots of enabled scanners', () => {
+      registerUsageLogScanner('fake-tool', () => ({
+        id: 'fake-tool',
+        scanUsage: () => [],
+        clearCache: () => {},
+        getWatchRoots: () => ['/tmp/fake-tool/logs', '/tmp/fake-tool/logs'],
+      }));
+
+      const scanTracker = new AiUsageTracker(tempDbPath(), { scanners: builtinsOff });
+      try {
+        expect(scanTracker.getWatchRoots()).toEqual(['/tmp/fake-tool/logs']);
+      } finally {
+        scanTracker.close();
+      }
+    });
+
+    it('should skip scanners disabled in the config', () => {
+      registerUsageLogScanner('fake-tool', () => new FakeScanner([]));
+
+      const scanTracker = new AiUsageTracker(tempDbPath(), {
+        scanners: { ...builtinsOff, 'fake-tool': false },
+      });
+      try {
+        expect(scanTracker.getScannerIds()).toEqual([]);
+        expect(scanTracker.scanLocalLogs()).toBe(0);
+      } finally {
+        scanTracker.close();
+      }
+    });
+
+    it('should keep scanning when one scanner throws', () => {
+      registerUsageLogScanner('broken-tool', () => ({
+        id: 'broken-tool',
+        scanUsage: () => { throw new Error('boom'); },
+        clearCache: () => {},
+      }));
+      registerUsageLogScanner('fake-tool', () => new FakeScanner([{
+        timestamp: Date.now(),
+        provider: 'other',
+        model: 'in-house-model',
+        inputTokens: 1,
+        outputTokens: 1,
+        source: 'other',
+      }]));
+
+      const scanTracker = new AiUsageTracker(tempDbPath(), { scanners: builtinsOff });
+      try {
+        expect(scanTracker.scanLocalLogs()).toBe(1);
+      } finally {
+        scanTracker.close();
+        unregisterUsageLogScanner('broken-tool');
+      }
+    });
+
+    it('should reload a failed scanner\'s stored state instead of clearing it', () => {
+      const calls: string[] = [];
+      registerUsageLogScanner('broken-tool', () => ({
+        id: 'broken-tool',
+        scanUsage: () => { throw new Error('boom'); },
+        clearCache: () => calls.push('clearCache'),
+        reloadState: () => calls.push('reloadState'),
+      }));
+
+      const scanTracker = new AiUsageTracker(tempDbPath(), { scanners: builtinsOff });
+      try {
+        scanTracker.scanLocalLogs();
+        expect(calls).toEqual(['reloadState']);
+      } finally {
+        scanTracker.close();
+        unregisterUsageLogScanner('broken-tool');
+      }
+    });
   });
 });
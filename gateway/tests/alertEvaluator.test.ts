@@ -0,0 +1,284 @@
+// ============================================================================
+// Tests for AlertEvaluator
+// Verifies metric path resolution against a StatusMessage, the listed
+// metric paths, that rules fire only after their duration, once per episode
+// or again after their cooldown (also when the metric flaps around the
+// threshold), that reloading rules keeps unchanged state, snoozing, the
+// acknowledgeable history, and validation of the alerts config section.
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { AlertEvaluator, METRIC_PATHS, parseAlertRules, resolveMetric } from '../src/alertEvaluator.js';
+import type { AlertRule, StatusMessage } from '../src/types.js';
+
+/** A status message with the given CPU usage and OpenClaw state */
+function status(cpuUsage: number, isRunning: boolean = true): StatusMessage {
+  return {
+    type: 'status',
+    deviceToken: 'test-token',
+    timestamp: new Date(0).toISOString(),
+    version: 1,
+    hostname: 'test-host',
+    system: {
+      cpu: { usage: cpuUsage, cores: 2, perCore: [cpuUsage, 20] },
+      memory: { usagePercent: 25, usedGB: 4, totalGB: 16 },
+      disk: { usagePercent: 20, usedGB: 100, totalGB: 500 },
+      temperature: { cpu: 55 },
+      network: { uploadMBps: 0.5, downloadMBps: 2 },
+      uptime: 3600,
+    },
+    // Only the fields the tests read
+    openclaw: { isRunning, status: isRunning ? 'running' : 'stopped' } as StatusMessage['openclaw'],
+    aiUsage: { period: 'today', providers: [], totalCostToday: 1.5, totalCostThisMonth: 20 },
+  };
+}
+
+/** A rule on CPU usage above 90%, overridden field by field */
+function rule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 'cpu-high',
+    name: 'High CPU Usage',
+    enabled: true,
+    metric: 'system.cpu.usage',
+    operator: 'gt',
+    threshold: 90,
+    durationSeconds: 30,
+    severity: 'warning',
+    ...overrides,
+  };
+}
+
+const SECOND = 1000;
+
+// --------------------------------------------------------------------------
+// Metric paths
+// --------------------------------------------------------------------------
+
+describe('resolveMetric', () => {
+  it('should resolve nested and indexed paths', () => {
+    expect(resolveMetric(status(42), 'system.cpu.usage')).toBe(42);
+    expect(resolveMetric(status(42), 'system.cpu.perCore.1')).toBe(20);
+    expect(resolveMetric(status(42), 'aiUsage.totalCostToday')).toBe(1.5);
+  });
+
+  it('should count booleans as 1 and 0', () => {
+    expect(resolveMetric(status(42, true), 'openclaw.isRunning')).toBe(1);
+    expect(resolveMetric(status(42, false), 'openclaw.isRunning')).toBe(0);
+  });
+
+  it('should not resolve missing or non-numeric values', () => {
+    expect(resolveMetric(status(42), 'system.gpu.usage')).toBeUndefined();
+    expect(resolveMetric(status(42), 'openclaw.status')).toBeUndefined();
+    expect(resolveMetric(status(42), 'system.cpu')).toBeUndefined();
+  });
+});
+
+describe('METRIC_PATHS', () => {
+  it('should list optional sections but no array indices', () => {
+    expect(METRIC_PATHS).toContain('system.cpu.usage');
+    expect(METRIC_PATHS).toContain('openclaw.isRunning');
+    expect(METRIC_PATHS).toContain('aiUsage.budget.total.used');
+    expect(METRIC_PATHS).toContain('aiUsage.forecast.projectedMonthEnd');
+    expect(METRIC_PATHS).not.toContain('version');
+    expect(METRIC_PATHS.some((path) => /\.\d+(\.|$)/.test(path))).toBe(false);
+  });
+
+  it('should only list paths that resolve in a full status', () => {
+    const snapshot = { used: 12, limit: 100, currencyCode: 'USD', period: 'Monthly' };
+    const full: StatusMessage = {
+      ...status(42),
+      openclaw: {
+        version: '1.0.0',
+        status: 'running',
+        isRunning: true,
+        uptime: 60,
+        sessions: { active: 1, total: 3 },
+        context: { used: 1000, limit: 200000 },
+        tokens: { input: 500, output: 200 },
+        channels: {},
+        agents: [],
+      },
+      aiUsage: {
+        ...status(42).aiUsage,
+        budget: { total: snapshot, providers: {}, projects: {} },
+        forecast: {
+          burnRatePerHour: 0.5,
+          burnRateWindowHours: 24,
+          monthToDate: 12,
+          projectedMonthEnd: 40,
+          projectedMonthEndLow: 30,
+          projectedMonthEndHigh: 50,
+          daysUntilBudgetExhausted: 7,
+          historyDays: 14,
+        },
+      },
+    };
+
+    for (const path of METRIC_PATHS) {
+      expect(resolveMetric(full, path), path).toBeTypeOf('number');
+    }
+  });
+});
+
+// --------------------------------------------------------------------------
+// Evaluation
+// --------------------------------------------------------------------------
+
+describe('AlertEvaluator', () => {
+  it('should fire once the condition has held for the duration', () => {
+    const evaluator = new AlertEvaluator([rule()]);
+
+    expect(evaluator.evaluate(status(95), 0)).toEqual([]);
+    expect(evaluator.evaluate(status(95), 29 * SECOND)).toEqual([]);
+
+    const [alert] = evaluator.evaluate(status(97), 30 * SECOND);
+    expect(alert).toMatchObject({
+      ruleId: 'cpu-high',
+      ruleName: 'High CPU Usage',
+      severity: 'warning',
+      currentValue: 97,
+      threshold: 90,
+      triggeredAt: new Date(30 * SECOND).toISOString(),
+      acknowledged: false,
+    });
+    expect(alert.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should restart the duration when the condition clears', () => {
+    const evaluator = new AlertEvaluator([rule()]);
+
+    evaluator.evaluate(status(95), 0);
+    evaluator.evaluate(status(50), 20 * SECOND);
+    expect(evaluator.evaluate(status(95), 40 * SECOND)).toEqual([]);
+    expect(evaluator.evaluate(status(95), 70 * SECOND)).toHaveLength(1);
+  });
+
+  it('should fire immediately with a zero duration', () => {
+    const evaluator = new AlertEvaluator([rule({ durationSeconds: 0, operator: 'lte', threshold: 10 })]);
+    expect(evaluator.evaluate(status(10), 0)).toHaveLength(1);
+  });
+
+  it('should fire once per episode without a cooldown', () => {
+    const evaluator = new AlertEvaluator([rule({ durationSeconds: 0 })]);
+
+    expect(evaluator.evaluate(status(95), 0)).toHaveLength(1);
+    expect(evaluator.evaluate(status(95), 3600 * SECOND)).toEqual([]);
+
+    evaluator.evaluate(status(50), 3601 * SECOND);
+    expect(evaluator.evaluate(status(95), 3602 * SECOND)).toHaveLength(1);
+  });
+
+  it('should fire again after the cooldown while the condition holds', () => {
+    const evaluator = new AlertEvaluator([rule({ durationSeconds: 0, cooldownSeconds: 60 })]);
+
+    expect(evaluator.evaluate(status(95), 0)).toHaveLength(1);
+    expect(evaluator.evaluate(status(95), 59 * SECOND)).toEqual([]);
+    expect(evaluator.evaluate(status(95), 60 * SECOND)).toHaveLength(1);
+  });
+
+  it('should apply the cooldown when a flapping metric comes back', () => {
+    const evaluator = new AlertEvaluator([rule({ durationSeconds: 0, cooldownSeconds: 60 })]);
+
+    expect(evaluator.evaluate(status(95), 0)).toHaveLength(1);
+    evaluator.evaluate(status(85), 10 * SECOND);
+    expect(evaluator.evaluate(status(95), 20 * SECOND)).toEqual([]);
+    evaluator.evaluate(status(85), 30 * SECOND);
+    expect(evaluator.evaluate(status(95), 40 * SECOND)).toEqual([]);
+
+    evaluator.evaluate(status(85), 50 * SECOND);
+    expect(evaluator.evaluate(status(95), 60 * SECOND)).toHaveLength(1);
+  });
+
+  it('should skip disabled rules and unresolvable metrics', () => {
+    const evaluator = new AlertEvaluator([
+      rule({ id: 'off', enabled: false, durationSeconds: 0 }),
+      rule({ id: 'gpu', metric: 'system.gpu.usage', durationSeconds: 0 }),
+    ]);
+    expect(evaluator.evaluate(status(95), 0)).toEqual([]);
+  });
+
+  it('should keep the state of unchanged rules across setRules()', () => {
+    const evaluator = new AlertEvaluator([rule()]);
+    evaluator.evaluate(status(95), 0);
+
+    evaluator.setRules([rule(), rule({ id: 'cpu-critical', threshold: 94, severity: 'critical' })]);
+    const fired = evaluator.evaluate(status(95), 30 * SECOND);
+    expect(fired.map((alert) => alert.ruleId)).toEqual(['cpu-high']);
+
+    // A changed threshold starts the rule over
+    evaluator.setRules([rule({ threshold: 80 })]);
+    expect(evaluator.evaluate(status(95), 31 * SECOND)).toEqual([]);
+    expect(evaluator.getRules()[0].threshold).toBe(80);
+  });
+
+  it('should hold a snoozed rule back until the snooze ends', () => {
+    const evaluator = new AlertEvaluator([rule({ durationSeconds: 0 })]);
+    evaluator.snooze('cpu-high', 60 * SECOND);
+
+    expect(evaluator.evaluate(status(95), 0)).toEqual([]);
+    expect(evaluator.evaluate(status(95), 59 * SECOND)).toEqual([]);
+    expect(evaluator.evaluate(status(95), 60 * SECOND)).toHaveLength(1);
+  });
+
+  it('should keep recent notifications, newest first, for acknowledgement', () => {
+    const evaluator = new AlertEvaluator([rule({ durationSeconds: 0, cooldownSeconds: 0 })]);
+    const [first] = evaluator.evaluate(status(95), 0);
+    const [second] = evaluator.evaluate(status(96), SECOND);
+
+    expect(evaluator.getHistory().map((n) => n.id)).toEqual([second.id, first.id]);
+
+    expect(evaluator.acknowledge(first.id)).toMatchObject({ id: first.id, acknowledged: true });
+    expect(evaluator.getHistory().map((n) => n.acknowledged)).toEqual([false, true]);
+    expect(evaluator.acknowledge('unknown')).toBeNull();
+  });
+});
+
+// --------------------------------------------------------------------------
+// Config validation
+// --------------------------------------------------------------------------
+
+describe('parseAlertRules', () => {
+  it('should accept valid rules and fill in defaults', () => {
+    const { rules, errors } = parseAlertRules([
+      { ...rule(), cooldownSeconds: 300 },
+      { id: 'offline', name: 'OpenClaw offline', metric: 'openclaw.isRunning', operator: 'eq', threshold: 0, severity: 'critical' },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { ...rule(), cooldownSeconds: 300 },
+      {
+        id: 'offline',
+        name: 'OpenClaw offline',
+        enabled: true,
+        metric: 'openclaw.isRunning',
+        operator: 'eq',
+        threshold: 0,
+        durationSeconds: 0,
+        severity: 'critical',
+      },
+    ]);
+  });
+
+  it('should treat a missing section as no rules', () => {
+    expect(parseAlertRules(undefined)).toEqual({ rules: [], errors: [] });
+    expect(parseAlertRules({})).toEqual({ rules: [], errors: ['alerts must be an array of rules'] });
+  });
+
+  it('should drop invalid and duplicate rules and keep the rest', () => {
+    const { rules, errors } = parseAlertRules([
+      rule(),
+      rule({ name: 'Duplicate' }),
+      { ...rule({ id: 'bad' }), operator: 'above', threshold: '90' },
+      'cpu > 90',
+    ]);
+
+    expect(rules.map((r) => r.id)).toEqual(['cpu-high']);
+    expect(errors).toEqual([
+      'alerts[1].id: duplicate rule id "cpu-high"',
+      'alerts[2].operator: expected one of gt, gte, lt, lte, eq, neq',
+      'alerts[2].threshold: expected a number',
+      'alerts[3]: expected an object',
+    ]);
+  });
+});
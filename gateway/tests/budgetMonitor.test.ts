@@ -0,0 +1,197 @@
+// ============================================================================
+// Tests for BudgetMonitor
+// Verifies month-to-date cost snapshots per provider and project, that each
+// warning threshold of a budget fires once per month, also across restarts,
+// and validation of the budgets config section. Uses a temporary SQLite database file per test.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { AiUsageTracker } from '../src/aiUsageTracker.js';
+import { BudgetMonitor, parseBudgetConfig } from '../src/budgetMonitor.js';
+import type { AiProvider } from '../src/types.js';
+
+/** Generate a unique temp DB path for each test */
+function tempDbPath(): string {
+  return path.join(os.tmpdir(), `openclaw-budget-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+}
+
+describe('BudgetMonitor', () => {
+  let tracker: AiUsageTracker;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = tempDbPath();
+    tracker = new AiUsageTracker(dbPath);
+  });
+
+  afterEach(() => {
+    tracker.close();
+    try { fs.unlinkSync(dbPath); } catch { /* ignore */ }
+    try { fs.unlinkSync(dbPath + '-wal'); } catch { /* ignore */ }
+    try { fs.unlinkSync(dbPath + '-shm'); } catch { /* ignore */ }
+  });
+
+  let requestCount = 0;
+
+  /** Log a request with a fixed cost, made now */
+  function spend(provider: AiProvider, cost: number, projectPath?: string): void {
+    tracker.logRequest({
+      timestamp: Date.now() - requestCount,
+      provider,
+      model: provider === 'openai' ? 'gpt-5' : 'claude-sonnet-4-5',
+      inputTokens: 100 + requestCount++,
+      outputTokens: 10,
+      source: provider === 'openai' ? 'codex-cli' : 'claude-code',
+      projectPath,
+    }, cost);
+  }
+
+  // --------------------------------------------------------------------------
+  // Snapshots
+  // --------------------------------------------------------------------------
+
+  describe('snapshots', () => {
+    it('should report month-to-date spend for every provider', () => {
+      spend('anthropic', 12.5);
+      spend('openai', 3.25);
+
+      const { status } = new BudgetMonitor(tracker, { monthly: 100, providers: { anthropic: 50 } }).evaluate();
+
+      const now = new Date();
+      const resetsAt = new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
+      expect(status.total).toEqual({ used: 15.75, limit: 100, currencyCode: 'USD', period: 'Monthly', resetsAt });
+      expect(status.providers.anthropic).toMatchObject({ used: 12.5, limit: 50 });
+      expect(status.providers.openai).toMatchObject({ used: 3.25 });
+      expect(status.providers.openai.limit).toBeUndefined();
+      expect(status.projects).toEqual({});
+    });
+
+    it('should include budgeted providers and projects without spend', () => {
+      spend('anthropic', 2, '/repo/a');
+
+      const { status } = new BudgetMonitor(tracker, {
+        providers: { google: 10 },
+        projects: { '/repo/a': 5, '/repo/b': 5 },
+      }).evaluate();
+
+      expect(status.providers.google).toMatchObject({ used: 0, limit: 10 });
+      expect(status.projects['/repo/a']).toMatchObject({ used: 2, limit: 5 });
+      expect(status.projects['/repo/b']).toMatchObject({ used: 0, limit: 5 });
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Warnings
+  // --------------------------------------------------------------------------
+
+  describe('warnings', () => {
+    it('should warn once per threshold as spend grows', () => {
+      const monitor = new BudgetMonitor(tracker, { monthly: 10 });
+
+      spend('anthropic', 5);
+      expect(monitor.evaluate().warnings).toEqual([]);
+
+      spend('anthropic', 3.5);
+      const [warning] = monitor.evaluate().warnings;
+      expect(warning).toMatchObject({ scope: 'total', thresholdPercent: 80 });
+      expect(warning.message).toBe('Total AI spend reached 85% of the $10.00 monthly budget ($8.50 spent)');
+      expect(monitor.evaluate().warnings).toEqual([]);
+
+      spend('anthropic', 2);
+      expect(monitor.evaluate().warnings.map(w => w.thresholdPercent)).toEqual([100]);
+      expect(monitor.evaluate().warnings).toEqual([]);
+    });
+
+    it('should report only the highest threshold crossed at once', () => {
+      spend('openai', 30);
+
+      const warnings = new BudgetMonitor(tracker, {
+        providers: { openai: 20 },
+        warnAtPercent: [50, 75, 100],
+      }).evaluate().warnings;
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({ scope: 'provider', key: 'openai', thresholdPercent: 100 });
+    });
+
+    it('should warn about project budgets', () => {
+      spend('anthropic', 9, '/repo/a');
+      spend('anthropic', 9, '/repo/b');
+
+      const warnings = new BudgetMonitor(tracker, { projects: { '/repo/a': 10 } }).evaluate().warnings;
+
+      expect(warnings.map(w => [w.scope, w.key, w.thresholdPercent])).toEqual([['project', '/repo/a', 80]]);
+    });
+
+    it('should warn again when a changed limit is crossed', () => {
+      spend('anthropic', 9);
+      const monitor = new BudgetMonitor(tracker, { monthly: 10 });
+      expect(monitor.evaluate().warnings).toHaveLength(1);
+
+      monitor.setBudgets({ monthly: 20 });
+      expect(monitor.evaluate().warnings).toEqual([]);
+
+      spend('anthropic', 8);
+      expect(monitor.evaluate().warnings.map(w => w.thresholdPercent)).toEqual([80]);
+    });
+
+    it('should warn again in a new month', () => {
+      spend('anthropic', 9);
+      const monitor = new BudgetMonitor(tracker, { monthly: 10 });
+      const now = new Date();
+      expect(monitor.evaluate(now).warnings).toHaveLength(1);
+
+      const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+      expect(monitor.evaluate(nextMonth).warnings).toHaveLength(1);
+    });
+
+    it('should not warn again after a restart', () => {
+      spend('anthropic', 9);
+      expect(new BudgetMonitor(tracker, { monthly: 10 }).evaluate().warnings).toHaveLength(1);
+
+      tracker.close();
+      tracker = new AiUsageTracker(dbPath);
+      const restarted = new BudgetMonitor(tracker, { monthly: 10 });
+      expect(restarted.evaluate().warnings).toEqual([]);
+
+      spend('anthropic', 2);
+      expect(restarted.evaluate().warnings.map(w => w.thresholdPercent)).toEqual([100]);
+    });
+  });
+});
+
+describe('parseBudgetConfig', () => {
+  it('should accept a complete budgets section', () => {
+    const raw = {
+      monthly: 200,
+      providers: { anthropic: 150, openai: 50 },
+      projects: { '/Users/me/repo': 25 },
+      warnAtPercent: [50, 90],
+    };
+    expect(parseBudgetConfig(raw)).toEqual({ budgets: raw, errors: [] });
+  });
+
+  it('should treat a missing section as no budgets', () => {
+    expect(parseBudgetConfig(undefined)).toEqual({ budgets: {}, errors: [] });
+  });
+
+  it('should drop invalid amounts and keep the rest', () => {
+    const { budgets, errors } = parseBudgetConfig({
+      monthly: -5,
+      providers: { anthropic: 100, openai: '50' },
+      projects: [],
+      warnAtPercent: [80, 0],
+    });
+
+    expect(budgets).toEqual({ providers: { anthropic: 100 } });
+    expect(errors).toEqual([
+      'budgets.monthly: expected a positive number',
+      'budgets.providers["openai"]: expected a positive number',
+      'budgets.projects: expected an object',
+      'budgets.warnAtPercent: expected a non-empty array of positive numbers',
+    ]);
+  });
+});
@@ -10,7 +10,17 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import Database from 'better-sqlite3';
 import { CodexLogScanner } from '../src/codexLogScanner.js';
+import { SqliteScanStateStore } from '../src/scanStateStore.js';
+import { runMigrations } from '../src/migrations.js';
+
+/** An in-memory usage database with the full schema, for the state store */
+function migratedDb(): Database.Database {
+  const db = new Database(':memory:');
+  runMigrations(db, { calculateCost: () => 0, rebuildRollups: () => {}, isPriced: () => true });
+  return db;
+}
 
 /** Create a unique temp directory for each test */
 function makeTempDir(): string {
@@ -34,6 +44,18 @@ function makeTurnContext(model: string, timestamp: string = '2026-02-07T10:00:00
   });
 }
 
+/**
+ * Build a Codex session_meta JSONL line.
+ * Codex writes one at the start of every session file.
+ */
+function makeSessionMeta(id: string, cwd: string, timestamp: string = '2026-02-07T09:59:00.000Z'): string {
+  return JSON.stringify({
+    type: 'session_meta',
+    timestamp,
+    payload: { id, timestamp, cwd, originator: 'codex_cli_rs', cli_version: '0.46.0' },
+  });
+}
+
 /**
  * Build a Codex event_msg JSONL line with cumulative token_count data.
  * Mimics the format Codex writes to session logs.
@@ -366,7 +388,7 @@ describe('CodexLogScanner', () => {
   // --------------------------------------------------------------------------
 
   describe('incremental scanning', () => {
-    it('should return cached results for unchanged files', () => {
+    it('should return nothing new for unchanged files', () => {
       const lines = [
         makeTurnContext('gpt-5'),
         makeTokenCountEvent({ inputTokens: 100, outputTokens: 50 }),
@@ -386,8 +408,7 @@ describe('CodexLogScanner', () => {
 
         // Second scan with no changes
         const entries2 = scanner.scan();
-        expect(entries2).toHaveLength(1);
-        expect(entries2[0].inputTokens).toBe(entries1[0].inputTokens);
+        expect(entries2).toHaveLength(0);
       } finally {
         if (origEnv !== undefined) {
           process.env.CODEX_HOME = origEnv;
@@ -430,10 +451,200 @@ describe('CodexLogScanner', () => {
         fs.appendFileSync(filePath, newEvent + '\n');
 
         const entries2 = scanner.scan();
-        expect(entries2).toHaveLength(2);
+        expect(entries2).toHaveLength(1);
         // Delta from cumulative: 300 - 100 = 200 input, 150 - 50 = 100 output
-        expect(entries2[1].inputTokens).toBe(200);
-        expect(entries2[1].outputTokens).toBe(100);
+        expect(entries2[0].inputTokens).toBe(200);
+        expect(entries2[0].outputTokens).toBe(100);
+      } finally {
+        if (origEnv !== undefined) {
+          process.env.CODEX_HOME = origEnv;
+        } else {
+          delete process.env.CODEX_HOME;
+        }
+      }
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Persisted state
+  // --------------------------------------------------------------------------
+
+  describe('persisted state', () => {
+    it('should resume delta computation from stored totals after a restart', () => {
+      const filePath = path.join(sessionsDir, 'session.jsonl');
+      const db = migratedDb();
+
+      const origEnv = process.env.CODEX_HOME;
+      process.env.CODEX_HOME = tempDir;
+
+      try {
+        fs.writeFileSync(filePath, [
+          makeTurnContext('gpt-5.2'),
+          makeTokenCountEvent({ inputTokens: 100, outputTokens: 50 }),
+        ].join('\n') + '\n');
+
+        const first = new CodexLogScanner(new SqliteScanStateStore(db));
+        expect(first.scan()).toHaveLength(1);
+
+        // Simulate a gateway restart: a fresh scanner sharing the same store
+        fs.appendFileSync(filePath, makeTokenCountEvent({
+          timestamp: '2026-02-07T10:02:00.000Z',
+          inputTokens: 300,
+          outputTokens: 150,
+        }) + '\n');
+
+        const second = new CodexLogScanner(new SqliteScanStateStore(db));
+        const entries = second.scan();
+
+        // Only the appended event, with the delta against the stored totals
+        // and the model carried over from the stored turn_context
+        expect(entries).toHaveLength(1);
+        expect(entries[0].inputTokens).toBe(200);
+        expect(entries[0].outputTokens).toBe(100);
+        expect(entries[0].model).toBe('gpt-5.2');
+      } finally {
+        db.close();
+        if (origEnv !== undefined) {
+          process.env.CODEX_HOME = origEnv;
+        } else {
+          delete process.env.CODEX_HOME;
+        }
+      }
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Session attribution
+  // --------------------------------------------------------------------------
+
+  describe('session attribution', () => {
+    const SESSION_ID = '0199a213-81c0-7800-8aa1-bbab2a035a53';
+
+    it('should tag entries with the session id and cwd from session_meta', () => {
+      fs.writeFileSync(path.join(sessionsDir, 'session.jsonl'), [
+        makeSessionMeta(SESSION_ID, '/home/me/repo'),
+        makeTurnContext('gpt-5'),
+        makeTokenCountEvent({ inputTokens: 100, outputTokens: 50 }),
+      ].join('\n') + '\n');
+
+      const origEnv = process.env.CODEX_HOME;
+      process.env.CODEX_HOME = tempDir;
+
+      try {
+        const scanner = new CodexLogScanner();
+        const entries = scanner.scan();
+        expect(entries).toHaveLength(1);
+        expect(entries[0].sessionId).toBe(SESSION_ID);
+        expect(entries[0].cwd).toBe('/home/me/repo');
+
+        const [record] = new CodexLogScanner().scanUsage();
+        expect(record).toMatchObject({
+          source: 'codex-cli',
+          sessionId: SESSION_ID,
+          projectPath: '/home/me/repo',
+        });
+      } finally {
+        if (origEnv !== undefined) {
+          process.env.CODEX_HOME = origEnv;
+        } else {
+          delete process.env.CODEX_HOME;
+        }
+      }
+    });
+
+    it('should fall back to the id in the rollout file name', () => {
+      fs.writeFileSync(path.join(sessionsDir, `rollout-2026-02-07T09-59-00-${SESSION_ID}.jsonl`), [
+        makeTurnContext('gpt-5'),
+        makeTokenCountEvent({}),
+      ].join('\n') + '\n');
+
+      const origEnv = process.env.CODEX_HOME;
+      process.env.CODEX_HOME = tempDir;
+
+      try {
+        const entries = new CodexLogScanner().scan();
+        expect(entries[0].sessionId).toBe(SESSION_ID);
+        expect(entries[0].cwd).toBeUndefined();
+      } finally {
+        if (origEnv !== undefined) {
+          process.env.CODEX_HOME = origEnv;
+        } else {
+          delete process.env.CODEX_HOME;
+        }
+      }
+    });
+
+    it('should keep the session identity across a restart', () => {
+      const filePath = path.join(sessionsDir, 'session.jsonl');
+      const db = migratedDb();
+
+      const origEnv = process.env.CODEX_HOME;
+      process.env.CODEX_HOME = tempDir;
+
+      try {
+        fs.writeFileSync(filePath, [
+          makeSessionMeta(SESSION_ID, '/home/me/repo'),
+          makeTokenCountEvent({ inputTokens: 100, outputTokens: 50 }),
+        ].join('\n') + '\n');
+        new CodexLogScanner(new SqliteScanStateStore(db)).scan();
+
+        // A turn in a different directory, read by a fresh scanner
+        fs.appendFileSync(filePath, [
+          JSON.stringify({ type: 'turn_context', timestamp: '2026-02-07T10:02:00.000Z', payload: { model: 'gpt-5', cwd: '/home/me/other' } }),
+          makeTokenCountEvent({ timestamp: '2026-02-07T10:03:00.000Z', inputTokens: 300, outputTokens: 150 }),
+        ].join('\n') + '\n');
+
+        const entries = new CodexLogScanner(new SqliteScanStateStore(db)).scan();
+        expect(entries).toHaveLength(1);
+        expect(entries[0].sessionId).toBe(SESSION_ID);
+        expect(entries[0].cwd).toBe('/home/me/other');
+      } finally {
+        db.close();
+        if (origEnv !== undefined) {
+          process.env.CODEX_HOME = origEnv;
+        } else {
+          delete process.env.CODEX_HOME;
+        }
+      }
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Rate limits
+  // --------------------------------------------------------------------------
+
+  describe('rate limits', () => {
+    /** A token_count event carrying rate_limits (and optionally no usage) */
+    function makeRateLimitEvent(timestamp: string, rateLimits: Record<string, unknown>, withUsage = true): string {
+      const event = JSON.parse(makeTokenCountEvent({ timestamp })) as Record<string, Record<string, unknown>>;
+      if (!withUsage) event.payload.info = null;
+      event.payload.rate_limits = rateLimits;
+      return JSON.stringify(event);
+    }
+
+    it('should report the latest rate-limit windows across session files', () => {
+      fs.writeFileSync(path.join(sessionsDir, 'old.jsonl'), makeRateLimitEvent('2026-02-07T10:00:00.000Z', {
+        primary: { used_percent: 80, window_minutes: 299, resets_in_seconds: 600 },
+      }) + '\n');
+      fs.writeFileSync(path.join(sessionsDir, 'new.jsonl'), makeRateLimitEvent('2026-02-07T11:00:00.000Z', {
+        primary: { used_percent: 12.5, window_minutes: 299, resets_in_seconds: 3600 },
+        secondary: { used_percent: 40, window_minutes: 10080, resets_at: Date.parse('2026-02-10T00:00:00.000Z') / 1000 },
+      }, false) + '\n');
+
+      const origEnv = process.env.CODEX_HOME;
+      process.env.CODEX_HOME = tempDir;
+
+      try {
+        const scanner = new CodexLogScanner();
+        expect(scanner.getRateWindows()).toBeNull();
+        scanner.scan();
+
+        expect(scanner.getRateWindows()).toEqual({
+          provider: 'openai',
+          observedAt: Date.parse('2026-02-07T11:00:00.000Z'),
+          fiveHour: { usedPercent: 12.5, windowMinutes: 299, resetsAt: '2026-02-07T12:00:00.000Z' },
+          weekly: { usedPercent: 40, windowMinutes: 10080, resetsAt: '2026-02-10T00:00:00.000Z' },
+        });
       } finally {
         if (origEnv !== undefined) {
           process.env.CODEX_HOME = origEnv;
@@ -442,6 +653,34 @@ describe('CodexLogScanner', () => {
         }
       }
     });
+
+    it('should keep reported windows across a restart and an append without them', () => {
+      const filePath = path.join(sessionsDir, 'session.jsonl');
+      const db = migratedDb();
+
+      const origEnv = process.env.CODEX_HOME;
+      process.env.CODEX_HOME = tempDir;
+
+      try {
+        fs.writeFileSync(filePath, makeRateLimitEvent('2026-02-07T10:00:00.000Z', {
+          primary: { used_percent: 55, window_minutes: 299, resets_in_seconds: 60 },
+        }) + '\n');
+        new CodexLogScanner(new SqliteScanStateStore(db)).scan();
+
+        fs.appendFileSync(filePath, makeTokenCountEvent({ timestamp: '2026-02-07T10:05:00.000Z', inputTokens: 300 }) + '\n');
+        const restarted = new CodexLogScanner(new SqliteScanStateStore(db));
+        expect(restarted.scan()).toHaveLength(1);
+
+        expect(restarted.getRateWindows()?.fiveHour?.usedPercent).toBe(55);
+      } finally {
+        db.close();
+        if (origEnv !== undefined) {
+          process.env.CODEX_HOME = origEnv;
+        } else {
+          delete process.env.CODEX_HOME;
+        }
+      }
+    });
   });
 
   // --------------------------------------------------------------------------
@@ -493,7 +732,7 @@ describe('CodexLogScanner', () => {
       }
     });
 
-    it('should remove entries for deleted files', () => {
+    it('should forget the state of deleted files', () => {
       const origEnv = process.env.CODEX_HOME;
       process.env.CODEX_HOME = tempDir;
 
@@ -518,10 +757,17 @@ describe('CodexLogScanner', () => {
 
         // Delete one file
         fs.unlinkSync(file2);
+        expect(scanner.scan()).toHaveLength(0);
+
+        // Re-creating it is treated as a new file
+        fs.writeFileSync(file2, [
+          makeTurnContext('gpt-5'),
+          makeTokenCountEvent({ inputTokens: 200, outputTokens: 100 }),
+        ].join('\n') + '\n');
 
         const entries2 = scanner.scan();
         expect(entries2).toHaveLength(1);
-        expect(entries2[0].inputTokens).toBe(100);
+        expect(entries2[0].inputTokens).toBe(200);
       } finally {
         if (origEnv !== undefined) {
           process.env.CODEX_HOME = origEnv;
@@ -0,0 +1,119 @@
+// ============================================================================
+// Tests for the streaming JSONL line reader
+// ============================================================================
+// Verifies chunked reading (lines spanning chunk boundaries, multi-byte
+// characters split across chunks), the returned resume offset, handling of
+// partially written trailing lines, CRLF endings, and skipping of oversized
+// lines. Uses small chunk sizes so boundaries are exercised with tiny files.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { readLines } from '../src/jsonlLineReader.js';
+
+/** Collect every line readLines() delivers, plus the returned offset. */
+function collect(
+  filePath: string,
+  startOffset: number,
+  options?: { chunkSize?: number; maxLineBytes?: number },
+): { lines: string[]; endOffset: number } {
+  const lines: string[] = [];
+  const endOffset = readLines(filePath, startOffset, line => lines.push(line), options);
+  return { lines, endOffset };
+}
+
+describe('readLines', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'line-reader-test-'));
+    filePath = path.join(tempDir, 'log.jsonl');
+  });
+
+  afterEach(() => {
+    try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('should deliver every complete line and return the file size', () => {
+    const content = '{"a":1}\n{"b":2}\n{"c":3}\n';
+    fs.writeFileSync(filePath, content);
+
+    const { lines, endOffset } = collect(filePath, 0);
+
+    expect(lines).toEqual(['{"a":1}', '{"b":2}', '{"c":3}']);
+    expect(endOffset).toBe(Buffer.byteLength(content));
+  });
+
+  it('should reassemble lines that span several chunks', () => {
+    const long = 'x'.repeat(50);
+    fs.writeFileSync(filePath, `${long}\nshort\n${long}${long}\n`);
+
+    const { lines } = collect(filePath, 0, { chunkSize: 7 });
+
+    expect(lines).toEqual([long, 'short', long + long]);
+  });
+
+  it('should decode multi-byte characters split across a chunk boundary', () => {
+    // "é" is two bytes and "€" three; a 4-byte chunk splits both
+    const text = 'aé€bé€c';
+    fs.writeFileSync(filePath, `${text}\n${text}\n`);
+
+    const { lines } = collect(filePath, 0, { chunkSize: 4 });
+
+    expect(lines).toEqual([text, text]);
+  });
+
+  it('should leave a trailing line without a newline unread', () => {
+    fs.writeFileSync(filePath, 'one\ntwo\nthr');
+
+    const { lines, endOffset } = collect(filePath, 0, { chunkSize: 3 });
+
+    expect(lines).toEqual(['one', 'two']);
+    expect(endOffset).toBe(8);
+  });
+
+  it('should resume from a returned offset', () => {
+    fs.writeFileSync(filePath, 'one\ntwo\nthr');
+    const first = collect(filePath, 0);
+
+    fs.appendFileSync(filePath, 'ee\nfour\n');
+    const second = collect(filePath, first.endOffset);
+
+    expect(second.lines).toEqual(['three', 'four']);
+    expect(second.endOffset).toBe(fs.statSync(filePath).size);
+  });
+
+  it('should return the start offset when nothing new is complete', () => {
+    fs.writeFileSync(filePath, 'one\npartial');
+
+    const { lines, endOffset } = collect(filePath, 4);
+
+    expect(lines).toEqual([]);
+    expect(endOffset).toBe(4);
+  });
+
+  it('should strip CRLF line endings and skip empty lines', () => {
+    fs.writeFileSync(filePath, 'one\r\n\r\n\ntwo\r\n');
+
+    const { lines, endOffset } = collect(filePath, 0, { chunkSize: 2 });
+
+    expect(lines).toEqual(['one', 'two']);
+    expect(endOffset).toBe(13);
+  });
+
+  it('should skip lines longer than maxLineBytes but keep reading', () => {
+    fs.writeFileSync(filePath, `small\n${'y'.repeat(100)}\nafter\n`);
+
+    const { lines, endOffset } = collect(filePath, 0, { chunkSize: 8, maxLineBytes: 32 });
+
+    expect(lines).toEqual(['small', 'after']);
+    expect(endOffset).toBe(fs.statSync(filePath).size);
+  });
+
+  it('should throw when the file does not exist', () => {
+    expect(() => collect(path.join(tempDir, 'missing.jsonl'), 0)).toThrow();
+  });
+});
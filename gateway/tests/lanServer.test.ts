@@ -0,0 +1,294 @@
+// ============================================================================
+// Tests for LanServer
+// Verifies the challenge/response authentication with a pairing secret and
+// with an encrypted answer from a paired app, that unauthenticated clients
+// are closed and get no status updates, and that commands are answered on
+// the connection they came from, encrypted where the connection is, and
+// that malformed envelopes and key exchanges close the client, or are
+// ignored, without taking the server down, and that status and alerts are
+// shaped to each client's protocol agreement.
+// Runs the server on a free port without mDNS, with a temporary directory
+// for the secure channel's key files.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import WebSocket from 'ws';
+import { LanServer, lanAuthProof } from '../src/lanServer.js';
+import { SecureChannel, SecureSession, generateKeyPair, keyExchangeProof } from '../src/secureChannel.js';
+import { MAX_PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, PROTOCOL_FEATURES } from '../src/protocol.js';
+import type { AlertNotification, CommandMessage, EncryptedEnvelope, StatusMessage } from '../src/types.js';
+
+const DEVICE_TOKEN = 'gateway-token';
+const SECRET = 'c2VjcmV0LXNlY3JldC0xMg';
+
+/** A test client that queues the messages it receives */
+interface TestClient {
+  ws: WebSocket;
+  next: () => Promise<Record<string, unknown>>;
+  closed: Promise<number>;
+}
+
+/** Connect to the server and start queueing its messages */
+async function connect(port: number): Promise<TestClient> {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+  const queue: Record<string, unknown>[] = [];
+  const waiting: ((msg: Record<string, unknown>) => void)[] = [];
+
+  ws.on('message', (data) => {
+    const msg = JSON.parse(data.toString());
+    const waiter = waiting.shift();
+    if (waiter) waiter(msg);
+    else queue.push(msg);
+  });
+  const closed = new Promise<number>((resolve) => ws.on('close', (code) => resolve(code)));
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+
+  return {
+    ws,
+    next: () => {
+      const queued = queue.shift();
+      return queued ? Promise.resolve(queued) : new Promise((resolve) => waiting.push(resolve));
+    },
+    closed,
+  };
+}
+
+/** A minimal status message */
+function status(): StatusMessage {
+  return { type: 'status', deviceToken: DEVICE_TOKEN, hostname: 'test-host' } as StatusMessage;
+}
+
+describe('LanServer', () => {
+  let dir: string;
+  let channel: SecureChannel;
+  let server: LanServer;
+  let commands: CommandMessage[];
+  let clients: TestClient[];
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-lan-'));
+    channel = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+    commands = [];
+    clients = [];
+    server = new LanServer({
+      port: 0,
+      advertise: false,
+      deviceToken: DEVICE_TOKEN,
+      hostname: 'test-host',
+      secureChannel: channel,
+      getPairingSecrets: () => [SECRET],
+      onCommand: (cmd, respond) => {
+        commands.push(cmd);
+        respond({ type: 'command-response', commandId: cmd.id, success: true, data: { pong: true } });
+      },
+      onKeyExchange: (msg) => channel.addPeer(msg.publicKey, msg.proof, [SECRET]),
+    });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    for (const client of clients) client.ws.terminate();
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Connect and read the challenge */
+  async function challenged(): Promise<{ client: TestClient; nonce: string }> {
+    const client = await connect(server.port!);
+    clients.push(client);
+    const challenge = await client.next();
+    expect(challenge).toMatchObject({ type: 'lan-challenge', hostname: 'test-host' });
+    return { client, nonce: challenge.nonce as string };
+  }
+
+  // --------------------------------------------------------------------------
+  // Authentication
+  // --------------------------------------------------------------------------
+
+  describe('authentication', () => {
+    it('should accept a proof made with a pairing secret', async () => {
+      const { client, nonce } = await challenged();
+      client.ws.send(JSON.stringify({ type: 'lan-auth', proof: lanAuthProof(nonce, SECRET) }));
+
+      expect(await client.next()).toEqual({ type: 'lan-ready', deviceToken: DEVICE_TOKEN, encrypted: false });
+      expect(server.clientCount).toBe(1);
+
+      server.sendStatus(status());
+      expect(await client.next()).toMatchObject({ type: 'status', hostname: 'test-host' });
+    });
+
+    it('should close clients with a wrong proof without sending them status', async () => {
+      const { client, nonce } = await challenged();
+      const received: unknown[] = [];
+      client.ws.on('message', (data) => received.push(data));
+
+      client.ws.send(JSON.stringify({ type: 'lan-auth', proof: lanAuthProof(nonce, 'b3RoZXItc2VjcmV0') }));
+      server.sendStatus(status());
+
+      expect(await client.closed).toBe(4401);
+      expect(received).toEqual([]);
+      expect(server.clientCount).toBe(0);
+    });
+
+    it('should close clients that send commands before authenticating', async () => {
+      const { client } = await challenged();
+      client.ws.send(JSON.stringify({ type: 'command', id: 'cmd-1', action: 'ping' }));
+
+      expect(await client.closed).toBe(4401);
+      expect(commands).toEqual([]);
+    });
+
+    it('should accept the nonce encrypted by a paired app', async () => {
+      const app = generateKeyPair();
+      channel.addPeer(app.publicKey, keyExchangeProof(app.publicKey, SECRET), [SECRET]);
+      const session = new SecureSession('app', app.privateKey, channel.publicKey);
+
+      const { client, nonce } = await challenged();
+      client.ws.send(JSON.stringify(session.seal(DEVICE_TOKEN, { type: 'lan-auth', nonce })));
+      expect(await client.next()).toEqual({ type: 'lan-ready', deviceToken: DEVICE_TOKEN, encrypted: true });
+
+      server.sendStatus(status());
+      const envelope = (await client.next()) as unknown as EncryptedEnvelope;
+      expect(envelope.type).toBe('encrypted');
+      expect(session.open(envelope)).toMatchObject({ type: 'status', hostname: 'test-host' });
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Malformed messages
+  // --------------------------------------------------------------------------
+
+  describe('malformed messages', () => {
+    /** Authenticate a new client with the pairing secret */
+    async function authenticated(): Promise<TestClient> {
+      const { client, nonce } = await challenged();
+      client.ws.send(JSON.stringify({ type: 'lan-auth', proof: lanAuthProof(nonce, SECRET) }));
+      await client.next();
+      return client;
+    }
+
+    it('should close clients that send a malformed envelope for a paired app', async () => {
+      const app = generateKeyPair();
+      const peerId = channel.addPeer(app.publicKey, keyExchangeProof(app.publicKey, SECRET), [SECRET]);
+
+      const { client } = await challenged();
+      client.ws.send(JSON.stringify({ type: 'encrypted', deviceToken: DEVICE_TOKEN, peerId, seq: 1 }));
+      expect(await client.closed).toBe(4401);
+
+      // The server is still up
+      const other = await authenticated();
+      other.ws.send(JSON.stringify({ type: 'command', id: 'cmd-1', action: 'ping' }));
+      expect(await other.next()).toMatchObject({ type: 'command-response', commandId: 'cmd-1' });
+    });
+
+    it('should ignore key exchanges with malformed keys', async () => {
+      const client = await authenticated();
+      client.ws.send(JSON.stringify({ type: 'key-exchange', publicKey: 42, proof: { bad: true } }));
+      client.ws.send(JSON.stringify({ type: 'command', id: 'cmd-1', action: 'ping' }));
+
+      expect(await client.next()).toMatchObject({ type: 'command-response', commandId: 'cmd-1' });
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Protocol negotiation
+  // --------------------------------------------------------------------------
+
+  describe('protocol', () => {
+    /** Status with a budget section, and an alert */
+    const fullStatus = (): StatusMessage => ({
+      ...status(),
+      aiUsage: { budget: { monthlyLimit: 100 } } as unknown as StatusMessage['aiUsage'],
+    });
+    const alert = { ruleId: 'rule-1', ruleName: 'CPU' } as AlertNotification;
+
+    it('should advertise its range in the challenge', async () => {
+      const client = await connect(server.port!);
+      clients.push(client);
+
+      expect(await client.next()).toMatchObject({
+        type: 'lan-challenge',
+        minProtocol: MIN_PROTOCOL_VERSION,
+        maxProtocol: MAX_PROTOCOL_VERSION,
+        features: [...PROTOCOL_FEATURES],
+      });
+    });
+
+    it('should shape status and alerts to each client\'s agreement', async () => {
+      const defaults = await challenged();
+      defaults.client.ws.send(JSON.stringify({ type: 'lan-auth', proof: lanAuthProof(defaults.nonce, SECRET) }));
+      await defaults.client.next();
+
+      const app = generateKeyPair();
+      channel.addPeer(app.publicKey, keyExchangeProof(app.publicKey, SECRET), [SECRET]);
+      const session = new SecureSession('app', app.privateKey, channel.publicKey);
+      const minimal = await challenged();
+      minimal.client.ws.send(JSON.stringify(session.seal(DEVICE_TOKEN, { type: 'lan-auth', nonce: minimal.nonce })));
+      await minimal.client.next();
+      minimal.client.ws.send(JSON.stringify(session.seal(DEVICE_TOKEN, { type: 'protocol', version: 1, features: [] })));
+      // A command answered after the agreement shows it has been applied
+      minimal.client.ws.send(JSON.stringify(session.seal(DEVICE_TOKEN, { type: 'command', id: 'cmd-1', action: 'ping' })));
+      await minimal.client.next();
+
+      server.sendAlert(alert);
+      server.sendStatus(fullStatus());
+
+      expect(await defaults.client.next()).toMatchObject({ type: 'alert', alert });
+      expect(await defaults.client.next()).toMatchObject({ type: 'status', aiUsage: { budget: { monthlyLimit: 100 } } });
+
+      const shaped = session.open((await minimal.client.next()) as unknown as EncryptedEnvelope) as StatusMessage;
+      expect(shaped.type).toBe('status');
+      expect(Object.keys(shaped.aiUsage)).not.toContain('budget');
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Commands
+  // --------------------------------------------------------------------------
+
+  describe('commands', () => {
+    it('should answer commands on the connection they came from', async () => {
+      const { client, nonce } = await challenged();
+      client.ws.send(JSON.stringify({ type: 'lan-auth', proof: lanAuthProof(nonce, SECRET) }));
+      await client.next();
+
+      client.ws.send(JSON.stringify({ type: 'command', id: 'cmd-1', action: 'ping' }));
+
+      expect(await client.next()).toEqual({
+        type: 'command-response',
+        commandId: 'cmd-1',
+        success: true,
+        data: { pong: true },
+      });
+      expect(commands.map((cmd) => cmd.id)).toEqual(['cmd-1']);
+    });
+
+    it('should switch to encryption after a key exchange on the connection', async () => {
+      const { client, nonce } = await challenged();
+      client.ws.send(JSON.stringify({ type: 'lan-auth', proof: lanAuthProof(nonce, SECRET) }));
+      await client.next();
+
+      const app = generateKeyPair();
+      client.ws.send(JSON.stringify({
+        type: 'key-exchange',
+        publicKey: app.publicKey,
+        proof: keyExchangeProof(app.publicKey, SECRET),
+      }));
+      const session = new SecureSession('app', app.privateKey, channel.publicKey);
+
+      // Plaintext commands are dropped from now on; encrypted ones are answered encrypted
+      client.ws.send(JSON.stringify({ type: 'command', id: 'plain', action: 'ping' }));
+      client.ws.send(JSON.stringify(session.seal(DEVICE_TOKEN, { type: 'command', id: 'sealed', action: 'ping' })));
+
+      const envelope = (await client.next()) as unknown as EncryptedEnvelope;
+      expect(session.open(envelope)).toMatchObject({ type: 'command-response', commandId: 'sealed' });
+      expect(commands.map((cmd) => cmd.id)).toEqual(['sealed']);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+// ============================================================================
+// Tests for LogWatcher
+// ============================================================================
+// Verifies that file changes under a watched root trigger a debounced scan,
+// that bursts of writes are coalesced, that roots created after start are
+// picked up by the periodic rescan, that roots the platform can't watch
+// recursively are polled without retrying, and that polling-only mode and
+// stop() behave. Uses real temp directories with short intervals.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { LogWatcher } from '../src/logWatcher.js';
+
+/** Resolve after the given number of milliseconds */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Poll a condition until it holds or the timeout elapses */
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await sleep(10);
+  }
+}
+
+describe('LogWatcher', () => {
+  let tempDir: string;
+  let watcher: LogWatcher | null;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-watcher-test-'));
+    watcher = null;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    watcher?.stop();
+    try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch { /* ignore */ }
+  });
+
+  it('should scan after a file changes under a watched root', async () => {
+    const root = path.join(tempDir, 'projects');
+    fs.mkdirSync(path.join(root, 'my-project'), { recursive: true });
+
+    let scans = 0;
+    watcher = new LogWatcher([root], () => { scans++; }, { debounceMs: 20 });
+    watcher.start();
+    expect(watcher.getWatchedRoots()).toEqual([root]);
+
+    fs.appendFileSync(path.join(root, 'my-project', 'session.jsonl'), '{"type":"assistant"}\n');
+
+    await waitFor(() => scans > 0);
+  });
+
+  it('should coalesce a burst of writes into one scan', async () => {
+    const root = path.join(tempDir, 'sessions');
+    fs.mkdirSync(root, { recursive: true });
+    const filePath = path.join(root, 'rollout.jsonl');
+
+    let scans = 0;
+    watcher = new LogWatcher([root], () => { scans++; }, { debounceMs: 100 });
+    watcher.start();
+
+    for (let i = 0; i < 10; i++) {
+      fs.appendFileSync(filePath, `{"line":${i}}\n`);
+    }
+
+    await waitFor(() => scans > 0);
+    await sleep(150);
+    expect(scans).toBe(1);
+  });
+
+  it('should start watching a root created after start()', async () => {
+    const root = path.join(tempDir, 'late');
+
+    let scans = 0;
+    watcher = new LogWatcher([root], () => { scans++; }, { debounceMs: 20, rescanIntervalMs: 50 });
+    watcher.start();
+    expect(watcher.getWatchedRoots()).toEqual([]);
+
+    fs.mkdirSync(root);
+    await waitFor(() => watcher!.getWatchedRoots().length === 1);
+
+    const before = scans;
+    fs.writeFileSync(path.join(root, 'session.jsonl'), '{}\n');
+    await waitFor(() => scans > before);
+  });
+
+  it('should not retry a root whose recursive watch is unsupported', async () => {
+    const root = path.join(tempDir, 'projects');
+    fs.mkdirSync(root);
+
+    const unsupported = Object.assign(new Error('recursive watch unavailable'), {
+      code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+    });
+    const watchSpy = vi.spyOn(fs, 'watch').mockImplementation(() => { throw unsupported; });
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    let scans = 0;
+    watcher = new LogWatcher([root], () => { scans++; }, { rescanIntervalMs: 1000, fallbackIntervalMs: 20 });
+    watcher.start();
+    await waitFor(() => scans >= 3);
+
+    expect(watcher.isPollingFallback).toBe(true);
+    expect(watchSpy).toHaveBeenCalledTimes(1);
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep retrying a root that failed to watch for another reason', async () => {
+    const root = path.join(tempDir, 'projects');
+    fs.mkdirSync(root);
+
+    const busy = Object.assign(new Error('too many watchers'), { code: 'ENOSPC' });
+    const watchSpy = vi.spyOn(fs, 'watch').mockImplementation(() => { throw busy; });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    let scans = 0;
+    watcher = new LogWatcher([root], () => { scans++; }, { rescanIntervalMs: 1000, fallbackIntervalMs: 20 });
+    watcher.start();
+    await waitFor(() => scans >= 3);
+
+    expect(watcher.isPollingFallback).toBe(true);
+    expect(watchSpy.mock.calls.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should only poll when watching is disabled', async () => {
+    const root = path.join(tempDir, 'projects');
+    fs.mkdirSync(root);
+
+    let scans = 0;
+    watcher = new LogWatcher([root], () => { scans++; }, { watch: false, rescanIntervalMs: 30 });
+    watcher.start();
+
+    expect(watcher.getWatchedRoots()).toEqual([]);
+    await waitFor(() => scans >= 2);
+  });
+
+  it('should keep running when the scan callback throws', async () => {
+    const root = path.join(tempDir, 'projects');
+    fs.mkdirSync(root);
+
+    let calls = 0;
+    watcher = new LogWatcher([root], () => {
+      calls++;
+      throw new Error('scan failed');
+    }, { watch: false, rescanIntervalMs: 20 });
+    watcher.start();
+
+    await waitFor(() => calls >= 2);
+  });
+
+  it('should stop scanning after stop()', async () => {
+    const root = path.join(tempDir, 'projects');
+    fs.mkdirSync(root);
+
+    let scans = 0;
+    watcher = new LogWatcher([root], () => { scans++; }, { debounceMs: 20, rescanIntervalMs: 20 });
+    watcher.start();
+    watcher.stop();
+    expect(watcher.getWatchedRoots()).toEqual([]);
+
+    fs.writeFileSync(path.join(root, 'session.jsonl'), '{}\n');
+    await sleep(100);
+    expect(scans).toBe(0);
+  });
+});
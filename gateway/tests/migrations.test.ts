@@ -0,0 +1,466 @@
+// ============================================================================
+// Tests for the AI usage database migrations
+// ============================================================================
+// Builds fixture databases in the shape of each past schema version (the
+// original table without cache columns, cache columns without the dedup
+// index, the dedup index without rollups, and rollups without the
+// schema_migrations table), opens them with AiUsageTracker and checks the
+// upgraded schema and data. Also covers the runner itself: recording,
+// idempotence, rollback on failure and numbering checks.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import Database from 'better-sqlite3';
+import { AiUsageTracker } from '../src/aiUsageTracker.js';
+import type { AiUsageTrackerOptions } from '../src/aiUsageTracker.js';
+import { runMigrations, getSchemaVersion, USAGE_MIGRATIONS } from '../src/migrations.js';
+import type { Migration, MigrationContext } from '../src/migrations.js';
+
+/** Fixed request timestamp: 2026-03-10 12:00 local time */
+const T0 = new Date(2026, 2, 10, 12).getTime();
+
+/** Cost of 100k input + 10k output tokens at the corrected $5/$25 opus-4-6 rates */
+const OPUS_46_COST = 0.75;
+
+/** Cost of the same request at the old, wrong $15/$75 rates */
+const OPUS_46_OLD_COST = 2.25;
+
+/** Context for runner tests that don't touch costs or rollups */
+const NOOP_CONTEXT: MigrationContext = {
+  calculateCost: () => 0,
+  rebuildRollups: () => {},
+  isPriced: () => true,
+};
+
+/** Columns of a table, in declaration order */
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.pragma(`table_info(${table})`) as Array<{ name: string }>).map(c => c.name);
+}
+
+/** Names of all tables and indexes in the database */
+function schemaObjects(db: Database.Database): string[] {
+  return (db.prepare("SELECT name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY name").all() as
+    Array<{ name: string }>).map(row => row.name);
+}
+
+// ----------------------------------------------------------------------------
+// Fixture schemas
+// ----------------------------------------------------------------------------
+
+/** The original schema: no cache token columns and no dedup index */
+function createOriginalSchema(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE ai_requests (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp INTEGER NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL,
+      output_tokens INTEGER NOT NULL,
+      estimated_cost REAL NOT NULL,
+      source TEXT NOT NULL,
+      session_id TEXT
+    );
+    CREATE INDEX idx_ai_requests_timestamp ON ai_requests(timestamp);
+    CREATE INDEX idx_ai_requests_provider ON ai_requests(provider, timestamp);
+  `);
+}
+
+/** Schema after cache token columns were added, before deduplication */
+function createCacheColumnsSchema(db: Database.Database): void {
+  createOriginalSchema(db);
+  db.exec(`
+    ALTER TABLE ai_requests ADD COLUMN cache_read_input_tokens INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE ai_requests ADD COLUMN cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0;
+  `);
+}
+
+/** Schema with the unique dedup index, before the rollup tables */
+function createDedupIndexSchema(db: Database.Database): void {
+  createCacheColumnsSchema(db);
+  db.exec(`
+    CREATE UNIQUE INDEX idx_ai_requests_dedup
+      ON ai_requests(timestamp, provider, model, source, input_tokens, output_tokens);
+  `);
+}
+
+/** Schema with rollups and the meta table, before schema_migrations existed */
+function createRollupSchema(db: Database.Database): void {
+  createDedupIndexSchema(db);
+  for (const [table, key] of [['ai_usage_daily', 'day'], ['ai_usage_monthly', 'month']]) {
+    db.exec(`
+      CREATE TABLE ${table} (
+        ${key} TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        source TEXT NOT NULL,
+        request_count INTEGER NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+        estimated_cost REAL NOT NULL,
+        PRIMARY KEY (${key}, provider, model, source)
+      );
+    `);
+  }
+  db.exec('CREATE TABLE ai_usage_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);');
+}
+
+/** Insert a row into a fixture that predates the cache token columns */
+function insertOriginalRow(db: Database.Database, timestamp: number, model: string, cost: number): void {
+  db.prepare(`
+    INSERT INTO ai_requests (timestamp, provider, model, input_tokens, output_tokens, estimated_cost, source)
+    VALUES (?, 'anthropic', ?, 100000, 10000, ?, 'claude-code')
+  `).run(timestamp, model, cost);
+}
+
+describe('migrations', () => {
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = path.join(os.tmpdir(), `openclaw-migrate-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+  });
+
+  afterEach(() => {
+    try { fs.unlinkSync(dbPath); } catch { /* ignore */ }
+    try { fs.unlinkSync(dbPath + '-wal'); } catch { /* ignore */ }
+    try { fs.unlinkSync(dbPath + '-shm'); } catch { /* ignore */ }
+  });
+
+  /** Build a fixture database at dbPath, then let the tracker upgrade it */
+  function upgrade(build: (db: Database.Database) => void, options?: AiUsageTrackerOptions): Database.Database {
+    const fixture = new Database(dbPath);
+    build(fixture);
+    fixture.close();
+
+    new AiUsageTracker(dbPath, options).close();
+    return new Database(dbPath, { readonly: true });
+  }
+
+  // --------------------------------------------------------------------------
+  // Upgrading past schema versions
+  // --------------------------------------------------------------------------
+
+  describe('upgrading fixtures', () => {
+    it('should create the full schema on a new database', () => {
+      const db = upgrade(() => {});
+      try {
+        expect(getSchemaVersion(db)).toBe(USAGE_MIGRATIONS.length);
+        expect(schemaObjects(db)).toEqual([
+          'ai_requests',
+          'ai_unpriced_models',
+          'ai_usage_daily',
+          'ai_usage_meta',
+          'ai_usage_monthly',
+          'idx_ai_requests_dedup',
+          'idx_ai_requests_project',
+          'idx_ai_requests_provider',
+          'idx_ai_requests_session',
+          'idx_ai_requests_timestamp',
+          'scanner_file_states',
+          'schema_migrations',
+        ]);
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should upgrade the original schema without cache columns', () => {
+      const db = upgrade((fixture) => {
+        createOriginalSchema(fixture);
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.42);
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.42);
+      });
+      try {
+        expect(columnNames(db, 'ai_requests')).toContain('cache_read_input_tokens');
+        expect(columnNames(db, 'ai_requests')).toContain('cache_creation_input_tokens');
+
+        const rows = db.prepare('SELECT cache_read_input_tokens, estimated_cost FROM ai_requests').all();
+        expect(rows).toEqual([{ cache_read_input_tokens: 0, estimated_cost: 0.42 }]);
+
+        const daily = db.prepare('SELECT request_count, estimated_cost FROM ai_usage_daily').all();
+        expect(daily).toEqual([{ request_count: 1, estimated_cost: 0.42 }]);
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should deduplicate rows before adding the unique index', () => {
+      const db = upgrade((fixture) => {
+        createCacheColumnsSchema(fixture);
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.42);
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.42);
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.42);
+        insertOriginalRow(fixture, T0 + 1000, 'claude-sonnet-4-5', 0.42);
+      });
+      try {
+        const ids = db.prepare('SELECT id FROM ai_requests ORDER BY id').all();
+        expect(ids).toEqual([{ id: 1 }, { id: 4 }]);
+        expect(schemaObjects(db)).toContain('idx_ai_requests_dedup');
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should reprice opus-4-6 rows logged at the old rates', () => {
+      const db = upgrade((fixture) => {
+        createDedupIndexSchema(fixture);
+        insertOriginalRow(fixture, T0, 'claude-opus-4-6', OPUS_46_OLD_COST);
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.42);
+      });
+      try {
+        const costs = db.prepare('SELECT model, estimated_cost FROM ai_requests ORDER BY id').all();
+        expect(costs).toEqual([
+          { model: 'claude-opus-4-6', estimated_cost: OPUS_46_COST },
+          { model: 'claude-sonnet-4-5', estimated_cost: 0.42 },
+        ]);
+
+        // The sonnet cost doesn't match an estimate, so it is kept as reported
+        const sources = db.prepare('SELECT cost_source FROM ai_requests ORDER BY id').all();
+        expect(sources).toEqual([{ cost_source: 'estimated' }, { cost_source: 'reported' }]);
+
+        // Rollups are backfilled from the corrected rows
+        const monthly = db.prepare('SELECT SUM(estimated_cost) as cost FROM ai_usage_monthly').get() as { cost: number };
+        expect(monthly.cost).toBeCloseTo(OPUS_46_COST + 0.42, 10);
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should keep pruned rollup history when adopting a pre-migration database', () => {
+      const db = upgrade((fixture) => {
+        createRollupSchema(fixture);
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.42);
+        fixture.exec(`
+          INSERT INTO ai_usage_daily VALUES ('2025-12-01', 'anthropic', 'claude-sonnet-4-5', 'claude-code', 7, 700, 70, 0, 0, 3.5);
+          INSERT INTO ai_usage_daily VALUES ('2026-03-10', 'anthropic', 'claude-sonnet-4-5', 'claude-code', 1, 100000, 10000, 0, 0, 0.42);
+          INSERT INTO ai_usage_monthly VALUES ('2025-12', 'anthropic', 'claude-sonnet-4-5', 'claude-code', 7, 700, 70, 0, 0, 3.5);
+          INSERT INTO ai_usage_monthly VALUES ('2026-03', 'anthropic', 'claude-sonnet-4-5', 'claude-code', 1, 100000, 10000, 0, 0, 0.42);
+          INSERT INTO ai_usage_meta VALUES ('raw_retained_since', '1767225600000');
+        `);
+      });
+      try {
+        expect(getSchemaVersion(db)).toBe(USAGE_MIGRATIONS.length);
+        const daily = db.prepare('SELECT day, request_count FROM ai_usage_daily ORDER BY day').all();
+        expect(daily).toEqual([
+          { day: '2025-12-01', request_count: 7 },
+          { day: '2026-03-10', request_count: 1 },
+        ]);
+        const meta = db.prepare("SELECT value FROM ai_usage_meta WHERE key = 'raw_retained_since'").get();
+        expect(meta).toEqual({ value: '1767225600000' });
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should not mistake rows estimated before a price override for reported costs', () => {
+      const db = upgrade((fixture) => {
+        createRollupSchema(fixture);
+        // Estimated at the built-in $3/$15 rates
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.45);
+      }, { pricing: { 'claude-sonnet-4-5': { inputCostPer1M: 1, outputCostPer1M: 1 } } });
+      try {
+        // Still an estimate, so it is repriced with the override (110k tokens at $1/M)
+        const row = db.prepare('SELECT cost_source, estimated_cost FROM ai_requests').get();
+        expect(row).toEqual({ cost_source: 'estimated', estimated_cost: 0.11 });
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should seed unpriced models from retained rows', () => {
+      const db = upgrade((fixture) => {
+        createRollupSchema(fixture);
+        insertOriginalRow(fixture, T0, 'mystery-model', 0);
+        insertOriginalRow(fixture, T0 + 1000, 'mystery-model', 0);
+        insertOriginalRow(fixture, T0, 'claude-opus-4-6', OPUS_46_COST);
+      });
+      try {
+        const rows = db.prepare('SELECT model, request_count, input_tokens, first_seen, last_seen FROM ai_unpriced_models').all();
+        expect(rows).toEqual([
+          { model: 'mystery-model', request_count: 2, input_tokens: 200000, first_seen: T0, last_seen: T0 + 1000 },
+        ]);
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should forget Claude Code scan offsets so old logs are attributed', () => {
+      const db = upgrade((fixture) => {
+        createRollupSchema(fixture);
+        insertOriginalRow(fixture, T0, 'claude-sonnet-4-5', 0.42);
+        fixture.exec(`
+          CREATE TABLE scanner_file_states (
+            scanner TEXT NOT NULL,
+            file_path TEXT NOT NULL,
+            size INTEGER NOT NULL,
+            mtime_ms REAL NOT NULL,
+            byte_offset INTEGER NOT NULL,
+            extra TEXT,
+            PRIMARY KEY (scanner, file_path)
+          );
+          INSERT INTO scanner_file_states VALUES ('claude-code', '/logs/a.jsonl', 10, 1, 10, NULL);
+          INSERT INTO scanner_file_states VALUES ('gemini-cli', '/logs/b.jsonl', 10, 1, 10, NULL);
+        `);
+      });
+      try {
+        expect(columnNames(db, 'ai_requests')).toContain('project_path');
+        const scanners = db.prepare('SELECT scanner FROM scanner_file_states').all();
+        expect(scanners).toEqual([{ scanner: 'gemini-cli' }]);
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should relabel only the api rows the Codex scanner logs again', () => {
+      const fixture = new Database(dbPath);
+      createRollupSchema(fixture);
+      fixture.exec(`
+        INSERT INTO ai_requests (timestamp, provider, model, input_tokens, output_tokens, estimated_cost, source)
+        VALUES (${T0}, 'openai', 'gpt-5', 1000, 100, 0.01, 'api');
+        INSERT INTO ai_requests (timestamp, provider, model, input_tokens, output_tokens, estimated_cost, source)
+        VALUES (${T0 + 1}, 'openai', 'gpt-5', 500, 50, 0.005, 'api');
+        INSERT INTO ai_usage_daily VALUES ('2026-03-10', 'openai', 'gpt-5', 'api', 2, 1500, 150, 0, 0, 0.015);
+        INSERT INTO ai_usage_monthly VALUES ('2026-03', 'openai', 'gpt-5', 'api', 2, 1500, 150, 0, 0, 0.015);
+        INSERT INTO ai_usage_daily VALUES ('2025-12-01', 'openai', 'gpt-5', 'api', 3, 300, 30, 0, 0, 0.03);
+      `);
+      fixture.close();
+
+      // The rescan after the migration logs the first row again, with its session
+      const tracker = new AiUsageTracker(dbPath);
+      expect(tracker.logRequest({
+        timestamp: T0,
+        provider: 'openai',
+        model: 'gpt-5',
+        inputTokens: 1000,
+        outputTokens: 100,
+        source: 'codex-cli',
+        sessionId: 'session-1',
+      })).toBe(false);
+      tracker.close();
+
+      const db = new Database(dbPath, { readonly: true });
+      try {
+        const rows = db.prepare('SELECT source, session_id FROM ai_requests ORDER BY id').all();
+        expect(rows).toEqual([
+          { source: 'codex-cli', session_id: 'session-1' },
+          { source: 'api', session_id: null },
+        ]);
+        const daily = db.prepare(
+          'SELECT day, source, request_count, input_tokens FROM ai_usage_daily ORDER BY day, source',
+        ).all();
+        expect(daily).toEqual([
+          { day: '2025-12-01', source: 'api', request_count: 3, input_tokens: 300 },
+          { day: '2026-03-10', source: 'api', request_count: 1, input_tokens: 500 },
+          { day: '2026-03-10', source: 'codex-cli', request_count: 1, input_tokens: 1000 },
+        ]);
+        const monthly = db.prepare(
+          "SELECT source, request_count FROM ai_usage_monthly WHERE month = '2026-03' ORDER BY source",
+        ).all();
+        expect(monthly).toEqual([{ source: 'api', request_count: 1 }, { source: 'codex-cli', request_count: 1 }]);
+      } finally {
+        db.close();
+      }
+    });
+
+    it('should not reprice opus-4-6 rows again on later startups', () => {
+      const tracker = new AiUsageTracker(dbPath);
+      // A cost reported by the source itself must survive restarts
+      tracker.logRequest({
+        timestamp: T0,
+        provider: 'anthropic',
+        model: 'claude-opus-4-6',
+        inputTokens: 100_000,
+        outputTokens: 10_000,
+        source: 'claude-code',
+      }, 1.23);
+      tracker.close();
+
+      new AiUsageTracker(dbPath).close();
+
+      const db = new Database(dbPath, { readonly: true });
+      try {
+        const row = db.prepare('SELECT estimated_cost FROM ai_requests').get();
+        expect(row).toEqual({ estimated_cost: 1.23 });
+      } finally {
+        db.close();
+      }
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Runner
+  // --------------------------------------------------------------------------
+
+  describe('runMigrations()', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+      db = new Database(':memory:');
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should record each applied migration once', () => {
+      const applied = runMigrations(db, NOOP_CONTEXT);
+      expect(applied).toEqual(USAGE_MIGRATIONS.map(m => m.version));
+
+      const rows = db.prepare('SELECT version, name FROM schema_migrations ORDER BY version').all();
+      expect(rows).toEqual(USAGE_MIGRATIONS.map(m => ({ version: m.version, name: m.name })));
+
+      expect(runMigrations(db, NOOP_CONTEXT)).toEqual([]);
+    });
+
+    it('should only apply migrations added since the last run', () => {
+      const calls: string[] = [];
+      const migrations: Migration[] = [
+        { version: 1, name: 'first', up: () => { calls.push('first'); } },
+      ];
+      runMigrations(db, NOOP_CONTEXT, migrations);
+
+      migrations.push({ version: 2, name: 'second', up: () => { calls.push('second'); } });
+      expect(runMigrations(db, NOOP_CONTEXT, migrations)).toEqual([2]);
+      expect(calls).toEqual(['first', 'second']);
+      expect(getSchemaVersion(db)).toBe(2);
+    });
+
+    it('should roll back and not record a failing migration', () => {
+      const migrations: Migration[] = [
+        { version: 1, name: 'create_table', up: (d) => { d.exec('CREATE TABLE kept (id INTEGER)'); } },
+        {
+          version: 2,
+          name: 'broken',
+          up: (d) => {
+            d.exec('CREATE TABLE discarded (id INTEGER)');
+            throw new Error('boom');
+          },
+        },
+      ];
+
+      expect(() => runMigrations(db, NOOP_CONTEXT, migrations)).toThrow('Migration 2 (broken) failed: boom');
+      expect(getSchemaVersion(db)).toBe(1);
+      expect(schemaObjects(db)).toContain('kept');
+      expect(schemaObjects(db)).not.toContain('discarded');
+    });
+
+    it('should reject a misnumbered migration list', () => {
+      const migrations: Migration[] = [
+        { version: 1, name: 'first', up: () => {} },
+        { version: 3, name: 'skipped_two', up: () => {} },
+      ];
+
+      expect(() => runMigrations(db, NOOP_CONTEXT, migrations)).toThrow('expected 2');
+      expect(getSchemaVersion(db)).toBe(0);
+    });
+
+    it('should report version 0 for a database without schema_migrations', () => {
+      expect(getSchemaVersion(db)).toBe(0);
+    });
+  });
+});
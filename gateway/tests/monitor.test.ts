@@ -0,0 +1,99 @@
+// ============================================================================
+// Tests for OpenClawMonitor's alert rule editing
+// Verifies that setAlertRules() saves valid rules to the alerts section of
+// monitor.json, keeps the file's other sections, applies the rules to the
+// running evaluator, and leaves the file untouched when a rule is invalid.
+// Uses a temporary monitor.json with the relay, LAN and usage tracking off.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { OpenClawMonitor } from '../src/index.js';
+import type { AlertRule, MonitorConfig } from '../src/types.js';
+
+/** Keeps the monitor from touching ~/.openclaw */
+const OFFLINE = {
+  relay: { enabled: false },
+  lan: { enabled: false },
+  aiUsage: { enabled: false },
+} as Partial<MonitorConfig>;
+
+/** Sections of monitor.json that alert rule edits must keep */
+const OTHER_SECTIONS = {
+  relay: { server: 'wss://relay.example.com/gateway' },
+  pricing: { 'custom-model': { inputCostPer1M: 1, outputCostPer1M: 2 } },
+  budgets: { monthly: 100 },
+};
+
+const RULE: AlertRule = {
+  id: 'cpu-high',
+  name: 'High CPU Usage',
+  enabled: true,
+  metric: 'system.cpu.usage',
+  operator: 'gt',
+  threshold: 90,
+  durationSeconds: 30,
+  severity: 'warning',
+};
+
+describe('OpenClawMonitor.setAlertRules()', () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-monitor-'));
+    configFile = path.join(dir, 'monitor.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Parsed contents of the config file */
+  function readConfig(): Record<string, unknown> {
+    return JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+  }
+
+  it('should save the rules and keep the other sections', () => {
+    fs.writeFileSync(configFile, JSON.stringify({ ...OTHER_SECTIONS, alerts: [] }));
+    const monitor = new OpenClawMonitor(OFFLINE, configFile);
+
+    const result = monitor.setAlertRules([RULE]);
+
+    expect(result).toEqual({ rules: [RULE], errors: [] });
+    expect(readConfig()).toEqual({ ...OTHER_SECTIONS, alerts: [RULE] });
+  });
+
+  it('should apply the rules to the running evaluator', () => {
+    const monitor = new OpenClawMonitor(OFFLINE, configFile);
+    expect(monitor.getAlertRules()).toEqual([]);
+
+    monitor.setAlertRules([RULE]);
+
+    expect(monitor.getAlertRules()).toEqual([RULE]);
+  });
+
+  it('should create the file if it does not exist yet', () => {
+    configFile = path.join(dir, 'nested', 'monitor.json');
+    const monitor = new OpenClawMonitor(OFFLINE, configFile);
+
+    monitor.setAlertRules([RULE]);
+
+    expect(readConfig()).toEqual({ alerts: [RULE] });
+  });
+
+  it('should leave the file and the evaluator untouched when a rule is invalid', () => {
+    const original = JSON.stringify({ ...OTHER_SECTIONS, alerts: [RULE] }, null, 2);
+    fs.writeFileSync(configFile, original);
+    const monitor = new OpenClawMonitor(OFFLINE, configFile);
+
+    const result = monitor.setAlertRules([{ ...RULE, id: 'other', operator: 'between' }]);
+
+    expect(result.rules).toEqual([]);
+    expect(result.errors).not.toEqual([]);
+    expect(fs.readFileSync(configFile, 'utf-8')).toBe(original);
+    expect(monitor.getAlertRules()).toEqual([RULE]);
+  });
+});
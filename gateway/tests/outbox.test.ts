@@ -0,0 +1,155 @@
+// ============================================================================
+// Tests for Outbox
+// Verifies that best-effort messages aren't queued, that queued messages
+// keep their order, eviction by priority when full, expiry, persistence
+// across restarts, and that RelayClient replays queued command responses
+// and alerts in order after connecting, with their original messageIds.
+// Uses a temporary directory for the outbox file and a local WebSocket
+// server on a free port as the relay.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import { Outbox } from '../src/outbox.js';
+import { RelayClient } from '../src/relayClient.js';
+import type { AlertMessage, AlertNotification, CommandResponse } from '../src/types.js';
+
+/** A command response with a messageId */
+function response(id: string): CommandResponse {
+  return { type: 'command-response', commandId: id, success: true, messageId: `msg-${id}` };
+}
+
+/** An alert message with a messageId */
+function alertMessage(id: string): AlertMessage {
+  return { type: 'alert', deviceToken: 'test-token', alert: alert(id), messageId: `msg-${id}` };
+}
+
+/** A triggered alert */
+function alert(id: string): AlertNotification {
+  return {
+    id,
+    ruleId: 'cpu-high',
+    ruleName: 'High CPU Usage',
+    severity: 'warning',
+    currentValue: 95,
+    threshold: 90,
+    triggeredAt: new Date(0).toISOString(),
+    acknowledged: false,
+  };
+}
+
+describe('Outbox', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-outbox-'));
+    file = path.join(dir, 'outbox.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should not queue best-effort messages', () => {
+    const outbox = new Outbox(file);
+    expect(outbox.enqueue('best-effort', response('a'))).toBe(false);
+    expect(outbox.size).toBe(0);
+  });
+
+  it('should return queued messages in order until removed', () => {
+    const outbox = new Outbox(file);
+    outbox.enqueue('reliable', alertMessage('a'), undefined, 0);
+    outbox.enqueue('critical', response('b'), 'peer-1', 0);
+
+    expect(outbox.pending(0).map((e) => [e.id, e.priority, e.peerId])).toEqual([
+      ['msg-a', 'reliable', undefined],
+      ['msg-b', 'critical', 'peer-1'],
+    ]);
+
+    outbox.remove('msg-a');
+    expect(outbox.pending(0).map((e) => e.id)).toEqual(['msg-b']);
+  });
+
+  it('should evict reliable messages before critical ones when full', () => {
+    const outbox = new Outbox(file, { maxEntries: 2 });
+    outbox.enqueue('critical', response('a'), undefined, 0);
+    outbox.enqueue('reliable', alertMessage('b'), undefined, 0);
+    outbox.enqueue('critical', response('c'), undefined, 0);
+    expect(outbox.pending(0).map((e) => e.id)).toEqual(['msg-a', 'msg-c']);
+
+    outbox.enqueue('critical', response('d'), undefined, 0);
+    expect(outbox.pending(0).map((e) => e.id)).toEqual(['msg-c', 'msg-d']);
+  });
+
+  it('should drop messages past their maximum age', () => {
+    const outbox = new Outbox(file, { maxAgeMs: 1000 });
+    outbox.enqueue('critical', response('old'), undefined, 0);
+    outbox.enqueue('critical', response('new'), undefined, 500);
+
+    expect(outbox.pending(1200).map((e) => e.id)).toEqual(['msg-new']);
+    expect(outbox.size).toBe(1);
+  });
+
+  it('should keep queued messages across restarts', () => {
+    new Outbox(file).enqueue('critical', response('a'), 'peer-1', 0);
+
+    const restarted = new Outbox(file);
+    expect(restarted.pending(0)).toEqual([
+      { id: 'msg-a', priority: 'critical', message: response('a'), peerId: 'peer-1', queuedAt: 0 },
+    ]);
+
+    restarted.clear();
+    expect(new Outbox(file).size).toBe(0);
+  });
+});
+
+// --------------------------------------------------------------------------
+// Replay through RelayClient
+// --------------------------------------------------------------------------
+
+describe('RelayClient outbox', () => {
+  let server: WebSocketServer;
+  let client: RelayClient;
+
+  beforeEach(async () => {
+    server = new WebSocketServer({ port: 0 });
+    await new Promise((resolve) => server.once('listening', resolve));
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should replay undelivered responses and alerts in order after connecting', async () => {
+    const received: Record<string, unknown>[] = [];
+    server.on('connection', (ws) => {
+      ws.on('message', (data) => received.push(JSON.parse(data.toString())));
+    });
+
+    const { port } = server.address() as AddressInfo;
+    client = new RelayClient(`ws://127.0.0.1:${port}`, 'test-token', '1.0.0', () => {});
+
+    // Not connected yet: both are queued
+    client.sendCommandResponse({ type: 'command-response', commandId: 'cmd-1', success: true });
+    client.sendAlert(alert('alert-1'));
+
+    client.connect();
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+
+    expect(received.map((m) => m.type)).toEqual(['hello', 'command-response', 'alert']);
+    expect(received[1]).toMatchObject({ commandId: 'cmd-1', messageId: expect.any(String) });
+    expect(received[2]).toMatchObject({ alert: { id: 'alert-1' }, messageId: expect.any(String) });
+    expect(received[1].messageId).not.toBe(received[2].messageId);
+
+    // Sent directly once connected and nothing is queued
+    client.sendCommandResponse({ type: 'command-response', commandId: 'cmd-2', success: true });
+    await vi.waitFor(() => expect(received).toHaveLength(4));
+    expect(received[3]).toMatchObject({ commandId: 'cmd-2' });
+  });
+});
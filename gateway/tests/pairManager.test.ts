@@ -121,6 +121,30 @@ describe('PairManager', () => {
     });
   });
 
+  describe('getQrPayload()', () => {
+    it('should contain only the code and relay without a public key', () => {
+      const code = pairManager.generateCode();
+      expect(JSON.parse(pairManager.getQrPayload(code))).toEqual({
+        code,
+        relay: 'wss://relay.clawface.app/gateway',
+      });
+    });
+
+    it('should add the public key and the pairing secret of the current code', () => {
+      pairManager.setPublicKey('gateway-key');
+      const first = pairManager.generateCode();
+      const firstPayload = JSON.parse(pairManager.getQrPayload(first));
+      expect(firstPayload.publicKey).toBe('gateway-key');
+      expect(firstPayload.pairingSecret).toMatch(/^[A-Za-z0-9_-]{22}$/);
+
+      // After a rotation the previous secret is still accepted
+      const second = pairManager.generateCode();
+      const secondPayload = JSON.parse(pairManager.getQrPayload(second));
+      expect(secondPayload.pairingSecret).not.toBe(firstPayload.pairingSecret);
+      expect(pairManager.getPairingSecrets()).toEqual([secondPayload.pairingSecret, firstPayload.pairingSecret]);
+    });
+  });
+
   // --------------------------------------------------------------------------
   // onNewCode callback
   // --------------------------------------------------------------------------
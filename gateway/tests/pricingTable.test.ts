@@ -0,0 +1,138 @@
+// ============================================================================
+// Tests for the model pricing table
+// ============================================================================
+// Verifies validation of user price overrides against the ModelPricing
+// shape and normalization of their model names, that overrides replace or
+// add entries, and that entry and table versions change exactly when the
+// effective prices do.
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { PricingTable, parsePricingOverrides } from '../src/pricingTable.js';
+
+describe('parsePricingOverrides', () => {
+  it('should accept valid entries with optional cache rates and tiers', () => {
+    const raw = {
+      'my-model': { inputCostPer1M: 1, outputCostPer1M: 2 },
+      'tiered-model': {
+        inputCostPer1M: 3,
+        outputCostPer1M: 15,
+        cacheReadCostPer1M: 0.3,
+        aboveThreshold: { thresholdTokens: 200_000, inputCostPer1M: 6, outputCostPer1M: 22.5 },
+      },
+    };
+
+    const { overrides, errors } = parsePricingOverrides(raw);
+
+    expect(errors).toEqual([]);
+    expect(overrides).toEqual(raw);
+  });
+
+  it('should treat a missing pricing section as no overrides', () => {
+    expect(parsePricingOverrides(undefined)).toEqual({ overrides: {}, errors: [] });
+    expect(parsePricingOverrides(null)).toEqual({ overrides: {}, errors: [] });
+  });
+
+  it('should reject a pricing section that is not an object', () => {
+    const { overrides, errors } = parsePricingOverrides([{ inputCostPer1M: 1 }]);
+    expect(overrides).toEqual({});
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should drop invalid entries and keep the valid ones', () => {
+    const { overrides, errors } = parsePricingOverrides({
+      good: { inputCostPer1M: 1, outputCostPer1M: 2 },
+      missingOutput: { inputCostPer1M: 1 },
+      negative: { inputCostPer1M: -1, outputCostPer1M: 2 },
+      stringRate: { inputCostPer1M: '1', outputCostPer1M: 2 },
+      badTier: { inputCostPer1M: 1, outputCostPer1M: 2, aboveThreshold: { thresholdTokens: 0, inputCostPer1M: 1, outputCostPer1M: 2 } },
+      notAnObject: 5,
+    });
+
+    expect(Object.keys(overrides)).toEqual(['good']);
+    expect(errors).toEqual([
+      'pricing["missingOutput"]: outputCostPer1M: expected a non-negative number',
+      'pricing["negative"]: inputCostPer1M: expected a non-negative number',
+      'pricing["stringRate"]: inputCostPer1M: expected a non-negative number',
+      'pricing["badTier"]: aboveThreshold.thresholdTokens: expected a positive integer',
+      'pricing["notAnObject"]: expected an object',
+    ]);
+  });
+
+  it('should normalize model names like logged models', () => {
+    const pricing = { inputCostPer1M: 1, outputCostPer1M: 2 };
+    const { overrides, errors } = parsePricingOverrides({
+      'claude-sonnet-4-5-20250929': pricing,
+      'openai/gpt-5': pricing,
+      'models/gemini-2.5-pro': pricing,
+      ' my-model ': pricing,
+      'anthropic.claude-sonnet-4-5': pricing,
+    });
+
+    expect(Object.keys(overrides)).toEqual(['claude-sonnet-4-5', 'gpt-5', 'gemini-2.5-pro', 'my-model']);
+    expect(errors).toEqual([
+      'pricing["anthropic.claude-sonnet-4-5"]: same model as pricing["claude-sonnet-4-5-20250929"]',
+    ]);
+  });
+});
+
+describe('PricingTable', () => {
+  it('should serve built-in prices when there are no overrides', () => {
+    const table = new PricingTable();
+    expect(table.get('gpt-4o')).toEqual({ input: 2.5, output: 10 });
+    expect(table.get('no-such-model')).toBeUndefined();
+    expect(table.getOverriddenModels()).toEqual([]);
+  });
+
+  it('should replace built-in entries and add unknown models', () => {
+    const table = new PricingTable({
+      'gpt-4o': { inputCostPer1M: 2, outputCostPer1M: 8 },
+      'new-model': {
+        inputCostPer1M: 1,
+        outputCostPer1M: 4,
+        aboveThreshold: { thresholdTokens: 1000, inputCostPer1M: 2, outputCostPer1M: 8, cacheReadCostPer1M: 0.2 },
+      },
+    });
+
+    expect(table.get('gpt-4o')).toEqual({ input: 2, output: 8 });
+    expect(table.get('new-model')).toEqual({
+      input: 1,
+      output: 4,
+      aboveThreshold: { thresholdTokens: 1000, input: 2, output: 8, cacheRead: 0.2 },
+    });
+    expect(table.getOverriddenModels()).toEqual(['gpt-4o', 'new-model']);
+  });
+
+  it('should change versions only for the models whose prices changed', () => {
+    const table = new PricingTable();
+    const tableVersion = table.version;
+    const gpt4o = table.versionOf('gpt-4o');
+    const sonnet = table.versionOf('claude-sonnet-4-5');
+    const unknown = table.versionOf('no-such-model');
+
+    table.setOverrides({ 'gpt-4o': { inputCostPer1M: 2, outputCostPer1M: 8 } });
+
+    expect(table.version).not.toBe(tableVersion);
+    expect(table.versionOf('gpt-4o')).not.toBe(gpt4o);
+    expect(table.versionOf('claude-sonnet-4-5')).toBe(sonnet);
+    expect(table.versionOf('no-such-model')).toBe(unknown);
+  });
+
+  it('should restore built-in versions when overrides are removed', () => {
+    const table = new PricingTable();
+    const tableVersion = table.version;
+    const gpt4o = table.versionOf('gpt-4o');
+
+    table.setOverrides({ 'gpt-4o': { inputCostPer1M: 2, outputCostPer1M: 8 } });
+    table.setOverrides({});
+
+    expect(table.version).toBe(tableVersion);
+    expect(table.versionOf('gpt-4o')).toBe(gpt4o);
+  });
+
+  it('should give identical overrides of the built-in price the same version', () => {
+    const builtin = new PricingTable();
+    const overridden = new PricingTable({ 'gpt-4o': { inputCostPer1M: 2.5, outputCostPer1M: 10 } });
+    expect(overridden.versionOf('gpt-4o')).toBe(builtin.versionOf('gpt-4o'));
+  });
+});
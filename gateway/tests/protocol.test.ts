@@ -0,0 +1,143 @@
+// ============================================================================
+// Tests for protocol negotiation
+// Verifies that agreements outside the gateway's range are rejected and
+// unknown features dropped, that status payloads are shaped to the agreed
+// features, and that RelayClient advertises its range in the hello, applies
+// the relay's answer and starts from the defaults again after reconnecting.
+// Uses a local WebSocket server on a free port as the relay.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocketServer } from 'ws';
+import type WebSocket from 'ws';
+import type { AddressInfo } from 'net';
+import {
+  DEFAULT_PROTOCOL,
+  MAX_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  parseProtocolAgreement,
+  statusForProtocol,
+} from '../src/protocol.js';
+import { RelayClient } from '../src/relayClient.js';
+import type { StatusMessage } from '../src/types.js';
+
+/** A status message with every optional aiUsage section */
+function fullStatus(): StatusMessage {
+  return {
+    type: 'status',
+    deviceToken: 'test-token',
+    timestamp: new Date(0).toISOString(),
+    hostname: 'test-host',
+    version: 1,
+    system: {} as StatusMessage['system'],
+    openclaw: {} as StatusMessage['openclaw'],
+    aiUsage: {
+      period: 'today',
+      providers: [],
+      totalCostToday: 1,
+      totalCostThisMonth: 10,
+      budget: {} as NonNullable<StatusMessage['aiUsage']['budget']>,
+      forecast: {} as NonNullable<StatusMessage['aiUsage']['forecast']>,
+      rateWindows: [],
+    },
+  };
+}
+
+describe('parseProtocolAgreement', () => {
+  it('should accept a version in range and keep known features', () => {
+    expect(parseProtocolAgreement({ version: MAX_PROTOCOL_VERSION, features: ['alerts', 'holograms'] })).toEqual({
+      type: 'protocol',
+      version: MAX_PROTOCOL_VERSION,
+      features: ['alerts'],
+    });
+  });
+
+  it('should reject versions outside the range and malformed agreements', () => {
+    expect(parseProtocolAgreement({ version: MAX_PROTOCOL_VERSION + 1, features: [] })).toBeNull();
+    expect(parseProtocolAgreement({ version: MIN_PROTOCOL_VERSION - 1, features: [] })).toBeNull();
+    expect(parseProtocolAgreement({ version: '1', features: [] })).toBeNull();
+    expect(parseProtocolAgreement({ version: 1 })).toBeNull();
+  });
+});
+
+describe('statusForProtocol', () => {
+  it('should keep everything for the default agreement', () => {
+    const status = fullStatus();
+    expect(statusForProtocol(status, DEFAULT_PROTOCOL)).toEqual(status);
+  });
+
+  it('should leave out sections of features that were not agreed', () => {
+    const status = fullStatus();
+    const shaped = statusForProtocol(status, { type: 'protocol', version: 1, features: ['forecast'] });
+
+    expect(Object.keys(shaped.aiUsage)).not.toContain('budget');
+    expect(Object.keys(shaped.aiUsage)).not.toContain('rateWindows');
+    expect(shaped.aiUsage.forecast).toBeDefined();
+    // The full message is untouched
+    expect(status.aiUsage.budget).toBeDefined();
+  });
+});
+
+// --------------------------------------------------------------------------
+// Negotiation through RelayClient
+// --------------------------------------------------------------------------
+
+describe('RelayClient protocol', () => {
+  let server: WebSocketServer;
+  let client: RelayClient;
+  let sockets: WebSocket[];
+  let hellos: Record<string, unknown>[];
+
+  beforeEach(async () => {
+    sockets = [];
+    hellos = [];
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (ws) => {
+      sockets.push(ws);
+      ws.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'hello') hellos.push(message);
+      });
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    client = new RelayClient(`ws://127.0.0.1:${port}`, 'test-token', '1.0.0', () => {});
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should advertise its range and apply the answer', async () => {
+    client.connect();
+    await vi.waitFor(() => expect(hellos).toHaveLength(1));
+    expect(hellos[0]).toMatchObject({
+      minProtocol: MIN_PROTOCOL_VERSION,
+      maxProtocol: MAX_PROTOCOL_VERSION,
+      features: [...PROTOCOL_FEATURES],
+    });
+    expect(client.protocol).toEqual(DEFAULT_PROTOCOL);
+
+    sockets[0].send(JSON.stringify({ type: 'protocol', version: 1, features: ['alerts'] }));
+    await vi.waitFor(() => expect(client.protocol.features).toEqual(['alerts']));
+
+    // Unsupported versions are ignored
+    sockets[0].send(JSON.stringify({ type: 'protocol', version: 99, features: [] }));
+    sockets[0].send(JSON.stringify({ type: 'protocol', version: 1, features: ['budgets'] }));
+    await vi.waitFor(() => expect(client.protocol.features).toEqual(['budgets']));
+  });
+
+  it('should start from the defaults again after reconnecting', async () => {
+    client.connect();
+    await vi.waitFor(() => expect(sockets).toHaveLength(1));
+    sockets[0].send(JSON.stringify({ type: 'protocol', version: 1, features: [] }));
+    await vi.waitFor(() => expect(client.protocol.features).toEqual([]));
+
+    sockets[0].terminate();
+    await vi.waitFor(() => expect(hellos).toHaveLength(2), { timeout: 5000 });
+    expect(client.protocol).toEqual(DEFAULT_PROTOCOL);
+  });
+});
@@ -0,0 +1,223 @@
+// ============================================================================
+// Tests for RateWindowEstimator
+// Verifies 5-hour block and rolling-week estimates from logged usage against
+// configured and historical limits, pass-through of windows reported by a
+// scanner, and validation of the rateWindows config section. Uses a
+// temporary SQLite database file per test.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { AiUsageTracker } from '../src/aiUsageTracker.js';
+import { RateWindowEstimator, parseRateWindowLimits } from '../src/rateWindowEstimator.js';
+import { registerUsageLogScanner, unregisterUsageLogScanner } from '../src/scannerRegistry.js';
+import type { ReportedRateWindows } from '../src/types.js';
+
+/** Generate a unique temp DB path for each test */
+function tempDbPath(): string {
+  return path.join(os.tmpdir(), `openclaw-ratewin-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+}
+
+/** Disable every built-in scanner so tests never read the real home dir */
+const BUILTINS_OFF = { 'claude-code': false, codex: false, 'gemini-cli': false };
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/** A fixed "now" on a whole hour */
+const NOW = new Date(Date.UTC(2026, 1, 25, 12));
+
+describe('RateWindowEstimator', () => {
+  let tracker: AiUsageTracker;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = tempDbPath();
+    tracker = new AiUsageTracker(dbPath, { scanners: BUILTINS_OFF });
+  });
+
+  afterEach(() => {
+    tracker.close();
+    try { fs.unlinkSync(dbPath); } catch { /* ignore */ }
+    try { fs.unlinkSync(dbPath + '-wal'); } catch { /* ignore */ }
+    try { fs.unlinkSync(dbPath + '-shm'); } catch { /* ignore */ }
+  });
+
+  /** Log a Claude Code request with a fixed cost, `ago` ms before NOW */
+  function claude(ago: number, cost: number): void {
+    tracker.logRequest({
+      timestamp: NOW.getTime() - ago,
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5',
+      inputTokens: 1000,
+      outputTokens: 100,
+      source: 'claude-code',
+    }, cost);
+  }
+
+  // --------------------------------------------------------------------------
+  // Estimated windows
+  // --------------------------------------------------------------------------
+
+  describe('estimated windows', () => {
+    it('should return nothing without usage', () => {
+      expect(new RateWindowEstimator(tracker).getRateWindows(NOW)).toEqual([]);
+    });
+
+    it('should measure the open 5-hour block against a configured limit', () => {
+      // The block started at the hour of the first request, 2.5 hours ago
+      claude(2.5 * HOUR, 3);
+      claude(1 * HOUR, 1);
+
+      const [windows] = new RateWindowEstimator(tracker, { anthropic: { fiveHour: 10 } }).getRateWindows(NOW);
+
+      expect(windows.provider).toBe('anthropic');
+      expect(windows.source).toBe('estimated');
+      expect(windows.fiveHour).toEqual({
+        usedPercent: 40,
+        windowMinutes: 300,
+        resetsAt: new Date(NOW.getTime() + 2 * HOUR).toISOString(),
+        resetDescription: 'Resets in 2h 0m',
+      });
+    });
+
+    it('should start a new block after the previous one ended', () => {
+      claude(9 * HOUR, 5);
+      claude(3 * HOUR, 2);
+
+      const [windows] = new RateWindowEstimator(tracker).getRateWindows(NOW);
+
+      // Measured against the only completed block ($5)
+      expect(windows.fiveHour?.usedPercent).toBe(40);
+      expect(windows.fiveHour?.resetsAt).toBe(new Date(NOW.getTime() + 2 * HOUR).toISOString());
+    });
+
+    it('should report an empty 5-hour window once the last block ended', () => {
+      claude(6 * HOUR, 5);
+
+      const [windows] = new RateWindowEstimator(tracker).getRateWindows(NOW);
+
+      expect(windows.fiveHour).toEqual({ usedPercent: 0, windowMinutes: 300 });
+    });
+
+    it('should compare the last 7 days with the busiest earlier week', () => {
+      claude(1 * DAY, 6);
+      claude(8 * DAY, 10);
+      claude(15 * DAY, 20);
+      claude(40 * DAY, 100);
+
+      const [windows] = new RateWindowEstimator(tracker).getRateWindows(NOW);
+
+      expect(windows.weekly).toEqual({
+        usedPercent: 30,
+        windowMinutes: 7 * 24 * 60,
+        resetDescription: 'Rolling 7-day window',
+      });
+    });
+
+    it('should cap usage above the limit at 100%', () => {
+      claude(1 * HOUR, 30);
+
+      const [windows] = new RateWindowEstimator(tracker, { anthropic: { fiveHour: 10, weekly: 20 } }).getRateWindows(NOW);
+
+      expect(windows.fiveHour?.usedPercent).toBe(100);
+      expect(windows.weekly?.usedPercent).toBe(100);
+    });
+
+    it('should use new limits after setLimits()', () => {
+      claude(1 * HOUR, 5);
+      const estimator = new RateWindowEstimator(tracker, { anthropic: { fiveHour: 10 } });
+      expect(estimator.getRateWindows(NOW)[0].fiveHour?.usedPercent).toBe(50);
+
+      estimator.setLimits({ anthropic: { fiveHour: 20 } });
+      expect(estimator.getRateWindows(NOW)[0].fiveHour?.usedPercent).toBe(25);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Reported windows
+  // --------------------------------------------------------------------------
+
+  describe('reported windows', () => {
+    let report: ReportedRateWindows;
+
+    beforeEach(() => {
+      report = {
+        provider: 'openai',
+        observedAt: NOW.getTime() - HOUR,
+        fiveHour: { usedPercent: 42, windowMinutes: 299, resetsAt: new Date(NOW.getTime() + 90 * 60 * 1000).toISOString() },
+        weekly: { usedPercent: 12, windowMinutes: 10080, resetsAt: new Date(NOW.getTime() - 60 * 1000).toISOString() },
+      };
+      registerUsageLogScanner('fake-codex', () => ({
+        id: 'fake-codex',
+        scanUsage: () => [],
+        clearCache: () => {},
+        getRateWindows: () => report,
+      }));
+    });
+
+    afterEach(() => {
+      unregisterUsageLogScanner('fake-codex');
+    });
+
+    it('should pass reported windows through, emptying ones that reset since', () => {
+      const reportingTracker = new AiUsageTracker(tempDbPath(), { scanners: BUILTINS_OFF });
+      try {
+        const windows = new RateWindowEstimator(reportingTracker).getRateWindows(NOW);
+
+        expect(windows).toEqual([{
+          provider: 'openai',
+          source: 'reported',
+          fiveHour: {
+            usedPercent: 42,
+            windowMinutes: 299,
+            resetsAt: report.fiveHour!.resetsAt,
+            resetDescription: 'Resets in 1h 30m',
+          },
+          weekly: { usedPercent: 0, windowMinutes: 10080 },
+        }]);
+      } finally {
+        reportingTracker.close();
+      }
+    });
+
+    it('should prefer reported windows over estimates for the same provider', () => {
+      const reportingTracker = new AiUsageTracker(tempDbPath(), { scanners: BUILTINS_OFF });
+      try {
+        reportingTracker.logRequest({
+          timestamp: NOW.getTime() - HOUR,
+          provider: 'openai',
+          model: 'gpt-5',
+          inputTokens: 1000,
+          outputTokens: 100,
+          source: 'codex-cli',
+        });
+
+        const windows = new RateWindowEstimator(reportingTracker, { openai: { fiveHour: 1 } }).getRateWindows(NOW);
+
+        expect(windows.map(w => [w.provider, w.source])).toEqual([['openai', 'reported']]);
+      } finally {
+        reportingTracker.close();
+      }
+    });
+  });
+});
+
+describe('parseRateWindowLimits', () => {
+  it('should accept limits keyed by provider', () => {
+    const raw = { anthropic: { fiveHour: 15, weekly: 200 }, openai: { weekly: 50 } };
+    expect(parseRateWindowLimits(raw)).toEqual({ limits: raw, errors: [] });
+  });
+
+  it('should drop invalid limits', () => {
+    const { limits, errors } = parseRateWindowLimits({ anthropic: { fiveHour: 0, weekly: 100 }, openai: 5 });
+
+    expect(limits).toEqual({ anthropic: { weekly: 100 } });
+    expect(errors).toEqual([
+      'rateWindows["anthropic"].fiveHour: expected a positive number',
+      'rateWindows["openai"]: expected an object',
+    ]);
+  });
+});
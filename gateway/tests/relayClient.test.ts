@@ -0,0 +1,89 @@
+// ============================================================================
+// Tests for RelayClient
+// Verifies that once an app has exchanged keys, plaintext commands from the
+// relay are dropped except 'pair', so the relay can't unpair the gateway,
+// and plaintext protocol agreements are ignored, so it can't strip features
+// from status, while encrypted commands and agreements still apply.
+// Uses a local WebSocket server on a free port as the relay and a temporary
+// directory for the secure channel's key files.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { WebSocketServer } from 'ws';
+import type WebSocket from 'ws';
+import type { AddressInfo } from 'net';
+import { RelayClient } from '../src/relayClient.js';
+import { SecureChannel, SecureSession, generateKeyPair, keyExchangeProof } from '../src/secureChannel.js';
+import type { CommandMessage } from '../src/types.js';
+
+const DEVICE_TOKEN = 'test-token';
+const SECRET = 'c2VjcmV0LXNlY3JldC0xMg';
+
+describe('RelayClient', () => {
+  let dir: string;
+  let server: WebSocketServer;
+  let client: RelayClient;
+  let relay: WebSocket | null;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-relay-client-'));
+    relay = null;
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (ws) => {
+      relay = ws;
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should only accept plaintext pair commands once apps use encryption', async () => {
+    const channel = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+    const app = generateKeyPair();
+    channel.addPeer(app.publicKey, keyExchangeProof(app.publicKey, SECRET), [SECRET]);
+    const session = new SecureSession('app', app.privateKey, channel.publicKey);
+
+    const commands: CommandMessage[] = [];
+    const { port } = server.address() as AddressInfo;
+    client = new RelayClient(`ws://127.0.0.1:${port}`, DEVICE_TOKEN, '1.0.0', (cmd) => commands.push(cmd));
+    client.setSecureChannel(channel, () => {});
+    client.connect();
+    const ws = await vi.waitFor(() => relay ?? Promise.reject(new Error('not connected')));
+
+    ws.send(JSON.stringify({ type: 'command', id: 'plain-unpair', action: 'unpair' }));
+    ws.send(JSON.stringify({ type: 'command', id: 'plain-pair', action: 'pair' }));
+    ws.send(JSON.stringify(session.seal(DEVICE_TOKEN, { type: 'command', id: 'sealed-unpair', action: 'unpair' })));
+
+    await vi.waitFor(() => expect(commands).toHaveLength(2));
+    expect(commands.map((cmd) => cmd.id)).toEqual(['plain-pair', 'sealed-unpair']);
+  });
+
+  it('should only accept encrypted protocol agreements once apps use encryption', async () => {
+    const channel = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+    const app = generateKeyPair();
+    channel.addPeer(app.publicKey, keyExchangeProof(app.publicKey, SECRET), [SECRET]);
+    const session = new SecureSession('app', app.privateKey, channel.publicKey);
+
+    const codes: string[] = [];
+    const { port } = server.address() as AddressInfo;
+    client = new RelayClient(`ws://127.0.0.1:${port}`, DEVICE_TOKEN, '1.0.0', () => {}, (code) => codes.push(code));
+    client.setSecureChannel(channel, () => {});
+    client.connect();
+    const ws = await vi.waitFor(() => relay ?? Promise.reject(new Error('not connected')));
+
+    ws.send(JSON.stringify(session.seal(DEVICE_TOKEN, { type: 'protocol', version: 1, features: ['alerts'] })));
+    ws.send(JSON.stringify({ type: 'protocol', version: 1, features: [] }));
+    // Handled after the agreements, in order
+    ws.send(JSON.stringify({ type: 'pair_code', code: 'CLAW-TEST' }));
+
+    await vi.waitFor(() => expect(codes).toHaveLength(1));
+    expect(client.protocol.features).toEqual(['alerts']);
+  });
+});
@@ -0,0 +1,190 @@
+// ============================================================================
+// Tests for SecureChannel
+// Verifies the key exchange proof, that envelopes round-trip between the
+// gateway and an app session in both directions, that tampered, replayed,
+// misrouted or malformed envelopes are rejected, and that keys and the
+// replay protection persist across restarts.
+// Uses a temporary directory for the key files of each test.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  SecureChannel,
+  SecureChannelError,
+  SecureSession,
+  generateKeyPair,
+  keyExchangeProof,
+} from '../src/secureChannel.js';
+import type { EncryptedEnvelope } from '../src/types.js';
+
+const DEVICE_TOKEN = 'gateway-token';
+const SECRET = 'c2VjcmV0LXNlY3JldC0xMg';
+
+describe('SecureChannel', () => {
+  let dir: string;
+  let channel: SecureChannel;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-e2e-'));
+    channel = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Pair a new app with the channel, returning the app's session */
+  function pairApp(): SecureSession {
+    const app = generateKeyPair();
+    channel.addPeer(app.publicKey, keyExchangeProof(app.publicKey, SECRET), [SECRET]);
+    return new SecureSession('app', app.privateKey, channel.publicKey);
+  }
+
+  // --------------------------------------------------------------------------
+  // Key exchange
+  // --------------------------------------------------------------------------
+
+  describe('key exchange', () => {
+    it('should start without peers and a 32-byte public key', () => {
+      expect(channel.hasPeers).toBe(false);
+      expect(Buffer.from(channel.publicKey, 'base64url')).toHaveLength(32);
+    });
+
+    it('should accept a key proven with a current pairing secret', () => {
+      const app = generateKeyPair();
+      const peerId = channel.addPeer(app.publicKey, keyExchangeProof(app.publicKey, SECRET), ['other', SECRET]);
+
+      expect(peerId).toMatch(/^[0-9a-f]{16}$/);
+      expect(channel.hasPeers).toBe(true);
+    });
+
+    it('should reject a key proven with another secret', () => {
+      const app = generateKeyPair();
+      const proof = keyExchangeProof(app.publicKey, 'b3RoZXItc2VjcmV0');
+
+      expect(() => channel.addPeer(app.publicKey, proof, [SECRET])).toThrow(SecureChannelError);
+      expect(channel.hasPeers).toBe(false);
+    });
+
+    it('should reject a key that is not an X25519 public key', () => {
+      const bogus = Buffer.alloc(16, 1).toString('base64url');
+      expect(() => channel.addPeer(bogus, keyExchangeProof(bogus, SECRET), [SECRET])).toThrow(SecureChannelError);
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Envelopes
+  // --------------------------------------------------------------------------
+
+  describe('envelopes', () => {
+    it('should encrypt gateway messages for every paired app', () => {
+      const first = pairApp();
+      const second = pairApp();
+      const status = { type: 'status', hostname: 'secret-host' };
+
+      const envelopes = channel.sealForAll(DEVICE_TOKEN, status);
+
+      expect(envelopes.map((e) => e.peerId).sort()).toEqual([first.peerId, second.peerId].sort());
+      for (const envelope of envelopes) {
+        expect(envelope).toMatchObject({ type: 'encrypted', deviceToken: DEVICE_TOKEN });
+        expect(JSON.stringify(envelope)).not.toContain('secret-host');
+      }
+      const forFirst = envelopes.find((e) => e.peerId === first.peerId)!;
+      expect(first.open(forFirst)).toEqual(status);
+      expect(() => second.open(forFirst)).toThrow(SecureChannelError);
+    });
+
+    it('should decrypt app messages', () => {
+      const app = pairApp();
+      const command = { type: 'command', id: 'cmd-1', action: 'ping' };
+
+      expect(channel.open(app.seal(DEVICE_TOKEN, command))).toEqual(command);
+    });
+
+    it('should reject tampered envelopes', () => {
+      const app = pairApp();
+      const envelope = app.seal(DEVICE_TOKEN, { type: 'command', id: 'cmd-1', action: 'ping' });
+
+      const retargeted: EncryptedEnvelope = { ...envelope, deviceToken: 'other-gateway' };
+      expect(() => channel.open(retargeted)).toThrow('Envelope failed authentication');
+
+      const data = Buffer.from(envelope.ciphertext, 'base64');
+      data[0] ^= 1;
+      expect(() => channel.open({ ...envelope, ciphertext: data.toString('base64') })).toThrow(SecureChannelError);
+    });
+
+    it('should reject replayed envelopes', () => {
+      const app = pairApp();
+      const first = app.seal(DEVICE_TOKEN, { type: 'command', id: 'cmd-1', action: 'ping' });
+      const second = app.seal(DEVICE_TOKEN, { type: 'command', id: 'cmd-2', action: 'ping' });
+
+      channel.open(first);
+      channel.open(second);
+      expect(() => channel.open(first)).toThrow('Rejected replayed or out-of-order envelope');
+    });
+
+    it('should reject malformed envelopes and key exchanges with a SecureChannelError', () => {
+      const app = pairApp();
+      const envelope = app.seal(DEVICE_TOKEN, { type: 'command', id: 'cmd-1', action: 'ping' });
+      const { nonce: _nonce, ...withoutNonce } = envelope;
+
+      for (const malformed of [withoutNonce, { ...envelope, ciphertext: 42 }, { ...envelope, seq: '7' }]) {
+        expect(() => channel.open(malformed as EncryptedEnvelope)).toThrow(new SecureChannelError('Malformed envelope'));
+      }
+      expect(() => channel.addPeer(42 as unknown as string, 'proof', [SECRET])).toThrow(SecureChannelError);
+      // The valid envelope still opens afterwards
+      expect(channel.open(envelope)).toMatchObject({ id: 'cmd-1' });
+    });
+
+    it('should reject envelopes from unknown peers', () => {
+      const stranger = new SecureSession('app', generateKeyPair().privateKey, channel.publicKey);
+      expect(() => channel.open(stranger.seal(DEVICE_TOKEN, {}))).toThrow('Unknown peer');
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Persistence
+  // --------------------------------------------------------------------------
+
+  describe('persistence', () => {
+    it('should keep the gateway key and paired apps across restarts', () => {
+      const app = pairApp();
+      const restarted = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+
+      expect(restarted.publicKey).toBe(channel.publicKey);
+      expect(restarted.open(app.seal(DEVICE_TOKEN, { ok: true }))).toEqual({ ok: true });
+    });
+
+    it('should reject envelopes replayed after a restart', () => {
+      const app = pairApp();
+      const unpair = app.seal(DEVICE_TOKEN, { type: 'command', id: 'cmd-1', action: 'unpair' });
+      channel.open(unpair);
+
+      const restarted = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+      expect(() => restarted.open(unpair)).toThrow('Rejected replayed or out-of-order envelope');
+      expect(restarted.open(app.seal(DEVICE_TOKEN, { ok: true }))).toEqual({ ok: true });
+    });
+
+    it('should load peers files that hold bare keys', () => {
+      const app = generateKeyPair();
+      const peerId = channel.addPeer(app.publicKey, keyExchangeProof(app.publicKey, SECRET), [SECRET]);
+      fs.writeFileSync(path.join(dir, 'e2e-peers.json'), JSON.stringify({ [peerId]: app.publicKey }));
+
+      const restarted = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+      const session = new SecureSession('app', app.privateKey, channel.publicKey);
+      expect(restarted.open(session.seal(DEVICE_TOKEN, { ok: true }))).toEqual({ ok: true });
+    });
+
+    it('should forget paired apps after removeAllPeers()', () => {
+      pairApp();
+      channel.removeAllPeers();
+      const restarted = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+
+      expect(channel.hasPeers).toBe(false);
+      expect(restarted.hasPeers).toBe(false);
+    });
+  });
+});
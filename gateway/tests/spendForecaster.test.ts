@@ -0,0 +1,135 @@
+// ============================================================================
+// Tests for SpendForecaster
+// Verifies the trailing burn rate, the day-of-week month-end projection and
+// its confidence band, and the budget runway. Uses a temporary SQLite
+// database file per test and a fixed "now" in February 2026.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { AiUsageTracker } from '../src/aiUsageTracker.js';
+import { SpendForecaster } from '../src/spendForecaster.js';
+
+/** Generate a unique temp DB path for each test */
+function tempDbPath(): string {
+  return path.join(os.tmpdir(), `openclaw-forecast-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+}
+
+/** Wednesday 25 February 2026, local midnight: Wed-Fri and Sat are left */
+const NOW = new Date(2026, 1, 25);
+
+describe('SpendForecaster', () => {
+  let tracker: AiUsageTracker;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dbPath = tempDbPath();
+    tracker = new AiUsageTracker(dbPath);
+  });
+
+  afterEach(() => {
+    tracker.close();
+    try { fs.unlinkSync(dbPath); } catch { /* ignore */ }
+    try { fs.unlinkSync(dbPath + '-wal'); } catch { /* ignore */ }
+    try { fs.unlinkSync(dbPath + '-shm'); } catch { /* ignore */ }
+  });
+
+  /** Log a request with a fixed cost at the given local time */
+  function spend(at: Date, cost: number): void {
+    tracker.logRequest({
+      timestamp: at.getTime(),
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5',
+      inputTokens: 1000,
+      outputTokens: 100,
+      source: 'claude-code',
+    }, cost);
+  }
+
+  /**
+   * Spend on every weekday (noon) of the four weeks before NOW, nothing on
+   * weekends. The cost of each day comes from costFor.
+   */
+  function spendWeekdays(costFor: (index: number) => number): void {
+    let index = 0;
+    for (let offset = 28; offset >= 1; offset--) {
+      const day = new Date(NOW.getFullYear(), NOW.getMonth(), NOW.getDate() - offset, 12);
+      if (day.getDay() === 0 || day.getDay() === 6) continue;
+      spend(day, costFor(index++));
+    }
+  }
+
+  it('should forecast nothing without usage', () => {
+    const forecast = new SpendForecaster(tracker).forecast(100, NOW);
+
+    expect(forecast).toEqual({
+      burnRatePerHour: 0,
+      burnRateWindowHours: 24,
+      monthToDate: 0,
+      projectedMonthEnd: 0,
+      projectedMonthEndLow: 0,
+      projectedMonthEndHigh: 0,
+      daysUntilBudgetExhausted: null,
+      historyDays: 0,
+    });
+  });
+
+  it('should project the remaining days from the day-of-week pattern', () => {
+    spendWeekdays(() => 10);
+
+    const forecast = new SpendForecaster(tracker).forecast(undefined, NOW);
+
+    // Feb 2-24 has 17 weekdays; Wed-Fri add 30 and Saturday nothing
+    expect(forecast.monthToDate).toBe(170);
+    expect(forecast.projectedMonthEnd).toBe(200);
+    expect(forecast.projectedMonthEndLow).toBe(200);
+    expect(forecast.projectedMonthEndHigh).toBe(200);
+    // From the first recorded day (Wed Jan 28) up to yesterday
+    expect(forecast.historyDays).toBe(28);
+  });
+
+  it('should widen the band when daily spend varies', () => {
+    spendWeekdays((i) => (i % 2 === 0 ? 6 : 14));
+
+    const forecast = new SpendForecaster(tracker).forecast(undefined, NOW);
+
+    expect(forecast.projectedMonthEndLow).toBeLessThan(forecast.projectedMonthEnd);
+    expect(forecast.projectedMonthEndHigh).toBeGreaterThan(forecast.projectedMonthEnd);
+    expect(forecast.projectedMonthEndLow).toBeGreaterThanOrEqual(forecast.monthToDate);
+  });
+
+  it('should compute the burn rate over the trailing window', () => {
+    spend(new Date(NOW.getTime() - 2 * 60 * 60 * 1000), 1.2);
+    spend(new Date(NOW.getTime() - 20 * 60 * 60 * 1000), 1.2);
+    spend(new Date(NOW.getTime() - 30 * 60 * 60 * 1000), 50);
+
+    const forecast = new SpendForecaster(tracker).forecast(undefined, NOW);
+    expect(forecast.burnRatePerHour).toBe(0.1);
+
+    const shortWindow = new SpendForecaster(tracker, { burnRateWindowHours: 4 }).forecast(undefined, NOW);
+    expect(shortWindow.burnRatePerHour).toBe(0.3);
+    expect(shortWindow.burnRateWindowHours).toBe(4);
+  });
+
+  it('should fall back to the burn rate without daily history', () => {
+    spend(new Date(NOW.getTime() + 6 * 60 * 60 * 1000), 4.8);
+    const now = new Date(NOW.getTime() + 12 * 60 * 60 * 1000);
+
+    const forecast = new SpendForecaster(tracker).forecast(undefined, now);
+
+    // $0.20/h for the remaining half of today and three more days
+    expect(forecast.historyDays).toBe(0);
+    expect(forecast.projectedMonthEnd).toBeCloseTo(4.8 + 2.4 + 3 * 4.8, 2);
+  });
+
+  it('should estimate the days until the budget runs out', () => {
+    spend(new Date(NOW.getTime() - 60 * 60 * 1000), 2.4);
+
+    const forecaster = new SpendForecaster(tracker);
+    expect(forecaster.forecast(10, NOW).daysUntilBudgetExhausted).toBe(3.2);
+    expect(forecaster.forecast(2, NOW).daysUntilBudgetExhausted).toBe(0);
+    expect(forecaster.forecast(undefined, NOW).daysUntilBudgetExhausted).toBeNull();
+  });
+});
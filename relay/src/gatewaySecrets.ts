@@ -0,0 +1,113 @@
+// ============================================================================
+// OpenClaw Relay - Gateway Secrets
+// Authenticates gateway connections. Apps learn a gateway's device token
+// when they pair (it's the gatewayId in PairResponse), so the token alone
+// can't identify the gateway. A gateway may also send a secret of its own,
+// never shared with apps; the first secret seen for a device token is
+// registered, and later connections must present the same one. Gateways
+// that send no secret are accepted as long as their token has none
+// registered, so the secret is opt-in hardening. A token once used without
+// a secret never registers one, or an app could lock the gateway out by
+// registering its own; an admin resets the token (RELAY_RESET_GATEWAYS)
+// when the gateway itself starts sending one. Only a SHA-256 of each
+// secret is kept, optionally in a JSON file (null for tokens used without
+// one) so registrations survive restarts.
+// ============================================================================
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export class GatewaySecrets {
+  /** Hex SHA-256 of each gateway's secret, keyed by device token */
+  private hashes = new Map<string, string>();
+
+  /** Device tokens that connected without a secret */
+  private withoutSecret = new Set<string>();
+
+  /**
+   * @param file - JSON file to persist registrations in; memory only if omitted
+   */
+  constructor(private file?: string) {
+    if (!file || !fs.existsSync(file)) return;
+    try {
+      const stored = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, unknown>;
+      for (const [deviceToken, hash] of Object.entries(stored)) {
+        if (typeof hash === 'string') this.hashes.set(deviceToken, hash);
+        else if (hash === null) this.withoutSecret.add(deviceToken);
+      }
+    } catch (err) {
+      console.warn('[GatewaySecrets] Ignoring unreadable gateways file:', err);
+    }
+  }
+
+  /**
+   * Check a gateway's secret, registering it if the device token has none.
+   * Without a secret, only tokens that never registered one are accepted,
+   * and they can't register one later.
+   *
+   * @param secret - The secret the gateway sent, or null if it sent none
+   * @returns Whether the connection may act as the gateway
+   */
+  verify(deviceToken: string, secret: string | null): boolean {
+    const registered = this.hashes.get(deviceToken);
+    if (secret === null) {
+      if (registered !== undefined) return false;
+      if (!this.withoutSecret.has(deviceToken)) {
+        this.withoutSecret.add(deviceToken);
+        this.save();
+      }
+      return true;
+    }
+
+    const hash = hashSecret(secret);
+    if (registered === undefined) {
+      if (this.withoutSecret.has(deviceToken)) {
+        console.warn(
+          `[GatewaySecrets] Not registering a secret for ${deviceToken}: it connected without one before. ` +
+          `If this is the gateway after an upgrade, restart the relay with RELAY_RESET_GATEWAYS=${deviceToken}` +
+          (this.file ? ` or delete "${deviceToken}" from ${this.file}` : ''),
+        );
+        return false;
+      }
+      this.hashes.set(deviceToken, hash);
+      this.save();
+      console.log(`[GatewaySecrets] Registered gateway ${deviceToken}`);
+      return true;
+    }
+    return crypto.timingSafeEqual(Buffer.from(registered, 'hex'), Buffer.from(hash, 'hex'));
+  }
+
+  /**
+   * Forget everything known about a device token, so the next connection
+   * for it registers its secret (or none) afresh.
+   */
+  reset(deviceToken: string): void {
+    const hadSecret = this.hashes.delete(deviceToken);
+    const hadNone = this.withoutSecret.delete(deviceToken);
+    if (!hadSecret && !hadNone) return;
+    this.save();
+    console.log(`[GatewaySecrets] Reset gateway ${deviceToken}`);
+  }
+
+  /** Write the registrations to the file, if any */
+  private save(): void {
+    if (!this.file) return;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const stored: Record<string, string | null> = Object.fromEntries(this.hashes);
+      for (const deviceToken of this.withoutSecret) stored[deviceToken] = null;
+      fs.writeFileSync(this.file, JSON.stringify(stored, null, 2), {
+        encoding: 'utf-8',
+        mode: 0o600,
+      });
+    } catch (err) {
+      console.error('[GatewaySecrets] Failed to save gateways:', err);
+    }
+  }
+}
+
+/** Hex SHA-256 of a gateway secret */
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
@@ -0,0 +1,11 @@
+// ============================================================================
+// OpenClaw Relay - Main Entry Point
+// Self-hostable relay between OpenClaw gateways and their paired apps.
+// ============================================================================
+
+export { RelayServer } from './relayServer.js';
+export { PairingCodes, CODE_TTL_MS } from './pairingCodes.js';
+export { SessionStore } from './sessionStore.js';
+export type { AppSession } from './sessionStore.js';
+export { GatewaySecrets } from './gatewaySecrets.js';
+export * from './types.js';
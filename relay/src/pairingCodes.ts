@@ -0,0 +1,88 @@
+// ============================================================================
+// OpenClaw Relay - Pairing Codes
+// Issues the CLAW-XXXX codes connected gateways display and redeems them for
+// POST /pair. Codes use the gateway's alphabet (no 0/O, 1/I/l), expire
+// after 5 minutes and can be redeemed only once.
+// ============================================================================
+
+import crypto from 'crypto';
+import type { RelayPairCode } from '@openclaw-monitor/shared';
+
+/** Lifetime of a pairing code (5 minutes, like the gateway's own codes) */
+export const CODE_TTL_MS = 5 * 60 * 1000;
+
+/** Alphabet for generating pairing codes; matches the gateway's */
+const CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+/** A code waiting to be redeemed */
+interface IssuedCode {
+  deviceToken: string;
+  expiresAt: number;
+}
+
+export class PairingCodes {
+  private codes = new Map<string, IssuedCode>();
+
+  /**
+   * Issue a new code for a gateway. Earlier codes of the gateway stay
+   * valid until they expire, so a code being typed in survives a rotation.
+   *
+   * @param deviceToken - The gateway the code pairs with
+   * @param now - Current time in ms (injectable for tests)
+   */
+  issue(deviceToken: string, now: number = Date.now()): RelayPairCode {
+    this.removeExpired(now);
+
+    let code: string;
+    do {
+      code = `CLAW-${randomString(4)}`;
+    } while (this.codes.has(code));
+
+    const expiresAt = now + CODE_TTL_MS;
+    this.codes.set(code, { deviceToken, expiresAt });
+    return { type: 'pair_code', code, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Redeem a code, which can't be used again afterwards.
+   *
+   * @param code - The code as entered (case and surrounding spaces are ignored)
+   * @param gatewayId - If given, the code must belong to this gateway
+   * @returns The device token of the code's gateway, or null if the code
+   *          is unknown, expired or belongs to another gateway
+   */
+  redeem(code: string, gatewayId?: string, now: number = Date.now()): string | null {
+    this.removeExpired(now);
+    const key = code.trim().toUpperCase();
+    const issued = this.codes.get(key);
+    if (!issued) return null;
+    if (gatewayId && gatewayId !== issued.deviceToken) return null;
+
+    this.codes.delete(key);
+    return issued.deviceToken;
+  }
+
+  /** Invalidate every code of a gateway, e.g. when it disconnects. */
+  revoke(deviceToken: string): void {
+    for (const [code, issued] of this.codes) {
+      if (issued.deviceToken === deviceToken) this.codes.delete(code);
+    }
+  }
+
+  /** Drop codes past their expiry */
+  private removeExpired(now: number): void {
+    for (const [code, issued] of this.codes) {
+      if (issued.expiresAt <= now) this.codes.delete(code);
+    }
+  }
+}
+
+/** Generate a cryptographically random string from the code alphabet */
+function randomString(length: number): string {
+  const bytes = crypto.randomBytes(length);
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+  }
+  return result;
+}
@@ -0,0 +1,619 @@
+// ============================================================================
+// OpenClaw Relay - Relay Server
+// Routes messages between gateways and their paired apps, for teams that
+// run their own relay instead of relay.clawface.app.
+//
+// Endpoints (one HTTP server; put TLS in front of it for wss://):
+//   WS   /gateway?deviceToken=...  Gateway connection (what RelayClient opens),
+//                                  authenticated by its Authorization header
+//                                  once it has sent one; without one it
+//                                  can't replace a live connection
+//   WS   /app?sessionToken=...     App connection, after pairing
+//   POST /pair                     Redeem a pairing code (PairRequest -> PairResponse)
+//   GET  /health                   Liveness check
+//
+// After a gateway's hello, the relay issues it a CLAW-XXXX code and a new
+// one every 5 minutes, on the gateway's own rotation period, so the relay's
+// code replaces the one the gateway generates locally. Redeeming a code
+// creates a session for the app, sends the gateway a 'pair' command and
+// issues a fresh code. The relay answers the hello's protocol range with
+// the newest version both support and the gateway's features, all of
+// which it can forward; an app may send its own agreement, which replaces
+// the relay's. Status, alert and encrypted messages are forwarded
+// unchanged; encrypted envelopes only to the app they're addressed to, and
+// command responses only to the app that sent the command.
+// ============================================================================
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { Duplex } from 'stream';
+import WebSocket, { WebSocketServer } from 'ws';
+import { CODE_TTL_MS, PairingCodes } from './pairingCodes.js';
+import { SessionStore } from './sessionStore.js';
+import { GatewaySecrets } from './gatewaySecrets.js';
+import type {
+  CommandMessage,
+  CommandResponse,
+  GatewayHello,
+  GatewayOfflineNotice,
+  MIN_PROTOCOL_VERSION as SHARED_MIN_PROTOCOL_VERSION,
+  PairResponse,
+  PROTOCOL_VERSION as SHARED_PROTOCOL_VERSION,
+  ProtocolAgreement,
+  RelayAck,
+} from '@openclaw-monitor/shared';
+import type { RelayServerOptions } from './types.js';
+
+// The protocol bounds are typed as the shared constants, so a version bump
+// in shared/types.ts fails the type-check until it's mirrored here. Only
+// the types are imported: the built relay can't load the shared package
+// at runtime.
+
+/** Oldest protocol version the relay can answer with (MIN_PROTOCOL_VERSION in shared) */
+const MIN_PROTOCOL_VERSION: typeof SHARED_MIN_PROTOCOL_VERSION = 1;
+
+/** Newest protocol version the relay can answer with (PROTOCOL_VERSION in shared) */
+const PROTOCOL_VERSION: typeof SHARED_PROTOCOL_VERSION = 1;
+
+/** Interval between pings to detect connections that went away without closing */
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/** Largest accepted POST /pair body */
+const MAX_BODY_BYTES = 4096;
+
+/** Failed pairing attempts allowed per client address within the window */
+const MAX_FAILED_PAIRS = 10;
+const FAILED_PAIR_WINDOW_MS = 60 * 1000;
+
+/** Close codes */
+const CLOSE_UNPAIRED = 4403;
+const CLOSE_REPLACED = 4409;
+
+/** A connected gateway */
+interface GatewayConnection {
+  ws: WebSocket;
+  deviceToken: string;
+  /** Hostname from the hello message, returned to apps that pair */
+  hostname: string;
+  /** Whether the gateway answered the last ping */
+  alive: boolean;
+  rotationTimer: NodeJS.Timeout | null;
+}
+
+/** A connected app */
+interface AppConnection {
+  ws: WebSocket;
+  /** The gateway the app's session belongs to */
+  deviceToken: string;
+  /** The app's end-to-end encryption peer id, once seen */
+  peerId: string | null;
+  /** Whether the app answered the last ping */
+  alive: boolean;
+}
+
+// ============================================================================
+// RelayServer
+// ============================================================================
+
+export class RelayServer {
+  private server: http.Server | null = null;
+  private gatewayWss = new WebSocketServer({ noServer: true });
+  private appWss = new WebSocketServer({ noServer: true });
+  private gateways = new Map<string, GatewayConnection>();
+  private apps = new Set<AppConnection>();
+  private codes = new PairingCodes();
+  private sessions: SessionStore;
+  private gatewaySecrets: GatewaySecrets;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+
+  /** App that sent each command still awaiting a response, keyed by commandKey() */
+  private pendingCommands = new Map<string, AppConnection>();
+
+  /** Commands the relay sent itself, whose responses are dropped */
+  private relayCommands = new Set<string>();
+
+  /** Times of recent failed pairing attempts per client address */
+  private failedPairs = new Map<string, number[]>();
+
+  constructor(private options: RelayServerOptions) {
+    this.sessions = new SessionStore(options.sessionsFile);
+    this.gatewaySecrets = new GatewaySecrets(options.gatewaysFile);
+    for (const deviceToken of options.resetGateways ?? []) this.gatewaySecrets.reset(deviceToken);
+  }
+
+  // --------------------------------------------------------------------------
+  // Public API
+  // --------------------------------------------------------------------------
+
+  /**
+   * Start listening for gateways, apps and pairing requests.
+   *
+   * @throws If the port can't be bound (e.g. EADDRINUSE)
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        console.error('[RelayServer] Request failed:', err);
+        if (!res.headersSent) writeJson(res, 500, { error: 'Internal error' });
+      });
+    });
+    server.on('upgrade', (req, socket, head) => this.handleUpgrade(req, socket, head));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    this.heartbeatInterval = setInterval(() => this.checkHeartbeats(), HEARTBEAT_INTERVAL_MS);
+    console.log(`[RelayServer] Listening on port ${this.port}`);
+  }
+
+  /** Close every connection and stop listening. */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    for (const gateway of this.gateways.values()) {
+      this.stopRotation(gateway);
+      gateway.ws.close(1001, 'Relay shutting down');
+    }
+    for (const app of this.apps) {
+      app.ws.close(1001, 'Relay shutting down');
+    }
+    this.gateways.clear();
+    this.apps.clear();
+    this.pendingCommands.clear();
+
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log('[RelayServer] Stopped');
+  }
+
+  /** The port the server listens on, or null while stopped */
+  get port(): number | null {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address?.port ?? null;
+  }
+
+  // --------------------------------------------------------------------------
+  // HTTP
+  // --------------------------------------------------------------------------
+
+  /** Route a plain HTTP request */
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://relay');
+
+    if (req.method === 'POST' && url.pathname === '/pair') {
+      await this.handlePair(req, res);
+    } else if (req.method === 'GET' && url.pathname === '/health') {
+      writeJson(res, 200, { status: 'ok' });
+    } else {
+      writeJson(res, 404, { error: 'Not found' });
+    }
+  }
+
+  /**
+   * Redeem a pairing code: create a session for the app, tell the gateway
+   * a device paired, and give the gateway a fresh code to display.
+   */
+  private async handlePair(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const address = req.socket.remoteAddress ?? 'unknown';
+    if (this.tooManyFailedPairs(address)) {
+      writeJson(res, 429, pairError('Too many failed attempts, try again later'));
+      return;
+    }
+
+    let body: { code?: unknown; gatewayId?: unknown };
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      writeJson(res, 400, pairError('Expected a JSON body'));
+      return;
+    }
+    if (typeof body?.code !== 'string' || (body.gatewayId !== undefined && typeof body.gatewayId !== 'string')) {
+      writeJson(res, 400, pairError('Expected {"code": "CLAW-XXXX", "gatewayId"?: string}'));
+      return;
+    }
+
+    const deviceToken = this.codes.redeem(body.code, body.gatewayId || undefined);
+    const gateway = deviceToken ? this.gateways.get(deviceToken) : undefined;
+    if (!deviceToken || !gateway) {
+      this.recordFailedPair(address);
+      writeJson(res, 404, pairError('Invalid or expired pairing code'));
+      return;
+    }
+
+    const sessionToken = this.sessions.create(deviceToken);
+    console.log(`[RelayServer] App paired with gateway ${gateway.hostname}`);
+
+    const pair: CommandMessage = { type: 'command', id: crypto.randomUUID(), action: 'pair' };
+    this.relayCommands.add(commandKey(deviceToken, pair.id));
+    send(gateway.ws, pair);
+    this.sendPairCode(gateway);
+
+    const response: PairResponse = { success: true, gatewayId: deviceToken, sessionToken, hostname: gateway.hostname };
+    writeJson(res, 200, response);
+  }
+
+  /** Whether an address used up its failed pairing attempts */
+  private tooManyFailedPairs(address: string, now: number = Date.now()): boolean {
+    const recent = (this.failedPairs.get(address) ?? []).filter((t) => now - t < FAILED_PAIR_WINDOW_MS);
+    if (recent.length === 0) this.failedPairs.delete(address);
+    else this.failedPairs.set(address, recent);
+    return recent.length >= MAX_FAILED_PAIRS;
+  }
+
+  /** Count a failed pairing attempt against an address */
+  private recordFailedPair(address: string): void {
+    this.failedPairs.set(address, [...(this.failedPairs.get(address) ?? []), Date.now()]);
+  }
+
+  // --------------------------------------------------------------------------
+  // WebSocket upgrades
+  // --------------------------------------------------------------------------
+
+  /** Accept gateway and app WebSocket connections; refuse anything else */
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(req.url ?? '/', 'http://relay');
+
+    if (url.pathname === '/gateway') {
+      const deviceToken = url.searchParams.get('deviceToken');
+      if (!deviceToken) {
+        rejectUpgrade(socket, 400, 'Bad Request');
+        return;
+      }
+      // Checked before the connection can replace the gateway's current one
+      const secret = bearerToken(req);
+      if (!this.gatewaySecrets.verify(deviceToken, secret)) {
+        console.warn(`[RelayServer] Refused gateway connection for ${deviceToken}: wrong or missing secret`);
+        rejectUpgrade(socket, 401, 'Unauthorized');
+        return;
+      }
+      // Without a secret nothing shows it's the same gateway, so it can't
+      // replace a live connection (a dropped one is cleared by the heartbeat)
+      if (secret === null && this.gateways.has(deviceToken)) {
+        console.warn(`[RelayServer] Refused gateway connection for ${deviceToken}: already connected`);
+        rejectUpgrade(socket, 409, 'Conflict');
+        return;
+      }
+      this.gatewayWss.handleUpgrade(req, socket, head, (ws) => this.handleGateway(ws, deviceToken));
+    } else if (url.pathname === '/app') {
+      const session = this.sessions.get(url.searchParams.get('sessionToken') ?? '');
+      if (!session) {
+        rejectUpgrade(socket, 401, 'Unauthorized');
+        return;
+      }
+      this.appWss.handleUpgrade(req, socket, head, (ws) => this.handleApp(ws, session.deviceToken));
+    } else {
+      rejectUpgrade(socket, 404, 'Not Found');
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Gateway connections
+  // --------------------------------------------------------------------------
+
+  /** Register a gateway connection, replacing an older one with the same token */
+  private handleGateway(ws: WebSocket, deviceToken: string): void {
+    const previous = this.gateways.get(deviceToken);
+    if (previous) {
+      this.stopRotation(previous);
+      previous.ws.close(CLOSE_REPLACED, 'Replaced by a new connection');
+    }
+
+    const gateway: GatewayConnection = { ws, deviceToken, hostname: '', alive: true, rotationTimer: null };
+    this.gateways.set(deviceToken, gateway);
+
+    ws.on('message', (data: WebSocket.Data) => this.handleGatewayMessage(gateway, data));
+    ws.on('pong', () => {
+      gateway.alive = true;
+    });
+    ws.on('close', () => {
+      this.stopRotation(gateway);
+      if (this.gateways.get(deviceToken) !== gateway) return;
+      this.gateways.delete(deviceToken);
+      this.codes.revoke(deviceToken);
+
+      const notice: GatewayOfflineNotice = { type: 'gateway_offline', timestamp: new Date().toISOString() };
+      this.forEachApp(deviceToken, (app) => send(app.ws, notice));
+      console.log(`[RelayServer] Gateway ${gateway.hostname || deviceToken} disconnected`);
+    });
+    ws.on('error', (err: Error) => {
+      console.error(`[RelayServer] Gateway connection error: ${err.message}`);
+    });
+
+    const ack: RelayAck = { type: 'ack', status: 'connected', message: 'Gateway online' };
+    this.forEachApp(deviceToken, (app) => send(app.ws, ack));
+  }
+
+  /** Route a message from a gateway */
+  private handleGatewayMessage(gateway: GatewayConnection, data: WebSocket.Data): void {
+    const raw = data.toString();
+    let message: { type?: unknown; [key: string]: unknown };
+    try {
+      message = JSON.parse(raw);
+    } catch (err) {
+      console.error('[RelayServer] Failed to parse gateway message:', err);
+      return;
+    }
+
+    switch (message.type) {
+      case 'hello':
+        gateway.hostname = typeof message.hostname === 'string' ? message.hostname : '';
+        console.log(`[RelayServer] Gateway ${gateway.hostname} connected (version ${String(message.gatewayVersion)})`);
+        this.answerProtocol(gateway, message as unknown as Partial<GatewayHello>);
+        this.sendPairCode(gateway);
+        if (!gateway.rotationTimer) {
+          gateway.rotationTimer = setInterval(() => this.sendPairCode(gateway), CODE_TTL_MS);
+        }
+        break;
+
+      case 'status':
+      case 'alert':
+        this.forEachApp(gateway.deviceToken, (app) => sendRaw(app.ws, raw));
+        break;
+
+      case 'encrypted':
+        // Only the addressed app can open it; apps whose peer id isn't known yet get it too
+        this.forEachApp(gateway.deviceToken, (app) => {
+          if (app.peerId === null || app.peerId === message.peerId) sendRaw(app.ws, raw);
+        });
+        break;
+
+      case 'command-response':
+        this.routeCommandResponse(gateway.deviceToken, message as unknown as CommandResponse, raw);
+        break;
+
+      case 'disconnect':
+        if (message.reason === 'unpair') this.unpairGateway(gateway.deviceToken);
+        break;
+
+      default:
+        console.log('[RelayServer] Received unknown gateway message type:', message.type);
+    }
+  }
+
+  /** Send a command response to the app that sent the command */
+  private routeCommandResponse(deviceToken: string, response: CommandResponse, raw: string): void {
+    const key = commandKey(deviceToken, String(response.commandId));
+    if (this.relayCommands.delete(key)) return;
+
+    const app = this.pendingCommands.get(key);
+    this.pendingCommands.delete(key);
+    if (app) {
+      sendRaw(app.ws, raw);
+    } else {
+      this.forEachApp(deviceToken, (a) => sendRaw(a.ws, raw));
+    }
+  }
+
+  /** Revoke a gateway's app sessions and close their connections */
+  private unpairGateway(deviceToken: string): void {
+    this.sessions.revokeAll(deviceToken);
+    this.forEachApp(deviceToken, (app) => app.ws.close(CLOSE_UNPAIRED, 'Gateway unpaired'));
+    console.log(`[RelayServer] Gateway ${deviceToken} unpaired`);
+  }
+
+  /**
+   * Agree on a protocol with a gateway from its hello. Gateways that don't
+   * send a range get no answer and keep their defaults.
+   */
+  private answerProtocol(gateway: GatewayConnection, hello: Partial<GatewayHello>): void {
+    const { minProtocol, maxProtocol, features } = hello;
+    if (typeof minProtocol !== 'number' || typeof maxProtocol !== 'number') return;
+
+    const version = Math.min(maxProtocol, PROTOCOL_VERSION);
+    if (version < Math.max(minProtocol, MIN_PROTOCOL_VERSION)) {
+      console.warn(
+        `[RelayServer] Gateway ${gateway.hostname} needs protocol ${minProtocol}-${maxProtocol}, ` +
+        `relay supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`,
+      );
+      return;
+    }
+    const agreement: ProtocolAgreement = {
+      type: 'protocol',
+      version,
+      features: Array.isArray(features) ? features : [],
+    };
+    send(gateway.ws, agreement);
+  }
+
+  /** Issue a new pairing code to a gateway */
+  private sendPairCode(gateway: GatewayConnection): void {
+    send(gateway.ws, this.codes.issue(gateway.deviceToken));
+  }
+
+  /** Stop a gateway's code rotation */
+  private stopRotation(gateway: GatewayConnection): void {
+    if (gateway.rotationTimer) {
+      clearInterval(gateway.rotationTimer);
+      gateway.rotationTimer = null;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // App connections
+  // --------------------------------------------------------------------------
+
+  /** Register an app connection for a paired session */
+  private handleApp(ws: WebSocket, deviceToken: string): void {
+    const app: AppConnection = { ws, deviceToken, peerId: null, alive: true };
+    this.apps.add(app);
+
+    ws.on('message', (data: WebSocket.Data) => this.handleAppMessage(app, data));
+    ws.on('pong', () => {
+      app.alive = true;
+    });
+    ws.on('close', () => {
+      this.apps.delete(app);
+      for (const [key, pending] of this.pendingCommands) {
+        if (pending === app) this.pendingCommands.delete(key);
+      }
+    });
+    ws.on('error', (err: Error) => {
+      console.error(`[RelayServer] App connection error: ${err.message}`);
+    });
+
+    const ack: RelayAck = { type: 'ack', status: 'paired' };
+    send(ws, ack);
+    if (!this.gateways.has(deviceToken)) {
+      const notice: GatewayOfflineNotice = { type: 'gateway_offline', timestamp: new Date().toISOString() };
+      send(ws, notice);
+    }
+  }
+
+  /** Forward a message from an app to its gateway */
+  private handleAppMessage(app: AppConnection, data: WebSocket.Data): void {
+    const raw = data.toString();
+    let message: { type?: unknown; [key: string]: unknown };
+    try {
+      message = JSON.parse(raw);
+    } catch (err) {
+      console.error('[RelayServer] Failed to parse app message:', err);
+      return;
+    }
+
+    const gateway = this.gateways.get(app.deviceToken);
+
+    if (message.type === 'command' && typeof message.id === 'string' && typeof message.action === 'string') {
+      if (!gateway) {
+        const response: CommandResponse = {
+          type: 'command-response',
+          commandId: message.id,
+          success: false,
+          error: 'Gateway is offline',
+        };
+        send(app.ws, response);
+        return;
+      }
+      this.pendingCommands.set(commandKey(app.deviceToken, message.id), app);
+      sendRaw(gateway.ws, raw);
+      // The gateway forgets all paired apps when it unpairs
+      if (message.action === 'unpair') this.sessions.revokeAll(app.deviceToken);
+    } else if (message.type === 'protocol') {
+      if (gateway) sendRaw(gateway.ws, raw);
+    } else if (message.type === 'key-exchange' || message.type === 'encrypted') {
+      if (message.type === 'key-exchange' && typeof message.publicKey === 'string') {
+        app.peerId = peerIdFor(message.publicKey);
+      } else if (message.type === 'encrypted' && typeof message.peerId === 'string') {
+        app.peerId = message.peerId;
+      }
+      if (!gateway) {
+        const notice: GatewayOfflineNotice = { type: 'gateway_offline', timestamp: new Date().toISOString() };
+        send(app.ws, notice);
+        return;
+      }
+      sendRaw(gateway.ws, raw);
+    } else {
+      console.log('[RelayServer] Received unknown app message type:', message.type);
+    }
+  }
+
+  /** Call fn for every connected app of a gateway */
+  private forEachApp(deviceToken: string, fn: (app: AppConnection) => void): void {
+    for (const app of this.apps) {
+      if (app.deviceToken === deviceToken) fn(app);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Heartbeat
+  // --------------------------------------------------------------------------
+
+  /** Ping every connection, terminating those that didn't answer the last ping */
+  private checkHeartbeats(): void {
+    for (const connection of [...this.gateways.values(), ...this.apps]) {
+      if (!connection.alive) {
+        connection.ws.terminate();
+        continue;
+      }
+      connection.alive = false;
+      try {
+        connection.ws.ping();
+      } catch {
+        // The close handler cleans up
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/** Key for a command id, which only has to be unique per gateway */
+function commandKey(deviceToken: string, commandId: string): string {
+  return `${deviceToken}:${commandId}`;
+}
+
+/** Peer id of an app key: the first 16 hex digits of its SHA-256 */
+function peerIdFor(appPublicKey: string): string {
+  return crypto.createHash('sha256').update(Buffer.from(appPublicKey, 'base64url')).digest('hex').slice(0, 16);
+}
+
+/** The token of a "Bearer" Authorization header, if any */
+function bearerToken(req: http.IncomingMessage): string | null {
+  const match = /^Bearer (\S+)$/.exec(req.headers.authorization ?? '');
+  return match ? match[1] : null;
+}
+
+/** Send a message as JSON, if the connection is open */
+function send(ws: WebSocket, message: object): void {
+  sendRaw(ws, JSON.stringify(message));
+}
+
+/** Send an already-serialized message, if the connection is open */
+function sendRaw(ws: WebSocket, data: string): void {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  try {
+    ws.send(data);
+  } catch (err) {
+    console.error('[RelayServer] Failed to send message:', err);
+  }
+}
+
+/** A failed PairResponse */
+function pairError(error: string): PairResponse {
+  return { success: false, error };
+}
+
+/** Write a JSON response */
+function writeJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/** Read a request body as text, up to MAX_BODY_BYTES */
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Past the limit the rest is drained and discarded
+      if (size > MAX_BODY_BYTES) reject(new Error('Request body too large'));
+      else chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/** Refuse a WebSocket upgrade with an HTTP status */
+function rejectUpgrade(socket: Duplex, status: number, text: string): void {
+  socket.write(`HTTP/1.1 ${status} ${text}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
@@ -0,0 +1,86 @@
+// ============================================================================
+// OpenClaw Relay - Session Store
+// Session tokens handed to apps by POST /pair. An app opens its WebSocket
+// with the token to reach the gateway it paired with. Only a SHA-256 of each
+// token is kept, optionally in a JSON file so pairings survive restarts.
+// ============================================================================
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/** A paired app */
+export interface AppSession {
+  /** The gateway the app paired with */
+  deviceToken: string;
+  /** ISO 8601 timestamp of the pairing */
+  pairedAt: string;
+}
+
+export class SessionStore {
+  /** Sessions keyed by the hex SHA-256 of their token */
+  private sessions = new Map<string, AppSession>();
+
+  /**
+   * @param file - JSON file to persist sessions in; memory only if omitted
+   */
+  constructor(private file?: string) {
+    if (!file || !fs.existsSync(file)) return;
+    try {
+      const stored = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, AppSession>;
+      for (const [hash, session] of Object.entries(stored)) {
+        if (typeof session?.deviceToken === 'string') this.sessions.set(hash, session);
+      }
+    } catch (err) {
+      console.warn('[SessionStore] Ignoring unreadable sessions file:', err);
+    }
+  }
+
+  /**
+   * Create a session for an app that just paired.
+   *
+   * @returns The session token to give the app
+   */
+  create(deviceToken: string): string {
+    const token = crypto.randomBytes(32).toString('base64url');
+    this.sessions.set(hashToken(token), { deviceToken, pairedAt: new Date().toISOString() });
+    this.save();
+    return token;
+  }
+
+  /** The session of a token, or null if it's unknown or was revoked */
+  get(token: string): AppSession | null {
+    return this.sessions.get(hashToken(token)) ?? null;
+  }
+
+  /** Revoke every session of a gateway, e.g. after it unpaired. */
+  revokeAll(deviceToken: string): void {
+    let changed = false;
+    for (const [hash, session] of this.sessions) {
+      if (session.deviceToken === deviceToken) {
+        this.sessions.delete(hash);
+        changed = true;
+      }
+    }
+    if (changed) this.save();
+  }
+
+  /** Write the sessions to the file, if any */
+  private save(): void {
+    if (!this.file) return;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.writeFileSync(this.file, JSON.stringify(Object.fromEntries(this.sessions), null, 2), {
+        encoding: 'utf-8',
+        mode: 0o600,
+      });
+    } catch (err) {
+      console.error('[SessionStore] Failed to save sessions:', err);
+    }
+  }
+}
+
+/** Hex SHA-256 of a session token */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,54 @@
+#!/usr/bin/env tsx
+// ============================================================================
+// OpenClaw Relay - Production Entry Point
+// Runs the relay in the foreground until interrupted. Serve it behind a
+// TLS-terminating proxy so gateways and apps can connect with wss://.
+//
+// Usage:
+//   npm start --workspace=relay
+//
+// Environment:
+//   RELAY_PORT      Port to listen on (default: 8080)
+//   RELAY_HOST      Interface to bind (default: all interfaces)
+//   RELAY_DATA_DIR  Directory for sessions.json and gateways.json
+//                   (default: ~/.openclaw-relay)
+//   RELAY_RESET_GATEWAYS
+//                   Comma-separated device tokens whose registration is
+//                   forgotten on start, so a gateway that connected
+//                   without a secret can register one after upgrading
+// ============================================================================
+
+import path from 'path';
+import os from 'os';
+import { RelayServer } from './relayServer.js';
+
+const DEFAULT_PORT = 8080;
+const DATA_DIR = process.env.RELAY_DATA_DIR || path.join(os.homedir(), '.openclaw-relay');
+
+async function main(): Promise<void> {
+  const port = process.env.RELAY_PORT ? Number(process.env.RELAY_PORT) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid RELAY_PORT: ${process.env.RELAY_PORT}`);
+  }
+
+  const server = new RelayServer({
+    port,
+    host: process.env.RELAY_HOST || undefined,
+    sessionsFile: path.join(DATA_DIR, 'sessions.json'),
+    gatewaysFile: path.join(DATA_DIR, 'gateways.json'),
+    resetGateways: (process.env.RELAY_RESET_GATEWAYS ?? '').split(',').map((t) => t.trim()).filter(Boolean),
+  });
+  await server.start();
+
+  const shutdown = async (): Promise<void> => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((err) => {
+  console.error('[Relay] Failed to start:', err);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+// ============================================================================
+// OpenClaw Relay - Type Definitions
+// Configuration of the relay server. Protocol messages come from
+// shared/types.ts; status, alert and encrypted messages are forwarded
+// unchanged, so the relay only reads their routing fields.
+// ============================================================================
+
+// --- Configuration ---
+
+export interface RelayServerOptions {
+  /** TCP port to listen on (0 picks a free port) */
+  port: number;
+  /** Interface to bind (default: all interfaces) */
+  host?: string;
+  /** File app sessions are kept in across restarts; in memory only if omitted */
+  sessionsFile?: string;
+  /** File gateway secret registrations are kept in across restarts; in memory only if omitted */
+  gatewaysFile?: string;
+  /** Device tokens whose gateway registration is forgotten on start, e.g. after upgrading a gateway that sent no secret */
+  resetGateways?: string[];
+}
@@ -0,0 +1,53 @@
+// ============================================================================
+// Tests for PairingCodes
+// Verifies the code format, that codes redeem once, case-insensitively and
+// only for their own gateway, expiry, and revocation per gateway.
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { CODE_TTL_MS, PairingCodes } from '../src/pairingCodes.js';
+
+describe('PairingCodes', () => {
+  it('should issue CLAW-XXXX codes that expire after the TTL', () => {
+    const codes = new PairingCodes();
+    const issued = codes.issue('gateway-a', 0);
+
+    expect(issued.type).toBe('pair_code');
+    expect(issued.code).toMatch(/^CLAW-[2-9A-HJ-NP-Z]{4}$/);
+    expect(issued.expiresAt).toBe(new Date(CODE_TTL_MS).toISOString());
+  });
+
+  it('should redeem a code once, ignoring case and spaces', () => {
+    const codes = new PairingCodes();
+    const { code } = codes.issue('gateway-a', 0);
+
+    expect(codes.redeem(` ${code.toLowerCase()} `, undefined, 1000)).toBe('gateway-a');
+    expect(codes.redeem(code, undefined, 1000)).toBeNull();
+  });
+
+  it('should not redeem a code for another gateway', () => {
+    const codes = new PairingCodes();
+    const { code } = codes.issue('gateway-a', 0);
+
+    expect(codes.redeem(code, 'gateway-b', 0)).toBeNull();
+    expect(codes.redeem(code, 'gateway-a', 0)).toBe('gateway-a');
+  });
+
+  it('should not redeem expired codes', () => {
+    const codes = new PairingCodes();
+    const { code } = codes.issue('gateway-a', 0);
+    expect(codes.redeem(code, undefined, CODE_TTL_MS)).toBeNull();
+  });
+
+  it('should keep earlier codes valid until revoked', () => {
+    const codes = new PairingCodes();
+    const first = codes.issue('gateway-a', 0).code;
+    const second = codes.issue('gateway-a', 0).code;
+    const other = codes.issue('gateway-b', 0).code;
+
+    expect(codes.redeem(first, undefined, 0)).toBe('gateway-a');
+    codes.revoke('gateway-a');
+    expect(codes.redeem(second, undefined, 0)).toBeNull();
+    expect(codes.redeem(other, undefined, 0)).toBe('gateway-b');
+  });
+});
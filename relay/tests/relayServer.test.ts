@@ -0,0 +1,357 @@
+// ============================================================================
+// Tests for RelayServer
+// Connects the gateway's own RelayClient, unchanged, and raw WebSocket apps
+// to verify code issuance after hello, pairing over POST /pair, forwarding
+// of status and commands, offline notices, rejection of unknown sessions,
+// the failed-attempt limit, sessions that survive a restart, revocation
+// after an encrypted unpair, the protocol agreement answering the hello,
+// and that a device token known to apps
+// can't take over the gateway's connection without its secret, while
+// gateways that never registered one connect without it but can neither
+// replace a live connection nor be locked out by a secret registered later,
+// and that resetting a token lets an upgraded gateway register its secret.
+// Runs the relay on a free port with a temporary sessions file.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import WebSocket from 'ws';
+import { RelayServer } from '../src/relayServer.js';
+import { RelayClient } from '../../gateway/src/relayClient.js';
+import { PROTOCOL_FEATURES } from '../../gateway/src/protocol.js';
+import { SecureChannel, SecureSession, generateKeyPair, keyExchangeProof } from '../../gateway/src/secureChannel.js';
+import type { CommandMessage, StatusMessage } from '../../gateway/src/types.js';
+
+const DEVICE_TOKEN = 'gateway-token';
+const GATEWAY_SECRET = 'gateway-secret';
+const PAIRING_SECRET = 'c2VjcmV0LXNlY3JldC0xMg';
+
+/** Poll until fn returns a value other than undefined */
+async function waitFor<T>(fn: () => T | undefined, timeoutMs: number = 2000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = fn();
+    if (value !== undefined) return value;
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/** A raw app connection that records what it receives */
+interface TestApp {
+  ws: WebSocket;
+  messages: Record<string, unknown>[];
+}
+
+describe('RelayServer', () => {
+  let dir: string;
+  let relay: RelayServer;
+  let gateway: RelayClient;
+  let codes: string[];
+  let commands: CommandMessage[];
+  let apps: TestApp[];
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openclaw-relay-'));
+    relay = new RelayServer({ port: 0, host: '127.0.0.1', sessionsFile: path.join(dir, 'sessions.json') });
+    await relay.start();
+
+    codes = [];
+    commands = [];
+    apps = [];
+    gateway = new RelayClient(
+      `ws://127.0.0.1:${relay.port}/gateway`,
+      DEVICE_TOKEN,
+      '1.0.0',
+      (cmd) => {
+        commands.push(cmd);
+        // Like the monitor, which forgets its apps when unpaired
+        if (cmd.action === 'unpair') gateway.sendDisconnect(DEVICE_TOKEN, 'unpair');
+        gateway.sendCommandResponse({ type: 'command-response', commandId: cmd.id, success: true, data: cmd.action });
+      },
+      (code) => codes.push(code),
+    );
+    gateway.setGatewaySecret(GATEWAY_SECRET);
+    gateway.connect();
+    await waitFor(() => codes[0]);
+  });
+
+  afterEach(async () => {
+    gateway.disconnect();
+    for (const app of apps) app.ws.terminate();
+    await relay.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Redeem a pairing code */
+  async function pair(code: string, gatewayId?: string): Promise<{ status: number; body: Record<string, unknown> }> {
+    const res = await fetch(`http://127.0.0.1:${relay.port}/pair`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, gatewayId }),
+    });
+    return { status: res.status, body: await res.json() as Record<string, unknown> };
+  }
+
+  /** Open an app connection with a session token */
+  async function connectApp(sessionToken: string): Promise<TestApp> {
+    const ws = new WebSocket(`ws://127.0.0.1:${relay.port}/app?sessionToken=${sessionToken}`);
+    const app: TestApp = { ws, messages: [] };
+    ws.on('message', (data) => app.messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.once('error', reject);
+    });
+    apps.push(app);
+    return app;
+  }
+
+  /** Pair a new app with the current code and connect it */
+  async function pairedApp(): Promise<TestApp> {
+    const { body } = await pair(codes[codes.length - 1]);
+    return connectApp(body.sessionToken as string);
+  }
+
+  // --------------------------------------------------------------------------
+  // Pairing
+  // --------------------------------------------------------------------------
+
+  describe('pairing', () => {
+    it('should send the gateway a pairing code after its hello', () => {
+      expect(codes[0]).toMatch(/^CLAW-[2-9A-HJ-NP-Z]{4}$/);
+    });
+
+    it('should pair an app with the code once', async () => {
+      const { status, body } = await pair(codes[0].toLowerCase(), DEVICE_TOKEN);
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ success: true, gatewayId: DEVICE_TOKEN, hostname: os.hostname() });
+      expect(body.sessionToken).toEqual(expect.any(String));
+
+      // The gateway learns it is paired and gets a fresh code
+      await waitFor(() => (commands.length > 0 ? true : undefined));
+      expect(commands[0].action).toBe('pair');
+      await waitFor(() => (codes.length > 1 ? true : undefined));
+      expect(codes[1]).not.toBe(codes[0]);
+
+      expect((await pair(codes[0])).status).toBe(404);
+    });
+
+    it('should reject a code for another gateway', async () => {
+      const { status, body } = await pair(codes[0], 'other-gateway');
+      expect(status).toBe(404);
+      expect(body).toEqual({ success: false, error: 'Invalid or expired pairing code' });
+    });
+
+    it('should limit failed attempts per address', async () => {
+      for (let i = 0; i < 10; i++) {
+        expect((await pair('CLAW-0000')).status).toBe(404);
+      }
+      expect((await pair(codes[0])).status).toBe(429);
+    });
+
+    it('should refuse app connections without a valid session', async () => {
+      await expect(connectApp('unknown')).rejects.toThrow('401');
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Gateway authentication
+  // --------------------------------------------------------------------------
+
+  describe('gateway authentication', () => {
+    /** Try to open a gateway connection: 'open', or the refusal's error message */
+    function connectGateway(port: number, deviceToken: string, secret?: string): Promise<string> {
+      const ws = new WebSocket(`ws://127.0.0.1:${port}/gateway?deviceToken=${deviceToken}`, {
+        headers: secret ? { Authorization: `Bearer ${secret}` } : undefined,
+      });
+      return new Promise((resolve) => {
+        ws.once('open', () => {
+          ws.terminate();
+          resolve('open');
+        });
+        ws.once('error', (err) => resolve(err.message));
+      });
+    }
+
+    it('should not let a paired app take over the gateway with its token', async () => {
+      const { body } = await pair(codes[0]);
+      const app = await connectApp(body.sessionToken as string);
+
+      expect(await connectGateway(relay.port!, body.gatewayId as string)).toContain('401');
+      expect(await connectGateway(relay.port!, body.gatewayId as string, 'guessed-secret')).toContain('401');
+
+      // The real gateway is still connected and gets the app's commands
+      app.ws.send(JSON.stringify({ type: 'command', id: 'cmd-1', action: 'ping' }));
+      expect(await waitFor(() => app.messages.find((m) => m.type === 'command-response')))
+        .toMatchObject({ commandId: 'cmd-1', success: true });
+    });
+
+    it('should accept gateways without a secret for tokens that never registered one', async () => {
+      expect(await connectGateway(relay.port!, 'no-secret')).toBe('open');
+      expect(await connectGateway(relay.port!, 'no-secret')).toBe('open');
+
+      expect(await connectGateway(relay.port!, 'registered', 'first')).toBe('open');
+      expect(await connectGateway(relay.port!, 'registered')).toContain('401');
+    });
+
+    it('should not let a connection without a secret replace a live gateway', async () => {
+      const legacy = new WebSocket(`ws://127.0.0.1:${relay.port}/gateway?deviceToken=legacy`);
+      apps.push({ ws: legacy, messages: [] });
+      await new Promise((resolve) => legacy.once('open', resolve));
+
+      expect(await connectGateway(relay.port!, 'legacy')).toContain('409');
+      expect(legacy.readyState).toBe(WebSocket.OPEN);
+    });
+
+    it('should not register a secret for a token used without one', async () => {
+      const legacy = new WebSocket(`ws://127.0.0.1:${relay.port}/gateway?deviceToken=legacy`);
+      apps.push({ ws: legacy, messages: [] });
+      await new Promise((resolve) => legacy.once('open', resolve));
+
+      // Neither while that gateway is connected nor after it left
+      expect(await connectGateway(relay.port!, 'legacy', 'app-secret')).toContain('401');
+      legacy.close();
+      await new Promise((resolve) => legacy.once('close', resolve));
+      expect(await connectGateway(relay.port!, 'legacy', 'app-secret')).toContain('401');
+    });
+
+    it('should remember registered secrets across restarts', async () => {
+      const options = { port: 0, host: '127.0.0.1', gatewaysFile: path.join(dir, 'gateways.json') };
+      let other = new RelayServer(options);
+      await other.start();
+      try {
+        expect(await connectGateway(other.port!, 'persisted', 'first')).toBe('open');
+        await other.stop();
+
+        other = new RelayServer(options);
+        await other.start();
+        expect(await connectGateway(other.port!, 'persisted', 'second')).toContain('401');
+        expect(await connectGateway(other.port!, 'persisted', 'first')).toBe('open');
+      } finally {
+        await other.stop();
+      }
+    });
+
+    it('should let an upgraded gateway register a secret after its token is reset', async () => {
+      const options = { port: 0, host: '127.0.0.1', gatewaysFile: path.join(dir, 'gateways.json') };
+      let other = new RelayServer(options);
+      await other.start();
+      try {
+        expect(await connectGateway(other.port!, 'upgraded')).toBe('open');
+        expect(await connectGateway(other.port!, 'upgraded', 'new-secret')).toContain('401');
+        await other.stop();
+
+        other = new RelayServer({ ...options, resetGateways: ['upgraded'] });
+        await other.start();
+        expect(await connectGateway(other.port!, 'upgraded', 'new-secret')).toBe('open');
+        expect(await connectGateway(other.port!, 'upgraded')).toContain('401');
+      } finally {
+        await other.stop();
+      }
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Forwarding
+  // --------------------------------------------------------------------------
+
+  describe('forwarding', () => {
+    it('should forward status to paired apps and commands to the gateway', async () => {
+      const app = await pairedApp();
+      await waitFor(() => app.messages.find((m) => m.type === 'ack'));
+
+      gateway.sendStatus({ type: 'status', deviceToken: DEVICE_TOKEN, hostname: 'test-host' } as StatusMessage);
+      expect(await waitFor(() => app.messages.find((m) => m.type === 'status'))).toMatchObject({ hostname: 'test-host' });
+
+      app.ws.send(JSON.stringify({ type: 'command', id: 'cmd-1', action: 'ping' }));
+      const response = await waitFor(() => app.messages.find((m) => m.type === 'command-response'));
+      expect(response).toMatchObject({ type: 'command-response', commandId: 'cmd-1', success: true, data: 'ping' });
+    });
+
+    it('should tell apps when the gateway goes offline', async () => {
+      const app = await pairedApp();
+
+      gateway.disconnect();
+      await waitFor(() => app.messages.find((m) => m.type === 'gateway_offline'));
+
+      app.ws.send(JSON.stringify({ type: 'command', id: 'cmd-2', action: 'ping' }));
+      const response = await waitFor(() => app.messages.find((m) => m.type === 'command-response'));
+      expect(response).toMatchObject({ commandId: 'cmd-2', success: false, error: 'Gateway is offline' });
+    });
+
+    it('should revoke sessions after an encrypted unpair', async () => {
+      const channel = new SecureChannel(path.join(dir, 'e2e-key.pem'), path.join(dir, 'e2e-peers.json'));
+      const keys = generateKeyPair();
+      channel.addPeer(keys.publicKey, keyExchangeProof(keys.publicKey, PAIRING_SECRET), [PAIRING_SECRET]);
+      gateway.setSecureChannel(channel, () => {});
+      const session = new SecureSession('app', keys.privateKey, channel.publicKey);
+
+      const { body } = await pair(codes[0]);
+      const app = await connectApp(body.sessionToken as string);
+      const closed = new Promise<number>((resolve) => app.ws.once('close', resolve));
+
+      // The relay can't read the command, only the gateway's disconnect
+      app.ws.send(JSON.stringify(session.seal(DEVICE_TOKEN, { type: 'command', id: 'cmd-3', action: 'unpair' })));
+      expect(await closed).toBe(4403);
+      await expect(connectApp(body.sessionToken as string)).rejects.toThrow('401');
+    });
+
+    it('should keep sessions across restarts', async () => {
+      const { body } = await pair(codes[0]);
+      await relay.stop();
+
+      relay = new RelayServer({ port: 0, host: '127.0.0.1', sessionsFile: path.join(dir, 'sessions.json') });
+      await relay.start();
+
+      const app = await connectApp(body.sessionToken as string);
+      // The gateway is still connected to the old instance
+      expect(await waitFor(() => app.messages.find((m) => m.type === 'gateway_offline'))).toBeDefined();
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // Protocol negotiation
+  // --------------------------------------------------------------------------
+
+  describe('protocol', () => {
+    /** Connect a raw gateway, send a hello and collect what it receives */
+    async function helloFrom(fields: Record<string, unknown>): Promise<Record<string, unknown>[]> {
+      const ws = new WebSocket(`ws://127.0.0.1:${relay.port}/gateway?deviceToken=raw-gateway`, {
+        headers: { Authorization: 'Bearer raw-secret' },
+      });
+      const messages: Record<string, unknown>[] = [];
+      ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+      await new Promise((resolve) => ws.once('open', resolve));
+      apps.push({ ws, messages });
+      ws.send(JSON.stringify({ type: 'hello', deviceToken: 'raw-gateway', hostname: 'raw', ...fields }));
+      await waitFor(() => messages.find((m) => m.type === 'pair_code'));
+      return messages;
+    }
+
+    it('should answer the hello with the newest shared version and the gateway\'s features', async () => {
+      expect(gateway.protocol).toEqual({ type: 'protocol', version: 1, features: [...PROTOCOL_FEATURES] });
+
+      const messages = await helloFrom({ minProtocol: 1, maxProtocol: 3, features: ['alerts'] });
+      expect(messages.find((m) => m.type === 'protocol')).toEqual({ type: 'protocol', version: 1, features: ['alerts'] });
+    });
+
+    it('should not answer gateways without a range it supports', async () => {
+      expect((await helloFrom({})).find((m) => m.type === 'protocol')).toBeUndefined();
+      expect((await helloFrom({ minProtocol: 2, maxProtocol: 3, features: [] })).find((m) => m.type === 'protocol'))
+        .toBeUndefined();
+      expect((await helloFrom({ minProtocol: 0, maxProtocol: 0, features: [] })).find((m) => m.type === 'protocol'))
+        .toBeUndefined();
+    });
+
+    it('should forward an app\'s agreement to the gateway', async () => {
+      const app = await pairedApp();
+      app.ws.send(JSON.stringify({ type: 'protocol', version: 1, features: ['alerts'] }));
+
+      expect(await waitFor(() => (gateway.protocol.features.length === 1 ? gateway.protocol : undefined)))
+        .toEqual({ type: 'protocol', version: 1, features: ['alerts'] });
+    });
+  });
+});
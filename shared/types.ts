@@ -2,7 +2,8 @@
 // OpenClaw Monitor - Shared Type Definitions (Single Source of Truth)
 // ============================================================================
 // Canonical TypeScript interfaces for the data protocol used across all
-// three components: Gateway (Mac), Relay (Cloudflare Workers), and App (iPhone).
+// three components: Gateway (Mac), Relay (Cloudflare Workers, or relay/ when
+// self-hosted), and App (iPhone).
 //
 // All projects should import from this package instead of defining their own
 // types. This ensures protocol consistency across the entire system.
@@ -197,7 +198,7 @@ export interface OfficeEnvironment {
 export type AiProviderName = 'anthropic' | 'openai' | 'google' | 'deepseek' | 'other';
 
 /** Source of the AI request (which service triggered it). */
-export type AiRequestSource = 'telegram' | 'discord' | 'api' | 'claude-code' | 'other';
+export type AiRequestSource = 'telegram' | 'discord' | 'api' | 'claude-code' | 'codex-cli' | 'gemini-cli' | 'other';
 
 /**
  * A single logged AI API request with token counts and cost.
@@ -224,6 +225,8 @@ export interface AiRequestLog {
   source: AiRequestSource;
   /** Optional session identifier for grouping related requests */
   sessionId?: string;
+  /** Project (working directory) the request was made from, when known */
+  projectPath?: string;
 }
 
 /** Aggregated usage for a specific model within a provider. */
@@ -244,6 +247,121 @@ export interface ModelSummary {
   totalCost: number;
 }
 
+/** Time bucket size for usage time-series queries */
+export type UsageBucket = 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * A date range and bucket size for usage time-series queries.
+ * Sent as the get-usage command params to request a time series.
+ */
+export interface UsageQuery {
+  /** Range start, Unix timestamp in ms (inclusive) */
+  start: number;
+  /** Range end, Unix timestamp in ms (exclusive) */
+  end: number;
+  /** Bucket size. Buckets follow local time; weeks start on Monday. */
+  bucket: UsageBucket;
+}
+
+/** Usage of one model within one time bucket */
+export interface UsageSeriesPoint {
+  /** Start of the bucket, Unix timestamp in ms */
+  bucketStart: number;
+  provider: AiProviderName;
+  model: string;
+  requestCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  /** Total cache-read input tokens (prompt cache hits) */
+  totalCacheReadInputTokens: number;
+  /** Total cache-creation input tokens (prompt cache writes) */
+  totalCacheCreationInputTokens: number;
+  totalCost: number;
+}
+
+/** Usage over a date range, split into buckets per provider and model */
+export interface UsageTimeSeries {
+  /** Range start, Unix timestamp in ms */
+  start: number;
+  /** Range end, Unix timestamp in ms */
+  end: number;
+  bucket: UsageBucket;
+  /** Points ordered by bucket, provider and model. Buckets without usage are omitted. */
+  points: UsageSeriesPoint[];
+  /** Total cost over the whole range in USD */
+  totalCost: number;
+}
+
+/**
+ * A model that was used without a known price. Its requests were logged
+ * at $0, so reported spend is too low by whatever they really cost.
+ */
+export interface UnpricedModel {
+  provider: AiProviderName;
+  model: string;
+  requestCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCacheReadInputTokens: number;
+  totalCacheCreationInputTokens: number;
+  /** First unpriced request, Unix timestamp in ms */
+  firstSeen: number;
+  /** Most recent unpriced request, Unix timestamp in ms */
+  lastSeen: number;
+}
+
+/**
+ * Grouping for the get-usage command: per project or per session instead
+ * of the per-model summary. Sent as `groupBy` with `period` and, for
+ * sessions, an optional `project` filter.
+ */
+export type UsageGroupBy = 'project' | 'session';
+
+/** Usage attributed to one project (working directory) */
+export interface ProjectUsage {
+  /** Absolute project path, or null for usage with no known project */
+  projectPath: string | null;
+  /** Number of distinct sessions in the period */
+  sessionCount: number;
+  requestCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCacheReadInputTokens: number;
+  totalCacheCreationInputTokens: number;
+  /** Total cost in USD */
+  totalCost: number;
+  /** Most recent request, Unix timestamp in ms */
+  lastActivity: number;
+}
+
+/** Usage attributed to one session (e.g. a Claude Code conversation) */
+export interface SessionUsage {
+  sessionId: string;
+  /** Project the session ran in, or null if unknown */
+  projectPath: string | null;
+  /** Models used during the session, most expensive first */
+  models: string[];
+  requestCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCacheReadInputTokens: number;
+  totalCacheCreationInputTokens: number;
+  /** Total cost in USD */
+  totalCost: number;
+  /** First request, Unix timestamp in ms */
+  firstActivity: number;
+  /** Most recent request, Unix timestamp in ms */
+  lastActivity: number;
+}
+
+/** Outcome of a repricing pass over stored usage rows */
+export interface RepriceResult {
+  /** Models whose estimated rows were recomputed */
+  models: string[];
+  /** Number of rows whose cost actually changed */
+  repricedRows: number;
+}
+
 /**
  * Per-provider usage summary sent in StatusMessage.aiUsage.providers[].
  * Displayed in the AI Usage tab with per-model breakdown.
@@ -284,6 +402,12 @@ export interface AiUsageInfo {
   totalCostToday: number;
   /** Total cost across all providers for this calendar month, in USD */
   totalCostThisMonth: number;
+  /** Month-to-date spend per provider against the configured budgets */
+  budget?: BudgetStatus;
+  /** Burn rate and projected month-end spend */
+  forecast?: SpendForecast;
+  /** Subscription rate-limit windows per provider */
+  rateWindows?: ProviderRateWindows[];
 }
 
 // ============================================================================
@@ -343,6 +467,35 @@ export interface RateWindow {
   resetDescription?: string;
 }
 
+/**
+ * Subscription rate-limit windows of one provider.
+ * Nested inside StatusMessage.aiUsage.rateWindows.
+ */
+export interface ProviderRateWindows {
+  provider: AiProviderName;
+  /**
+   * 'reported' when read from the tool's logs (Codex); 'estimated' when
+   * derived from logged usage against configured or historical limits
+   */
+  source: 'reported' | 'estimated';
+  /** The 5-hour window (omitted if unknown) */
+  fiveHour?: RateWindow;
+  /** The weekly window (omitted if unknown) */
+  weekly?: RateWindow;
+}
+
+/**
+ * Spend (in USD at API prices) that uses up a provider's rate windows,
+ * used to estimate them when the provider's logs don't report usage.
+ * Without a limit, the busiest past window counts as 100%.
+ */
+export interface RateWindowLimits {
+  /** Spend that uses up one 5-hour window */
+  fiveHour?: number;
+  /** Spend that uses up one week */
+  weekly?: number;
+}
+
 /**
  * Provider-level spend/budget snapshot (e.g. Claude monthly spend vs limit).
  * Mirrors CodexBar's ProviderCostSnapshot struct.
@@ -360,6 +513,72 @@ export interface ProviderCostSnapshot {
   resetsAt?: string;
 }
 
+/**
+ * Projected spend for the current month (see SpendForecaster). The
+ * projection adds the typical spend of each remaining day of the month,
+ * by day of week, to the spend so far.
+ */
+export interface SpendForecast {
+  /** Average spend per hour over the trailing window, in USD */
+  burnRatePerHour: number;
+  /** Length of the trailing window the burn rate covers, in hours */
+  burnRateWindowHours: number;
+  /** Spend so far this calendar month, in USD */
+  monthToDate: number;
+  /** Projected total for the calendar month, in USD */
+  projectedMonthEnd: number;
+  /** Lower end of the 80% confidence band around projectedMonthEnd */
+  projectedMonthEndLow: number;
+  /** Upper end of the 80% confidence band around projectedMonthEnd */
+  projectedMonthEndHigh: number;
+  /**
+   * Days until the monthly budget is used up at the current burn rate;
+   * 0 when it already is, null without a monthly budget or any recent spend
+   */
+  daysUntilBudgetExhausted: number | null;
+  /** Number of past days the day-of-week pattern was learned from */
+  historyDays: number;
+}
+
+/** Monthly spend limits in USD, read from the `budgets` section of the config */
+export interface BudgetConfig {
+  /** Limit on the total across all providers */
+  monthly?: number;
+  /** Limits per provider, keyed by provider id (e.g. "anthropic") */
+  providers?: Record<string, number>;
+  /** Limits per project, keyed by project path (e.g. "/Users/me/repo") */
+  projects?: Record<string, number>;
+  /** Percentages of a limit at which to warn (default: [80, 100]) */
+  warnAtPercent?: number[];
+}
+
+/**
+ * Month-to-date spend against the configured budgets.
+ * Nested inside StatusMessage.aiUsage.budget.
+ */
+export interface BudgetStatus {
+  /** Total across all providers */
+  total: ProviderCostSnapshot;
+  /** Per provider id; every provider with spend this month or a budget */
+  providers: Record<string, ProviderCostSnapshot>;
+  /** Per project path; only projects with a budget */
+  projects: Record<string, ProviderCostSnapshot>;
+}
+
+/** Raised by the Gateway once when spend crosses a warnAtPercent threshold */
+export interface BudgetWarning {
+  /** Which budget was crossed */
+  scope: 'total' | 'provider' | 'project';
+  /** Provider id or project path (undefined for the total budget) */
+  key?: string;
+  /** The threshold percentage that was crossed */
+  thresholdPercent: number;
+  /** Spend against the budget when the threshold was crossed */
+  snapshot: ProviderCostSnapshot;
+  /** Human-readable description */
+  message: string;
+}
+
 // ============================================================================
 // Section 4: StatusMessage (Gateway -> Relay -> App)
 // ============================================================================
@@ -374,7 +593,7 @@ export interface ProviderCostSnapshot {
  */
 export interface StatusMessage {
   type: 'status';
-  /** Protocol version number for forward compatibility */
+  /** Protocol version the payload follows (see ProtocolAgreement) */
   version: number;
   /** ISO 8601 timestamp from the Gateway */
   timestamp: string;
@@ -398,7 +617,9 @@ export interface StatusMessage {
 export type CommandAction =
   | 'restart'       // Restart the OpenClaw gateway process
   | 'get-usage'     // Request detailed AI usage data
+  | 'get-unpriced-models' // List models used without a known price
   | 'get-logs'      // Request recent log entries
+  | 'reprice'       // Recompute stored costs with the current pricing
   | 'ping'          // Connectivity check
   | 'pair'          // Initiate pairing (internal use)
   | 'unpair';       // Remove pairing (internal use)
@@ -431,6 +652,12 @@ export interface CommandResponse {
   data?: unknown;
   /** Error message if success is false */
   error?: string;
+  /**
+   * Unique message id. A response the Gateway couldn't send while
+   * disconnected is replayed after reconnecting with the same id, so the
+   * App can ignore one it has already seen.
+   */
+  messageId?: string;
 }
 
 // ============================================================================
@@ -456,6 +683,34 @@ export interface GatewayHello {
   platform: string;
   /** CPU architecture (e.g., 'arm64') */
   arch: string;
+  /** Oldest protocol version the Gateway can speak */
+  minProtocol: number;
+  /** Newest protocol version the Gateway can speak */
+  maxProtocol: number;
+  /** Optional features the Gateway supports */
+  features: ProtocolFeature[];
+}
+
+/**
+ * Optional parts of the protocol. A Gateway leaves out what the other side
+ * doesn't support: the matching aiUsage sections of status messages, and
+ * alert messages without 'alerts'.
+ */
+export type ProtocolFeature = 'alerts' | 'budgets' | 'forecast' | 'rate-windows';
+
+/**
+ * Answer to GatewayHello, sent by the Relay or by an App (through the Relay,
+ * encrypted once keys are exchanged). Names the protocol version, within the
+ * hello's range, and the features both sides support; the Gateway shapes
+ * its status messages to match. Without an answer, the Gateway sends
+ * version 1 with every feature.
+ */
+export interface ProtocolAgreement {
+  type: 'protocol';
+  /** Chosen protocol version */
+  version: number;
+  /** Features to use */
+  features: ProtocolFeature[];
 }
 
 /**
@@ -492,6 +747,18 @@ export interface GatewayOfflineNotice {
   timestamp: string;
 }
 
+/**
+ * Sent by the Gateway before it closes the Relay connection on purpose.
+ * On 'unpair' the Relay revokes the sessions of the Gateway's Apps.
+ */
+export interface GatewayDisconnect {
+  type: 'disconnect';
+  /** Device token of the Gateway */
+  deviceToken: string;
+  /** 'quit' when the Gateway stops, 'unpair' when it forgets its Apps */
+  reason: 'quit' | 'unpair';
+}
+
 /**
  * Pairing confirmation sent by the Gateway to the Relay.
  * Used internally during the pairing flow.
@@ -504,6 +771,104 @@ export interface PairConfirmMessage {
   pairingCode: string;
 }
 
+/**
+ * An end-to-end encrypted message between the Gateway and one paired App.
+ * After the key exchange, status, command, command-response and alert
+ * messages travel only inside envelopes. The Relay can read just the header
+ * fields, which are authenticated, and routes on deviceToken and peerId.
+ *
+ * Encryption: AES-256-GCM with a random 12-byte nonce; additional data is
+ * the UTF-8 JSON array [type, deviceToken, peerId, seq]. Keys come from
+ * X25519 between the Gateway key (in the pairing QR code) and the App key
+ * (sent in KeyExchangeMessage), expanded with HKDF-SHA256 using salt =
+ * gatewayPublicKey || appPublicKey and one info string per direction:
+ * "clawface-e2e-v1 gateway->app" and "clawface-e2e-v1 app->gateway".
+ */
+export interface EncryptedEnvelope {
+  type: 'encrypted';
+  /** Gateway device token, for routing */
+  deviceToken: string;
+  /** First 16 hex digits of SHA-256 over the App's raw public key */
+  peerId: string;
+  /** Sequence number; must increase per direction (senders use max(last + 1, now in ms)) */
+  seq: number;
+  /** AES-GCM nonce (base64) */
+  nonce: string;
+  /** Encrypted JSON message followed by the 16-byte auth tag (base64) */
+  ciphertext: string;
+}
+
+/**
+ * Sent by the App right after pairing to start end-to-end encryption.
+ * The proof shows the App scanned the QR code, which the Relay never sees;
+ * the Gateway accepts it for the current or the previous pairing code.
+ */
+export interface KeyExchangeMessage {
+  type: 'key-exchange';
+  /** The App's X25519 public key (raw 32 bytes, base64url) */
+  publicKey: string;
+  /** HMAC-SHA256 over the raw public key, keyed with the decoded QR pairingSecret (base64url) */
+  proof: string;
+}
+
+/**
+ * JSON payload of the pairing QR code shown by the Gateway.
+ */
+export interface PairQrPayload {
+  /** The CLAW-XXXX pairing code */
+  code: string;
+  /** Relay WebSocket URL */
+  relay: string;
+  /** Gateway X25519 public key (raw 32 bytes, base64url) for the key exchange */
+  publicKey: string;
+  /** One-time secret (16 bytes, base64url) for the KeyExchangeMessage proof */
+  pairingSecret: string;
+}
+
+/**
+ * Sent by the Gateway's LAN server to each new client. Apps find the server
+ * with mDNS (service type "_clawface._tcp", TXT "pk" = peerId-style digest of
+ * the Gateway public key) and must authenticate within 10 seconds. Like
+ * GatewayHello it carries the Gateway's protocol range; once authenticated,
+ * the App may answer with a ProtocolAgreement (encrypted on an encrypted
+ * connection), otherwise the Gateway sends version 1 with every feature.
+ */
+export interface LanChallengeMessage {
+  type: 'lan-challenge';
+  /** Random nonce to prove a pairing secret or app key with (base64url) */
+  nonce: string;
+  /** Mac hostname for display */
+  hostname: string;
+  /** Oldest protocol version the Gateway can speak */
+  minProtocol: number;
+  /** Newest protocol version the Gateway can speak */
+  maxProtocol: number;
+  /** Optional features the Gateway supports */
+  features: ProtocolFeature[];
+}
+
+/**
+ * A LAN client's answer to the challenge: HMAC-SHA256 over the decoded
+ * nonce, keyed with the decoded QR pairingSecret (base64url). Apps that
+ * already exchanged keys send an EncryptedEnvelope of {type: 'lan-auth', nonce}
+ * instead, which also works after the pairing secret has rotated.
+ */
+export interface LanAuthMessage {
+  type: 'lan-auth';
+  proof: string;
+}
+
+/**
+ * Sent by the LAN server once a client is authenticated. From then on the
+ * connection carries the same messages as the Relay connection.
+ */
+export interface LanReadyMessage {
+  type: 'lan-ready';
+  deviceToken: string;
+  /** Whether messages on this connection are end-to-end encrypted */
+  encrypted: boolean;
+}
+
 // ============================================================================
 // Section 7: Pairing REST API
 // ============================================================================
@@ -541,8 +906,10 @@ export interface PairResponse {
 // ============================================================================
 // Section 8: Alert Rules and Notifications
 // ============================================================================
-// User-configurable alert rules evaluated on the App side against incoming
-// StatusMessage data. When a rule triggers, an AlertNotification is created.
+// User-configurable alert rules evaluated against StatusMessage data, by the
+// Gateway (rules from its config file) and by the App. When a rule triggers,
+// an AlertNotification is created; the Gateway sends its own through the
+// Relay as an AlertMessage and to the desktop app.
 // ============================================================================
 
 /** Comparison operator for alert rule conditions. */
@@ -553,8 +920,8 @@ export type AlertSeverity = 'info' | 'warning' | 'critical';
 
 /**
  * A user-defined alert rule that triggers when a monitored metric
- * crosses a threshold. Rules are evaluated locally on the App against
- * each incoming StatusMessage.
+ * crosses a threshold. Rules are evaluated against each StatusMessage,
+ * on the Gateway and locally on the App.
  *
  * Example: Alert when CPU usage > 90% for more than 30 seconds.
  */
@@ -603,6 +970,20 @@ export interface AlertNotification {
   acknowledged: boolean;
 }
 
+/**
+ * An alert triggered by a Gateway-side rule.
+ * Sent by the Gateway and forwarded by the Relay to all paired Apps.
+ */
+export interface AlertMessage {
+  type: 'alert';
+  /** Device token of the Gateway that raised the alert */
+  deviceToken: string;
+  /** The triggered alert */
+  alert: AlertNotification;
+  /** Unique message id, kept when replayed after a reconnect (see CommandResponse) */
+  messageId?: string;
+}
+
 // ============================================================================
 // Section 9: Monitor Configuration
 // ============================================================================
@@ -621,12 +1002,32 @@ export interface RelayConfig {
   statusInterval: number;
 }
 
+/** Configuration for the Gateway's LAN server (direct connections from Apps). */
+export interface LanConfig {
+  /** Whether to run the local WebSocket server */
+  enabled: boolean;
+  /** TCP port to listen on (default: 18790) */
+  port: number;
+  /** Whether to announce the server on the local network with mDNS */
+  advertise: boolean;
+}
+
 /** Configuration for AI usage tracking. */
 export interface AiUsageConfig {
   /** Whether AI usage tracking is enabled */
   enabled: boolean;
   /** Number of days to retain detailed usage data (default: 30) */
   retentionDays: number;
+  /**
+   * Per-scanner enable flags keyed by scanner id (e.g. "claude-code",
+   * "codex", "gemini-cli"). Registered scanners are enabled unless set to false.
+   */
+  scanners?: Record<string, boolean>;
+  /**
+   * Scan as soon as the scanners' log directories change (default: true).
+   * When false, or where watching isn't supported, logs are polled instead.
+   */
+  watch?: boolean;
 }
 
 /**
@@ -636,8 +1037,22 @@ export interface AiUsageConfig {
 export interface MonitorConfig {
   /** Relay connection settings */
   relay: RelayConfig;
+  /** LAN server settings; runs with or instead of the relay connection */
+  lan?: LanConfig;
   /** AI usage tracking settings */
   aiUsage: AiUsageConfig;
+  /**
+   * Price overrides and additions keyed by normalized model name.
+   * Entries replace the built-in price of the same model; reloaded when
+   * the config file changes.
+   */
+  pricing?: Record<string, ModelPricing>;
+  /** Monthly spend limits; reloaded when the config file changes */
+  budgets?: BudgetConfig;
+  /** Rate-window limits keyed by provider id (e.g. "anthropic") */
+  rateWindows?: Record<string, RateWindowLimits>;
+  /** Alert rules evaluated by the Gateway; reloaded when the config file changes */
+  alerts?: AlertRule[];
 }
 
 // ============================================================================
@@ -651,22 +1066,47 @@ export type GatewayOutboundMessage =
   | GatewayHello
   | StatusMessage
   | CommandResponse
-  | PairConfirmMessage;
+  | PairConfirmMessage
+  | GatewayDisconnect
+  | AlertMessage
+  | EncryptedEnvelope;
 
 /** All messages the Gateway can receive from the Relay. */
 export type GatewayInboundMessage =
   | CommandMessage
-  | RelayPairCode;
+  | ProtocolAgreement
+  | RelayPairCode
+  | KeyExchangeMessage
+  | EncryptedEnvelope;
 
 /** All messages the App can receive from the Relay. */
 export type AppInboundMessage =
   | StatusMessage
   | CommandResponse
+  | AlertMessage
+  | EncryptedEnvelope
   | RelayAck
   | GatewayOfflineNotice;
 
 /** All messages the App can send to the Relay. */
-export type AppOutboundMessage = CommandMessage;
+export type AppOutboundMessage = CommandMessage | ProtocolAgreement | KeyExchangeMessage | EncryptedEnvelope;
+
+/** All messages the App can receive from the Gateway's LAN server. */
+export type LanServerMessage =
+  | LanChallengeMessage
+  | LanReadyMessage
+  | StatusMessage
+  | CommandResponse
+  | AlertMessage
+  | EncryptedEnvelope;
+
+/** All messages the App can send to the Gateway's LAN server. */
+export type LanClientMessage =
+  | LanAuthMessage
+  | CommandMessage
+  | KeyExchangeMessage
+  | EncryptedEnvelope
+  | ProtocolAgreement;
 
 /**
  * Mood types for the app's face animation system.
@@ -689,9 +1129,16 @@ export type Mood =
 // Shared constants used across components.
 // ============================================================================
 
-/** Current protocol version. Increment when making breaking changes. */
+/**
+ * Current protocol version. Increment when making breaking changes. The
+ * newest version the Gateway advertises in GatewayHello and the Relay
+ * agrees to; both take it from here.
+ */
 export const PROTOCOL_VERSION = 1;
 
+/** Oldest protocol version a Gateway may still be asked to speak, and the oldest the Relay agrees to. */
+export const MIN_PROTOCOL_VERSION = 1;
+
 /** Default interval (ms) between Gateway status messages. */
 export const DEFAULT_STATUS_INTERVAL = 2000;
 